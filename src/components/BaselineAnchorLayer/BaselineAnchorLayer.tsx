@@ -0,0 +1,75 @@
+/**
+ * Anchor-point baseline overlay rendered as SVG.
+ *
+ * Draws the fitted baseline as a dashed line over the spectrum and
+ * marks each anchor point with a circle.
+ */
+
+import { useMemo } from "react";
+import type { ScaleLinear } from "d3-scale";
+import type { Spectrum } from "../../types";
+import type { ThemeColors } from "../../utils/colors";
+import { binarySearchClosest } from "../../utils/snap";
+
+export interface BaselineAnchorLayerProps {
+  /** Spectrum the baseline was fitted to. */
+  spectrum: Spectrum;
+  /** Fitted baseline, one value per spectrum point. */
+  baseline: Float64Array;
+  /** Anchor X positions. */
+  anchors: number[];
+  /** X-axis scale (zoomed). */
+  xScale: ScaleLinear<number, number>;
+  /** Y-axis scale (zoomed). */
+  yScale: ScaleLinear<number, number>;
+  /** Theme colors. */
+  colors: ThemeColors;
+  /** Baseline color. Defaults to the theme label color. */
+  color?: string;
+}
+
+/** Radius of the anchor markers. */
+const ANCHOR_RADIUS = 4;
+
+export function BaselineAnchorLayer({
+  spectrum,
+  baseline,
+  anchors,
+  xScale,
+  yScale,
+  colors,
+  color = colors.labelColor,
+}: BaselineAnchorLayerProps) {
+  const n = Math.min(spectrum.x.length, baseline.length);
+
+  const path = useMemo(() => {
+    let d = "";
+    for (let i = 0; i < n; i++) {
+      const px = xScale(spectrum.x[i] as number);
+      const py = yScale(baseline[i]);
+      d += `${i === 0 ? "M" : "L"}${px.toFixed(1)},${py.toFixed(1)}`;
+    }
+    return d;
+  }, [spectrum.x, baseline, n, xScale, yScale]);
+
+  return (
+    <g className="spectraview-baseline" pointerEvents="none">
+      <path d={path} fill="none" stroke={color} strokeWidth={1.5} strokeDasharray="6,3" />
+      {anchors.map((anchor) => {
+        const index = binarySearchClosest(spectrum.x, anchor, spectrum.x.length);
+        if (index < 0) return null;
+        return (
+          <circle
+            key={`anchor-${anchor}`}
+            cx={xScale(anchor)}
+            cy={yScale(spectrum.y[index] as number)}
+            r={ANCHOR_RADIUS}
+            fill={colors.background}
+            stroke={color}
+            strokeWidth={2}
+          />
+        );
+      })}
+    </g>
+  );
+}
@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import { render } from "@testing-library/react";
+import { scaleLinear } from "d3-scale";
+import { BaselineAnchorLayer } from "../BaselineAnchorLayer";
+import { LIGHT_THEME } from "../../../utils/colors";
+import { baselineAnchors } from "../../../utils/processing";
+import { createTestSpectrum } from "../../../test/helpers";
+
+function renderLayer(anchors: number[]) {
+  const spectrum = createTestSpectrum();
+  const { baseline } = baselineAnchors(spectrum.x, spectrum.y, anchors);
+  return render(
+    <svg>
+      <BaselineAnchorLayer
+        spectrum={spectrum}
+        baseline={baseline}
+        anchors={anchors}
+        xScale={scaleLinear().domain([400, 4000]).range([0, 715])}
+        yScale={scaleLinear().domain([0, 1]).range([330, 0])}
+        colors={LIGHT_THEME}
+      />
+    </svg>,
+  );
+}
+
+describe("BaselineAnchorLayer", () => {
+  it("draws the baseline as a dashed path", () => {
+    const { container } = renderLayer([400, 4000]);
+    const path = container.querySelector(".spectraview-baseline path");
+    expect(path).toBeTruthy();
+    expect(path!.getAttribute("stroke-dasharray")).toBe("6,3");
+    expect(path!.getAttribute("d")).toMatch(/^M0\.0,/);
+  });
+
+  it("marks each anchor with a circle", () => {
+    const { container } = renderLayer([400, 2000, 4000]);
+    const circles = container.querySelectorAll("circle");
+    expect(circles).toHaveLength(3);
+    expect(Number(circles[2].getAttribute("cx"))).toBeCloseTo(715);
+  });
+
+  it("does not intercept pointer events", () => {
+    const { container } = renderLayer([400]);
+    expect(container.querySelector(".spectraview-baseline")!.getAttribute("pointer-events")).toBe(
+      "none",
+    );
+  });
+});
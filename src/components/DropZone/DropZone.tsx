@@ -2,11 +2,20 @@
  * DropZone component for drag-and-drop file loading.
  *
  * Wraps children with drag event handling and shows a visual
- * overlay when files are dragged over.
+ * overlay when files are dragged over. Dropped files can optionally be
+ * parsed with `parseAny`, which detects each file's format from its
+ * content.
  */
 
 import { useCallback, useState, type ReactNode } from "react";
 import type { Theme } from "../../types";
+import { parseAny, type ParseAnyResult } from "../../parsers/detect";
+
+/** A dropped file that could not be parsed. */
+export interface DropParseFailure {
+  file: File;
+  error: Error;
+}
 
 export interface DropZoneProps {
   /** Whether drag-drop is enabled. */
@@ -19,6 +28,16 @@ export interface DropZoneProps {
   height: number;
   /** Callback when files are dropped. */
   onDrop?: (files: File[]) => void;
+  /**
+   * Callback with the parsed contents of dropped files (enables parsing),
+   * along with the files that failed to parse.
+   */
+  onParse?: (results: ParseAnyResult[], failures: DropParseFailure[]) => void;
+  /**
+   * Callback for each dropped file that fails to parse. An error thrown by
+   * `onParse` is reported here for each file it was given.
+   */
+  onParseError?: (error: Error, file: File) => void;
   /** Children to render inside the drop zone. */
   children: ReactNode;
 }
@@ -29,6 +48,8 @@ export function DropZone({
   width,
   height,
   onDrop,
+  onParse,
+  onParseError,
   children,
 }: DropZoneProps) {
   const [isDragging, setIsDragging] = useState(false);
@@ -75,9 +96,12 @@ export function DropZone({
       const files = Array.from(e.dataTransfer.files);
       if (files.length > 0) {
         onDrop?.(files);
+        if (onParse) {
+          void parseFiles(files, onParse, onParseError);
+        }
       }
     },
-    [enabled, onDrop],
+    [enabled, onDrop, onParse, onParseError],
   );
 
   return (
@@ -118,3 +142,40 @@ export function DropZone({
     </div>
   );
 }
+
+/**
+ * Parse dropped files in order and hand the results and failures to
+ * `onParse` together. Failures, including an error thrown by `onParse`,
+ * are also reported to `onParseError` instead of rejecting.
+ */
+async function parseFiles(
+  files: File[],
+  onParse: (results: ParseAnyResult[], failures: DropParseFailure[]) => void,
+  onParseError?: (error: Error, file: File) => void,
+): Promise<void> {
+  const results: ParseAnyResult[] = [];
+  const parsed: File[] = [];
+  const failures: DropParseFailure[] = [];
+  for (const file of files) {
+    try {
+      results.push(await parseAny(await file.arrayBuffer(), file.name));
+      parsed.push(file);
+    } catch (err) {
+      failures.push({ file, error: toError(err) });
+    }
+  }
+  for (const { file, error } of failures) {
+    onParseError?.(error, file);
+  }
+  try {
+    onParse(results, failures);
+  } catch (err) {
+    for (const file of parsed) {
+      onParseError?.(toError(err), file);
+    }
+  }
+}
+
+function toError(err: unknown): Error {
+  return err instanceof Error ? err : new Error(String(err));
+}
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi } from "vitest";
-import { render, screen, fireEvent } from "@testing-library/react";
+import { render, screen, fireEvent, waitFor } from "@testing-library/react";
 import { DropZone } from "../DropZone";
 
 describe("DropZone", () => {
@@ -59,4 +59,86 @@ describe("DropZone", () => {
     fireEvent.dragEnter(container, { dataTransfer: { files: [] } });
     expect(screen.queryByTestId("dropzone-overlay")).toBeNull();
   });
+
+  it("parses dropped files when onParse is given", async () => {
+    const onParse = vi.fn();
+    const onParseError = vi.fn();
+    render(
+      <DropZone
+        enabled
+        theme="light"
+        width={800}
+        height={400}
+        onParse={onParse}
+        onParseError={onParseError}
+      >
+        <span>Content</span>
+      </DropZone>,
+    );
+    const csv = "x,y\n1000,0.5\n2000,0.8\n";
+    const good = new File([csv], "good.txt", { type: "text/plain" });
+    const bad = new File(["???"], "bad.xyz");
+    for (const [file, content] of [[good, csv], [bad, "???"]] as const) {
+      (file as unknown as Record<string, unknown>).arrayBuffer = () =>
+        Promise.resolve(new TextEncoder().encode(content).buffer);
+    }
+
+    const container = screen.getByText("Content").parentElement!;
+    fireEvent.drop(container, { dataTransfer: { files: [good, bad] } });
+
+    await waitFor(() => expect(onParse).toHaveBeenCalled());
+    const [results, failures] = onParse.mock.calls[0];
+    expect(results).toHaveLength(1);
+    expect(results[0].format).toBe("csv");
+    expect(results[0].spectra[0].x).toHaveLength(2);
+    expect(failures).toEqual([{ file: bad, error: expect.any(Error) }]);
+    expect(onParseError).toHaveBeenCalledWith(expect.any(Error), bad);
+  });
+
+  it("passes failures to onParse without onParseError", async () => {
+    const onParse = vi.fn();
+    render(
+      <DropZone enabled theme="light" width={800} height={400} onParse={onParse}>
+        <span>Content</span>
+      </DropZone>,
+    );
+    const bad = new File(["???"], "bad.xyz");
+    (bad as unknown as Record<string, unknown>).arrayBuffer = () =>
+      Promise.resolve(new TextEncoder().encode("???").buffer);
+
+    const container = screen.getByText("Content").parentElement!;
+    fireEvent.drop(container, { dataTransfer: { files: [bad] } });
+
+    await waitFor(() => expect(onParse).toHaveBeenCalled());
+    expect(onParse).toHaveBeenCalledWith([], [{ file: bad, error: expect.any(Error) }]);
+  });
+
+  it("reports an error thrown by onParse to onParseError", async () => {
+    const error = new Error("state update failed");
+    const onParse = vi.fn(() => {
+      throw error;
+    });
+    const onParseError = vi.fn();
+    render(
+      <DropZone
+        enabled
+        theme="light"
+        width={800}
+        height={400}
+        onParse={onParse}
+        onParseError={onParseError}
+      >
+        <span>Content</span>
+      </DropZone>,
+    );
+    const csv = "x,y\n1000,0.5\n2000,0.8\n";
+    const good = new File([csv], "good.txt", { type: "text/plain" });
+    (good as unknown as Record<string, unknown>).arrayBuffer = () =>
+      Promise.resolve(new TextEncoder().encode(csv).buffer);
+
+    const container = screen.getByText("Content").parentElement!;
+    fireEvent.drop(container, { dataTransfer: { files: [good] } });
+
+    await waitFor(() => expect(onParseError).toHaveBeenCalledWith(error, good));
+  });
 });
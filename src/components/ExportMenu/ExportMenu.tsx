@@ -16,6 +16,8 @@ export interface ExportMenuProps {
   onExportCsv?: () => void;
   /** Export as JSON. */
   onExportJson?: () => void;
+  /** Export as JCAMP-DX. */
+  onExportJcamp?: () => void;
 }
 
 const menuButtonStyle = (theme: Theme): React.CSSProperties => ({
@@ -65,6 +67,7 @@ export function ExportMenu({
   onExportSvg,
   onExportCsv,
   onExportJson,
+  onExportJcamp,
 }: ExportMenuProps) {
   const [open, setOpen] = useState(false);
 
@@ -130,6 +133,16 @@ export function ExportMenu({
               JSON Data
             </button>
           )}
+          {onExportJcamp && (
+            <button
+              type="button"
+              role="menuitem"
+              style={optionStyle(theme)}
+              onClick={() => handleSelect(onExportJcamp)}
+            >
+              JCAMP-DX
+            </button>
+          )}
         </div>
       )}
     </div>
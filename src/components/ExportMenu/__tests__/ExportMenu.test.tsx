@@ -31,6 +31,14 @@ describe("ExportMenu", () => {
     expect(onExportPng).toHaveBeenCalledTimes(1);
   });
 
+  it("calls onExportJcamp handler", () => {
+    const onExportJcamp = vi.fn();
+    render(<ExportMenu theme="light" onExportJcamp={onExportJcamp} />);
+    fireEvent.click(screen.getByText("Export"));
+    fireEvent.click(screen.getByText("JCAMP-DX"));
+    expect(onExportJcamp).toHaveBeenCalledTimes(1);
+  });
+
   it("closes menu after selection", () => {
     render(
       <ExportMenu theme="light" onExportPng={() => {}} />,
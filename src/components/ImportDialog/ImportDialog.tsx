@@ -0,0 +1,393 @@
+/**
+ * Import dialog for mapping the columns of a delimited text file.
+ *
+ * Shows the first rows of the file, lets the user pick the delimiter,
+ * decimal separator, header row, X column, one or more Y columns, units
+ * and spectrum type, and previews the result in a small plot before
+ * handing the spectra to `onImport`. It starts with the detected X column
+ * and the first detected Y column; a file with a single column is read as
+ * Y values against the row number.
+ */
+
+import { useMemo, useState } from "react";
+import { scaleLinear } from "d3-scale";
+import type { Spectrum, SpectrumType, Theme } from "../../types";
+import { parseCsvColumns, previewCsv } from "../../parsers/csv";
+import { computeXExtent, computeYExtent } from "../../utils/scales";
+import { getSpectrumColor, getThemeColors } from "../../utils/colors";
+import { SpectrumCanvas } from "../SpectrumCanvas/SpectrumCanvas";
+
+export interface ImportDialogProps {
+  /** Text content of the file being imported. */
+  text: string;
+  /** File name, shown in the title. */
+  fileName?: string;
+  /**
+   * Identifies the file; the dialog starts over with detected settings
+   * when it changes. Defaults to the file name and text length.
+   */
+  fileKey?: string;
+  /** Theme for styling. Defaults to "light". */
+  theme?: Theme;
+  /** Number of rows shown in the preview table. Defaults to 10. */
+  previewRows?: number;
+  /** Width of the preview plot in pixels. Defaults to 360. */
+  plotWidth?: number;
+  /** Height of the preview plot in pixels. Defaults to 160. */
+  plotHeight?: number;
+  /** Called with the mapped spectra when the user confirms. */
+  onImport: (spectra: Spectrum[]) => void;
+  /** Called when the user cancels. */
+  onCancel?: () => void;
+}
+
+/** Delimiters offered in the dialog. */
+const DELIMITERS: { value: string; label: string }[] = [
+  { value: ",", label: "Comma" },
+  { value: ";", label: "Semicolon" },
+  { value: "\t", label: "Tab" },
+  { value: " ", label: "Space" },
+];
+
+/** Spectrum types offered in the dialog. */
+const SPECTRUM_TYPES: SpectrumType[] = ["IR", "Raman", "NIR", "UV-Vis", "fluorescence", "other"];
+
+const dialogStyle = (theme: Theme): React.CSSProperties => ({
+  display: "flex",
+  flexDirection: "column",
+  gap: 12,
+  padding: 16,
+  background: theme === "dark" ? "#1f2937" : "#ffffff",
+  border: `1px solid ${theme === "dark" ? "#4b5563" : "#d1d5db"}`,
+  borderRadius: 6,
+  boxShadow: "0 4px 16px rgba(0,0,0,0.2)",
+  color: theme === "dark" ? "#d1d5db" : "#374151",
+  fontSize: 12,
+  fontFamily: "system-ui, sans-serif",
+  maxWidth: 720,
+});
+
+const fieldStyle: React.CSSProperties = {
+  display: "flex",
+  flexDirection: "column",
+  gap: 2,
+};
+
+const inputStyle = (theme: Theme): React.CSSProperties => ({
+  height: 24,
+  padding: "0 4px",
+  border: `1px solid ${theme === "dark" ? "#4b5563" : "#d1d5db"}`,
+  borderRadius: 4,
+  background: theme === "dark" ? "#111827" : "#ffffff",
+  color: "inherit",
+  fontSize: 12,
+});
+
+const cellStyle = (theme: Theme, role: "header" | "x" | "y" | "none"): React.CSSProperties => ({
+  padding: "2px 6px",
+  borderBottom: `1px solid ${theme === "dark" ? "#374151" : "#e5e7eb"}`,
+  fontWeight: role === "header" ? 600 : 400,
+  background:
+    role === "x"
+      ? theme === "dark"
+        ? "rgba(96, 165, 250, 0.2)"
+        : "rgba(37, 99, 235, 0.1)"
+      : role === "y"
+        ? theme === "dark"
+          ? "rgba(74, 222, 128, 0.15)"
+          : "rgba(22, 163, 74, 0.08)"
+        : "transparent",
+  whiteSpace: "nowrap",
+});
+
+const buttonStyle = (theme: Theme, primary: boolean): React.CSSProperties => ({
+  height: 28,
+  padding: "0 12px",
+  border: `1px solid ${primary ? "#2563eb" : theme === "dark" ? "#4b5563" : "#d1d5db"}`,
+  borderRadius: 4,
+  background: primary ? "#2563eb" : theme === "dark" ? "#1f2937" : "#ffffff",
+  color: primary ? "#ffffff" : theme === "dark" ? "#d1d5db" : "#374151",
+  fontSize: 12,
+  cursor: "pointer",
+});
+
+export function ImportDialog(props: ImportDialogProps) {
+  // Remount for each file so the detected settings and column choices start fresh
+  return (
+    <ImportForm key={props.fileKey ?? `${props.fileName ?? ""}:${props.text.length}`} {...props} />
+  );
+}
+
+function ImportForm({
+  text,
+  fileName,
+  theme = "light",
+  previewRows = 10,
+  plotWidth = 360,
+  plotHeight = 160,
+  onImport,
+  onCancel,
+}: ImportDialogProps) {
+  const detected = useMemo(() => previewCsv(text, {}, previewRows), [text, previewRows]);
+  const colors = useMemo(() => getThemeColors(theme), [theme]);
+
+  const [delimiter, setDelimiter] = useState(detected.delimiter);
+  const [decimalSeparator, setDecimalSeparator] = useState(detected.decimalSeparator);
+  const [headerRow, setHeaderRow] = useState(detected.headerRow);
+  const [xColumn, setXColumn] = useState(detected.xColumn);
+  const [yColumns, setYColumns] = useState(detected.yColumns.slice(0, 1));
+  const [xUnit, setXUnit] = useState("");
+  const [yUnit, setYUnit] = useState("");
+  const [type, setType] = useState<SpectrumType | "">("");
+
+  const preview = useMemo(
+    () => previewCsv(text, { delimiter, decimalSeparator }, previewRows),
+    [text, delimiter, decimalSeparator, previewRows],
+  );
+  const columns = Array.from({ length: preview.columnCount }, (_, i) => i);
+  const headerCells = headerRow >= 0 ? (preview.rows[headerRow] ?? []) : [];
+  const columnName = (col: number) => headerCells[col] || `Column ${col + 1}`;
+
+  // Re-parse on every layout change so the plot and the result always agree
+  const parsed = useMemo((): { spectra: Spectrum[]; error: string | null } => {
+    try {
+      const spectra = parseCsvColumns(text, {
+        delimiter,
+        decimalSeparator,
+        headerRow,
+        xColumn,
+        yColumns: yColumns.filter((c) => c !== xColumn && c < preview.columnCount),
+      });
+      return { spectra, error: null };
+    } catch (err) {
+      return {
+        spectra: [],
+        error: err instanceof Error ? err.message : "Failed to parse file",
+      };
+    }
+  }, [text, delimiter, decimalSeparator, headerRow, xColumn, yColumns, preview.columnCount]);
+
+  // Units and type only relabel the parsed spectra
+  const result = useMemo(
+    () => ({
+      ...parsed,
+      spectra: parsed.spectra.map((s) => ({
+        ...s,
+        xUnit: xUnit || s.xUnit,
+        yUnit: yUnit || s.yUnit,
+        type: type || s.type,
+      })),
+    }),
+    [parsed, xUnit, yUnit, type],
+  );
+
+  // Color only the plotted copies so imported spectra keep the viewer palette
+  const plotSpectra = useMemo(
+    () => result.spectra.map((s, i) => ({ ...s, color: getSpectrumColor(i) })),
+    [result.spectra],
+  );
+  const xScale = useMemo(
+    () => scaleLinear().domain(computeXExtent(plotSpectra)).range([0, plotWidth]),
+    [plotSpectra, plotWidth],
+  );
+  const yScale = useMemo(
+    () => scaleLinear().domain(computeYExtent(plotSpectra)).range([plotHeight, 0]),
+    [plotSpectra, plotHeight],
+  );
+
+  const toggleYColumn = (col: number) => {
+    setYColumns((prev) =>
+      prev.includes(col) ? prev.filter((c) => c !== col) : [...prev, col].sort((a, b) => a - b),
+    );
+  };
+
+  const cellRole = (row: number, col: number) => {
+    if (row === headerRow) return "header";
+    if (col === xColumn) return "x";
+    return yColumns.includes(col) ? "y" : "none";
+  };
+
+  return (
+    <div
+      role="dialog"
+      aria-label={fileName ? `Import ${fileName}` : "Import data"}
+      style={dialogStyle(theme)}
+    >
+      <div style={{ fontSize: 14, fontWeight: 600 }}>
+        {fileName ? `Import ${fileName}` : "Import data"}
+      </div>
+
+      <div style={{ display: "flex", flexWrap: "wrap", gap: 12 }}>
+        <label style={fieldStyle}>
+          Delimiter
+          <select
+            style={inputStyle(theme)}
+            value={delimiter}
+            onChange={(e) => setDelimiter(e.target.value)}
+          >
+            {DELIMITERS.map((d) => (
+              <option key={d.label} value={d.value}>
+                {d.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label style={fieldStyle}>
+          Decimal separator
+          <select
+            style={inputStyle(theme)}
+            value={decimalSeparator}
+            onChange={(e) => setDecimalSeparator(e.target.value as "." | ",")}
+          >
+            <option value=".">Point (.)</option>
+            <option value=",">Comma (,)</option>
+          </select>
+        </label>
+        <label style={fieldStyle}>
+          Header row
+          <select
+            style={inputStyle(theme)}
+            value={headerRow}
+            onChange={(e) => setHeaderRow(Number(e.target.value))}
+          >
+            <option value={-1}>None</option>
+            {preview.rows.map((_, i) => (
+              <option key={i} value={i}>
+                Row {i + 1}
+              </option>
+            ))}
+            {headerRow >= preview.rows.length && (
+              <option value={headerRow}>Row {headerRow + 1}</option>
+            )}
+          </select>
+        </label>
+        <label style={fieldStyle}>
+          X column
+          <select
+            style={inputStyle(theme)}
+            value={xColumn}
+            onChange={(e) => setXColumn(Number(e.target.value))}
+          >
+            <option value={-1}>Row number</option>
+            {columns.map((col) => (
+              <option key={col} value={col}>
+                {columnName(col)}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label style={fieldStyle}>
+          X unit
+          <input
+            style={inputStyle(theme)}
+            value={xUnit}
+            placeholder="from header"
+            onChange={(e) => setXUnit(e.target.value)}
+          />
+        </label>
+        <label style={fieldStyle}>
+          Y unit
+          <input
+            style={inputStyle(theme)}
+            value={yUnit}
+            placeholder="from header"
+            onChange={(e) => setYUnit(e.target.value)}
+          />
+        </label>
+        <label style={fieldStyle}>
+          Spectrum type
+          <select
+            style={inputStyle(theme)}
+            value={type}
+            onChange={(e) => setType(e.target.value as SpectrumType | "")}
+          >
+            <option value="">Unspecified</option>
+            {SPECTRUM_TYPES.map((t) => (
+              <option key={t} value={t}>
+                {t}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <fieldset style={{ border: "none", margin: 0, padding: 0 }}>
+        <legend style={{ padding: 0, marginBottom: 4 }}>Y columns</legend>
+        <div style={{ display: "flex", flexWrap: "wrap", gap: 8 }}>
+          {columns
+            .filter((col) => col !== xColumn)
+            .map((col) => (
+              <label key={col} style={{ display: "inline-flex", alignItems: "center", gap: 4 }}>
+                <input
+                  type="checkbox"
+                  checked={yColumns.includes(col)}
+                  onChange={() => toggleYColumn(col)}
+                />
+                {columnName(col)}
+              </label>
+            ))}
+        </div>
+      </fieldset>
+
+      <div style={{ overflow: "auto", maxHeight: 200 }}>
+        <table style={{ borderCollapse: "collapse" }} aria-label="File preview">
+          <tbody>
+            {preview.rows.map((row, r) => (
+              <tr key={r}>
+                {columns.map((col) => (
+                  <td key={col} style={cellStyle(theme, cellRole(r, col))}>
+                    {row[col] ?? ""}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div
+        data-testid="import-preview-plot"
+        style={{
+          position: "relative",
+          width: plotWidth,
+          height: plotHeight,
+          border: `1px solid ${colors.gridColor}`,
+          borderRadius: 3,
+          background: colors.background,
+        }}
+      >
+        {plotSpectra.length > 0 && (
+          <SpectrumCanvas
+            spectra={plotSpectra}
+            xScale={xScale}
+            yScale={yScale}
+            width={plotWidth}
+            height={plotHeight}
+          />
+        )}
+      </div>
+
+      {result.error && (
+        <div role="alert" style={{ color: "#dc2626" }}>
+          {result.error}
+        </div>
+      )}
+
+      <div style={{ display: "flex", justifyContent: "flex-end", gap: 8 }}>
+        {onCancel && (
+          <button type="button" style={buttonStyle(theme, false)} onClick={onCancel}>
+            Cancel
+          </button>
+        )}
+        <button
+          type="button"
+          style={buttonStyle(theme, true)}
+          disabled={result.spectra.length === 0}
+          onClick={() => onImport(result.spectra)}
+        >
+          Import {result.spectra.length === 1 ? "1 spectrum" : `${result.spectra.length} spectra`}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+import { describe, it, expect, vi } from "vitest";
+import { render, screen, fireEvent } from "@testing-library/react";
+import { ImportDialog } from "../ImportDialog";
+
+// Mock the rendering utility to avoid canvas drawing complexity
+vi.mock("../../../utils/rendering", () => ({
+  drawAllSpectra: vi.fn(),
+}));
+
+const CSV = [
+  "Wavenumber (cm-1),Sample A,Sample B",
+  "1000,0.1,0.5",
+  "1100,0.2,0.6",
+  "1200,0.3,0.7",
+].join("\n");
+
+describe("ImportDialog", () => {
+  it("previews the first rows of the file", () => {
+    render(<ImportDialog text={CSV} fileName="data.csv" onImport={vi.fn()} />);
+
+    expect(screen.getByRole("dialog", { name: "Import data.csv" })).toBeDefined();
+    const table = screen.getByRole("table", { name: "File preview" });
+    expect(table.querySelectorAll("tr")).toHaveLength(4);
+    expect(screen.getByText("1100")).toBeDefined();
+  });
+
+  it("imports the detected X and first Y column by default", () => {
+    const onImport = vi.fn();
+    render(<ImportDialog text={CSV} onImport={onImport} />);
+
+    fireEvent.click(screen.getByRole("button", { name: "Import 1 spectrum" }));
+
+    const [spectra] = onImport.mock.calls[0];
+    expect(spectra).toHaveLength(1);
+    expect(spectra[0].label).toBe("Sample A");
+    expect(Array.from(spectra[0].x)).toEqual([1000, 1100, 1200]);
+    expect(spectra[0].xUnit).toBe("cm⁻¹");
+  });
+
+  it("imports several Y columns with units and type", () => {
+    const onImport = vi.fn();
+    render(<ImportDialog text={CSV} onImport={onImport} />);
+
+    fireEvent.click(screen.getByRole("checkbox", { name: "Sample B" }));
+    fireEvent.change(screen.getByLabelText("Y unit"), { target: { value: "Absorbance" } });
+    fireEvent.change(screen.getByLabelText("Spectrum type"), { target: { value: "IR" } });
+    fireEvent.click(screen.getByRole("button", { name: "Import 2 spectra" }));
+
+    const [spectra] = onImport.mock.calls[0];
+    expect(spectra.map((s: { label: string }) => s.label)).toEqual(["Sample A", "Sample B"]);
+    expect(spectra[1].y[2]).toBe(0.7);
+    expect(spectra[1].yUnit).toBe("Absorbance");
+    expect(spectra[1].type).toBe("IR");
+    expect(spectra[0].color).toBeUndefined();
+  });
+
+  it("re-splits the preview when the delimiter changes", () => {
+    const onImport = vi.fn();
+    render(<ImportDialog text={"x;y\n1;2,5\n2;3,5"} onImport={onImport} />);
+
+    fireEvent.change(screen.getByLabelText("Delimiter"), { target: { value: "," } });
+    expect(screen.getByRole("button", { name: /Import/ })).toHaveProperty("disabled", true);
+    expect(screen.getByRole("alert").textContent).toMatch(/No Y columns|numeric/);
+
+    fireEvent.change(screen.getByLabelText("Delimiter"), { target: { value: ";" } });
+    fireEvent.click(screen.getByRole("button", { name: "Import 1 spectrum" }));
+    expect(onImport.mock.calls[0][0][0].y[0]).toBe(2.5);
+  });
+
+  it("uses the chosen X column and header row", () => {
+    const onImport = vi.fn();
+    render(<ImportDialog text={CSV} onImport={onImport} />);
+
+    fireEvent.change(screen.getByLabelText("Header row"), { target: { value: "-1" } });
+    fireEvent.change(screen.getByLabelText("X column"), { target: { value: "2" } });
+    fireEvent.click(screen.getByRole("checkbox", { name: "Column 2" }));
+    fireEvent.click(screen.getByRole("checkbox", { name: "Column 1" }));
+    fireEvent.click(screen.getByRole("button", { name: "Import 1 spectrum" }));
+
+    const [spectrum] = onImport.mock.calls[0][0];
+    expect(Array.from(spectrum.x)).toEqual([0.5, 0.6, 0.7]);
+    expect(Array.from(spectrum.y)).toEqual([1000, 1100, 1200]);
+  });
+
+  it("starts over with detected settings when the file changes", () => {
+    const onImport = vi.fn();
+    const { rerender } = render(<ImportDialog text={CSV} onImport={onImport} />);
+
+    fireEvent.click(screen.getByRole("checkbox", { name: "Sample B" }));
+    fireEvent.change(screen.getByLabelText("Y unit"), { target: { value: "Counts" } });
+    rerender(<ImportDialog text={"x;y\n1;2,5\n2;3,5"} onImport={onImport} />);
+
+    expect((screen.getByLabelText("Delimiter") as HTMLSelectElement).value).toBe(";");
+    expect((screen.getByLabelText("Y unit") as HTMLInputElement).value).toBe("");
+    fireEvent.click(screen.getByRole("button", { name: "Import 1 spectrum" }));
+    expect(onImport.mock.calls[0][0][0].y[0]).toBe(2.5);
+  });
+
+  it("keeps the user's choices when the same file re-renders with edited text", () => {
+    const onImport = vi.fn();
+    const { rerender } = render(<ImportDialog text={CSV} fileName="a.csv" onImport={onImport} />);
+
+    fireEvent.change(screen.getByLabelText("Y unit"), { target: { value: "Counts" } });
+    rerender(
+      <ImportDialog text={CSV.replace("0.1", "0.4")} fileName="a.csv" onImport={onImport} />,
+    );
+
+    expect((screen.getByLabelText("Y unit") as HTMLInputElement).value).toBe("Counts");
+  });
+
+  it("starts with the detected numeric columns", () => {
+    const onImport = vi.fn();
+    render(
+      <ImportDialog text={"Sample,Wavenumber,A\nS1,1000,0.1\nS2,1100,0.2"} onImport={onImport} />,
+    );
+
+    fireEvent.click(screen.getByRole("button", { name: "Import 1 spectrum" }));
+    const [spectrum] = onImport.mock.calls[0][0];
+    expect(Array.from(spectrum.x)).toEqual([1000, 1100]);
+    expect(Array.from(spectrum.y)).toEqual([0.1, 0.2]);
+  });
+
+  it("imports a single-column file against the row number", () => {
+    const onImport = vi.fn();
+    render(<ImportDialog text={"0.1\n0.2\n0.3"} onImport={onImport} />);
+
+    expect(screen.queryByRole("alert")).toBeNull();
+    expect((screen.getByLabelText("X column") as HTMLSelectElement).value).toBe("-1");
+    fireEvent.click(screen.getByRole("button", { name: "Import 1 spectrum" }));
+    const [spectrum] = onImport.mock.calls[0][0];
+    expect(Array.from(spectrum.x)).toEqual([0, 1, 2]);
+    expect(Array.from(spectrum.y)).toEqual([0.1, 0.2, 0.3]);
+  });
+
+  it("offers a detected header row beyond the preview rows", () => {
+    const onImport = vi.fn();
+    const preamble = Array.from({ length: 12 }, (_, i) => `Key ${i}: value`);
+    const text = [...preamble, "x (nm),y", "400,0.1", "410,0.2"].join("\n");
+    render(<ImportDialog text={text} previewRows={5} onImport={onImport} />);
+
+    expect((screen.getByLabelText("Header row") as HTMLSelectElement).value).toBe("12");
+    fireEvent.click(screen.getByRole("button", { name: "Import 1 spectrum" }));
+    const [spectrum] = onImport.mock.calls[0][0];
+    expect(spectrum.label).toBe("y");
+    expect(spectrum.xUnit).toBe("nm");
+  });
+
+  it("does not re-parse the file when only units change", () => {
+    const onImport = vi.fn();
+    render(<ImportDialog text={CSV} onImport={onImport} />);
+
+    fireEvent.click(screen.getByRole("button", { name: "Import 1 spectrum" }));
+    fireEvent.change(screen.getByLabelText("Y unit"), { target: { value: "Absorbance" } });
+    fireEvent.click(screen.getByRole("button", { name: "Import 1 spectrum" }));
+
+    const [[first], [second]] = onImport.mock.calls.map((call) => call[0]);
+    expect(second.yUnit).toBe("Absorbance");
+    expect(second.id).toBe(first.id);
+    expect(second.y).toBe(first.y);
+  });
+
+  it("renders the preview plot", () => {
+    const { container } = render(<ImportDialog text={CSV} onImport={vi.fn()} />);
+    expect(screen.getByTestId("import-preview-plot")).toBeDefined();
+    expect(container.querySelector("canvas")).toBeTruthy();
+  });
+
+  it("calls onCancel", () => {
+    const onCancel = vi.fn();
+    render(<ImportDialog text={CSV} onImport={vi.fn()} onCancel={onCancel} />);
+    fireEvent.click(screen.getByRole("button", { name: "Cancel" }));
+    expect(onCancel).toHaveBeenCalled();
+  });
+});
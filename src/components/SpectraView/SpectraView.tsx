@@ -34,7 +34,9 @@ import { Toolbar } from "../Toolbar/Toolbar";
 import { Legend } from "../Legend/Legend";
 import { DropZone } from "../DropZone/DropZone";
 import { StackedView } from "../StackedView/StackedView";
+import { BaselineAnchorLayer } from "../BaselineAnchorLayer/BaselineAnchorLayer";
 import { useRegionSelect } from "../../hooks/useRegionSelect";
+import { useBaselineAnchors } from "../../hooks/useBaselineAnchors";
 import { useResizeObserver } from "../../hooks/useResizeObserver";
 import { useKeyboardNavigation } from "../../hooks/useKeyboardNavigation";
 import { generateChartDescription } from "../../utils/a11y";
@@ -72,6 +74,7 @@ function resolveConfig(props: SpectraViewProps): ResolvedConfig {
     responsive: props.responsive ?? false,
     enableDragDrop: props.enableDragDrop ?? false,
     enableRegionSelect: props.enableRegionSelect ?? false,
+    enableBaselineAnchors: props.enableBaselineAnchors ?? false,
   };
 }
 
@@ -102,6 +105,7 @@ export function SpectraView(props: SpectraViewProps) {
     onToggleVisibility,
     onFileDrop,
     onRegionSelect,
+    onBaselineChange,
     canvasRef,
     snapCrosshair = true,
   } = props;
@@ -128,6 +132,7 @@ export function SpectraView(props: SpectraViewProps) {
     props.responsive,
     props.enableDragDrop,
     props.enableRegionSelect,
+    props.enableBaselineAnchors,
   ]);
 
   // Use measured width when responsive, fall back to configured width
@@ -196,6 +201,24 @@ export function SpectraView(props: SpectraViewProps) {
     onRegionSelect,
   });
 
+  // Anchor-point baseline (click to add/remove anchors)
+  const baselineSpectrum = useMemo(
+    () =>
+      props.baselineSpectrumId !== undefined
+        ? spectra.find((s) => s.id === props.baselineSpectrumId)
+        : spectra.find((s) => s.visible !== false),
+    [spectra, props.baselineSpectrumId],
+  );
+  const { result: anchorBaseline, handleClick: baselineClick } = useBaselineAnchors({
+    enabled: config.enableBaselineAnchors,
+    xScale: zoomedXScale,
+    spectrum: baselineSpectrum,
+    method: props.baselineMethod,
+    degree: props.baselineDegree,
+    initialAnchors: props.initialBaselineAnchors,
+    onBaselineChange,
+  });
+
   // Highlighted spectrum for legend hover
   const [highlightedId, setHighlightedId] = useState<string | null>(null);
 
@@ -443,6 +466,18 @@ export function SpectraView(props: SpectraViewProps) {
                       onPeakClick={onPeakClick}
                     />
                   )}
+
+                  {/* Anchor-point baseline */}
+                  {config.enableBaselineAnchors && baselineSpectrum && anchorBaseline && (
+                    <BaselineAnchorLayer
+                      spectrum={baselineSpectrum}
+                      baseline={anchorBaseline.baseline}
+                      anchors={anchorBaseline.anchors}
+                      xScale={zoomedXScale}
+                      yScale={zoomedYScale}
+                      colors={colors}
+                    />
+                  )}
                 </g>
 
                 {/* Annotations */}
@@ -498,6 +533,7 @@ export function SpectraView(props: SpectraViewProps) {
                     regionMouseMove(e);
                   }}
                   onMouseUp={regionMouseUp}
+                  onClick={baselineClick}
                   onMouseLeave={handleMouseLeave}
                 />
               </g>
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi } from "vitest";
-import { render, screen } from "@testing-library/react";
+import { render, screen, fireEvent } from "@testing-library/react";
 import { scaleLinear } from "d3-scale";
 import { SpectraView } from "../SpectraView";
 import {
@@ -87,6 +87,38 @@ describe("SpectraView", () => {
     expect(rects.length).toBe(2);
   });
 
+  it("adds baseline anchors on click and reports the fitted baseline", () => {
+    const onBaselineChange = vi.fn();
+    const { container } = render(
+      <SpectraView
+        spectra={[createTestSpectrum()]}
+        enableBaselineAnchors
+        onBaselineChange={onBaselineChange}
+      />,
+    );
+
+    const interaction = container.querySelector('rect[fill="transparent"]')!;
+    fireEvent.click(interaction, { clientX: 0 });
+    fireEvent.click(interaction, { clientX: 715 });
+
+    expect(onBaselineChange).toHaveBeenLastCalledWith(
+      expect.objectContaining({ spectrumId: "test-spectrum-1", anchors: [400, 4000] }),
+    );
+    expect(container.querySelectorAll(".spectraview-baseline circle")).toHaveLength(2);
+  });
+
+  it("ignores clicks when baseline anchors are disabled", () => {
+    const onBaselineChange = vi.fn();
+    const { container } = render(
+      <SpectraView spectra={[createTestSpectrum()]} onBaselineChange={onBaselineChange} />,
+    );
+
+    fireEvent.click(container.querySelector('rect[fill="transparent"]')!, { clientX: 100 });
+
+    expect(onBaselineChange).not.toHaveBeenCalled();
+    expect(container.querySelector(".spectraview-baseline")).toBeNull();
+  });
+
   it("applies className prop", () => {
     const { container } = render(
       <SpectraView spectra={[createTestSpectrum()]} className="my-custom-class" />,
@@ -19,3 +19,5 @@ export { Tooltip } from "./Tooltip/Tooltip";
 export { DataTable } from "./DataTable/DataTable";
 export { StackedView } from "./StackedView/StackedView";
 export { ExportMenu } from "./ExportMenu/ExportMenu";
+export { ImportDialog } from "./ImportDialog/ImportDialog";
+export { BaselineAnchorLayer } from "./BaselineAnchorLayer/BaselineAnchorLayer";
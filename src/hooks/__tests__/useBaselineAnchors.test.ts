@@ -0,0 +1,131 @@
+import { describe, it, expect, vi } from "vitest";
+import { renderHook, act } from "@testing-library/react";
+import { scaleLinear } from "d3-scale";
+import { useBaselineAnchors } from "../useBaselineAnchors";
+import type { Spectrum } from "../../types";
+
+// 101 points at x = 0…100, mapped to 0…800 px (8 px per point)
+const xScale = scaleLinear().domain([0, 100]).range([0, 800]);
+
+const spectrum: Spectrum = {
+  id: "s1",
+  label: "Test",
+  x: Array.from({ length: 101 }, (_, i) => i),
+  y: Array.from({ length: 101 }, (_, i) => 1 + 0.01 * i + Math.exp(-(((i - 50) / 5) ** 2))),
+};
+
+function makeClick(px: number, shiftKey = false) {
+  return {
+    shiftKey,
+    clientX: px,
+    clientY: 50,
+    currentTarget: {
+      getBoundingClientRect: () => ({ left: 0, top: 0 }),
+    },
+  } as unknown as React.MouseEvent<SVGRectElement>;
+}
+
+describe("useBaselineAnchors", () => {
+  it("starts with no anchors and no baseline", () => {
+    const { result } = renderHook(() => useBaselineAnchors({ enabled: true, xScale, spectrum }));
+    expect(result.current.anchors).toEqual([]);
+    expect(result.current.result).toBeNull();
+  });
+
+  it("adds an anchor at the nearest data point on click", () => {
+    const { result } = renderHook(() => useBaselineAnchors({ enabled: true, xScale, spectrum }));
+    act(() => result.current.handleClick(makeClick(83)));
+    expect(result.current.anchors).toEqual([10]);
+    expect(result.current.result?.spectrumId).toBe("s1");
+  });
+
+  it("removes an anchor when clicking on it", () => {
+    const { result } = renderHook(() =>
+      useBaselineAnchors({ enabled: true, xScale, spectrum, initialAnchors: [10, 90] }),
+    );
+    act(() => result.current.handleClick(makeClick(82)));
+    expect(result.current.anchors).toEqual([90]);
+  });
+
+  it("ignores clicks when disabled or with Shift held", () => {
+    const { result, rerender } = renderHook(
+      ({ enabled }) => useBaselineAnchors({ enabled, xScale, spectrum }),
+      { initialProps: { enabled: false } },
+    );
+    act(() => result.current.handleClick(makeClick(400)));
+    rerender({ enabled: true });
+    act(() => result.current.handleClick(makeClick(400, true)));
+    expect(result.current.anchors).toEqual([]);
+  });
+
+  it("fits the baseline with the chosen method", () => {
+    const { result } = renderHook(() =>
+      useBaselineAnchors({
+        enabled: true,
+        xScale,
+        spectrum,
+        method: "linear",
+        initialAnchors: [90, 10],
+      }),
+    );
+    expect(result.current.anchors).toEqual([10, 90]);
+    // Linear background is recovered under the band
+    expect(result.current.result!.baseline[50]).toBeCloseTo(1.5, 6);
+    expect(result.current.result!.corrected[50]).toBeCloseTo(1, 6);
+  });
+
+  it("reports refits and clearing through onBaselineChange", () => {
+    const onBaselineChange = vi.fn();
+    const { result } = renderHook(() =>
+      useBaselineAnchors({ enabled: true, xScale, spectrum, onBaselineChange }),
+    );
+    expect(onBaselineChange).not.toHaveBeenCalled();
+
+    act(() => result.current.setAnchors([20, 80]));
+    expect(onBaselineChange).toHaveBeenLastCalledWith(
+      expect.objectContaining({ spectrumId: "s1", anchors: [20, 80] }),
+    );
+
+    act(() => result.current.clearAnchors());
+    expect(onBaselineChange).toHaveBeenLastCalledWith(null);
+    expect(onBaselineChange).toHaveBeenCalledTimes(2);
+  });
+
+  it("neither fits nor reports while disabled", () => {
+    const onBaselineChange = vi.fn();
+    const { result, rerender } = renderHook(
+      ({ enabled }) =>
+        useBaselineAnchors({
+          enabled,
+          xScale,
+          spectrum,
+          initialAnchors: [10, 90],
+          onBaselineChange,
+        }),
+      { initialProps: { enabled: false } },
+    );
+    expect(result.current.result).toBeNull();
+    expect(onBaselineChange).not.toHaveBeenCalled();
+
+    rerender({ enabled: true });
+    expect(onBaselineChange).toHaveBeenCalledTimes(1);
+  });
+
+  it("reports only the anchors within the spectrum", () => {
+    const onBaselineChange = vi.fn();
+    const { result } = renderHook(() =>
+      useBaselineAnchors({
+        enabled: true,
+        xScale,
+        spectrum,
+        initialAnchors: [-20, 10, 90, 150],
+        onBaselineChange,
+      }),
+    );
+    expect(result.current.anchors).toEqual([-20, 10, 90, 150]);
+    expect(result.current.result!.anchors).toEqual([10, 90]);
+    expect(onBaselineChange).toHaveBeenLastCalledWith(
+      expect.objectContaining({ anchors: [10, 90] }),
+    );
+  });
+});
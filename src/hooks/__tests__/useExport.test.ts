@@ -50,6 +50,7 @@ describe("useExport", () => {
     expect(typeof result.current.exportSvg).toBe("function");
     expect(typeof result.current.exportCsv).toBe("function");
     expect(typeof result.current.exportJson).toBe("function");
+    expect(typeof result.current.exportJcamp).toBe("function");
   });
 
   it("exportCsv generates single-spectrum CSV with header", () => {
@@ -112,6 +113,27 @@ describe("useExport", () => {
     expect(mockCreateObjectURL).toHaveBeenCalledTimes(1);
   });
 
+  it("exportJcamp downloads visible spectra", () => {
+    const { result } = renderHook(() => useExport());
+    const spectra = [
+      makeSpectrum({ id: "a", visible: true }),
+      makeSpectrum({ id: "b", visible: false }),
+    ];
+
+    result.current.exportJcamp(spectra, "test.jdx");
+
+    expect(mockCreateObjectURL).toHaveBeenCalledTimes(1);
+    expect(mockClick).toHaveBeenCalledTimes(1);
+  });
+
+  it("exportJcamp skips when all spectra are hidden", () => {
+    const { result } = renderHook(() => useExport());
+
+    result.current.exportJcamp([makeSpectrum({ visible: false })]);
+
+    expect(mockCreateObjectURL).not.toHaveBeenCalled();
+  });
+
   it("exportSvg calls generateSvg and downloadSvg", async () => {
     const { generateSvg, downloadSvg } = await import(
       "../../utils/svg-export"
@@ -128,4 +128,29 @@ describe("useHistory", () => {
     expect(result.current.undoCount).toBe(1);
     expect(result.current.redoCount).toBe(1);
   });
+
+  it("applies successive updates to the latest state", () => {
+    const { result } = renderHook(() =>
+      useHistory({ initialState: 0 }),
+    );
+
+    act(() => {
+      result.current.update((n) => n + 1);
+      result.current.update((n) => n * 10);
+      result.current.undo();
+      result.current.update((n) => n + 5);
+    });
+    expect(result.current.state).toBe(6);
+    expect(result.current.undoCount).toBe(2);
+    expect(result.current.canRedo).toBe(false);
+  });
+
+  it("records nothing when an update returns the same state", () => {
+    const { result } = renderHook(() =>
+      useHistory({ initialState: 0 }),
+    );
+
+    act(() => result.current.update((n) => n));
+    expect(result.current.canUndo).toBe(false);
+  });
 });
@@ -1,6 +1,12 @@
 import { describe, it, expect } from "vitest";
 import { renderHook } from "@testing-library/react";
 import { useNormalization } from "../useNormalization";
+import {
+  baselineRollingBall,
+  baselineSNIP,
+  derivative1st,
+  derivative2nd,
+} from "../../utils/processing";
 import type { Spectrum } from "../../types";
 
 const spectrum: Spectrum = {
@@ -19,6 +25,14 @@ describe("useNormalization", () => {
     expect(result.current.modeLabel).toBe("Raw");
   });
 
+  it("keeps the original metadata of transformed spectra", () => {
+    const withMeta = { ...spectrum, meta: { sample: "A" } };
+    const { result } = renderHook(() =>
+      useNormalization({ spectra: [withMeta], mode: "snv" }),
+    );
+    expect(result.current.spectra[0].meta).toEqual({ sample: "A" });
+  });
+
   it("normalizes to [0,1] in 'min-max' mode", () => {
     const { result } = renderHook(() =>
       useNormalization({ spectra: [spectrum], mode: "min-max" }),
@@ -54,6 +68,30 @@ describe("useNormalization", () => {
     expect(result.current.modeLabel).toBe("Baseline Corrected");
   });
 
+  it("applies SNIP and rolling-ball baselines", () => {
+    const { result, rerender } = renderHook(
+      ({ mode }: { mode: "snip" | "rolling-ball" }) =>
+        useNormalization({
+          spectra: [spectrum],
+          mode,
+          snipIterations: 2,
+          snipLLS: true,
+          rollingBallWindow: 1,
+        }),
+      { initialProps: { mode: "snip" } },
+    );
+    const snip = baselineSNIP(spectrum.y, { iterations: 2, lls: true }).corrected;
+    expect(Array.from(result.current.spectra[0].y)).toEqual(Array.from(snip));
+    expect(Array.from(snip)).not.toEqual(spectrum.y);
+    expect(result.current.modeLabel).toBe("SNIP Baseline Corrected");
+
+    rerender({ mode: "rolling-ball" });
+    const rolled = baselineRollingBall(spectrum.y, { halfWindow: 1 }).corrected;
+    expect(Array.from(result.current.spectra[0].y)).toEqual(Array.from(rolled));
+    expect(Array.from(rolled)).not.toEqual(spectrum.y);
+    expect(result.current.modeLabel).toBe("Rolling-Ball Baseline Corrected");
+  });
+
   it("applies smoothing", () => {
     const { result } = renderHook(() =>
       useNormalization({ spectra: [spectrum], mode: "smooth", smoothWindow: 5 }),
@@ -70,6 +108,55 @@ describe("useNormalization", () => {
     expect(result.current.modeLabel).toBe("1st Derivative");
   });
 
+  it("passes Savitzky-Golay parameters to smoothing", () => {
+    const { result } = renderHook(() =>
+      useNormalization({
+        spectra: [spectrum],
+        mode: "smooth",
+        smoothWindow: 5,
+        polyOrder: 4,
+      }),
+    );
+    // A quartic through 5 points reproduces the data
+    expect(Array.from(result.current.spectra[0].y)).toEqual(spectrum.y);
+  });
+
+  it("computes higher derivatives with a matching label", () => {
+    const quadratic: Spectrum = {
+      ...spectrum,
+      x: spectrum.x.map((v) => (v as number) * 2),
+      y: spectrum.x.map((v) => (v as number) ** 2),
+    };
+    const { result } = renderHook(() =>
+      useNormalization({
+        spectra: [quadratic],
+        mode: "derivative",
+        derivativeOrder: 2,
+        smoothWindow: 5,
+      }),
+    );
+    // y = (x/2)² so d²y/dx² = 0.5 everywhere
+    for (const v of result.current.spectra[0].y) expect(v).toBeCloseTo(0.5, 8);
+    expect(result.current.modeLabel).toBe("2nd Derivative");
+  });
+
+  it("uses central differences for derivatives of unevenly spaced X", () => {
+    const uneven: Spectrum = { ...spectrum, x: [0, 1, 3, 4, 6, 7, 9, 10, 12, 13] };
+    const { result, rerender } = renderHook(
+      ({ order }: { order: 1 | 2 }) =>
+        useNormalization({ spectra: [uneven], mode: "derivative", derivativeOrder: order }),
+      { initialProps: { order: 1 } },
+    );
+    expect(Array.from(result.current.spectra[0].y)).toEqual(
+      Array.from(derivative1st(uneven.x, uneven.y)),
+    );
+
+    rerender({ order: 2 });
+    expect(Array.from(result.current.spectra[0].y)).toEqual(
+      Array.from(derivative2nd(uneven.x, uneven.y)),
+    );
+  });
+
   it("preserves spectrum metadata", () => {
     const sp: Spectrum = { ...spectrum, xUnit: "cm⁻¹", color: "#ff0000" };
     const { result } = renderHook(() =>
@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest";
+import { renderHook } from "@testing-library/react";
+import { useProcessingPipeline } from "../useProcessingPipeline";
+import type { ProcessingPipeline } from "../../utils/pipeline";
+import type { Spectrum } from "../../types";
+
+const spectra: Spectrum[] = [
+  {
+    id: "s1",
+    label: "Test",
+    x: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+    y: [10, 20, 50, 80, 100, 90, 60, 30, 15, 10],
+  },
+];
+
+describe("useProcessingPipeline", () => {
+  it("returns the input spectra for an empty pipeline", () => {
+    const { result } = renderHook(() => useProcessingPipeline(spectra, { steps: [] }));
+    expect(result.current.spectra).toBe(spectra);
+    expect(result.current.intermediate).toEqual([]);
+    expect(result.current.error).toBeNull();
+  });
+
+  it("exposes the output of each step", () => {
+    const { result } = renderHook(() =>
+      useProcessingPipeline(spectra, { steps: [{ type: "rubber-band" }, { type: "min-max" }] }),
+    );
+    expect(result.current.intermediate).toHaveLength(2);
+    expect(result.current.spectra).toBe(result.current.intermediate[1]);
+  });
+
+  it("reuses earlier steps when a later step changes", () => {
+    const { result, rerender } = renderHook(
+      ({ pipeline }: { pipeline: ProcessingPipeline }) => useProcessingPipeline(spectra, pipeline),
+      {
+        initialProps: {
+          pipeline: { steps: [{ type: "rubber-band" }, { type: "smooth", windowSize: 5 }] },
+        },
+      },
+    );
+    const [baseline, smoothed] = result.current.intermediate;
+
+    rerender({ pipeline: { steps: [{ type: "rubber-band" }, { type: "smooth", windowSize: 7 }] } });
+    expect(result.current.intermediate[0]).toBe(baseline);
+    expect(result.current.intermediate[1]).not.toBe(smoothed);
+  });
+
+  it("recomputes when provenance is switched off", () => {
+    const { result, rerender } = renderHook(
+      ({ provenance }: { provenance: boolean }) =>
+        useProcessingPipeline(spectra, { steps: [{ type: "snv" }] }, { provenance }),
+      { initialProps: { provenance: true } },
+    );
+    expect(result.current.spectra[0].meta?.processing).toBeDefined();
+
+    rerender({ provenance: false });
+    expect(result.current.spectra[0].meta).toBeUndefined();
+  });
+
+  it("stops at a failing step and reports its error", () => {
+    const shifted = {
+      ...spectra[0],
+      id: "s2",
+      label: "Shifted",
+      x: spectra[0].x.map((v) => v + 0.5),
+    };
+    const { result } = renderHook(() =>
+      useProcessingPipeline([...spectra, shifted], {
+        steps: [{ type: "min-max" }, { type: "msc" }, { type: "snv" }],
+      }),
+    );
+
+    expect(result.current.error).toMatch(/^Step 2 \(msc\): .*X grid/);
+    expect(result.current.intermediate).toHaveLength(1);
+    expect(result.current.spectra).toBe(result.current.intermediate[0]);
+  });
+
+  it("does not recompute for an equal pipeline object", () => {
+    const { result, rerender } = renderHook(() =>
+      useProcessingPipeline(spectra, { steps: [{ type: "snv" }] }),
+    );
+    const first = result.current.spectra;
+    rerender();
+    expect(result.current.spectra).toBe(first);
+  });
+});
@@ -1,10 +1,12 @@
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, vi, afterEach } from "vitest";
 import { renderHook, act } from "@testing-library/react";
 import { useSpectrumData } from "../useSpectrumData";
 import { createTestSpectrum, createTestSpectrum2 } from "../../test/helpers";
+import { writeSpc } from "../../parsers/spc";
+import { createFakeWorker, FakeParseWorker } from "../../test/fake-worker";
 
 /**
- * Create a File-like object whose .text() works in jsdom.
+ * Create a File-like object whose .text() and .arrayBuffer() work in jsdom.
  * jsdom's File constructor doesn't always implement Blob.prototype.text(),
  * so we build from a Blob and attach the `name` property.
  */
@@ -14,6 +16,16 @@ function createFile(content: string, name: string, type: string): File {
   // jsdom's File.text() is broken — unconditionally override
   (file as unknown as Record<string, unknown>).text = () =>
     Promise.resolve(content);
+  (file as unknown as Record<string, unknown>).arrayBuffer = () =>
+    Promise.resolve(new TextEncoder().encode(content).buffer);
+  return file;
+}
+
+/** Create a binary File-like object whose .arrayBuffer() works in jsdom. */
+function createBinaryFile(buffer: ArrayBuffer, name: string): File {
+  const file = new File([buffer], name, { type: "application/octet-stream" });
+  (file as unknown as Record<string, unknown>).arrayBuffer = () =>
+    Promise.resolve(buffer);
   return file;
 }
 
@@ -24,6 +36,7 @@ describe("useSpectrumData", () => {
     expect(result.current.spectra).toEqual([]);
     expect(result.current.loading).toBe(false);
     expect(result.current.error).toBeNull();
+    expect(result.current.warnings).toEqual([]);
   });
 
   it("initializes with provided initial spectra", () => {
@@ -141,6 +154,24 @@ describe("useSpectrumData", () => {
     expect(result.current.loading).toBe(false);
   });
 
+  it("exposes parser warnings and clears them on the next load", async () => {
+    const { result } = renderHook(() => useSpectrumData());
+
+    await act(async () => {
+      await result.current.loadText("x,y\n1,2\nbad,row\n3,4", "csv");
+    });
+
+    expect(result.current.spectra).toHaveLength(1);
+    expect(result.current.warnings).toHaveLength(1);
+    expect(result.current.warnings[0]).toMatchObject({ format: "csv", line: 3 });
+
+    await act(async () => {
+      await result.current.loadText("x,y\n1,2\n3,4", "csv");
+    });
+
+    expect(result.current.warnings).toEqual([]);
+  });
+
   it("loadFile detects format from .csv extension", async () => {
     const { result } = renderHook(() => useSpectrumData());
     const csvContent = "wavenumber,absorbance\n1000,0.5\n2000,0.8\n3000,0.3\n";
@@ -166,4 +197,280 @@ describe("useSpectrumData", () => {
     expect(result.current.error).toMatch(/unsupported/i);
     expect(result.current.spectra).toHaveLength(0);
   });
+
+  it("loadFile reads .spc files as binary", async () => {
+    const { result } = renderHook(() => useSpectrumData());
+    const file = createBinaryFile(writeSpc([createTestSpectrum()]), "sample.spc");
+
+    await act(async () => {
+      await result.current.loadFile(file);
+    });
+
+    expect(result.current.error).toBeNull();
+    expect(result.current.spectra).toHaveLength(1);
+    expect(result.current.spectra[0].meta?.format).toBe("SPC");
+  });
+
+  it("loadFile treats numbered extensions as Bruker OPUS", async () => {
+    const { result } = renderHook(() => useSpectrumData());
+    const file = createBinaryFile(new ArrayBuffer(64), "sample.0");
+
+    await act(async () => {
+      await result.current.loadFile(file);
+    });
+
+    expect(result.current.error).toMatch(/OPUS/);
+    expect(result.current.loading).toBe(false);
+  });
+
+  it("loadFile routes .spa and .spg files to the OMNIC parser", async () => {
+    const { result } = renderHook(() => useSpectrumData());
+    const file = createBinaryFile(new ArrayBuffer(512), "sample.spg");
+
+    await act(async () => {
+      await result.current.loadFile(file);
+    });
+
+    expect(result.current.error).toMatch(/OMNIC/);
+  });
+
+  it("loadFile sniffs JCAMP-DX content in a .txt file", async () => {
+    const { result } = renderHook(() => useSpectrumData());
+    const jcamp = [
+      "##TITLE=Sniffed",
+      "##JCAMP-DX=4.24",
+      "##DATA TYPE=INFRARED SPECTRUM",
+      "##XUNITS=1/CM",
+      "##YUNITS=ABSORBANCE",
+      "##NPOINTS=3",
+      "##XYPOINTS=(XY..XY)",
+      "1000, 0.1",
+      "2000, 0.2",
+      "3000, 0.3",
+      "##END=",
+    ].join("\n");
+    const file = createFile(jcamp, "export.txt", "text/plain");
+
+    await act(async () => {
+      await result.current.loadFile(file);
+    });
+
+    expect(result.current.error).toBeNull();
+    expect(result.current.spectra[0].label).toBe("Sniffed");
+  });
+});
+
+describe("useSpectrumData collection management", () => {
+  const csv = (rows: string) => `x,y\n${rows}`;
+
+  it("loadBuffer parses binary content without detaching the buffer", async () => {
+    const { result } = renderHook(() => useSpectrumData());
+    const buffer = writeSpc([createTestSpectrum()]);
+
+    await act(async () => {
+      await result.current.loadBuffer(buffer, "sample.spc");
+    });
+
+    expect(result.current.error).toBeNull();
+    expect(result.current.spectra[0].meta?.format).toBe("SPC");
+    expect(buffer.byteLength).toBeGreaterThan(0);
+  });
+
+  it("updateSpectrum renames and recolors in place", () => {
+    const s1 = createTestSpectrum();
+    const s2 = createTestSpectrum2();
+    const { result } = renderHook(() => useSpectrumData([s1, s2]));
+
+    act(() => {
+      result.current.updateSpectrum(s1.id, { label: "Renamed", color: "#ff0000" });
+    });
+
+    expect(result.current.spectra[0]).toMatchObject({
+      id: s1.id,
+      label: "Renamed",
+      color: "#ff0000",
+    });
+    expect(result.current.spectra[1]).toBe(s2);
+  });
+
+  it("replaceSpectrum keeps the position", () => {
+    const s1 = createTestSpectrum();
+    const s2 = createTestSpectrum2();
+    const replacement = createTestSpectrum({ id: "replacement" });
+    const { result } = renderHook(() => useSpectrumData([s1, s2]));
+
+    act(() => {
+      result.current.replaceSpectrum(s1.id, replacement);
+    });
+
+    expect(result.current.spectra.map((s) => s.id)).toEqual(["replacement", s2.id]);
+  });
+
+  it("moveSpectrum reorders and clamps the target index", () => {
+    const spectra = ["a", "b", "c"].map((id) => createTestSpectrum({ id }));
+    const { result } = renderHook(() => useSpectrumData(spectra));
+
+    act(() => {
+      result.current.moveSpectrum("a", 2);
+    });
+    expect(result.current.spectra.map((s) => s.id)).toEqual(["b", "c", "a"]);
+
+    act(() => {
+      result.current.moveSpectrum("c", -5);
+    });
+    expect(result.current.spectra.map((s) => s.id)).toEqual(["c", "b", "a"]);
+  });
+
+  it("skips duplicate uploads and reports them per file", async () => {
+    const { result } = renderHook(() => useSpectrumData());
+    const files = [
+      createFile(csv("1,2\n3,4"), "a.csv", "text/csv"),
+      createFile(csv("1,2\n3,4"), "copy-of-a.csv", "text/csv"),
+      createFile(csv("1,5\n3,6"), "b.csv", "text/csv"),
+      createFile("nonsense", "notes.md", "text/plain"),
+    ];
+
+    await act(async () => {
+      await result.current.loadFiles(files);
+    });
+
+    expect(result.current.spectra).toHaveLength(2);
+    expect(result.current.files.map((f) => [f.name, f.status])).toEqual([
+      ["a.csv", "loaded"],
+      ["copy-of-a.csv", "duplicate"],
+      ["b.csv", "loaded"],
+      ["notes.md", "error"],
+    ]);
+    expect(result.current.files[0]).toMatchObject({
+      format: "csv",
+      spectrumIds: [result.current.spectra[0].id],
+      duplicates: 0,
+    });
+    expect(result.current.files[1].duplicates).toBe(1);
+    expect(result.current.error).toMatch(/Unsupported file format: notes\.md/);
+    expect(result.current.loading).toBe(false);
+  });
+
+  it("keeps duplicates when allowed", async () => {
+    const { result } = renderHook(() => useSpectrumData([], { allowDuplicates: true }));
+
+    await act(async () => {
+      await result.current.loadText(csv("1,2\n3,4"), "csv");
+      await result.current.loadText(csv("1,2\n3,4"), "csv");
+    });
+
+    expect(result.current.spectra).toHaveLength(2);
+  });
+
+  it("summarises several failed files in the error", async () => {
+    const { result } = renderHook(() => useSpectrumData());
+
+    await act(async () => {
+      await result.current.loadFiles([
+        createFile("x", "a.md", "text/plain"),
+        createFile("y", "b.md", "text/plain"),
+      ]);
+    });
+
+    expect(result.current.error).toBe("2 of 2 files failed to load");
+  });
+
+  it("undoes and redoes every collection change", async () => {
+    const s1 = createTestSpectrum();
+    const { result } = renderHook(() => useSpectrumData([s1]));
+    expect(result.current.canUndo).toBe(false);
+
+    await act(async () => {
+      await result.current.loadText(csv("1,2\n3,4"), "csv");
+    });
+    act(() => {
+      result.current.updateSpectrum(s1.id, { label: "Renamed" });
+      result.current.removeSpectrum(s1.id);
+    });
+    expect(result.current.spectra).toHaveLength(1);
+
+    act(() => {
+      result.current.undo();
+    });
+    expect(result.current.spectra.map((s) => s.label)).toEqual(["Renamed", expect.any(String)]);
+
+    act(() => {
+      result.current.undo();
+      result.current.undo();
+    });
+    expect(result.current.spectra).toEqual([s1]);
+    expect(result.current.canUndo).toBe(false);
+
+    act(() => {
+      result.current.redo();
+    });
+    expect(result.current.spectra).toHaveLength(2);
+    expect(result.current.canRedo).toBe(true);
+  });
+
+  it("does not record changes that leave the collection unchanged", () => {
+    const s1 = createTestSpectrum();
+    const { result } = renderHook(() => useSpectrumData([s1]));
+
+    act(() => {
+      result.current.removeSpectrum("missing");
+      result.current.moveSpectrum(s1.id, 0);
+      result.current.updateSpectrum("missing", { label: "x" });
+    });
+
+    expect(result.current.canUndo).toBe(false);
+  });
+});
+
+describe("useSpectrumData worker loading", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("parses on the main thread when Worker is unavailable", async () => {
+    const createWorker = vi.fn(createFakeWorker);
+    const { result } = renderHook(() => useSpectrumData([], { createWorker }));
+
+    await act(async () => {
+      await result.current.loadText("x,y\n1,2\n3,4", "csv");
+    });
+
+    expect(createWorker).not.toHaveBeenCalled();
+    expect(result.current.spectra).toHaveLength(1);
+  });
+
+  it("parses in a worker when one can be created", async () => {
+    vi.stubGlobal("Worker", FakeParseWorker);
+    const createWorker = vi.fn(createFakeWorker);
+    const { result } = renderHook(() => useSpectrumData([], { createWorker }));
+    const file = createFile("x,y\n1,2\nbad\n3,4", "data.csv", "text/csv");
+
+    await act(async () => {
+      await result.current.loadFile(file);
+    });
+
+    expect(createWorker).toHaveBeenCalledTimes(1);
+    expect(result.current.spectra).toHaveLength(1);
+    expect(result.current.warnings).toHaveLength(1);
+    expect(result.current.progress).toBeNull();
+    expect(result.current.loading).toBe(false);
+  });
+
+  it("stops quietly when aborted", async () => {
+    vi.stubGlobal("Worker", FakeParseWorker);
+    const { result } = renderHook(() => useSpectrumData([], { createWorker: createFakeWorker }));
+    const controller = new AbortController();
+
+    await act(async () => {
+      const pending = result.current.loadText("x,y\n1,2\n3,4", "csv", {
+        signal: controller.signal,
+      });
+      controller.abort();
+      await pending;
+    });
+
+    expect(result.current.spectra).toHaveLength(0);
+    expect(result.current.error).toBeNull();
+    expect(result.current.loading).toBe(false);
+  });
 });
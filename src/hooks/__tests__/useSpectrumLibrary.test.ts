@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { renderHook, act, waitFor } from "@testing-library/react";
+import { IDBFactory } from "fake-indexeddb";
+import { useSpectrumLibrary } from "../useSpectrumLibrary";
+import { SpectrumStore } from "../../utils/spectrum-store";
+import { createTestSpectrum, createTestSpectrum2 } from "../../test/helpers";
+
+describe("useSpectrumLibrary", () => {
+  let store: SpectrumStore;
+
+  beforeEach(() => {
+    store = new SpectrumStore({ indexedDB: new IDBFactory() });
+  });
+
+  afterEach(() => {
+    store.close();
+  });
+
+  it("lists stored spectra on mount", async () => {
+    await store.save(createTestSpectrum(), { tags: ["ir"] });
+    const { result } = renderHook(() => useSpectrumLibrary({ store }));
+
+    await waitFor(() => expect(result.current.entries).toHaveLength(1));
+    expect(result.current.allTags).toEqual(["ir"]);
+    expect(result.current.loading).toBe(false);
+    expect(result.current.error).toBeNull();
+  });
+
+  it("refreshes the listing after saving, retagging and removing", async () => {
+    const { result } = renderHook(() => useSpectrumLibrary({ store }));
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    await act(async () => {
+      await result.current.save([
+        createTestSpectrum({ id: "a" }),
+        createTestSpectrum2({ id: "b" }),
+      ]);
+    });
+    expect(result.current.entries).toHaveLength(2);
+
+    await act(async () => {
+      await result.current.setTags("a", ["reference"]);
+    });
+    expect(result.current.allTags).toEqual(["reference"]);
+
+    await act(async () => {
+      await result.current.remove("b");
+    });
+    expect(result.current.entries.map((e) => e.id)).toEqual(["a"]);
+  });
+
+  it("filters by search text and tags", async () => {
+    await store.save(createTestSpectrum({ id: "a", label: "Polystyrene" }), { tags: ["polymer"] });
+    await store.save(createTestSpectrum2({ id: "b", label: "Ethanol" }), { tags: ["solvent"] });
+
+    const { result, rerender } = renderHook(
+      (props: { search?: string; tags?: string[] }) => useSpectrumLibrary({ store, ...props }),
+      { initialProps: { search: "poly" } },
+    );
+    await waitFor(() => expect(result.current.entries.map((e) => e.id)).toEqual(["a"]));
+
+    rerender({ tags: ["solvent"] });
+    await waitFor(() => expect(result.current.entries.map((e) => e.id)).toEqual(["b"]));
+  });
+
+  it("loads full spectra by ID", async () => {
+    const spectrum = createTestSpectrum();
+    await store.save(spectrum);
+    const { result } = renderHook(() => useSpectrumLibrary({ store }));
+
+    let loaded: Awaited<ReturnType<typeof result.current.load>> = [];
+    await act(async () => {
+      loaded = await result.current.load([spectrum.id, "missing"]);
+    });
+
+    expect(loaded).toHaveLength(1);
+    expect(Array.from(loaded[0].y)).toEqual(Array.from(spectrum.y));
+  });
+});
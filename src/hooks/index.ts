@@ -11,7 +11,13 @@ export { usePeakPicking } from "./usePeakPicking";
 export type { UsePeakPickingOptions } from "./usePeakPicking";
 
 export { useSpectrumData } from "./useSpectrumData";
-export type { UseSpectrumDataReturn } from "./useSpectrumData";
+export type {
+  FileLoadStatus,
+  LoadOptions,
+  SpectrumPatch,
+  UseSpectrumDataOptions,
+  UseSpectrumDataReturn,
+} from "./useSpectrumData";
 
 export { useExport } from "./useExport";
 export type { UseExportReturn } from "./useExport";
@@ -19,6 +25,9 @@ export type { UseExportReturn } from "./useExport";
 export { useRegionSelect } from "./useRegionSelect";
 export type { UseRegionSelectOptions, UseRegionSelectReturn } from "./useRegionSelect";
 
+export { useBaselineAnchors } from "./useBaselineAnchors";
+export type { UseBaselineAnchorsOptions, UseBaselineAnchorsReturn } from "./useBaselineAnchors";
+
 export { useResizeObserver } from "./useResizeObserver";
 
 export { useKeyboardNavigation } from "./useKeyboardNavigation";
@@ -31,5 +40,11 @@ export type {
   UseNormalizationReturn,
 } from "./useNormalization";
 
+export { useProcessingPipeline } from "./useProcessingPipeline";
+export type { UseProcessingPipelineReturn } from "./useProcessingPipeline";
+
 export { useHistory } from "./useHistory";
 export type { UseHistoryOptions, UseHistoryReturn } from "./useHistory";
+
+export { useSpectrumLibrary } from "./useSpectrumLibrary";
+export type { UseSpectrumLibraryOptions, UseSpectrumLibraryReturn } from "./useSpectrumLibrary";
@@ -0,0 +1,104 @@
+/**
+ * Hook for interactive anchor-point baseline fitting.
+ *
+ * Clicking the plot adds an anchor at the nearest data point of the
+ * target spectrum, or removes the anchor under the cursor. While enabled,
+ * the baseline is refitted whenever the anchors, spectrum or method change.
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { ScaleLinear } from "d3-scale";
+import type { AnchorBaselineResult, Spectrum } from "../types";
+import { baselineAnchors } from "../utils/processing";
+import type { AnchorBaselineOptions } from "../utils/processing";
+import { binarySearchClosest } from "../utils/snap";
+
+export interface UseBaselineAnchorsOptions extends AnchorBaselineOptions {
+  /** Whether clicks add and remove anchors. */
+  enabled: boolean;
+  /** X-axis scale for pixel-to-data conversion. */
+  xScale: ScaleLinear<number, number>;
+  /** Spectrum to fit the baseline to. */
+  spectrum: Spectrum | undefined;
+  /** Anchors to start with. */
+  initialAnchors?: number[];
+  /** Callback when the baseline is refitted, or null when all anchors are removed. */
+  onBaselineChange?: (result: AnchorBaselineResult | null) => void;
+}
+
+export interface UseBaselineAnchorsReturn {
+  /** Anchor X positions, ascending. */
+  anchors: number[];
+  /** Fitted baseline, or null when disabled or without anchors in the spectrum's range. */
+  result: AnchorBaselineResult | null;
+  /** Click handler — call on the interaction rect. */
+  handleClick: (event: React.MouseEvent<SVGRectElement>) => void;
+  /** Replace the anchors. */
+  setAnchors: (anchors: number[]) => void;
+  /** Remove all anchors. */
+  clearAnchors: () => void;
+}
+
+/** Clicks within this many pixels of an anchor remove it. */
+const HIT_RADIUS = 6;
+
+export function useBaselineAnchors(options: UseBaselineAnchorsOptions): UseBaselineAnchorsReturn {
+  const { enabled, xScale, spectrum, method, degree, onBaselineChange } = options;
+  const [anchors, setAnchorState] = useState<number[]>(() =>
+    [...new Set(options.initialAnchors ?? [])].sort((a, b) => a - b),
+  );
+
+  const setAnchors = useCallback((next: number[]) => {
+    setAnchorState([...new Set(next)].sort((a, b) => a - b));
+  }, []);
+
+  const clearAnchors = useCallback(() => setAnchorState([]), []);
+
+  const handleClick = useCallback(
+    (event: React.MouseEvent<SVGRectElement>) => {
+      // Shift+click belongs to region selection
+      if (!enabled || !spectrum || event.shiftKey) return;
+      const n = Math.min(spectrum.x.length, spectrum.y.length);
+      if (n === 0) return;
+      const rect = event.currentTarget.getBoundingClientRect();
+      const px = event.clientX - rect.left;
+
+      setAnchorState((current) => {
+        const hit = current.findIndex((a) => Math.abs(xScale(a) - px) <= HIT_RADIUS);
+        if (hit >= 0) return current.filter((_, i) => i !== hit);
+
+        // Anchor at the nearest sample so the baseline passes through measured data
+        const index = binarySearchClosest(spectrum.x, xScale.invert(px), n);
+        const x = spectrum.x[index] as number;
+        if (current.includes(x)) return current;
+        return [...current, x].sort((a, b) => a - b);
+      });
+    },
+    [enabled, spectrum, xScale],
+  );
+
+  const result = useMemo<AnchorBaselineResult | null>(() => {
+    if (!enabled || !spectrum) return null;
+    const n = Math.min(spectrum.x.length, spectrum.y.length);
+    if (n === 0) return null;
+    // Report only the anchors the fit uses; those outside the data are ignored
+    const first = spectrum.x[0] as number;
+    const last = spectrum.x[n - 1] as number;
+    const used = anchors.filter((a) => a >= Math.min(first, last) && a <= Math.max(first, last));
+    if (used.length === 0) return null;
+    const fitted = baselineAnchors(spectrum.x, spectrum.y, used, { method, degree });
+    return { ...fitted, spectrumId: spectrum.id, anchors: used };
+  }, [enabled, spectrum, anchors, method, degree]);
+
+  // Report refits, but not the initial empty state
+  const onBaselineChangeRef = useRef(onBaselineChange);
+  onBaselineChangeRef.current = onBaselineChange;
+  const reportedRef = useRef(false);
+  useEffect(() => {
+    if (!result && !reportedRef.current) return;
+    reportedRef.current = result !== null;
+    onBaselineChangeRef.current?.(result);
+  }, [result]);
+
+  return { anchors, result, handleClick, setAnchors, clearAnchors };
+}
@@ -1,11 +1,17 @@
 /**
- * Hook for exporting the spectrum view as PNG, SVG, or CSV data.
+ * Hook for exporting the spectrum view as PNG, SVG, or CSV, JSON and
+ * JCAMP-DX data.
  */
 
 import { useCallback } from "react";
 import type { ScaleLinear } from "d3-scale";
 import type { Spectrum } from "../types";
 import { generateSvg, downloadSvg } from "../utils/svg-export";
+import {
+  spectraToJcamp,
+  spectrumToJcamp,
+  type JcampExportOptions,
+} from "../utils/export-data";
 
 export interface UseExportReturn {
   /** Export the canvas as a PNG data URL. */
@@ -23,6 +29,12 @@ export interface UseExportReturn {
   exportCsv: (spectra: Spectrum[], filename?: string) => void;
   /** Export visible spectra as JSON. */
   exportJson: (spectra: Spectrum[], filename?: string) => void;
+  /** Export visible spectra as JCAMP-DX (a LINK file when more than one). */
+  exportJcamp: (
+    spectra: Spectrum[],
+    filename?: string,
+    options?: JcampExportOptions,
+  ) => void;
 }
 
 /**
@@ -104,6 +116,20 @@ export function useExport(): UseExportReturn {
     [],
   );
 
+  const exportJcamp = useCallback(
+    (spectra: Spectrum[], filename = "spectra.jdx", options?: JcampExportOptions) => {
+      const visible = spectra.filter((s) => s.visible !== false);
+      if (visible.length === 0) return;
+
+      const jcamp =
+        visible.length === 1
+          ? spectrumToJcamp(visible[0], options)
+          : spectraToJcamp(visible, options);
+      downloadBlob(new Blob([jcamp], { type: "chemical/x-jcamp-dx" }), filename);
+    },
+    [],
+  );
+
   const exportSvg = useCallback(
     (
       spectra: Spectrum[],
@@ -119,5 +145,5 @@ export function useExport(): UseExportReturn {
     [],
   );
 
-  return { exportPng, exportSvg, exportCsv, exportJson };
+  return { exportPng, exportSvg, exportCsv, exportJson, exportJcamp };
 }
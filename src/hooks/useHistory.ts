@@ -22,6 +22,12 @@ export interface UseHistoryReturn<T> {
   state: T;
   /** Push a new state onto the history stack. */
   push: (state: T) => void;
+  /**
+   * Push the state computed from the current one. The updater runs
+   * synchronously, so successive calls see each other's results.
+   * Nothing is recorded if it returns the current state unchanged.
+   */
+  update: (updater: (state: T) => T) => void;
   /** Undo to the previous state. Returns false if nothing to undo. */
   undo: () => boolean;
   /** Redo to the next state. Returns false if nothing to redo. */
@@ -43,6 +49,8 @@ export function useHistory<T>({
   maxDepth = 50,
 }: UseHistoryOptions<T>): UseHistoryReturn<T> {
   const [state, setState] = useState<T>(initialState);
+  // Latest state, updated synchronously so updates never read a stale render
+  const current = useRef<T>(initialState);
   const undoStack = useRef<T[]>([]);
   const redoStack = useRef<T[]>([]);
   // Track stack lengths for reactivity
@@ -51,46 +59,52 @@ export function useHistory<T>({
 
   const push = useCallback(
     (newState: T) => {
-      setState((prev) => {
-        undoStack.current.push(prev);
-        if (undoStack.current.length > maxDepth) {
-          undoStack.current.shift();
-        }
-        setUndoCount(undoStack.current.length);
-        // Clear redo stack on new action
-        redoStack.current = [];
-        setRedoCount(0);
-        return newState;
-      });
+      undoStack.current.push(current.current);
+      if (undoStack.current.length > maxDepth) {
+        undoStack.current.shift();
+      }
+      // Clear redo stack on new action
+      redoStack.current = [];
+      current.current = newState;
+      setState(newState);
+      setUndoCount(undoStack.current.length);
+      setRedoCount(0);
     },
     [maxDepth],
   );
 
+  const update = useCallback(
+    (updater: (state: T) => T) => {
+      const next = updater(current.current);
+      if (!Object.is(next, current.current)) push(next);
+    },
+    [push],
+  );
+
   const undo = useCallback(() => {
-    const prev = undoStack.current.pop();
-    if (prev === undefined) return false;
-    setState((current) => {
-      redoStack.current.push(current);
-      setRedoCount(redoStack.current.length);
-      setUndoCount(undoStack.current.length);
-      return prev;
-    });
+    if (undoStack.current.length === 0) return false;
+    const prev = undoStack.current.pop() as T;
+    redoStack.current.push(current.current);
+    current.current = prev;
+    setState(prev);
+    setUndoCount(undoStack.current.length);
+    setRedoCount(redoStack.current.length);
     return true;
   }, []);
 
   const redo = useCallback(() => {
-    const next = redoStack.current.pop();
-    if (next === undefined) return false;
-    setState((current) => {
-      undoStack.current.push(current);
-      setUndoCount(undoStack.current.length);
-      setRedoCount(redoStack.current.length);
-      return next;
-    });
+    if (redoStack.current.length === 0) return false;
+    const next = redoStack.current.pop() as T;
+    undoStack.current.push(current.current);
+    current.current = next;
+    setState(next);
+    setUndoCount(undoStack.current.length);
+    setRedoCount(redoStack.current.length);
     return true;
   }, []);
 
   const reset = useCallback(() => {
+    current.current = initialState;
     setState(initialState);
     undoStack.current = [];
     redoStack.current = [];
@@ -101,6 +115,7 @@ export function useHistory<T>({
   return {
     state,
     push,
+    update,
     undo,
     redo,
     reset,
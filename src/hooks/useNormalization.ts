@@ -3,18 +3,17 @@
  *
  * Takes raw spectra and a normalization mode, returns transformed spectra
  * ready for rendering. All transformations are memoized.
+ *
+ * Each mode is a single-step pipeline; use `useProcessingPipeline` to
+ * chain several steps. Unlike pipelines, modes do not record
+ * `meta.processing`, so the spectra keep their original metadata.
  */
 
 import { useMemo } from "react";
 import type { Spectrum } from "../types";
-import {
-  normalizeMinMax,
-  normalizeArea,
-  normalizeSNV,
-  baselineRubberBand,
-  smoothSavitzkyGolay,
-  derivative1st,
-} from "../utils/processing";
+import type { SavitzkyGolayEdgeMode } from "../utils/processing";
+import type { ProcessingPipeline } from "../utils/pipeline";
+import { useProcessingPipeline } from "./useProcessingPipeline";
 
 /** Available normalization/processing modes. */
 export type NormalizationMode =
@@ -23,6 +22,8 @@ export type NormalizationMode =
   | "area"
   | "snv"
   | "baseline"
+  | "snip"
+  | "rolling-ball"
   | "smooth"
   | "derivative";
 
@@ -31,8 +32,23 @@ export interface UseNormalizationOptions {
   spectra: Spectrum[];
   /** Active normalization mode. */
   mode: NormalizationMode;
-  /** Smoothing window size (for "smooth" mode). Defaults to 7. */
+  /** Savitzky-Golay window size (for "smooth" and "derivative" modes). Defaults to 7. */
   smoothWindow?: number;
+  /** Savitzky-Golay polynomial order. Defaults to 2, or the derivative order if higher. */
+  polyOrder?: number;
+  /**
+   * Derivative order (for "derivative" mode). Defaults to 1. Orders 1 and 2
+   * use central differences instead of Savitzky-Golay on unevenly spaced X.
+   */
+  derivativeOrder?: 1 | 2 | 3;
+  /** Savitzky-Golay edge handling. Defaults to "fit". */
+  edgeMode?: SavitzkyGolayEdgeMode;
+  /** SNIP maximum clipping half-width in points (for "snip" mode). Defaults to 40. */
+  snipIterations?: number;
+  /** Apply the LLS transform before SNIP clipping. Defaults to false. */
+  snipLLS?: boolean;
+  /** Rolling-ball half-width in points (for "rolling-ball" mode). Defaults to 50. */
+  rollingBallWindow?: number;
 }
 
 export interface UseNormalizationReturn {
@@ -48,57 +64,62 @@ const MODE_LABELS: Record<NormalizationMode, string> = {
   area: "Area Normalized",
   snv: "SNV",
   baseline: "Baseline Corrected",
+  snip: "SNIP Baseline Corrected",
+  "rolling-ball": "Rolling-Ball Baseline Corrected",
   smooth: "Smoothed",
   derivative: "1st Derivative",
 };
 
-function transformSpectrum(
-  spectrum: Spectrum,
-  mode: NormalizationMode,
-  smoothWindow: number,
-): Spectrum {
-  if (mode === "none") return spectrum;
-
-  let newY: Float64Array;
-
-  switch (mode) {
-    case "min-max":
-      newY = normalizeMinMax(spectrum.y);
-      break;
-    case "area":
-      newY = normalizeArea(spectrum.x, spectrum.y);
-      break;
-    case "snv":
-      newY = normalizeSNV(spectrum.y);
-      break;
-    case "baseline":
-      newY = baselineRubberBand(spectrum.y);
-      break;
-    case "smooth":
-      newY = smoothSavitzkyGolay(spectrum.y, smoothWindow);
-      break;
-    case "derivative":
-      newY = derivative1st(spectrum.x, spectrum.y);
-      break;
-    default:
-      return spectrum;
-  }
-
-  return { ...spectrum, y: newY };
-}
+const DERIVATIVE_LABELS: Record<1 | 2 | 3, string> = {
+  1: "1st Derivative",
+  2: "2nd Derivative",
+  3: "3rd Derivative",
+};
 
 export function useNormalization({
   spectra,
   mode,
   smoothWindow = 7,
+  polyOrder,
+  derivativeOrder = 1,
+  edgeMode = "fit",
+  snipIterations,
+  snipLLS = false,
+  rollingBallWindow,
 }: UseNormalizationOptions): UseNormalizationReturn {
-  const transformed = useMemo(
-    () => spectra.map((s) => transformSpectrum(s, mode, smoothWindow)),
-    [spectra, mode, smoothWindow],
-  );
+  const pipeline = useMemo<ProcessingPipeline>(() => {
+    const savitzkyGolay = { windowSize: smoothWindow, polyOrder, edges: edgeMode };
+    switch (mode) {
+      case "none":
+        return { steps: [] };
+      case "baseline":
+        return { steps: [{ type: "rubber-band" }] };
+      case "snip":
+        return { steps: [{ type: "snip", iterations: snipIterations, lls: snipLLS }] };
+      case "rolling-ball":
+        return { steps: [{ type: "rolling-ball", halfWindow: rollingBallWindow }] };
+      case "smooth":
+        return { steps: [{ type: "smooth", ...savitzkyGolay }] };
+      case "derivative":
+        return { steps: [{ type: "derivative", order: derivativeOrder, ...savitzkyGolay }] };
+      default:
+        return { steps: [{ type: mode }] };
+    }
+  }, [
+    mode,
+    smoothWindow,
+    polyOrder,
+    derivativeOrder,
+    edgeMode,
+    snipIterations,
+    snipLLS,
+    rollingBallWindow,
+  ]);
+
+  const { spectra: transformed } = useProcessingPipeline(spectra, pipeline, { provenance: false });
 
   return {
     spectra: transformed,
-    modeLabel: MODE_LABELS[mode],
+    modeLabel: mode === "derivative" ? DERIVATIVE_LABELS[derivativeOrder] : MODE_LABELS[mode],
   };
 }
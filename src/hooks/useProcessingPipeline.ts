@@ -0,0 +1,82 @@
+/**
+ * Hook for applying a processing pipeline to spectra.
+ *
+ * Each step's output is memoized on its input and parameters, so
+ * editing a late step (e.g. the derivative window) reuses the results
+ * of the steps before it instead of reprocessing from scratch.
+ *
+ * A step that fails (e.g. MSC on spectra with different X grids) stops
+ * the pipeline: the hook returns the output of the last step that
+ * succeeded and reports the failure in `error`.
+ */
+
+import { useMemo, useRef } from "react";
+import type { Spectrum } from "../types";
+import { applyProcessingStep } from "../utils/pipeline";
+import type { ApplyPipelineOptions, ProcessingPipeline, ProcessingStep } from "../utils/pipeline";
+
+export interface UseProcessingPipelineReturn {
+  /** Spectra after every step that succeeded; the input spectra for an empty pipeline. */
+  spectra: Spectrum[];
+  /** Output of each successful step, in order, e.g. for previewing intermediate results. */
+  intermediate: Spectrum[][];
+  /** Error of the step that stopped the pipeline, if any. */
+  error: string | null;
+}
+
+/** Cached output of one step. */
+interface StepCache {
+  input: Spectrum[];
+  /** Serialized step, so equal parameters match across renders. */
+  key: string;
+  provenance: boolean;
+  output: Spectrum[];
+}
+
+export function useProcessingPipeline(
+  spectra: Spectrum[],
+  pipeline: ProcessingPipeline,
+  options: ApplyPipelineOptions = {},
+): UseProcessingPipelineReturn {
+  const provenance = options.provenance !== false;
+  const cacheRef = useRef<StepCache[]>([]);
+  // Compare steps by value so an inline pipeline does not reprocess every render
+  const pipelineKey = JSON.stringify(pipeline.steps);
+  const steps = useMemo(() => JSON.parse(pipelineKey) as ProcessingStep[], [pipelineKey]);
+
+  return useMemo(() => {
+    const cache: StepCache[] = [];
+    const intermediate: Spectrum[][] = [];
+    let input = spectra;
+    let error: string | null = null;
+
+    for (let i = 0; i < steps.length; i++) {
+      const step = steps[i];
+      const key = JSON.stringify(step);
+      const cached = cacheRef.current[i];
+      let output: Spectrum[];
+      if (
+        cached &&
+        cached.input === input &&
+        cached.key === key &&
+        cached.provenance === provenance
+      ) {
+        output = cached.output;
+      } else {
+        try {
+          output = applyProcessingStep(input, step, { provenance });
+        } catch (err) {
+          const message = err instanceof Error ? err.message : "Processing failed";
+          error = `Step ${i + 1} (${step.type}): ${message}`;
+          break;
+        }
+      }
+      cache.push({ input, key, provenance, output });
+      intermediate.push(output);
+      input = output;
+    }
+
+    cacheRef.current = cache;
+    return { spectra: input, intermediate, error };
+  }, [spectra, steps, provenance]);
+}
@@ -1,15 +1,70 @@
 /**
  * Hook for managing spectrum data loading and state.
  *
- * Handles file loading (drag-and-drop, file input), parsing,
- * and managing the collection of loaded spectra.
+ * Handles file loading (drag-and-drop, file input), parsing, and
+ * managing the collection of loaded spectra: reordering, renaming,
+ * recoloring and replacing spectra, skipping duplicate uploads, and
+ * undoing any change to the collection. Parsing runs in a Web Worker
+ * when `createWorker` is given and workers are available, and on the
+ * main thread otherwise.
  */
 
-import { useCallback, useState } from "react";
+import { useCallback, useRef, useState } from "react";
 import type { Spectrum } from "../types";
-import { parseCsv } from "../parsers/csv";
-import { parseJson } from "../parsers/json";
-import { parseJcamp } from "../parsers/jcamp";
+import { parseAny } from "../parsers/detect";
+import type { ParseAnyResult, SpectrumFormat } from "../parsers/detect";
+import type { ParseProgress, ParseWarning } from "../parsers/errors";
+import { parseInWorker } from "../parsers/worker";
+import { hashSpectrum } from "../utils/hash";
+import { useHistory } from "./useHistory";
+
+/** Text formats accepted by `loadText`. */
+type TextFormat = "jcamp" | "csv" | "json" | "animl" | "gaml";
+
+/** Changes accepted by `updateSpectrum`; the ID cannot change. */
+export type SpectrumPatch = Partial<Omit<Spectrum, "id">>;
+
+export interface UseSpectrumDataOptions {
+  /**
+   * Creates a Web Worker whose script calls `registerParseWorker`.
+   * When omitted, or where `Worker` is not available, files are parsed
+   * on the main thread.
+   */
+  createWorker?: () => Worker;
+  /**
+   * Keep loaded spectra whose data matches a spectrum already in the
+   * collection. Defaults to false: duplicates are skipped.
+   */
+  allowDuplicates?: boolean;
+  /** Maximum number of undoable changes. Defaults to 50. */
+  historyDepth?: number;
+}
+
+export interface LoadOptions {
+  /** Aborts the load; the hook then returns to idle without an error. */
+  signal?: AbortSignal;
+}
+
+/** Load state of one file in the last `loadFile` or `loadFiles` call. */
+export interface FileLoadStatus {
+  /** File name. */
+  name: string;
+  /**
+   * "pending" until parsing starts; "duplicate" when every spectrum in
+   * the file was already loaded.
+   */
+  status: "pending" | "loading" | "loaded" | "duplicate" | "error" | "aborted";
+  /** Detected format, once parsed. */
+  format?: SpectrumFormat;
+  /** IDs of the spectra added from the file. */
+  spectrumIds: string[];
+  /** Number of spectra skipped as duplicates. */
+  duplicates: number;
+  /** Recoverable problems reported while parsing the file. */
+  warnings: ParseWarning[];
+  /** Error message, when the file could not be loaded. */
+  error?: string;
+}
 
 export interface UseSpectrumDataReturn {
   /** Currently loaded spectra. */
@@ -18,39 +73,54 @@ export interface UseSpectrumDataReturn {
   loading: boolean;
   /** Last error message, if any. */
   error: string | null;
-  /** Load spectra from a File object (detects format from extension). */
-  loadFile: (file: File) => Promise<void>;
+  /** Recoverable problems reported while parsing the last file or text. */
+  warnings: ParseWarning[];
+  /** Progress of the current load, if the parser reports any. */
+  progress: ParseProgress | null;
+  /** Per-file state of the last `loadFile` or `loadFiles` call. */
+  files: FileLoadStatus[];
+  /** Load spectra from a File object (detects format from its content). */
+  loadFile: (file: File, options?: LoadOptions) => Promise<void>;
+  /** Load spectra from several files, one after another, e.g. a batch drop. */
+  loadFiles: (files: Iterable<File> | ArrayLike<File>, options?: LoadOptions) => Promise<void>;
+  /**
+   * Load spectra from binary or text file content. The filename is used
+   * as a detection fallback; the buffer is left intact.
+   */
+  loadBuffer: (buffer: ArrayBuffer, filename?: string, options?: LoadOptions) => Promise<void>;
   /** Load spectra from a raw text string with explicit format. */
-  loadText: (text: string, format: "jcamp" | "csv" | "json") => Promise<void>;
+  loadText: (text: string, format: TextFormat, options?: LoadOptions) => Promise<void>;
   /** Add a spectrum directly. */
   addSpectrum: (spectrum: Spectrum) => void;
   /** Remove a spectrum by ID. */
   removeSpectrum: (id: string) => void;
+  /** Change properties of a spectrum, e.g. its label or color. */
+  updateSpectrum: (id: string, patch: SpectrumPatch) => void;
+  /** Replace a spectrum with another, keeping its position. */
+  replaceSpectrum: (id: string, spectrum: Spectrum) => void;
+  /** Move a spectrum to a new index, shifting those in between. */
+  moveSpectrum: (id: string, toIndex: number) => void;
   /** Toggle a spectrum's visibility. */
   toggleVisibility: (id: string) => void;
   /** Clear all loaded spectra. */
   clear: () => void;
+  /** Undo the last change to the collection. Returns false if there is none. */
+  undo: () => boolean;
+  /** Redo the last undone change. Returns false if there is none. */
+  redo: () => boolean;
+  /** Whether a change can be undone. */
+  canUndo: boolean;
+  /** Whether an undone change can be redone. */
+  canRedo: boolean;
 }
 
-/**
- * Detect file format from file extension.
- */
-function detectFormat(filename: string): "jcamp" | "csv" | "json" | null {
-  const ext = filename.toLowerCase().split(".").pop();
-  switch (ext) {
-    case "dx":
-    case "jdx":
-    case "jcamp":
-      return "jcamp";
-    case "csv":
-    case "tsv":
-    case "txt":
-      return "csv";
-    case "json":
-      return "json";
-    default:
-      return null;
-  }
+/** What to parse and how, for one input of a load. */
+interface LoadSource {
+  read: () => Promise<ArrayBuffer | string>;
+  filename?: string;
+  format?: TextFormat;
+  /** Whether the input buffer may be transferred to a worker. */
+  transfer: boolean;
 }
 
 /**
@@ -58,86 +128,281 @@ function detectFormat(filename: string): "jcamp" | "csv" | "json" | null {
  */
 export function useSpectrumData(
   initialSpectra: Spectrum[] = [],
+  options: UseSpectrumDataOptions = {},
 ): UseSpectrumDataReturn {
-  const [spectra, setSpectra] = useState<Spectrum[]>(initialSpectra);
+  const history = useHistory<Spectrum[]>({
+    initialState: initialSpectra,
+    maxDepth: options.historyDepth,
+  });
+  const { update } = history;
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [warnings, setWarnings] = useState<ParseWarning[]>([]);
+  const [progress, setProgress] = useState<ParseProgress | null>(null);
+  const [files, setFiles] = useState<FileLoadStatus[]>([]);
+
+  // Read at load time so inline options do not recreate the loaders
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  // Spectra are never mutated, so each one is hashed at most once
+  const hashes = useRef(new WeakMap<Spectrum, string>());
+
+  const hashOf = useCallback((spectrum: Spectrum) => {
+    let hash = hashes.current.get(spectrum);
+    if (hash === undefined) {
+      hash = hashSpectrum(spectrum);
+      hashes.current.set(spectrum, hash);
+    }
+    return hash;
+  }, []);
+
+  /** Parse one input in a worker or on the main thread. */
+  const parse = useCallback(
+    async (source: LoadSource, signal: AbortSignal | undefined): Promise<ParseAnyResult> => {
+      const input = await source.read();
+      signal?.throwIfAborted();
+
+      const { createWorker } = optionsRef.current;
+      const { filename, format } = source;
+      if (createWorker && typeof Worker !== "undefined") {
+        return parseInWorker(createWorker, input, {
+          filename,
+          format,
+          signal,
+          onProgress: setProgress,
+          transferInput: source.transfer,
+        });
+      }
+      const result = await parseAny(input, filename, { format, onProgress: setProgress });
+      signal?.throwIfAborted();
+      return result;
+    },
+    [],
+  );
+
+  /**
+   * Add parsed spectra to the collection, skipping those whose data is
+   * already loaded unless duplicates are allowed.
+   *
+   * @returns The spectra added and the number skipped
+   */
+  const addParsed = useCallback(
+    (parsed: Spectrum[]) => {
+      let added: Spectrum[] = [];
+      update((prev) => {
+        if (optionsRef.current.allowDuplicates) {
+          added = parsed;
+        } else {
+          const seen = new Set(prev.map(hashOf));
+          added = parsed.filter((s) => {
+            const hash = hashOf(s);
+            if (seen.has(hash)) return false;
+            seen.add(hash);
+            return true;
+          });
+        }
+        return added.length > 0 ? [...prev, ...added] : prev;
+      });
+      return { added, duplicates: parsed.length - added.length };
+    },
+    [update, hashOf],
+  );
+
+  /**
+   * Load inputs one after another. Inputs with a filename get an entry
+   * in `files`.
+   */
+  const load = useCallback(
+    async (sources: LoadSource[], signal: AbortSignal | undefined) => {
+      const tracked = sources.some((s) => s.filename !== undefined);
+      const statuses: FileLoadStatus[] = sources.map((s) => ({
+        name: s.filename ?? "",
+        status: "pending",
+        spectrumIds: [],
+        duplicates: 0,
+        warnings: [],
+      }));
+      const setStatus = (index: number, patch: Partial<FileLoadStatus>) => {
+        statuses[index] = { ...statuses[index], ...patch };
+        if (tracked) setFiles([...statuses]);
+      };
 
-  const loadText = useCallback(
-    async (text: string, format: "jcamp" | "csv" | "json") => {
       setLoading(true);
       setError(null);
+      setWarnings([]);
+      setProgress(null);
+      if (tracked) setFiles([...statuses]);
 
+      const errors: string[] = [];
+      const allWarnings: ParseWarning[] = [];
       try {
-        let parsed: Spectrum[];
-
-        switch (format) {
-          case "jcamp":
-            parsed = await parseJcamp(text);
-            break;
-          case "csv":
-            parsed = [parseCsv(text)];
-            break;
-          case "json":
-            parsed = parseJson(text);
-            break;
-        }
+        for (let i = 0; i < sources.length; i++) {
+          if (signal?.aborted) {
+            setStatus(i, { status: "aborted" });
+            continue;
+          }
+          setStatus(i, { status: "loading" });
+          setProgress(null);
 
-        setSpectra((prev) => [...prev, ...parsed]);
-      } catch (err) {
-        const message = err instanceof Error ? err.message : "Failed to parse file";
-        setError(message);
+          try {
+            const result = await parse(sources[i], signal);
+            const { added, duplicates } = addParsed(result.spectra);
+            allWarnings.push(...result.warnings);
+            setStatus(i, {
+              status: added.length === 0 && duplicates > 0 ? "duplicate" : "loaded",
+              format: result.format,
+              spectrumIds: added.map((s) => s.id),
+              duplicates,
+              warnings: result.warnings,
+            });
+          } catch (err) {
+            if (signal?.aborted) {
+              setStatus(i, { status: "aborted" });
+            } else {
+              const message = err instanceof Error ? err.message : "Failed to parse file";
+              errors.push(message);
+              setStatus(i, { status: "error", error: message });
+            }
+          }
+        }
       } finally {
+        setWarnings(allWarnings);
+        if (errors.length > 0) {
+          setError(
+            errors.length === 1
+              ? errors[0]
+              : `${errors.length} of ${sources.length} files failed to load`,
+          );
+        }
         setLoading(false);
+        setProgress(null);
       }
     },
-    [],
+    [parse, addParsed],
+  );
+
+  const loadText = useCallback(
+    (text: string, format: TextFormat, loadOptions: LoadOptions = {}) =>
+      load([{ read: async () => text, format, transfer: false }], loadOptions.signal),
+    [load],
+  );
+
+  const loadBuffer = useCallback(
+    (buffer: ArrayBuffer, filename?: string, loadOptions: LoadOptions = {}) =>
+      load([{ read: async () => buffer, filename, transfer: false }], loadOptions.signal),
+    [load],
+  );
+
+  const loadFiles = useCallback(
+    (fileList: Iterable<File> | ArrayLike<File>, loadOptions: LoadOptions = {}) =>
+      load(
+        Array.from(fileList, (file) => ({
+          read: () => file.arrayBuffer(),
+          filename: file.name,
+          transfer: true,
+        })),
+        loadOptions.signal,
+      ),
+    [load],
   );
 
   const loadFile = useCallback(
-    async (file: File) => {
-      const format = detectFormat(file.name);
-      if (!format) {
-        setError(`Unsupported file format: ${file.name}`);
-        return;
-      }
+    (file: File, loadOptions: LoadOptions = {}) => loadFiles([file], loadOptions),
+    [loadFiles],
+  );
 
-      const text = await file.text();
-      await loadText(text, format);
+  const addSpectrum = useCallback(
+    (spectrum: Spectrum) => {
+      update((prev) => [...prev, spectrum]);
     },
-    [loadText],
+    [update],
   );
 
-  const addSpectrum = useCallback((spectrum: Spectrum) => {
-    setSpectra((prev) => [...prev, spectrum]);
-  }, []);
+  const removeSpectrum = useCallback(
+    (id: string) => {
+      update((prev) => (prev.some((s) => s.id === id) ? prev.filter((s) => s.id !== id) : prev));
+    },
+    [update],
+  );
 
-  const removeSpectrum = useCallback((id: string) => {
-    setSpectra((prev) => prev.filter((s) => s.id !== id));
-  }, []);
+  const replaceSpectrum = useCallback(
+    (id: string, spectrum: Spectrum) => {
+      update((prev) => {
+        const index = prev.findIndex((s) => s.id === id);
+        if (index === -1) return prev;
+        const next = [...prev];
+        next[index] = spectrum;
+        return next;
+      });
+    },
+    [update],
+  );
 
-  const toggleVisibility = useCallback((id: string) => {
-    setSpectra((prev) =>
-      prev.map((s) =>
-        s.id === id ? { ...s, visible: s.visible === false ? true : false } : s,
-      ),
-    );
-  }, []);
+  const updateSpectrum = useCallback(
+    (id: string, patch: SpectrumPatch) => {
+      update((prev) => {
+        const index = prev.findIndex((s) => s.id === id);
+        if (index === -1) return prev;
+        const next = [...prev];
+        next[index] = { ...prev[index], ...patch, id };
+        return next;
+      });
+    },
+    [update],
+  );
+
+  const moveSpectrum = useCallback(
+    (id: string, toIndex: number) => {
+      update((prev) => {
+        const from = prev.findIndex((s) => s.id === id);
+        const to = Math.max(0, Math.min(prev.length - 1, Math.trunc(toIndex)));
+        if (from === -1 || from === to) return prev;
+        const next = [...prev];
+        const [moved] = next.splice(from, 1);
+        next.splice(to, 0, moved);
+        return next;
+      });
+    },
+    [update],
+  );
+
+  const toggleVisibility = useCallback(
+    (id: string) => {
+      update((prev) =>
+        prev.map((s) => (s.id === id ? { ...s, visible: s.visible === false ? true : false } : s)),
+      );
+    },
+    [update],
+  );
 
   const clear = useCallback(() => {
-    setSpectra([]);
+    update((prev) => (prev.length > 0 ? [] : prev));
     setError(null);
-  }, []);
+    setWarnings([]);
+    setFiles([]);
+  }, [update]);
 
   return {
-    spectra,
+    spectra: history.state,
     loading,
     error,
+    warnings,
+    progress,
+    files,
     loadFile,
+    loadFiles,
+    loadBuffer,
     loadText,
     addSpectrum,
     removeSpectrum,
+    updateSpectrum,
+    replaceSpectrum,
+    moveSpectrum,
     toggleVisibility,
     clear,
+    undo: history.undo,
+    redo: history.redo,
+    canUndo: history.canUndo,
+    canRedo: history.canRedo,
   };
 }
@@ -0,0 +1,136 @@
+/**
+ * Hook for browsing and editing a persistent spectrum library.
+ *
+ * Wraps a `SpectrumStore` (IndexedDB) and keeps a listing of the stored
+ * spectra, filtered by search text and tags, up to date as spectra are
+ * saved, retagged or deleted. Listing never loads data arrays; `load`
+ * fetches full spectra, e.g. to pass to `useSpectrumData().addSpectrum`.
+ *
+ * @module useSpectrumLibrary
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { Spectrum } from "../types";
+import { SpectrumStore } from "../utils/spectrum-store";
+import type { SaveOptions, StoredSpectrumInfo } from "../utils/spectrum-store";
+
+export interface UseSpectrumLibraryOptions {
+  /**
+   * Store to use. Defaults to a `SpectrumStore` on the default database,
+   * closed when the component unmounts.
+   */
+  store?: SpectrumStore;
+  /** Words that listed spectra must match in their label, meta or tags. */
+  search?: string;
+  /** Tags that listed spectra must all carry. */
+  tags?: string[];
+}
+
+export interface UseSpectrumLibraryReturn {
+  /** Stored spectra matching the search and tags, most recent first. */
+  entries: StoredSpectrumInfo[];
+  /** Every tag in the library, sorted. */
+  allTags: string[];
+  /** Whether the listing is being refreshed. */
+  loading: boolean;
+  /** Last error message, if any. */
+  error: string | null;
+  /** Save spectra to the library, replacing those with the same IDs. */
+  save: (spectra: Spectrum | Spectrum[], options?: SaveOptions) => Promise<void>;
+  /** Load full spectra by ID. Resolves with those found. */
+  load: (ids: string | string[]) => Promise<Spectrum[]>;
+  /** Delete spectra by ID. */
+  remove: (ids: string | string[]) => Promise<void>;
+  /** Replace the tags of a stored spectrum. */
+  setTags: (id: string, tags: string[]) => Promise<void>;
+  /** Re-read the listing, e.g. after another tab changed the library. */
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Hook for a persistent, searchable spectrum library.
+ */
+export function useSpectrumLibrary(
+  options: UseSpectrumLibraryOptions = {},
+): UseSpectrumLibraryReturn {
+  const [ownStore] = useState(() => (options.store ? null : new SpectrumStore()));
+  const store = options.store ?? ownStore!;
+  const search = options.search ?? "";
+  // Compare tags by value so an inline array does not re-list every render
+  const tagsKey = JSON.stringify(options.tags ?? []);
+
+  const [entries, setEntries] = useState<StoredSpectrumInfo[]>([]);
+  const [allTags, setAllTags] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Only the latest listing request may update state
+  const requestId = useRef(0);
+
+  useEffect(() => () => ownStore?.close(), [ownStore]);
+
+  const refresh = useCallback(async () => {
+    const id = ++requestId.current;
+    setLoading(true);
+    try {
+      const tags = JSON.parse(tagsKey) as string[];
+      const [listed, used] = await Promise.all([store.list({ search, tags }), store.tags()]);
+      if (id !== requestId.current) return;
+      setEntries(listed);
+      setAllTags(used);
+      setError(null);
+    } catch (err) {
+      if (id !== requestId.current) return;
+      setError(err instanceof Error ? err.message : "Failed to read the spectrum library");
+    } finally {
+      if (id === requestId.current) setLoading(false);
+    }
+  }, [store, search, tagsKey]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  /** Run a change against the store, then refresh the listing. */
+  const mutate = useCallback(
+    async (change: () => Promise<unknown>) => {
+      try {
+        await change();
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to update the spectrum library");
+        return;
+      }
+      await refresh();
+    },
+    [refresh],
+  );
+
+  const save = useCallback(
+    (spectra: Spectrum | Spectrum[], saveOptions?: SaveOptions) =>
+      mutate(() => store.save(spectra, saveOptions)),
+    [mutate, store],
+  );
+
+  const remove = useCallback(
+    (ids: string | string[]) => mutate(() => store.delete(ids)),
+    [mutate, store],
+  );
+
+  const setTags = useCallback(
+    (id: string, tags: string[]) => mutate(() => store.setTags(id, tags)),
+    [mutate, store],
+  );
+
+  const load = useCallback(
+    async (ids: string | string[]) => {
+      try {
+        return await store.getMany(Array.isArray(ids) ? ids : [ids]);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to read the spectrum library");
+        return [];
+      }
+    },
+    [store],
+  );
+
+  return { entries, allTags, loading, error, save, load, remove, setTags, refresh };
+}
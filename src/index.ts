@@ -28,6 +28,7 @@ export { AnnotationLayer } from "./components/AnnotationLayer/AnnotationLayer";
 export { Minimap } from "./components/Minimap/Minimap";
 export { Tooltip } from "./components/Tooltip/Tooltip";
 export { DataTable } from "./components/DataTable/DataTable";
+export { BaselineAnchorLayer } from "./components/BaselineAnchorLayer/BaselineAnchorLayer";
 
 // Hooks
 export { useZoomPan } from "./hooks/useZoomPan";
@@ -35,12 +36,16 @@ export { usePeakPicking } from "./hooks/usePeakPicking";
 export { useSpectrumData } from "./hooks/useSpectrumData";
 export { useExport } from "./hooks/useExport";
 export { useRegionSelect } from "./hooks/useRegionSelect";
+export { useBaselineAnchors } from "./hooks/useBaselineAnchors";
 export { useResizeObserver } from "./hooks/useResizeObserver";
 export { useKeyboardNavigation } from "./hooks/useKeyboardNavigation";
 export { useNormalization } from "./hooks/useNormalization";
+export { useProcessingPipeline } from "./hooks/useProcessingPipeline";
 export { useHistory } from "./hooks/useHistory";
+export { useSpectrumLibrary } from "./hooks/useSpectrumLibrary";
 export { StackedView } from "./components/StackedView/StackedView";
 export { ExportMenu } from "./components/ExportMenu/ExportMenu";
+export { ImportDialog } from "./components/ImportDialog/ImportDialog";
 export { generateSvg, downloadSvg, LINE_DASH_PATTERNS } from "./utils/svg-export";
 export {
   prefersReducedMotion,
@@ -52,18 +57,41 @@ export {
   spectrumToCsv,
   multiSpectraToCsv,
   spectrumToJson,
+  spectrumToJcamp,
+  spectraToJcamp,
   downloadString,
 } from "./utils/export-data";
 export { lttbDownsample } from "./utils/lttb";
+export { hashSpectrum } from "./utils/hash";
+export { SpectrumStore } from "./utils/spectrum-store";
 export {
   baselineRubberBand,
+  baselineAsLS,
+  baselineArPLS,
+  baselineAirPLS,
+  baselineAnchors,
+  baselineSNIP,
+  baselineRollingBall,
   normalizeMinMax,
   normalizeArea,
   normalizeSNV,
+  mscCorrect,
+  emscCorrect,
   smoothSavitzkyGolay,
+  derivativeSavitzkyGolay,
+  savitzkyGolayCoefficients,
   derivative1st,
   derivative2nd,
 } from "./utils/processing";
+export {
+  applyPipeline,
+  applyProcessingStep,
+  serializePipeline,
+  parsePipeline,
+  getProcessingHistory,
+  PIPELINE_VERSION,
+  PROCESSING_META_KEY,
+} from "./utils/pipeline";
 export {
   differenceSpectrum,
   addSpectra,
@@ -74,10 +102,24 @@ export {
 } from "./utils/comparison";
 
 // Parsers
-export { parseJcamp } from "./parsers/jcamp";
-export { parseCsv, parseCsvMulti } from "./parsers/csv";
+export { parseJcamp, parseJcampWithPeaks } from "./parsers/jcamp";
+export {
+  parseCsv,
+  parseCsvMulti,
+  parseCsvWide,
+  parseCsvColumns,
+  previewCsv,
+} from "./parsers/csv";
 export { parseJson } from "./parsers/json";
-export { parseSpc } from "./parsers/spc";
+export { parseAnIML } from "./parsers/animl";
+export { parseGaml } from "./parsers/gaml";
+export { parseSpc, writeSpc } from "./parsers/spc";
+export { parseOpus } from "./parsers/opus";
+export { parseOmnic } from "./parsers/omnic";
+export { parseWdf } from "./parsers/wdf";
+export { parseAny, detectFormat } from "./parsers/detect";
+export { SpectrumParseError } from "./parsers/errors";
+export { parseInWorker, registerParseWorker } from "./parsers/worker";
 
 // Utilities
 export { detectPeaks } from "./utils/peaks";
@@ -102,6 +144,8 @@ export type {
   Peak,
   Region,
   Annotation,
+  AnchorBaselineMethod,
+  AnchorBaselineResult,
   ViewState,
   Theme,
   DisplayMode,
@@ -112,7 +156,28 @@ export type {
   ResolvedConfig,
 } from "./types";
 
-export type { CsvParseOptions } from "./parsers/csv";
+export type {
+  CsvParseOptions,
+  CsvWideParseOptions,
+  CsvColumnsOptions,
+  CsvPreview,
+} from "./parsers/csv";
+export type { JcampParseResult } from "./parsers/jcamp";
+export type { JsonEncodedArray, JsonImplicitAxis } from "./parsers/json";
+export type { SpcWriteOptions } from "./parsers/spc";
+export type { ParseAnyOptions, ParseAnyResult, SpectrumFormat } from "./parsers/detect";
+export type {
+  ParseLocation,
+  ParseOptions,
+  ParseProgress,
+  ParseWarning,
+} from "./parsers/errors";
+export type {
+  ParseWorkerRequest,
+  ParseWorkerResponse,
+  ParseWorkerScope,
+  WorkerParseOptions,
+} from "./parsers/worker";
 export type { PeakDetectionOptions } from "./utils/peaks";
 export type {
   UseZoomPanOptions,
@@ -120,29 +185,71 @@ export type {
   ZoomPanState,
 } from "./hooks/useZoomPan";
 export type { UsePeakPickingOptions } from "./hooks/usePeakPicking";
-export type { UseSpectrumDataReturn } from "./hooks/useSpectrumData";
+export type {
+  FileLoadStatus,
+  LoadOptions,
+  SpectrumPatch,
+  UseSpectrumDataOptions,
+  UseSpectrumDataReturn,
+} from "./hooks/useSpectrumData";
 export type { UseExportReturn } from "./hooks/useExport";
 export type { CrosshairPosition, CrosshairProps } from "./components/Crosshair/Crosshair";
 export type { LegendProps } from "./components/Legend/Legend";
-export type { DropZoneProps } from "./components/DropZone/DropZone";
+export type { DropZoneProps, DropParseFailure } from "./components/DropZone/DropZone";
 export type { AnnotationLayerProps } from "./components/AnnotationLayer/AnnotationLayer";
 export type { MinimapProps } from "./components/Minimap/Minimap";
 export type { TooltipProps, TooltipData } from "./components/Tooltip/Tooltip";
 export type { DataTableProps } from "./components/DataTable/DataTable";
-export type { ExportOptions } from "./utils/export-data";
+export type { ExportOptions, JcampExportOptions, JsonExportOptions } from "./utils/export-data";
+export type {
+  AnchorBaselineOptions,
+  AsLSBaselineOptions,
+  BaselineResult,
+  EMSCOptions,
+  PenalizedBaselineOptions,
+  RollingBallBaselineOptions,
+  SavitzkyGolayEdgeMode,
+  SavitzkyGolayOptions,
+  ScatterCoefficients,
+  ScatterCorrectionResult,
+  SNIPBaselineOptions,
+} from "./utils/processing";
+export type {
+  ApplyPipelineOptions,
+  ProcessingPipeline,
+  ProcessingStep,
+  ProcessingStepType,
+} from "./utils/pipeline";
 export type { SnapResult } from "./utils/snap";
 export type { LTTBPoint } from "./utils/lttb";
 export type { SnapPoint } from "./components/Crosshair/Crosshair";
 export type { UseRegionSelectOptions, UseRegionSelectReturn } from "./hooks/useRegionSelect";
+export type {
+  UseBaselineAnchorsOptions,
+  UseBaselineAnchorsReturn,
+} from "./hooks/useBaselineAnchors";
+export type { BaselineAnchorLayerProps } from "./components/BaselineAnchorLayer/BaselineAnchorLayer";
 export type { UseKeyboardNavigationOptions } from "./hooks/useKeyboardNavigation";
 export type {
   NormalizationMode,
   UseNormalizationOptions,
   UseNormalizationReturn,
 } from "./hooks/useNormalization";
+export type { UseProcessingPipelineReturn } from "./hooks/useProcessingPipeline";
 export type {
   UseHistoryOptions,
   UseHistoryReturn,
 } from "./hooks/useHistory";
+export type {
+  UseSpectrumLibraryOptions,
+  UseSpectrumLibraryReturn,
+} from "./hooks/useSpectrumLibrary";
+export type {
+  ListQuery,
+  SaveOptions,
+  SpectrumStoreOptions,
+  StoredSpectrumInfo,
+} from "./utils/spectrum-store";
 export type { ExportMenuProps } from "./components/ExportMenu/ExportMenu";
+export type { ImportDialogProps } from "./components/ImportDialog/ImportDialog";
 export type { SvgExportOptions } from "./utils/svg-export";
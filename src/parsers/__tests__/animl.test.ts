@@ -0,0 +1,140 @@
+import { describe, it, expect } from "vitest";
+import { parseAnIML } from "../animl";
+import type { ParseWarning } from "../errors";
+
+/** Base64-encode numbers as little-endian float32. */
+function encodeFloat32(values: number[]): string {
+  const bytes = new Uint8Array(Float32Array.from(values).buffer);
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function animl(seriesSet: string, technique = "UV/Vis"): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<AnIML xmlns="urn:org:astm:animl:schema:core:draft:0.90" version="0.90">
+  <SampleSet>
+    <Sample name="Caffeine standard" sampleID="S1"/>
+  </SampleSet>
+  <ExperimentStepSet>
+    <ExperimentStep name="Absorbance scan" experimentStepID="E1">
+      <Technique name="${technique}" uri="https://example.org/technique.atdd"/>
+      <Infrastructure>
+        <SampleReferenceSet>
+          <SampleReference sampleID="S1" role="measured" samplePurpose="consumed"/>
+        </SampleReferenceSet>
+        <Timestamp>2024-05-02T09:30:00Z</Timestamp>
+      </Infrastructure>
+      <Method name="Caffeine assay">
+        <Author userType="human"><Name>Ada Lovelace</Name></Author>
+        <Device>
+          <Name>Cary 60</Name>
+          <Manufacturer>Agilent</Manufacturer>
+          <SerialNumber>MY1234</SerialNumber>
+        </Device>
+      </Method>
+      <Result name="Spectrum">
+        ${seriesSet}
+      </Result>
+    </ExperimentStep>
+  </ExperimentStepSet>
+</AnIML>`;
+}
+
+describe("parseAnIML", () => {
+  it("maps independent and dependent series with sample and method metadata", () => {
+    const text = animl(`<SeriesSet name="Spectrum" length="3">
+      <Series name="Wavelength" seriesID="x" dependency="independent" seriesType="Float32">
+        <IndividualValueSet><F>200</F><F>210</F><F>220</F></IndividualValueSet>
+        <Unit label="nm"/>
+      </Series>
+      <Series name="Absorbance" seriesID="y" dependency="dependent" seriesType="Float32">
+        <EncodedValueSet>${encodeFloat32([0.5, 0.25, 0.125])}</EncodedValueSet>
+        <Unit label="AU"/>
+      </Series>
+    </SeriesSet>`);
+
+    const [spectrum] = parseAnIML(text);
+    expect(Array.from(spectrum.x)).toEqual([200, 210, 220]);
+    expect(Array.from(spectrum.y)).toEqual([0.5, 0.25, 0.125]);
+    expect(spectrum.id).toMatch(/^animl-\d+$/);
+    expect(spectrum.label).toBe("Caffeine standard");
+    expect(spectrum.xUnit).toBe("nm");
+    expect(spectrum.yUnit).toBe("AU");
+    expect(spectrum.type).toBe("UV-Vis");
+    expect(spectrum.meta).toEqual({
+      format: "AnIML",
+      experimentStep: "Absorbance scan",
+      technique: "UV/Vis",
+      timestamp: "2024-05-02T09:30:00Z",
+      sampleID: "S1",
+      sample: "Caffeine standard",
+      method: "Caffeine assay",
+      author: "Ada Lovelace",
+      instrument: "Cary 60",
+      manufacturer: "Agilent",
+      serialNumber: "MY1234",
+    });
+  });
+
+  it("expands auto-incremented X and labels several dependent series", () => {
+    const text = animl(
+      `<SeriesSet name="Spectrum" length="3">
+        <Series name="Raman shift" dependency="independent" seriesType="Float64">
+          <AutoIncrementedValueSet startIndex="0" endIndex="2">
+            <StartValue><D>100</D></StartValue>
+            <Increment><D>50</D></Increment>
+          </AutoIncrementedValueSet>
+        </Series>
+        <Series name="Scan 1" dependency="dependent" seriesType="Int32">
+          <IndividualValueSet><I>1</I><I>2</I><I>3</I></IndividualValueSet>
+        </Series>
+        <Series name="Scan 2" dependency="dependent" seriesType="Int32">
+          <IndividualValueSet startIndex="1"><I>5</I><I>6</I></IndividualValueSet>
+          <IndividualValueSet startIndex="0"><I>4</I></IndividualValueSet>
+        </Series>
+      </SeriesSet>`,
+      "Raman",
+    );
+
+    const spectra = parseAnIML(text);
+    expect(spectra.map((s) => s.label)).toEqual([
+      "Caffeine standard (Scan 1)",
+      "Caffeine standard (Scan 2)",
+    ]);
+    expect(Array.from(spectra[0].x)).toEqual([100, 150, 200]);
+    expect(Array.from(spectra[1].y)).toEqual([4, 5, 6]);
+    expect(spectra[0].type).toBe("Raman");
+  });
+
+  it("warns about non-numeric series, gaps and a missing X series", () => {
+    const warnings: ParseWarning[] = [];
+    const text = animl(`<SeriesSet name="Spectrum" length="3">
+      <Series name="Comment" dependency="dependent" seriesType="String">
+        <IndividualValueSet><S>a</S></IndividualValueSet>
+      </Series>
+      <Series name="Signal" dependency="dependent" seriesType="Float32">
+        <IndividualValueSet startIndex="1"><F>2</F><F>3</F></IndividualValueSet>
+      </Series>
+    </SeriesSet>`);
+
+    const [spectrum] = parseAnIML(text, { onWarning: (w) => warnings.push(w) });
+    expect(Array.from(spectrum.x)).toEqual([0, 1, 2]);
+    expect(Array.from(spectrum.y)).toEqual([0, 2, 3]);
+    expect(warnings.map((w) => w.message)).toEqual([
+      'Skipped series "Comment" of non-numeric type string',
+      "Replaced 1 missing or non-numeric value(s) with 0",
+      "SeriesSet has no independent series; using point indices as X",
+    ]);
+    expect(warnings.every((w) => w.format === "animl" && w.line !== undefined)).toBe(true);
+  });
+
+  it("throws on non-AnIML documents and documents without data", () => {
+    expect(() => parseAnIML("<GAML/>")).toThrow("missing <AnIML> root element");
+    expect(() => parseAnIML(animl(""))).toThrow("no dependent series found");
+    expect(() =>
+      parseAnIML(
+        animl(`<SeriesSet length="1"><Series dependency="dependent" seriesType="Float32">
+          <EncodedValueSet>not base64!</EncodedValueSet></Series></SeriesSet>`),
+      ),
+    ).toThrow("values are not valid base64");
+  });
+});
@@ -0,0 +1,18 @@
+import { describe, it, expect } from "vitest";
+import { decodeText } from "../binary";
+
+describe("decodeText", () => {
+  it("stops at the first NUL byte and trims", () => {
+    const bytes = new Uint8Array([0x20, 0x41, 0x42, 0x20, 0x00, 0x43, 0x44]);
+    expect(decodeText(bytes)).toBe("AB");
+  });
+
+  it("decodes the whole field when there is no NUL byte", () => {
+    expect(decodeText(new TextEncoder().encode("WDF1"))).toBe("WDF1");
+  });
+
+  it("decodes Latin-1 by default and UTF-8 on request", () => {
+    expect(decodeText(new Uint8Array([0xb5, 0x6d, 0x00]))).toBe("µm");
+    expect(decodeText(new Uint8Array([0xc2, 0xb5, 0x6d, 0x00]), "utf-8")).toBe("µm");
+  });
+});
@@ -1,5 +1,7 @@
 import { describe, it, expect } from "vitest";
-import { parseCsv, parseCsvMulti } from "../csv";
+import { parseCsv, parseCsvMulti, parseCsvWide, parseCsvColumns, previewCsv } from "../csv";
+import { SpectrumParseError } from "../errors";
+import type { ParseWarning } from "../errors";
 
 describe("parseCsv", () => {
   it("parses basic CSV with header", () => {
@@ -70,6 +72,90 @@ describe("parseCsv", () => {
   });
 });
 
+describe("parseCsv locale and preamble handling", () => {
+  it("parses semicolon-delimited data with decimal commas", () => {
+    const text = "Wellenzahl;Absorption\n4000;0,12\n3500;0,345\n3000;1,5";
+    const result = parseCsv(text);
+
+    expect(Array.from(result.x)).toEqual([4000, 3500, 3000]);
+    expect(Array.from(result.y)).toEqual([0.12, 0.345, 1.5]);
+    expect(result.label).toBe("Absorption");
+  });
+
+  it("parses tab-delimited decimal commas without a header", () => {
+    const result = parseCsv("400,5\t0,1\n401,5\t0,2");
+    expect(result.x[0]).toBe(400.5);
+    expect(result.y[1]).toBe(0.2);
+  });
+
+  it("captures preamble lines into meta and finds the header row", () => {
+    const text = [
+      "Instrument: FT/IR-4600",
+      "Operator = A. Chen",
+      "Scans: 32",
+      "Resolution;4,0",
+      "",
+      "Wavenumber (cm-1);Absorbance (AU)",
+      "4000;0,10",
+      "3998;0,11",
+    ].join("\n");
+    const result = parseCsv(text);
+
+    expect(result.meta).toEqual({
+      Instrument: "FT/IR-4600",
+      Operator: "A. Chen",
+      Scans: 32,
+      Resolution: 4,
+    });
+    expect(result.x).toHaveLength(2);
+    expect(result.y[1]).toBe(0.11);
+    expect(result.label).toBe("Absorbance");
+  });
+
+  it("reads units from header cells", () => {
+    const result = parseCsv("Wavenumber (cm-1),Intensity [counts]\n100,1\n200,2");
+    expect(result.xUnit).toBe("cm⁻¹");
+    expect(result.yUnit).toBe("counts");
+    expect(result.label).toBe("Intensity");
+
+    const slash = parseCsv("Wavelength / nm,Reflectance / %\n400,50\n500,60");
+    expect(slash.xUnit).toBe("nm");
+    expect(slash.yUnit).toBe("%");
+  });
+
+  it("keeps bracketed text that is not a unit in the name", () => {
+    const result = parseCsvMulti("Wavenumber (cm-1),Sample (1),Sample (2)\n100,1,2\n200,3,4");
+    expect(result.map((s) => s.label)).toEqual(["Sample (1)", "Sample (2)"]);
+    expect(result[0].yUnit).toBeUndefined();
+    expect(result[0].xUnit).toBe("cm⁻¹");
+
+    const named = parseCsv("Wavelength / nm,Intensity (sample A)\n400,1\n500,2");
+    expect(named.label).toBe("Intensity (sample A)");
+    expect(named.yUnit).toBeUndefined();
+  });
+
+  it("honours an explicit decimal separator", () => {
+    const result = parseCsv("x;y\n1;2,5", { decimalSeparator: "," });
+    expect(result.y[0]).toBe(2.5);
+  });
+
+  it("applies the same handling to parseCsvMulti", () => {
+    const text = "Sample: blend\nnm;A (AU);B (AU)\n400;0,1;0,2\n500;0,3;0,4";
+    const result = parseCsvMulti(text);
+
+    expect(result.map((s) => s.label)).toEqual(["A", "B"]);
+    expect(result[1].y[1]).toBe(0.4);
+    expect(result[0].yUnit).toBe("AU");
+    expect(result[0].meta).toEqual({ Sample: "blend" });
+  });
+
+  it("reads decimal commas in wide CSV", () => {
+    const result = parseCsvWide("sample;1100,5;1101,5\nS1;0,41;0,42");
+    expect(Array.from(result[0].x)).toEqual([1100.5, 1101.5]);
+    expect(result[0].y[1]).toBe(0.42);
+  });
+});
+
 describe("parseCsvMulti", () => {
   it("parses multi-column CSV into multiple spectra", () => {
     const text = "x,sample_a,sample_b\n1000,0.5,0.3\n2000,0.8,0.6";
@@ -94,3 +180,182 @@ describe("parseCsvMulti", () => {
     expect(() => parseCsvMulti("x\n1\n2")).toThrow("at least 2 columns");
   });
 });
+
+describe("parseCsvWide", () => {
+  const NIR = [
+    "sample,protein,class,1100,1102,1104",
+    "S-01,12.5,wheat,0.41,0.42,0.44",
+    "S-02,9.8,barley,0.38,0.39,0.40",
+  ].join("\n");
+
+  it("reads the header as X and each row as a spectrum", () => {
+    const result = parseCsvWide(NIR);
+
+    expect(result).toHaveLength(2);
+    expect(Array.from(result[0].x)).toEqual([1100, 1102, 1104]);
+    expect(Array.from(result[1].y)).toEqual([0.38, 0.39, 0.4]);
+    expect(result[0].x).toBe(result[1].x);
+  });
+
+  it("stores leading metadata columns in meta", () => {
+    const [first, second] = parseCsvWide(NIR);
+
+    expect(first.label).toBe("S-01");
+    expect(first.meta).toEqual({ sample: "S-01", protein: 12.5, class: "wheat" });
+    expect(second.meta!.protein).toBe(9.8);
+  });
+
+  it("respects explicit metaColumns and labelColumn", () => {
+    const text = "id,1,2,3\n7,0.1,0.2,0.3\n8,0.4,0.5,0.6";
+    // Numeric sample IDs are not detectable from the header alone
+    const result = parseCsvWide(text, { metaColumns: 1 });
+    expect(Array.from(result[0].x)).toEqual([1, 2, 3]);
+    expect(result[0].meta).toEqual({ id: 7 });
+
+    const unlabelled = parseCsvWide("a,b,10,20\nx,y,1,2", { labelColumn: 1 });
+    expect(unlabelled[0].label).toBe("y");
+  });
+
+  it("labels rows without metadata by index", () => {
+    const result = parseCsvWide("400\t500\t600\n1\t2\t3\n4\t5\t6", { xUnit: "nm" });
+    expect(result.map((s) => s.label)).toEqual(["Spectrum 1", "Spectrum 2"]);
+    expect(result[0].xUnit).toBe("nm");
+    expect(result[0].meta).toEqual({});
+  });
+
+  it("throws when the header has no numeric X values", () => {
+    expect(() => parseCsvWide("sample,name\nA,B")).toThrow("numeric X values");
+  });
+});
+
+describe("previewCsv", () => {
+  it("detects the layout and splits the first rows", () => {
+    const preview = previewCsv("# exported\nx;y;z\n1;2,5;3\n2;3,5;4\n3;4,5;5", {}, 3);
+
+    expect(preview.delimiter).toBe(";");
+    expect(preview.decimalSeparator).toBe(",");
+    expect(preview.headerRow).toBe(0);
+    expect(preview.rows).toEqual([
+      ["x", "y", "z"],
+      ["1", "2,5", "3"],
+      ["2", "3,5", "4"],
+    ]);
+    expect(preview.columnCount).toBe(3);
+    expect(preview.xColumn).toBe(0);
+    expect(preview.yColumns).toEqual([1, 2]);
+  });
+
+  it("reports no header row for purely numeric data", () => {
+    expect(previewCsv("1,2\n3,4").headerRow).toBe(-1);
+  });
+
+  it("skips text columns and reads a single column as Y", () => {
+    const preview = previewCsv("Sample,Wavenumber,A\nS1,1000,0.1\nS2,1100,0.2");
+    expect(preview.headerRow).toBe(-1);
+    expect(preview.xColumn).toBe(1);
+    expect(preview.yColumns).toEqual([2]);
+
+    const single = previewCsv("Intensity\n0.1\n0.2\n0.3");
+    expect(single.xColumn).toBe(-1);
+    expect(single.yColumns).toEqual([0]);
+  });
+
+  it("includes a header row beyond maxRows", () => {
+    const preamble = Array.from({ length: 12 }, (_, i) => `Key ${i}: value`);
+    const preview = previewCsv([...preamble, "x,y", "1,2", "2,3"].join("\n"), {}, 5);
+
+    expect(preview.headerRow).toBe(12);
+    expect(preview.rows).toHaveLength(14);
+    expect(preview.rows[12]).toEqual(["x", "y"]);
+  });
+});
+
+describe("parseCsvColumns", () => {
+  const csv = "Time,Wavelength (nm),A,B\n0,400,0.1,0.5\n1,410,0.2,0.6\n2,420,0.3,0.7";
+
+  it("maps the chosen X and Y columns", () => {
+    const spectra = parseCsvColumns(csv, { xColumn: 1, yColumns: [2, 3], type: "UV-Vis" });
+
+    expect(spectra).toHaveLength(2);
+    expect(spectra[0].label).toBe("A");
+    expect(Array.from(spectra[0].x)).toEqual([400, 410, 420]);
+    expect(Array.from(spectra[1].y)).toEqual([0.5, 0.6, 0.7]);
+    expect(spectra[0].xUnit).toBe("nm");
+    expect(spectra[1].type).toBe("UV-Vis");
+  });
+
+  it("treats the header row as data when disabled", () => {
+    const spectra = parseCsvColumns("1,2\n3,4", { headerRow: -1, xColumn: 0, yColumns: [1] });
+    expect(Array.from(spectra[0].x)).toEqual([1, 3]);
+    expect(spectra[0].label).toBe("Column 2");
+  });
+
+  it("uses the point index as X when xColumn is -1", () => {
+    const warnings: ParseWarning[] = [];
+    const [spectrum] = parseCsvColumns("Intensity\n0.1\n0.2\n0.3", {
+      headerRow: -1,
+      xColumn: -1,
+      onWarning: (w) => warnings.push(w),
+    });
+
+    expect(Array.from(spectrum.x)).toEqual([0, 1, 2]);
+    expect(Array.from(spectrum.y)).toEqual([0.1, 0.2, 0.3]);
+    expect(warnings.map((w) => w.line)).toEqual([1]);
+  });
+
+  it("throws when no Y columns are selected", () => {
+    expect(() => parseCsvColumns(csv, { xColumn: 0, yColumns: [] })).toThrow("No Y columns");
+  });
+});
+
+describe("CSV parse warnings and errors", () => {
+  const collect = () => {
+    const warnings: ParseWarning[] = [];
+    return { warnings, onWarning: (w: ParseWarning) => warnings.push(w) };
+  };
+
+  it("reports skipped lines with their source line numbers", () => {
+    const { warnings, onWarning } = collect();
+    const spectrum = parseCsv("# comment\nx,y\n\n1,2\n2,oops\n3,4", { onWarning });
+
+    expect(Array.from(spectrum.x)).toEqual([1, 3]);
+    expect(warnings).toEqual([
+      { format: "csv", message: "Skipped line with non-numeric values", line: 5 },
+    ]);
+  });
+
+  it("reports y values replaced with 0 in multi-column files", () => {
+    const { warnings, onWarning } = collect();
+    const spectra = parseCsvMulti("x,a,b\n1,2,3\n2,,NaN?\n3,4,5", { onWarning });
+
+    expect(spectra[0].y[1]).toBe(0);
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0]).toMatchObject({
+      line: 3,
+      message: "Replaced 2 missing or non-numeric y values with 0",
+    });
+  });
+
+  it("reports y values replaced with 0 in wide files", () => {
+    const { warnings, onWarning } = collect();
+    parseCsvWide("sample,100,200\nA,1,2\nB,3,-", { onWarning });
+    expect(warnings).toEqual([
+      {
+        format: "csv",
+        message: "Replaced 1 missing or non-numeric y value with 0",
+        line: 3,
+      },
+    ]);
+  });
+
+  it("throws SpectrumParseError with the format", () => {
+    expect(() => parseCsv("a,b\nc,d")).toThrow(SpectrumParseError);
+    let error: unknown;
+    try {
+      parseCsvWide("sample,name\nA,B");
+    } catch (err) {
+      error = err;
+    }
+    expect(error).toMatchObject({ format: "csv", line: 1 });
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect } from "vitest";
+import { detectFormat, parseAny } from "../detect";
+import { writeSpc } from "../spc";
+import { createTestSpectrum } from "../../test/helpers";
+
+const encode = (text: string) => new TextEncoder().encode(text).buffer as ArrayBuffer;
+
+const JCAMP = [
+  "##TITLE=Test",
+  "##JCAMP-DX=4.24",
+  "##XUNITS=1/CM",
+  "##YUNITS=ABSORBANCE",
+  "##NPOINTS=2",
+  "##XYPOINTS=(XY..XY)",
+  "1000, 0.1",
+  "2000, 0.2",
+  "##END=",
+].join("\n");
+
+/** Buffer starting with the given bytes, padded with zeros. */
+function signature(bytes: number[], size = 512): ArrayBuffer {
+  const out = new Uint8Array(size);
+  out.set(bytes);
+  return out.buffer;
+}
+
+describe("detectFormat", () => {
+  it("sniffs text formats regardless of extension", () => {
+    expect(detectFormat(JCAMP, "data.txt")).toBe("jcamp");
+    expect(detectFormat('{"x": [1], "y": [2]}', "data.txt")).toBe("json");
+    expect(detectFormat("  [1, 2]")).toBe("json");
+    expect(detectFormat("x\ty\n1\t2\n3\t4\n")).toBe("csv");
+    expect(detectFormat("1;0,5\n2;0,7\n")).toBe("csv");
+  });
+
+  it("sniffs XML formats by root element", () => {
+    const declaration = '<?xml version="1.0"?>\n<!-- exported -->\n';
+    expect(detectFormat(`${declaration}<AnIML xmlns="urn:x"/>`, "data.xml")).toBe("animl");
+    expect(detectFormat(encode(`${declaration}<GAML version="1.2"/>`))).toBe("gaml");
+    expect(detectFormat("<html></html>", "page.xml")).toBeNull();
+    expect(detectFormat("<broken", "run.animl")).toBe("animl");
+  });
+
+  it("sniffs text inside an ArrayBuffer", () => {
+    expect(detectFormat(encode(JCAMP))).toBe("jcamp");
+    expect(detectFormat(encode("1,2\n3,4\n"), "data.dat")).toBe("csv");
+  });
+
+  it("recognises binary signatures", () => {
+    expect(detectFormat(writeSpc([createTestSpectrum()]), "file.bin")).toBe("spc");
+    expect(detectFormat(signature([0x0a, 0x0a, 0xfe, 0xfe]))).toBe("opus");
+    expect(detectFormat(signature([0x57, 0x44, 0x46, 0x31]))).toBe("wdf");
+    const omnic = new Uint8Array(signature([]));
+    omnic.set(new TextEncoder().encode("Spectral Data File"));
+    expect(detectFormat(omnic.buffer)).toBe("omnic");
+  });
+
+  it("falls back to the filename extension for ambiguous content", () => {
+    expect(detectFormat(signature([]), "sample.0")).toBe("opus");
+    expect(detectFormat(signature([]), "sample.SPA")).toBe("omnic");
+    expect(detectFormat("Sample\nno data yet", "notes.csv")).toBe("csv");
+  });
+
+  it("does not apply text extensions to binary content", () => {
+    expect(detectFormat(signature([]), "data.csv")).toBeNull();
+  });
+
+  it("returns null for unrecognised content", () => {
+    expect(detectFormat("hello world", "notes.md")).toBeNull();
+    expect(detectFormat("hello world")).toBeNull();
+  });
+});
+
+describe("parseAny", () => {
+  it("reports the parser chosen", async () => {
+    const result = await parseAny(JCAMP, "data.txt");
+    expect(result.format).toBe("jcamp");
+    expect(result.spectra[0].label).toBe("Test");
+  });
+
+  it("parses binary SPC data from an ArrayBuffer", async () => {
+    const spectrum = createTestSpectrum();
+    const result = await parseAny(writeSpc([spectrum]));
+    expect(result.format).toBe("spc");
+    expect(result.spectra[0].x).toHaveLength(spectrum.x.length);
+  });
+
+  it("decodes text formats from an ArrayBuffer", async () => {
+    const result = await parseAny(encode('[{"x": [1, 2], "y": [3, 4]}]'));
+    expect(result.format).toBe("json");
+    expect(Array.from(result.spectra[0].y)).toEqual([3, 4]);
+  });
+
+  it("parses XML formats", async () => {
+    const text = `<GAML><experiment><trace technique="IR"><Xdata>
+      <values format="FLOAT32">${btoa("\0\0\x80?")}</values>
+      <Ydata><values format="FLOAT32">${btoa("\0\0\0@")}</values></Ydata>
+    </Xdata></trace></experiment></GAML>`;
+    const result = await parseAny(encode(text), "run.gaml");
+    expect(result.format).toBe("gaml");
+    expect(Array.from(result.spectra[0].x)).toEqual([1]);
+    expect(Array.from(result.spectra[0].y)).toEqual([2]);
+  });
+
+  it("collects parser warnings", async () => {
+    const result = await parseAny("x,y\n1,2\nn/a,3\n4,5", "data.csv");
+    expect(result.spectra[0].x).toHaveLength(2);
+    expect(result.warnings).toEqual([
+      { format: "csv", message: "Skipped line with non-numeric values", line: 3 },
+    ]);
+  });
+
+  it("throws for unsupported content", async () => {
+    await expect(parseAny("hello", "notes.md")).rejects.toThrow(
+      "Unsupported file format: notes.md",
+    );
+  });
+
+  it("does not treat text as a binary format", async () => {
+    await expect(parseAny("hello", "sample.spc")).rejects.toThrow(/Unsupported/);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect, vi } from "vitest";
+import { createProgress, createWarn, SpectrumParseError } from "../errors";
+
+describe("SpectrumParseError", () => {
+  it("carries the format, reason and location", () => {
+    const error = new SpectrumParseError("jcamp", "Y-value check failed", { line: 12 });
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error.name).toBe("SpectrumParseError");
+    expect(error.format).toBe("jcamp");
+    expect(error.reason).toBe("Y-value check failed");
+    expect(error.line).toBe(12);
+    expect(error.message).toBe("Y-value check failed (line 12)");
+  });
+
+  it("describes byte offsets for binary formats", () => {
+    const error = new SpectrumParseError("spc", "Bad header", { offset: 512 });
+    expect(error.message).toBe("Bad header (byte 512)");
+    expect(error.line).toBeUndefined();
+  });
+
+  it("uses the bare reason without a location", () => {
+    expect(new SpectrumParseError("csv", "No data").message).toBe("No data");
+  });
+});
+
+describe("createWarn", () => {
+  it("tags warnings with the format and location", () => {
+    const onWarning = vi.fn();
+    createWarn("wdf", { onWarning })("Truncated", { offset: 40 });
+    expect(onWarning).toHaveBeenCalledWith({ format: "wdf", message: "Truncated", offset: 40 });
+  });
+
+  it("does nothing without a callback", () => {
+    expect(() => createWarn("csv", {})("ignored")).not.toThrow();
+  });
+});
+
+describe("createProgress", () => {
+  it("reports about every 1% and always the total", () => {
+    const onProgress = vi.fn();
+    const progress = createProgress({ onProgress }, 1000, "lines");
+    for (let i = 0; i <= 1000; i++) progress(i);
+
+    expect(onProgress).toHaveBeenCalledTimes(101);
+    expect(onProgress).toHaveBeenLastCalledWith({ loaded: 1000, total: 1000, unit: "lines" });
+  });
+});
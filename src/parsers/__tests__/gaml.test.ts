@@ -0,0 +1,100 @@
+import { describe, it, expect } from "vitest";
+import { parseGaml } from "../gaml";
+import type { ParseWarning } from "../errors";
+
+/** Base64-encode numbers as little- or big-endian float32/float64. */
+function encode(values: number[], size: 4 | 8 = 4, littleEndian = true): string {
+  const view = new DataView(new ArrayBuffer(values.length * size));
+  values.forEach((v, i) => {
+    if (size === 4) view.setFloat32(i * size, v, littleEndian);
+    else view.setFloat64(i * size, v, littleEndian);
+  });
+  return btoa(String.fromCharCode(...new Uint8Array(view.buffer)));
+}
+
+function gaml(trace: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<GAML xmlns="http://www.gaml.org/GAML" version="1.20">
+  <parameter name="Operator">jdoe</parameter>
+  <experiment name="Polystyrene film">
+    <collectdate>2024-03-01T10:00:00</collectdate>
+    <parameter name="Resolution">4</parameter>
+    ${trace}
+  </experiment>
+</GAML>`;
+}
+
+describe("parseGaml", () => {
+  it("decodes base64 Xdata and Ydata with units and metadata", () => {
+    const text = gaml(`<trace name="Sample" technique="FTIR">
+      <Xdata units="WAVENUMBER">
+        <values format="FLOAT64" byteorder="INTEL" numvalues="3">${encode([4000, 3000, 2000], 8)}</values>
+        <Ydata units="ABSORBANCE" label="Polystyrene">
+          <values format="FLOAT32" byteorder="INTEL" numvalues="3">${encode([0.25, 0.5, 0.75])}</values>
+        </Ydata>
+      </Xdata>
+    </trace>`);
+
+    const [spectrum] = parseGaml(text);
+    expect(Array.from(spectrum.x)).toEqual([4000, 3000, 2000]);
+    expect(Array.from(spectrum.y)).toEqual([0.25, 0.5, 0.75]);
+    expect(spectrum.id).toMatch(/^gaml-\d+$/);
+    expect(spectrum.label).toBe("Polystyrene");
+    expect(spectrum.xUnit).toBe("cm⁻¹");
+    expect(spectrum.yUnit).toBe("Absorbance");
+    expect(spectrum.type).toBe("IR");
+    expect(spectrum.meta).toMatchObject({
+      format: "GAML",
+      Operator: "jdoe",
+      Resolution: 4,
+      experiment: "Polystyrene film",
+      date: "2024-03-01T10:00:00",
+      trace: "Sample",
+      technique: "FTIR",
+    });
+  });
+
+  it("reads big-endian values and Ydata siblings of Xdata", () => {
+    const text = gaml(`<trace name="Raman" technique="RAMAN">
+      <Xdata units="RAMANSHIFT">
+        <values format="FLOAT32" byteorder="MOTOROLA">${encode([100, 200], 4, false)}</values>
+      </Xdata>
+      <Ydata units="COUNTS"><values format="FLOAT32" byteorder="MOTOROLA">${encode([5, 6], 4, false)}</values></Ydata>
+      <Ydata units="COUNTS"><values format="FLOAT32" byteorder="MOTOROLA">${encode([7, 8], 4, false)}</values></Ydata>
+    </trace>`);
+
+    const spectra = parseGaml(text);
+    expect(spectra.length).toBe(2);
+    expect(Array.from(spectra[0].x)).toEqual([100, 200]);
+    expect(Array.from(spectra[1].y)).toEqual([7, 8]);
+    expect(spectra[0].type).toBe("Raman");
+    expect(spectra[0].xUnit).toBe("Raman shift (cm⁻¹)");
+    expect(spectra[0].label).toBe("Raman");
+  });
+
+  it("warns on numvalues and length mismatches", () => {
+    const warnings: ParseWarning[] = [];
+    const text = gaml(`<trace technique="NIR">
+      <Xdata><values format="FLOAT32" numvalues="4">${encode([1, 2, 3])}</values>
+        <Ydata><values format="FLOAT32">${encode([9, 8])}</values></Ydata>
+      </Xdata>
+    </trace>`);
+
+    const [spectrum] = parseGaml(text, { onWarning: (w) => warnings.push(w) });
+    expect(spectrum.x.length).toBe(2);
+    expect(spectrum.y.length).toBe(2);
+    expect(warnings.map((w) => w.message)).toEqual([
+      "numvalues is 4 but 3 values were decoded",
+      "Ydata has 2 values but Xdata has 3",
+    ]);
+    expect(warnings[0]).toMatchObject({ format: "gaml", line: 8 });
+  });
+
+  it("throws on non-GAML documents and missing data", () => {
+    expect(() => parseGaml("<AnIML/>")).toThrow("missing <GAML> root element");
+    expect(() => parseGaml(gaml(""))).toThrow("no Xdata/Ydata found");
+    expect(() =>
+      parseGaml(gaml('<trace><Xdata><values format="FLOAT16">AAAA</values></Xdata></trace>')),
+    ).toThrow("Unsupported GAML value format: FLOAT16");
+  });
+});
@@ -1,5 +1,7 @@
 import { describe, it, expect } from "vitest";
-import { parseJcamp } from "../jcamp";
+import { parseJcamp, parseJcampWithPeaks } from "../jcamp";
+import { SpectrumParseError } from "../errors";
+import type { ParseWarning } from "../errors";
 
 const SAMPLE_JCAMP = `##TITLE= Test IR Spectrum
 ##JCAMP-DX= 4.24
@@ -24,8 +26,9 @@ describe("parseJcamp", () => {
 
     expect(result.length).toBe(1);
     expect(result[0].label).toBe("Test IR Spectrum");
-    expect(result[0].xUnit).toBe("1/CM");
-    expect(result[0].yUnit).toBe("ABSORBANCE");
+    expect(result[0].xUnit).toBe("cm⁻¹");
+    expect(result[0].yUnit).toBe("Absorbance");
+    expect(result[0].meta?.XUNITS).toBe("1/CM");
     expect(result[0].type).toBe("IR");
   });
 
@@ -58,8 +61,263 @@ describe("parseJcamp", () => {
     expect(result[0].type).toBe("Raman");
   });
 
+  it("detects NIR spectrum type before IR", async () => {
+    for (const dataType of ["NEAR INFRARED SPECTRUM", "NIR SPECTRUM"]) {
+      const nirJcamp = SAMPLE_JCAMP.replace("INFRARED SPECTRUM", dataType);
+      const result = await parseJcamp(nirJcamp);
+      expect(result[0].type).toBe("NIR");
+    }
+  });
+
   it("throws on empty data", async () => {
     const empty = "##TITLE= Empty\n##END=\n";
     await expect(parseJcamp(empty)).rejects.toThrow();
   });
 });
+
+/** Build a minimal JCAMP-DX file around XYDATA lines. */
+function makeJcamp(headers: Record<string, string | number>, dataLines: string[]): string {
+  const head = Object.entries(headers)
+    .map(([k, v]) => `##${k}= ${v}`)
+    .join("\n");
+  return `##TITLE= Compressed\n${head}\n##XYDATA= (X++(Y..Y))\n${dataLines.join("\n")}\n##END=\n`;
+}
+
+const EXPECTED_Y = [1, 2, 3, 3, 2, 1, 0, -1, -2, -3];
+
+describe("parseJcamp ASDF compression", () => {
+  const headers = { FIRSTX: 1, LASTX: 10, NPOINTS: 10 };
+
+  it("decodes SQZ form", async () => {
+    const result = await parseJcamp(makeJcamp(headers, ["1ABCCBA@abc"]));
+    expect(Array.from(result[0].y)).toEqual(EXPECTED_Y);
+  });
+
+  it("decodes PAC form", async () => {
+    const result = await parseJcamp(makeJcamp(headers, ["1+1+2+3+3+2+1+0-1-2-3"]));
+    expect(Array.from(result[0].y)).toEqual(EXPECTED_Y);
+  });
+
+  it("decodes DIF form", async () => {
+    const result = await parseJcamp(makeJcamp(headers, ["1AJJ%jjjjjj"]));
+    expect(Array.from(result[0].y)).toEqual(EXPECTED_Y);
+  });
+
+  it("decodes DIFDUP form", async () => {
+    const result = await parseJcamp(makeJcamp(headers, ["1AJT%jX"]));
+    expect(Array.from(result[0].y)).toEqual(EXPECTED_Y);
+    expect(Array.from(result[0].x)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+  });
+
+  it("drops the Y-value check ordinate between DIF lines", async () => {
+    const result = await parseJcamp(makeJcamp(headers, ["1AJT%j", "5BjW", "10c"]));
+    expect(Array.from(result[0].y)).toEqual(EXPECTED_Y);
+  });
+
+  it("throws when the Y-value check fails", async () => {
+    const error = await parseJcamp(makeJcamp(headers, ["1AJT%j", "5CjW", "10c"])).catch(
+      (err: unknown) => err,
+    );
+    expect(error).toBeInstanceOf(SpectrumParseError);
+    expect(error).toMatchObject({ format: "jcamp", line: 7 });
+    expect((error as Error).message).toMatch(/Y-value check failed .*\(line 7\)/);
+  });
+
+  it("applies YFACTOR scaling", async () => {
+    const result = await parseJcamp(
+      makeJcamp({ ...headers, YFACTOR: 0.5 }, ["1AJT%jX"]),
+    );
+    expect(result[0].y[2]).toBeCloseTo(1.5);
+    expect(result[0].y[9]).toBeCloseTo(-1.5);
+  });
+
+  it("derives X from XFACTOR-scaled line abscissas without FIRSTX/LASTX", async () => {
+    const result = await parseJcamp(
+      makeJcamp({ XFACTOR: 0.1, NPOINTS: 6 }, ["100 1 2 3", "130 4 5 6"]),
+    );
+    const x = Array.from(result[0].x);
+    [10, 11, 12, 13, 14, 15].forEach((v, i) => expect(x[i]).toBeCloseTo(v));
+  });
+
+  it("warns when the decoded point count does not match NPOINTS", async () => {
+    const warnings: ParseWarning[] = [];
+    const result = await parseJcamp(makeJcamp({ ...headers, NPOINTS: 12 }, ["1AJT%jX"]), {
+      onWarning: (w) => warnings.push(w),
+    });
+
+    expect(result[0].y).toHaveLength(10);
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0]).toMatchObject({ format: "jcamp", line: 6 });
+    expect(warnings[0].message).toMatch(/NPOINTS is 12/);
+  });
+
+  it("ignores $$ comments on data lines", async () => {
+    const result = await parseJcamp(makeJcamp(headers, ["1AJT%jX $$ checksum"]));
+    expect(result[0].y).toHaveLength(10);
+  });
+});
+
+const LINK_JCAMP = `##TITLE= Library entry
+##JCAMP-DX= 5.01
+##DATA TYPE= LINK
+##BLOCKS= 3
+##TITLE= IR of sample
+##JCAMP-DX= 5.01
+##DATA TYPE= INFRARED SPECTRUM
+##BLOCK_ID= 1
+##FIRSTX= 1
+##LASTX= 10
+##NPOINTS= 10
+##XYDATA= (X++(Y..Y))
+1AJT%jX
+##END=
+##TITLE= Raman of sample
+##JCAMP-DX= 5.01
+##DATA TYPE= RAMAN SPECTRUM
+##BLOCK_ID= 2
+##CROSS REFERENCE= IR: BLOCK_ID= 1
+##FIRSTX= 100
+##LASTX= 300
+##NPOINTS= 3
+##XYDATA= (X++(Y..Y))
+100 5 6 7
+##END=
+##TITLE= Notes only
+##BLOCK_ID= 3
+##END=
+##END=
+`;
+
+describe("parseJcamp multi-block files", () => {
+  it("emits one spectrum per data block of a LINK file", async () => {
+    const result = await parseJcamp(LINK_JCAMP);
+
+    expect(result).toHaveLength(2);
+    expect(result[0].label).toBe("IR of sample");
+    expect(result[0].type).toBe("IR");
+    expect(Array.from(result[0].y)).toEqual(EXPECTED_Y);
+    expect(result[1].label).toBe("Raman of sample");
+    expect(result[1].type).toBe("Raman");
+    expect(Array.from(result[1].x)).toEqual([100, 200, 300]);
+  });
+
+  it("keeps block IDs and cross references in meta", async () => {
+    const result = await parseJcamp(LINK_JCAMP);
+
+    expect(result[0].meta?.["BLOCK_ID"]).toBe("1");
+    expect(result[1].meta?.["BLOCK_ID"]).toBe("2");
+    expect(result[1].meta?.["CROSS REFERENCE"]).toBe("IR: BLOCK_ID= 1");
+  });
+
+  it("does not leak headers between sibling blocks", async () => {
+    const result = await parseJcamp(LINK_JCAMP);
+    expect(result[0].meta?.["CROSS REFERENCE"]).toBeUndefined();
+    expect(result[1].meta?.["FIRSTX"]).toBe("100");
+  });
+
+  it("parses concatenated top-level blocks", async () => {
+    const a = makeJcamp({ FIRSTX: 1, LASTX: 10, NPOINTS: 10 }, ["1AJT%jX"]);
+    const b = makeJcamp({ FIRSTX: 1, LASTX: 3, NPOINTS: 3 }, ["1 4 5 6"]);
+    const result = await parseJcamp(a + b);
+
+    expect(result).toHaveLength(2);
+    expect(Array.from(result[1].y)).toEqual([4, 5, 6]);
+  });
+});
+
+const NTUPLES_JCAMP = `##TITLE= Kinetics
+##JCAMP-DX= 5.01
+##DATA TYPE= INFRARED SPECTRUM
+##NTUPLES= INFRARED SPECTRUM
+##VAR_NAME= WAVENUMBER, ABSORBANCE, TIME
+##SYMBOL= X, Y, T
+##VAR_TYPE= INDEPENDENT, DEPENDENT, INDEPENDENT
+##VAR_FORM= AFFN, ASDF, AFFN
+##VAR_DIM= 4, 4, 2
+##UNITS= 1/CM, ABSORBANCE, SECONDS
+##FIRST= 1000, , 0
+##LAST= 1600, , 30
+##FACTOR= 1, 0.01, 1
+##PAGE= T=0
+##DATA TABLE= (X++(Y..Y)), XYDATA
+1000 10 20 30 40
+##PAGE= T=30
+##NPOINTS= 4
+##DATA TABLE= (X++(Y..Y)), XYDATA
+1000A%JT
+##END NTUPLES= INFRARED SPECTRUM
+##END=
+`;
+
+describe("parseJcamp NTUPLES", () => {
+  it("returns one spectrum per page", async () => {
+    const result = await parseJcamp(NTUPLES_JCAMP);
+
+    expect(result).toHaveLength(2);
+    expect(result[0].label).toBe("Kinetics (T=0)");
+    expect(result[1].label).toBe("Kinetics (T=30)");
+    expect(result[0].type).toBe("IR");
+  });
+
+  it("resolves axes, units and factors from the tuple columns", async () => {
+    const [first, second] = await parseJcamp(NTUPLES_JCAMP);
+
+    expect(Array.from(first.x)).toEqual([1000, 1200, 1400, 1600]);
+    expect(first.y[3]).toBeCloseTo(0.4);
+    expect(first.xUnit).toBe("cm⁻¹");
+    expect(first.yUnit).toBe("Absorbance");
+    [0.01, 0.01, 0.02, 0.03].forEach((v, i) => expect(second.y[i]).toBeCloseTo(v));
+  });
+
+  it("records the page variable in meta", async () => {
+    const [first, second] = await parseJcamp(NTUPLES_JCAMP);
+
+    expect(first.meta?.["PAGE"]).toBe("T=0");
+    expect(first.meta?.["PAGE_VARIABLE"]).toBe("TIME");
+    expect(first.meta?.["PAGE_VALUE"]).toBe(0);
+    expect(second.meta?.["PAGE_VALUE"]).toBe(30);
+  });
+});
+
+describe("parseJcamp XYPOINTS and PEAK TABLE", () => {
+  it("reads multiple XYPOINTS pairs per line", async () => {
+    const text = `##TITLE= Points
+##XFACTOR= 2
+##XYPOINTS= (XY..XY)
+100, 1.5; 200, 2.5
+300, 3.5
+##END=
+`;
+    const result = await parseJcamp(text);
+    expect(Array.from(result[0].x)).toEqual([200, 400, 600]);
+    expect(Array.from(result[0].y)).toEqual([1.5, 2.5, 3.5]);
+  });
+
+  it("returns peak tables as peaks linked to the block's spectrum", async () => {
+    const text = `##TITLE= With peaks
+##FIRSTX= 1
+##LASTX= 10
+##NPOINTS= 10
+##XYDATA= (X++(Y..Y))
+1AJT%jX
+##PEAK TABLE= (XYW..XYW)
+3.2, 3, 0.5 4.1, 3, 0.4
+##END=
+`;
+    const { spectra, peaks } = await parseJcampWithPeaks(text);
+
+    expect(spectra).toHaveLength(1);
+    expect(peaks).toHaveLength(2);
+    expect(peaks[0]).toEqual({ x: 3.2, y: 3, label: "3", spectrumId: spectra[0].id });
+    expect(peaks[1].x).toBe(4.1);
+  });
+
+  it("accepts files that only contain a peak table", async () => {
+    const text = "##TITLE= Peaks only\n##PEAK TABLE= (XY..XY)\n1650, 0.9\n##END=\n";
+    const { spectra, peaks } = await parseJcampWithPeaks(text);
+
+    expect(spectra).toHaveLength(0);
+    expect(peaks).toEqual([{ x: 1650, y: 0.9, label: "1650", spectrumId: undefined }]);
+    await expect(parseJcamp(text)).rejects.toThrow(/no data found/);
+  });
+});
@@ -1,5 +1,7 @@
 import { describe, it, expect } from "vitest";
 import { parseJson } from "../json";
+import type { ParseWarning } from "../errors";
+import { encodeBase64Numbers } from "../../utils/base64";
 
 describe("parseJson", () => {
   it("parses a single spectrum object", () => {
@@ -109,4 +111,90 @@ describe("parseJson", () => {
     const result = parseJson(json);
     expect(result[0].label).toBe("Spectrum 1");
   });
+
+  it("reports the path of non-numeric values", () => {
+    const json = JSON.stringify({
+      spectra: [
+        { x: [1, 2], y: [3, 4] },
+        { x: [1, 2, 3], y: [3, null, 5] },
+      ],
+    });
+    expect(() => parseJson(json)).toThrow("spectra[1].y[1] is not a number");
+    expect(() => parseJson('[{"x": ["1"], "y": [2]}]')).toThrow("[0].x[0] is not a number");
+    expect(() => parseJson('{"x": [1], "y": [2], "xUnit": 5}')).toThrow("xUnit must be a string");
+    expect(() => parseJson('{"x": [1], "y": [2], "type": "XRD"}')).toThrow("type must be one of");
+    expect(() => parseJson("[1]")).toThrow("[0]: expected a spectrum object");
+  });
+
+  it("decodes base64-encoded float arrays", () => {
+    const json = JSON.stringify({
+      x: { encoding: "base64", dtype: "float64", data: encodeBase64Numbers([1.1, 2.2], "float64") },
+      y: { dtype: "float32", data: encodeBase64Numbers([0.5, 0.25], "float32") },
+    });
+
+    const [spectrum] = parseJson(json);
+    expect(Array.from(spectrum.x)).toEqual([1.1, 2.2]);
+    expect(Array.from(spectrum.y)).toEqual([0.5, 0.25]);
+  });
+
+  it("validates base64-encoded arrays", () => {
+    const encoded = (y: object) => JSON.stringify({ spectra: [{ x: [1], y }] });
+    expect(() => parseJson(encoded({ dtype: "int16", data: "AAA=" }))).toThrow(
+      'spectra[0].y.dtype must be "float32" or "float64"',
+    );
+    expect(() => parseJson(encoded({ dtype: "float32", data: "!!" }))).toThrow(
+      "spectra[0].y.data is not valid base64",
+    );
+    expect(() => parseJson(encoded({ dtype: "float32", data: "AAAAAAA=" }))).toThrow(
+      "spectra[0].y.data has 5 bytes, not a multiple of 4",
+    );
+    expect(() =>
+      parseJson(encoded({ dtype: "float64", data: encodeBase64Numbers([NaN], "float64") })),
+    ).toThrow("spectra[0].y[0] is not a finite number");
+  });
+
+  it("expands implicit x axes", () => {
+    const flat = parseJson(
+      JSON.stringify({ firstX: 400, lastX: 100, npoints: 4, y: [1, 2, 3, 4] }),
+    );
+    expect(Array.from(flat[0].x)).toEqual([400, 300, 200, 100]);
+
+    const nested = parseJson(JSON.stringify({ x: { firstX: 1, lastX: 1, npoints: 1 }, y: [5] }));
+    expect(Array.from(nested[0].x)).toEqual([1]);
+
+    expect(() => parseJson('{"firstX": 1, "lastX": 2, "npoints": 2.5, "y": [1, 2]}')).toThrow(
+      "npoints must be a positive integer",
+    );
+    expect(() => parseJson('{"firstX": 1, "lastX": 2, "npoints": 3, "y": [1, 2]}')).toThrow(
+      "same length (got 3 and 2)",
+    );
+  });
+
+  it("warns when an implicit axis is shadowed by x", () => {
+    const warnings: ParseWarning[] = [];
+    parseJson('[{"x": [1], "y": [2], "npoints": 1}]', { onWarning: (w) => warnings.push(w) });
+    expect(warnings).toEqual([
+      {
+        format: "json",
+        message: '[0]: firstX/lastX/npoints were ignored because "x" is present',
+      },
+    ]);
+  });
+
+  it("stringifies unsupported meta values with a warning", () => {
+    const warnings: ParseWarning[] = [];
+    const json = JSON.stringify([
+      { x: [1], y: [2], meta: { a: [1, 2], ok: true, source: "lab" } },
+      { x: [1], y: [2], meta: "lab" },
+    ]);
+    const result = parseJson(json, { onWarning: (w) => warnings.push(w) });
+
+    expect(result[0].meta).toEqual({ a: "[1,2]", ok: "true", source: "lab" });
+    expect(result[1].meta).toBeUndefined();
+    expect(warnings.map((w) => w.message)).toEqual([
+      "[0].meta.a was converted to a string",
+      "[0].meta.ok was converted to a string",
+      "[1].meta was ignored because it is not an object",
+    ]);
+  });
 });
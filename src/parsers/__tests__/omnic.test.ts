@@ -0,0 +1,138 @@
+import { describe, it, expect } from "vitest";
+import { parseOmnic } from "../omnic";
+
+interface TestSpectrum {
+  title?: string;
+  xCode?: number;
+  yCode?: number;
+  firstX?: number;
+  lastX?: number;
+  scans?: number;
+  y: number[];
+}
+
+/**
+ * Create an OMNIC buffer: fixed header, key table, then a 96-byte
+ * spectral header, intensities and optional title per spectrum.
+ */
+function createOmnicBuffer(options: {
+  title?: string;
+  timestamp?: number;
+  declareKeys?: boolean;
+  spectra: TestSpectrum[];
+}): ArrayBuffer {
+  const { title = "", timestamp = 0, declareKeys = false, spectra } = options;
+
+  const sections: { key: number; data: Uint8Array }[] = [];
+  for (const s of spectra) {
+    const header = new DataView(new ArrayBuffer(96));
+    header.setUint32(4, s.y.length, true);
+    header.setUint8(8, s.xCode ?? 1);
+    header.setUint8(12, s.yCode ?? 17);
+    header.setFloat32(16, s.firstX ?? 4000, true);
+    header.setFloat32(20, s.lastX ?? 400, true);
+    header.setUint32(76, s.scans ?? 0, true);
+    sections.push({ key: 2, data: new Uint8Array(header.buffer) });
+
+    const values = new DataView(new ArrayBuffer(s.y.length * 4));
+    s.y.forEach((v, i) => values.setFloat32(i * 4, v, true));
+    sections.push({ key: 3, data: new Uint8Array(values.buffer) });
+
+    if (s.title) {
+      sections.push({ key: 108, data: new TextEncoder().encode(`${s.title}\0`) });
+    }
+  }
+
+  const tableEnd = 304 + (sections.length + 1) * 16;
+  const size = sections.reduce((sum, s) => sum + s.data.length, tableEnd);
+  const buffer = new ArrayBuffer(size);
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+
+  bytes.set(new TextEncoder().encode(title), 30);
+  if (declareKeys) view.setUint16(294, sections.length, true);
+  view.setUint32(296, timestamp, true);
+
+  let offset = tableEnd;
+  sections.forEach((s, i) => {
+    const entry = 304 + i * 16;
+    view.setUint8(entry, s.key);
+    view.setUint32(entry + 2, offset, true);
+    view.setUint32(entry + 6, s.data.length, true);
+    bytes.set(s.data, offset);
+    offset += s.data.length;
+  });
+  // Terminating key 0 entry is left zeroed
+
+  return buffer;
+}
+
+describe("parseOmnic", () => {
+  it("parses a single .spa spectrum", () => {
+    const buffer = createOmnicBuffer({
+      title: "Polystyrene film",
+      spectra: [{ y: [0.1, 0.4, 0.2, 0.05], firstX: 4000, lastX: 1000, scans: 32 }],
+    });
+    const spectra = parseOmnic(buffer);
+
+    expect(spectra).toHaveLength(1);
+    const [spectrum] = spectra;
+    expect(spectrum.label).toBe("Polystyrene film");
+    expect(Array.from(spectrum.x)).toEqual([4000, 3000, 2000, 1000]);
+    expect(spectrum.y[1]).toBeCloseTo(0.4);
+    expect(spectrum.xUnit).toBe("cm⁻¹");
+    expect(spectrum.yUnit).toBe("Absorbance");
+    expect(spectrum.type).toBe("IR");
+    expect(spectrum.id).toMatch(/^omnic-/);
+    expect(spectrum.meta).toMatchObject({ format: "OMNIC", scans: 32 });
+  });
+
+  it("converts the acquisition timestamp to an ISO date", () => {
+    // 2024-01-01 00:00 UTC is 45291 days after 1899-12-31
+    const buffer = createOmnicBuffer({
+      timestamp: 45291 * 86400,
+      spectra: [{ y: [1, 2] }],
+    });
+    expect(parseOmnic(buffer)[0].meta!.date).toBe("2024-01-01T00:00:00.000Z");
+  });
+
+  it("reads .spg groups as multiple spectra with their own titles", () => {
+    const buffer = createOmnicBuffer({
+      title: "Kinetics",
+      declareKeys: true,
+      spectra: [
+        { title: "t = 0 min", y: [1, 2, 3] },
+        { title: "t = 5 min", y: [4, 5, 6] },
+        { y: [7, 8, 9] },
+      ],
+    });
+    const spectra = parseOmnic(buffer);
+
+    expect(spectra.map((s) => s.label)).toEqual(["t = 0 min", "t = 5 min", "Kinetics 3"]);
+    expect(spectra[1].y[0]).toBe(4);
+    expect(spectra[2].meta!.group).toBe("Kinetics");
+  });
+
+  it("maps unit codes and infers Raman spectra", () => {
+    const buffer = createOmnicBuffer({
+      spectra: [{ xCode: 32, yCode: 31, firstX: 100, lastX: 3200, y: [1, 2] }],
+    });
+    const [spectrum] = parseOmnic(buffer);
+    expect(spectrum.xUnit).toBe("Raman shift (cm⁻¹)");
+    expect(spectrum.yUnit).toBe("Raman intensity");
+    expect(spectrum.type).toBe("Raman");
+  });
+
+  it("labels % transmittance data", () => {
+    const buffer = createOmnicBuffer({ spectra: [{ yCode: 16, y: [90, 80] }] });
+    expect(parseOmnic(buffer)[0].yUnit).toBe("% Transmittance");
+  });
+
+  it("throws on buffer too small", () => {
+    expect(() => parseOmnic(new ArrayBuffer(100))).toThrow("too small");
+  });
+
+  it("throws when there is no spectral data", () => {
+    expect(() => parseOmnic(new ArrayBuffer(512))).toThrow("no spectral data");
+  });
+});
@@ -0,0 +1,203 @@
+import { describe, it, expect } from "vitest";
+import { parseOpus } from "../opus";
+
+type Param = [name: string, value: number | string, type?: number];
+
+interface TestBlock {
+  type: number;
+  channel: number;
+  data: Uint8Array;
+}
+
+/** Encode an OPUS parameter block. */
+function paramBlock(params: Param[]): Uint8Array {
+  const chunks: number[] = [];
+  const push = (name: string, type: number, value: Uint8Array) => {
+    const header = new DataView(new ArrayBuffer(8));
+    for (let i = 0; i < 3; i++) header.setUint8(i, name.charCodeAt(i) || 0);
+    header.setUint16(4, type, true);
+    header.setUint16(6, value.length / 2, true);
+    chunks.push(...new Uint8Array(header.buffer), ...value);
+  };
+
+  for (const [name, value, explicitType] of params) {
+    if (typeof value === "string") {
+      // NUL-terminated, padded to an even length
+      const size = (value.length + 2) & ~1;
+      const text = new Uint8Array(size);
+      for (let i = 0; i < value.length; i++) text[i] = value.charCodeAt(i);
+      push(name, 2, text);
+    } else if ((explicitType ?? (Number.isInteger(value) ? 0 : 1)) === 0) {
+      const v = new DataView(new ArrayBuffer(4));
+      v.setInt32(0, value, true);
+      push(name, 0, new Uint8Array(v.buffer));
+    } else {
+      const v = new DataView(new ArrayBuffer(8));
+      v.setFloat64(0, value, true);
+      push(name, 1, new Uint8Array(v.buffer));
+    }
+  }
+  push("END", 0, new Uint8Array(0));
+  return new Uint8Array(chunks);
+}
+
+/** Encode float32 ordinates as a data block. */
+function dataBlock(values: number[]): Uint8Array {
+  const view = new DataView(new ArrayBuffer(values.length * 4));
+  values.forEach((v, i) => view.setFloat32(i * 4, v, true));
+  return new Uint8Array(view.buffer);
+}
+
+/** Assemble an OPUS file from blocks: header, directory, then block data. */
+function createOpusBuffer(blocks: TestBlock[]): ArrayBuffer {
+  const directoryOffset = 24;
+  let offset = directoryOffset + blocks.length * 12;
+  const offsets = blocks.map((b) => {
+    const start = offset;
+    offset += Math.ceil(b.data.length / 4) * 4;
+    return start;
+  });
+
+  const buffer = new ArrayBuffer(offset);
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  bytes.set([0x0a, 0x0a, 0xfe, 0xfe]);
+  view.setFloat64(4, 920622, true);
+  view.setInt32(12, directoryOffset, true);
+  view.setInt32(16, blocks.length, true);
+  view.setInt32(20, blocks.length, true);
+
+  blocks.forEach((b, i) => {
+    const entry = directoryOffset + i * 12;
+    view.setUint8(entry, b.type);
+    view.setUint8(entry + 1, b.channel);
+    view.setInt32(entry + 4, Math.ceil(b.data.length / 4), true);
+    view.setInt32(entry + 8, offsets[i], true);
+    bytes.set(b.data, offsets[i]);
+  });
+
+  return buffer;
+}
+
+const AB_PARAMS: Param[] = [
+  ["DPF", 1],
+  ["NPT", 4],
+  ["FXV", 4000, 1],
+  ["LXV", 1000, 1],
+  ["CSF", 1, 1],
+  ["DXU", "WN"],
+  ["DAT", "12/03/2024"],
+  ["TIM", "10:15:00.000 (GMT+1)"],
+];
+
+describe("parseOpus", () => {
+  it("parses an AB block with axis reconstruction", () => {
+    const buffer = createOpusBuffer([
+      { type: 31, channel: 16, data: paramBlock(AB_PARAMS) },
+      { type: 15, channel: 16, data: dataBlock([0.1, 0.5, 0.25, 0]) },
+    ]);
+    const [spectrum] = parseOpus(buffer);
+
+    expect(Array.from(spectrum.x)).toEqual([4000, 3000, 2000, 1000]);
+    expect(spectrum.y[1]).toBeCloseTo(0.5);
+    expect(spectrum.y[2]).toBeCloseTo(0.25);
+    expect(spectrum.xUnit).toBe("cm⁻¹");
+    expect(spectrum.yUnit).toBe("Absorbance");
+    expect(spectrum.type).toBe("IR");
+    expect(spectrum.id).toMatch(/^opus-/);
+    expect(spectrum.meta).toMatchObject({
+      format: "OPUS",
+      block: "AB",
+      date: "12/03/2024 10:15:00.000 (GMT+1)",
+    });
+  });
+
+  it("extracts AB, TR, ScSm and ScRf blocks as separate spectra", () => {
+    const buffer = createOpusBuffer([
+      { type: 31, channel: 16, data: paramBlock(AB_PARAMS) },
+      { type: 15, channel: 16, data: dataBlock([1, 2, 3, 4]) },
+      { type: 31, channel: 20, data: paramBlock(AB_PARAMS) },
+      { type: 15, channel: 20, data: dataBlock([90, 80, 70, 60]) },
+      { type: 23, channel: 4, data: paramBlock(AB_PARAMS) },
+      { type: 7, channel: 4, data: dataBlock([5, 6, 7, 8]) },
+      { type: 27, channel: 4, data: paramBlock(AB_PARAMS) },
+      { type: 11, channel: 4, data: dataBlock([9, 10, 11, 12]) },
+      // Interferogram blocks are skipped
+      { type: 23, channel: 8, data: paramBlock(AB_PARAMS) },
+      { type: 7, channel: 8, data: dataBlock([0, 0, 0, 0]) },
+    ]);
+    const spectra = parseOpus(buffer);
+
+    expect(spectra.map((s) => s.meta!.block)).toEqual(["AB", "TR", "ScSm", "ScRf"]);
+    expect(spectra[1].yUnit).toBe("Transmittance");
+    expect(spectra[2].yUnit).toBe("Single channel");
+    expect(spectra[3].y[0]).toBe(9);
+  });
+
+  it("applies the CSF scaling factor", () => {
+    const params = AB_PARAMS.map((p): Param => (p[0] === "CSF" ? ["CSF", 0.5, 1] : p));
+    const buffer = createOpusBuffer([
+      { type: 31, channel: 16, data: paramBlock(params) },
+      { type: 15, channel: 16, data: dataBlock([2, 4, 6, 8]) },
+    ]);
+    expect(Array.from(parseOpus(buffer)[0].y)).toEqual([1, 2, 3, 4]);
+  });
+
+  it("maps instrument and acquisition parameters into meta", () => {
+    const buffer = createOpusBuffer([
+      { type: 32, channel: 0, data: paramBlock([["INS", "TENSOR 27"], ["LWN", 15798.2, 1]]) },
+      { type: 48, channel: 0, data: paramBlock([["NSS", 32], ["RES", 4, 1], ["XYZ", 7]]) },
+      { type: 96, channel: 0, data: paramBlock([["SRC", "MIR"], ["DTC", "RT-DLaTGS"]]) },
+      { type: 160, channel: 0, data: paramBlock([["SNM", "Polystyrene"]]) },
+      { type: 31, channel: 16, data: paramBlock(AB_PARAMS) },
+      { type: 15, channel: 16, data: dataBlock([1, 2, 3, 4]) },
+    ]);
+    const [spectrum] = parseOpus(buffer);
+
+    expect(spectrum.label).toBe("Polystyrene (AB)");
+    expect(spectrum.meta).toMatchObject({
+      instrument: "TENSOR 27",
+      scans: 32,
+      resolution: 4,
+      source: "MIR",
+      detector: "RT-DLaTGS",
+      XYZ: 7,
+    });
+    expect(spectrum.meta!.laserWavenumber).toBeCloseTo(15798.2);
+  });
+
+  it("infers NIR from the wavenumber range", () => {
+    const params = AB_PARAMS.map((p): Param =>
+      p[0] === "FXV" ? ["FXV", 12000, 1] : p[0] === "LXV" ? ["LXV", 4000, 1] : p,
+    );
+    const buffer = createOpusBuffer([
+      { type: 31, channel: 16, data: paramBlock(params) },
+      { type: 15, channel: 16, data: dataBlock([1, 2, 3, 4]) },
+    ]);
+    expect(parseOpus(buffer)[0].type).toBe("NIR");
+  });
+
+  it("throws on a missing signature", () => {
+    expect(() => parseOpus(new ArrayBuffer(64))).toThrow("missing OPUS signature");
+  });
+
+  it("throws on buffer too small", () => {
+    expect(() => parseOpus(new ArrayBuffer(8))).toThrow("too small");
+  });
+
+  it("throws when no spectral data blocks are present", () => {
+    const buffer = createOpusBuffer([
+      { type: 48, channel: 0, data: paramBlock([["NSS", 32]]) },
+    ]);
+    expect(() => parseOpus(buffer)).toThrow("no AB, TR, ScSm or ScRf data blocks");
+  });
+
+  it("throws when the data parameters lack NPT", () => {
+    const params = AB_PARAMS.filter((p) => p[0] !== "NPT");
+    const buffer = createOpusBuffer([
+      { type: 31, channel: 16, data: paramBlock(params) },
+      { type: 15, channel: 16, data: dataBlock([1, 2, 3, 4]) },
+    ]);
+    expect(() => parseOpus(buffer)).toThrow("missing NPT, FXV or LXV");
+  });
+});
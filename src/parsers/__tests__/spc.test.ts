@@ -1,7 +1,10 @@
 import { describe, it, expect } from "vitest";
-import { parseSpc } from "../spc";
+import { parseSpc, writeSpc } from "../spc";
+import { SpectrumParseError } from "../errors";
+import type { ParseWarning } from "../errors";
+import type { Spectrum } from "../../types";
 
-/** Create a minimal valid SPC file buffer for testing. */
+/** Create a minimal valid (new-format layout) SPC file buffer for testing. */
 function createSpcBuffer(options: {
   version?: number;
   flags?: number;
@@ -32,19 +35,12 @@ function createSpcBuffer(options: {
   const hasXValues = (flags & 0x80) !== 0;
   const is16Bit = (flags & 0x01) !== 0;
   const isMulti = (flags & 0x04) !== 0;
+  const count = isMulti ? numSpectra : 1;
 
-  // Calculate buffer size
-  let size = 512; // header
-  if (hasXValues && !isMulti) size += npoints * 4; // X values
-  if (isMulti) {
-    for (let s = 0; s < numSpectra; s++) {
-      size += 32; // sub-header
-      if (hasXValues) size += npoints * 4; // sub X values
-      size += npoints * (is16Bit ? 2 : 4); // Y values
-    }
-  } else {
-    size += npoints * (is16Bit ? 2 : 4); // Y values
-  }
+  // Header, shared X values, then a sub-header + Y values per subfile
+  let size = 512;
+  if (hasXValues) size += npoints * 4;
+  size += count * (32 + npoints * (is16Bit ? 2 : 4));
 
   const buffer = new ArrayBuffer(size);
   const view = new DataView(buffer);
@@ -53,61 +49,39 @@ function createSpcBuffer(options: {
   // Write main header
   view.setUint8(0, flags);
   view.setUint8(1, version);
-  view.setUint8(2, xType);
-  view.setUint8(3, yType);
+  view.setUint8(3, is16Bit ? 16 : 0x80); // fexp
   view.setUint32(4, npoints, true);
   view.setFloat64(8, firstX, true);
   view.setFloat64(16, lastX, true);
   view.setUint32(24, numSpectra, true);
+  view.setUint8(28, xType);
+  view.setUint8(29, yType);
 
-  // Write memo (offset 30)
+  // Write memo (fcmnt, offset 88)
   const encoder = new TextEncoder();
   const memoBytes = encoder.encode(memo);
-  uint8.set(memoBytes.slice(0, 130), 30);
+  uint8.set(memoBytes.slice(0, 130), 88);
 
   let offset = 512;
 
-  // Write X values if present (non-multi)
-  if (hasXValues && !isMulti && xValues) {
+  // Write shared X values if present
+  if (hasXValues && xValues) {
     for (let i = 0; i < npoints; i++) {
       view.setFloat32(offset, xValues[i] ?? 0, true);
       offset += 4;
     }
+  } else if (hasXValues) {
+    offset += npoints * 4;
   }
 
-  if (isMulti) {
-    for (let s = 0; s < numSpectra; s++) {
-      // Sub-header (32 bytes)
-      view.setUint8(offset, 0); // sub flags
-      view.setUint8(offset + 1, 0); // exponent
-      view.setUint16(offset + 2, s, true); // index
-      view.setFloat32(offset + 4, firstX, true); // startX
-      view.setFloat32(offset + 8, lastX, true); // endX
-      view.setUint32(offset + 12, npoints, true); // npoints
-      offset += 32;
-
-      // Sub X values if present
-      if (hasXValues && xValues) {
-        for (let i = 0; i < npoints; i++) {
-          view.setFloat32(offset, xValues[i] ?? 0, true);
-          offset += 4;
-        }
-      }
+  for (let s = 0; s < count; s++) {
+    // Sub-header (32 bytes)
+    view.setUint8(offset, 0); // sub flags
+    view.setUint8(offset + 1, is16Bit ? 16 : 0x80); // exponent
+    view.setUint16(offset + 2, s, true); // index
+    offset += 32;
 
-      // Y values
-      for (let i = 0; i < npoints; i++) {
-        const yVal = yValues[i] ?? 0;
-        if (is16Bit) {
-          view.setInt16(offset, Math.round(yVal), true);
-          offset += 2;
-        } else {
-          view.setFloat32(offset, yVal, true);
-          offset += 4;
-        }
-      }
-    }
-  } else {
-    // Single spectrum Y values
+    // Y values
     for (let i = 0; i < npoints; i++) {
       const yVal = yValues[i] ?? 0;
       if (is16Bit) {
@@ -208,6 +182,25 @@ describe("parseSpc", () => {
   it("throws on buffer too small", () => {
     const buffer = new ArrayBuffer(100);
     expect(() => parseSpc(buffer)).toThrow("too small");
+    expect(() => parseSpc(buffer)).toThrow(SpectrumParseError);
+  });
+
+  it("keeps truncated subfiles and reports them as warnings", () => {
+    // Three 5-point float subfiles; cut the file 2 points into the second
+    const full = createSpcBuffer({ flags: 0x04, numSpectra: 3 });
+    const buffer = full.slice(0, 512 + (32 + 20) + 32 + 8);
+    const warnings: ParseWarning[] = [];
+
+    const spectra = parseSpc(buffer, { onWarning: (w) => warnings.push(w) });
+
+    expect(spectra).toHaveLength(2);
+    expect(spectra[1].y[1]).toBeCloseTo(0.5);
+    expect(spectra[1].y[4]).toBe(0);
+    expect(warnings.map((w) => w.message)).toEqual([
+      "Subfile 2 is truncated: read 2 of 5 points",
+      "File ends after 2 of 3 subfiles",
+    ]);
+    expect(warnings[0]).toMatchObject({ format: "spc", offset: 604 });
   });
 
   it("includes metadata in output", () => {
@@ -216,4 +209,220 @@ describe("parseSpc", () => {
     expect(spectra[0].meta).toBeDefined();
     expect(spectra[0].meta!.format).toBe("SPC");
   });
+
+  it("scales 16-bit integer Y data by the exponent", () => {
+    const buffer = createSpcBuffer({ flags: 0x01, yValues: [100, 200, 300, 400, 500] });
+    new DataView(buffer).setInt8(3, 14); // 2^(14-16) = 0.25
+    const spectra = parseSpc(buffer);
+    expect(Array.from(spectra[0].y)).toEqual([25, 50, 75, 100, 125]);
+  });
+
+  it("scales 32-bit integer Y data by the exponent", () => {
+    const buffer = createSpcBuffer({ yValues: [] });
+    const view = new DataView(buffer);
+    view.setInt8(3, 8); // 2^(8-32) = 2^-24
+    for (let i = 0; i < 5; i++) {
+      view.setInt32(512 + 32 + i * 4, (i + 1) * 2 ** 24, true);
+    }
+    const spectra = parseSpc(buffer);
+    expect(Array.from(spectra[0].y)).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it("uses each subfile's exponent in integer multi-files", () => {
+    const buffer = createSpcBuffer({
+      flags: 0x01 | 0x04,
+      numSpectra: 2,
+      yValues: [8, 8, 8, 8, 8],
+    });
+    const view = new DataView(buffer);
+    view.setInt8(3, 0);
+    view.setInt8(512 + 1, 16);
+    view.setInt8(512 + 32 + 10 + 1, 17);
+    const spectra = parseSpc(buffer);
+    expect(spectra[0].y[0]).toBe(8);
+    expect(spectra[1].y[0]).toBe(16);
+  });
+
+  it("exposes subfile Z values in meta", () => {
+    const buffer = createSpcBuffer({ flags: 0x04, numSpectra: 2 });
+    const view = new DataView(buffer);
+    view.setUint8(30, 4); // fztype: seconds
+    view.setFloat32(512 + 4, 1.5, true);
+    view.setFloat32(512 + 8, 3, true);
+    view.setUint32(512 + 20, 16, true);
+    view.setFloat32(512 + 52 + 4, 3, true);
+    const spectra = parseSpc(buffer);
+    expect(spectra[0].meta).toMatchObject({ z: 1.5, zNext: 3, zUnit: "s", scans: 16 });
+    expect(spectra[1].meta!.z).toBe(3);
+  });
+
+  it("reads header text and date fields", () => {
+    const buffer = createSpcBuffer({});
+    const view = new DataView(buffer);
+    const bytes = new Uint8Array(buffer);
+    const encoder = new TextEncoder();
+    view.setUint32(32, (2024 << 20) | (3 << 16) | (15 << 11) | (9 << 6) | 30, true);
+    bytes.set(encoder.encode("4 cm-1"), 36);
+    bytes.set(encoder.encode("Nicolet"), 45);
+    bytes.set(encoder.encode("ATR.mth"), 264);
+    const meta = parseSpc(buffer)[0].meta!;
+    expect(meta.date).toBe("2024-03-15 09:30");
+    expect(meta.resolution).toBe("4 cm-1");
+    expect(meta.source).toBe("Nicolet");
+    expect(meta.method).toBe("ATR.mth");
+  });
+
+  it("parses key=value lines from the log block", () => {
+    const data = new Uint8Array(createSpcBuffer({}));
+    const text = "Operator=J. Smith\r\nDetector=DTGS\r\nformat=ignored\r\n\0";
+    const buffer = new ArrayBuffer(data.length + 64 + text.length);
+    const bytes = new Uint8Array(buffer);
+    const view = new DataView(buffer);
+    bytes.set(data);
+    view.setUint32(248, data.length, true); // flogoff
+    view.setUint32(data.length + 8, 64, true); // logtxto
+    bytes.set(new TextEncoder().encode(text), data.length + 64);
+
+    const spectra = parseSpc(buffer);
+    expect(spectra[0].y).toHaveLength(5);
+    expect(spectra[0].meta!.Operator).toBe("J. Smith");
+    expect(spectra[0].meta!.Detector).toBe("DTGS");
+    expect(spectra[0].meta!.format).toBe("SPC");
+  });
+
+  it("parses the old 0x4D format", () => {
+    const buffer = new ArrayBuffer(256 + 3 * 4);
+    const view = new DataView(buffer);
+    view.setUint8(1, 0x4d);
+    view.setInt16(2, 16, true); // oexp: 2^(16-32)
+    view.setFloat32(4, 3, true);
+    view.setFloat32(8, 100, true);
+    view.setFloat32(12, 300, true);
+    view.setUint8(16, 1);
+    view.setUint16(18, 1995, true);
+    view.setUint8(20, 6);
+    view.setUint8(21, 2);
+    new Uint8Array(buffer).set(new TextEncoder().encode("Old file"), 64);
+    // 32-bit values stored high word first
+    [65536, 131072, 3 * 65536 + 32768].forEach((value, i) => {
+      view.setInt16(256 + i * 4, Math.floor(value / 65536), true);
+      view.setUint16(256 + i * 4 + 2, value % 65536, true);
+    });
+
+    const [spectrum] = parseSpc(buffer);
+    expect(Array.from(spectrum.x)).toEqual([100, 200, 300]);
+    expect(Array.from(spectrum.y)).toEqual([1, 2, 3.5]);
+    expect(spectrum.label).toBe("Old file");
+    expect(spectrum.xUnit).toBe("cm⁻¹");
+    expect(spectrum.meta).toMatchObject({ version: "old", date: "1995-06-02 00:00" });
+  });
+});
+
+describe("writeSpc", () => {
+  const base: Spectrum = {
+    id: "a",
+    label: "Sample A",
+    x: new Float64Array([400, 500, 600, 700]),
+    y: new Float64Array([0.125, 0.5, 0.75, 0.25]),
+    xUnit: "cm⁻¹",
+    yUnit: "Absorbance",
+    type: "IR",
+  };
+
+  it("writes a new-format header", () => {
+    const view = new DataView(writeSpc([base]));
+    expect(view.getUint8(1)).toBe(0x4b);
+    expect(view.getUint8(0) & 0x04).toBe(0); // not TMULTI
+    expect(view.getUint32(4, true)).toBe(4);
+    expect(view.getUint8(28)).toBe(1); // cm⁻¹
+    expect(view.getUint8(29)).toBe(2); // Absorbance
+  });
+
+  it("round-trips an evenly spaced spectrum", () => {
+    const [parsed] = parseSpc(writeSpc([base]));
+
+    expect(Array.from(parsed.x)).toEqual(Array.from(base.x));
+    expect(Array.from(parsed.y)).toEqual(Array.from(base.y));
+    expect(parsed.label).toBe("Sample A");
+    expect(parsed.xUnit).toBe("cm⁻¹");
+    expect(parsed.yUnit).toBe("Absorbance");
+    expect(parsed.type).toBe("IR");
+  });
+
+  it("round-trips unevenly spaced X with TXVALS", () => {
+    const uneven = { ...base, x: [400, 450, 600, 1000] };
+    const buffer = writeSpc([uneven]);
+
+    expect(new DataView(buffer).getUint8(0) & 0x80).toBe(0x80);
+    expect(Array.from(parseSpc(buffer)[0].x)).toEqual([400, 450, 600, 1000]);
+  });
+
+  it("writes several spectra on a shared axis as a multi-file", () => {
+    const b = { ...base, id: "b", y: new Float64Array([1, 2, 3, 4]) };
+    const parsed = parseSpc(writeSpc([base, b]));
+
+    expect(parsed).toHaveLength(2);
+    expect(Array.from(parsed[1].y)).toEqual([1, 2, 3, 4]);
+    expect(parsed[1].x).toBe(parsed[0].x);
+  });
+
+  it("writes spectra with differing axes as XYXY subfiles", () => {
+    const b = { ...base, id: "b", x: [1, 2, 3], y: [5, 6, 7] };
+    const buffer = writeSpc([base, b]);
+    const parsed = parseSpc(buffer);
+
+    expect(new DataView(buffer).getUint8(0) & 0x40).toBe(0x40);
+    expect(Array.from(parsed[0].x)).toEqual([400, 500, 600, 700]);
+    expect(Array.from(parsed[1].x)).toEqual([1, 2, 3]);
+    expect(Array.from(parsed[1].y)).toEqual([5, 6, 7]);
+  });
+
+  it("maps units and spectrum type back to SPC codes", () => {
+    const raman = { ...base, xUnit: "Raman shift (cm⁻¹)", yUnit: "Counts", type: "Raman" as const };
+    const [parsed] = parseSpc(writeSpc([raman]));
+
+    expect(parsed.xUnit).toBe("Raman shift (cm⁻¹)");
+    expect(parsed.yUnit).toBe("Counts");
+    expect(parsed.type).toBe("Raman");
+  });
+
+  it("stores units without a type code as axis label text", () => {
+    const custom = { ...base, xUnit: "Pixel", yUnit: "ADU" };
+    const [parsed] = parseSpc(writeSpc([custom]));
+
+    expect(parsed.xUnit).toBe("Pixel");
+    expect(parsed.yUnit).toBe("ADU");
+  });
+
+  it("uses the memo option as file comment", () => {
+    const [parsed] = parseSpc(writeSpc([base], { memo: "Batch 7" }));
+    expect(parsed.label).toBe("Batch 7");
+  });
+
+  it("round-trips subfile Z values", () => {
+    const spectra = [
+      { ...base, meta: { z: 0 } },
+      { ...base, id: "b", y: new Float64Array([1, 2, 3, 4]), meta: { z: 2.5 } },
+    ];
+    const parsed = parseSpc(writeSpc(spectra));
+    expect(parsed.map((s) => s.meta!.z)).toEqual([0, 2.5]);
+  });
+
+  it("round-trips the label of each spectrum in a multi-file", () => {
+    const spectra = ["Sample A", "Sample B", "Sample C"].map((label, i) => ({
+      ...base,
+      id: label,
+      label,
+      y: new Float64Array([i, i + 1, i + 2, i + 3]),
+    }));
+    const parsed = parseSpc(writeSpc(spectra, { memo: "Batch 7" }));
+
+    expect(parsed.map((s) => s.label)).toEqual(["Sample A", "Sample B", "Sample C"]);
+    expect(Object.keys(parsed[1].meta!)).not.toContain("SubfileLabel2");
+  });
+
+  it("throws on empty input and mismatched lengths", () => {
+    expect(() => writeSpc([])).toThrow("no spectra");
+    expect(() => writeSpc([{ ...base, y: [1] }])).toThrow("x values");
+  });
 });
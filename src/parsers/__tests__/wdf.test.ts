@@ -0,0 +1,194 @@
+import { describe, it, expect } from "vitest";
+import { parseWdf } from "../wdf";
+
+interface TestOrigin {
+  type: number;
+  unit: number;
+  label: string;
+  values: (number | bigint)[];
+}
+
+/** Encode a WDF block with its 16-byte header. */
+function block(name: string, payload: Uint8Array): Uint8Array {
+  const out = new Uint8Array(16 + payload.length);
+  const view = new DataView(out.buffer);
+  for (let i = 0; i < 4; i++) out[i] = name.charCodeAt(i);
+  view.setBigUint64(8, BigInt(out.length), true);
+  out.set(payload, 16);
+  return out;
+}
+
+/** Create a WDF buffer: WDF1 header, then XLST, DATA and optional ORGN/WMAP. */
+function createWdfBuffer(options: {
+  title?: string;
+  xValues?: number[];
+  xUnit?: number;
+  spectra: number[][];
+  origins?: TestOrigin[];
+  map?: { columns: number; rows: number; stepX: number; stepY: number };
+  signature?: string;
+}): ArrayBuffer {
+  const {
+    title = "Silicon",
+    xValues = [100, 200, 300],
+    xUnit = 1,
+    spectra,
+    origins,
+    map,
+    signature = "WDF1",
+  } = options;
+  const npoints = xValues.length;
+
+  const header = new Uint8Array(512);
+  const hv = new DataView(header.buffer);
+  for (let i = 0; i < 4; i++) header[i] = signature.charCodeAt(i);
+  hv.setBigUint64(8, 512n, true);
+  hv.setUint32(60, npoints, true);
+  hv.setBigUint64(64, BigInt(spectra.length), true);
+  hv.setBigUint64(72, BigInt(spectra.length), true);
+  hv.setUint32(88, npoints, true);
+  hv.setUint32(152, 6, true); // Counts
+  hv.setFloat32(156, 15797.6, true);
+  header.set(new TextEncoder().encode(title), 240);
+
+  const xlst = new DataView(new ArrayBuffer(8 + npoints * 4));
+  xlst.setUint32(0, 1, true); // Frequency
+  xlst.setUint32(4, xUnit, true);
+  xValues.forEach((v, i) => xlst.setFloat32(8 + i * 4, v, true));
+
+  const data = new DataView(new ArrayBuffer(spectra.length * npoints * 4));
+  spectra.flat().forEach((v, i) => data.setFloat32(i * 4, v, true));
+
+  const parts = [
+    header,
+    block("XLST", new Uint8Array(xlst.buffer)),
+    block("DATA", new Uint8Array(data.buffer)),
+  ];
+
+  if (origins) {
+    const stride = 24 + 8 * spectra.length;
+    const orgn = new DataView(new ArrayBuffer(4 + origins.length * stride));
+    orgn.setUint32(0, origins.length, true);
+    origins.forEach((o, l) => {
+      const start = 4 + l * stride;
+      orgn.setUint32(start, o.type, true);
+      orgn.setUint32(start + 4, o.unit, true);
+      for (let i = 0; i < o.label.length; i++) {
+        orgn.setUint8(start + 8 + i, o.label.charCodeAt(i));
+      }
+      o.values.forEach((v, i) => {
+        if (typeof v === "bigint") orgn.setBigUint64(start + 24 + i * 8, v, true);
+        else orgn.setFloat64(start + 24 + i * 8, v, true);
+      });
+    });
+    parts.push(block("ORGN", new Uint8Array(orgn.buffer)));
+  }
+
+  if (map) {
+    const wmap = new DataView(new ArrayBuffer(48));
+    wmap.setFloat32(8, -10, true);
+    wmap.setFloat32(12, 5, true);
+    wmap.setFloat32(20, map.stepX, true);
+    wmap.setFloat32(24, map.stepY, true);
+    wmap.setUint32(32, map.columns, true);
+    wmap.setUint32(36, map.rows, true);
+    parts.push(block("WMAP", new Uint8Array(wmap.buffer)));
+  }
+
+  const size = parts.reduce((sum, p) => sum + p.length, 0);
+  const out = new Uint8Array(size);
+  let offset = 0;
+  for (const p of parts) {
+    out.set(p, offset);
+    offset += p.length;
+  }
+  return out.buffer;
+}
+
+describe("parseWdf", () => {
+  it("parses a single Raman spectrum", () => {
+    const buffer = createWdfBuffer({ spectra: [[10, 20, 15]] });
+    const spectra = parseWdf(buffer);
+
+    expect(spectra).toHaveLength(1);
+    const [spectrum] = spectra;
+    expect(spectrum.label).toBe("Silicon");
+    expect(spectrum.type).toBe("Raman");
+    expect(Array.from(spectrum.x)).toEqual([100, 200, 300]);
+    expect(Array.from(spectrum.y)).toEqual([10, 20, 15]);
+    expect(spectrum.xUnit).toBe("Raman shift (cm⁻¹)");
+    expect(spectrum.yUnit).toBe("Counts");
+    expect(spectrum.id).toMatch(/^wdf-/);
+    expect(spectrum.meta!.format).toBe("WDF");
+    expect(spectrum.meta!.laserWavenumber).toBeCloseTo(15797.6, 1);
+  });
+
+  it("splits a series into separate spectra", () => {
+    const buffer = createWdfBuffer({
+      spectra: [
+        [1, 2, 3],
+        [4, 5, 6],
+      ],
+    });
+    const spectra = parseWdf(buffer);
+
+    expect(spectra.map((s) => s.label)).toEqual(["Silicon (1)", "Silicon (2)"]);
+    expect(Array.from(spectra[1].y)).toEqual([4, 5, 6]);
+    expect(spectra[1].meta!.index).toBe(1);
+  });
+
+  it("exposes map origins and grid position in meta", () => {
+    const buffer = createWdfBuffer({
+      spectra: [
+        [1, 1, 1],
+        [2, 2, 2],
+        [3, 3, 3],
+        [4, 4, 4],
+      ],
+      origins: [
+        { type: 0x80000003, unit: 5, label: "X", values: [-10, -9, -10, -9] },
+        { type: 0x80000004, unit: 5, label: "Y", values: [5, 5, 6, 6] },
+      ],
+      map: { columns: 2, rows: 2, stepX: 1, stepY: 1 },
+    });
+    const spectra = parseWdf(buffer);
+
+    expect(spectra[3].meta).toMatchObject({
+      X: -9,
+      Y: 6,
+      mapX: -9,
+      mapY: 6,
+      mapColumn: 1,
+      mapRow: 1,
+      mapColumns: 2,
+      mapRows: 2,
+      mapStepX: 1,
+      mapStartX: -10,
+    });
+    expect(spectra[2].meta).toMatchObject({ mapColumn: 0, mapRow: 1 });
+  });
+
+  it("converts FILETIME origins to ISO dates", () => {
+    // 2024-01-01T00:00:00Z in 100 ns ticks since 1601-01-01
+    const ticks = (BigInt(Date.UTC(2024, 0, 1)) + 11644473600000n) * 10000n;
+    const buffer = createWdfBuffer({
+      spectra: [[1, 2, 3]],
+      origins: [{ type: 11, unit: 24, label: "Time", values: [ticks] }],
+    });
+    expect(parseWdf(buffer)[0].meta!.Time).toBe("2024-01-01T00:00:00.000Z");
+  });
+
+  it("maps the XLST unit", () => {
+    const buffer = createWdfBuffer({ xUnit: 3, spectra: [[1, 2, 3]] });
+    expect(parseWdf(buffer)[0].xUnit).toBe("nm");
+  });
+
+  it("throws on a missing signature", () => {
+    const buffer = createWdfBuffer({ signature: "ABCD", spectra: [[1, 2, 3]] });
+    expect(() => parseWdf(buffer)).toThrow("missing WDF1 signature");
+  });
+
+  it("throws on buffer too small", () => {
+    expect(() => parseWdf(new ArrayBuffer(64))).toThrow("too small");
+  });
+});
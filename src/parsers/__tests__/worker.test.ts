@@ -0,0 +1,79 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { parseInWorker } from "../worker";
+import { SpectrumParseError } from "../errors";
+import type { ParseProgress } from "../errors";
+import { createFakeWorker, FakeParseWorker } from "../../test/fake-worker";
+
+const CSV = "x,y\n1,10\n2,20\n3,30\n4,40";
+
+const BAD_JCAMP = [
+  "##TITLE= Broken",
+  "##FIRSTX= 1",
+  "##LASTX= 10",
+  "##NPOINTS= 10",
+  "##XYDATA= (X++(Y..Y))",
+  "1AJT%j",
+  "5CjW",
+  "10c",
+  "##END=",
+].join("\n");
+
+describe("parseInWorker", () => {
+  beforeEach(() => {
+    FakeParseWorker.instances = [];
+  });
+
+  it("parses in the worker, relays progress and terminates it", async () => {
+    const progress: ParseProgress[] = [];
+    const result = await parseInWorker(createFakeWorker, CSV, {
+      onProgress: (p) => progress.push(p),
+    });
+
+    expect(result.format).toBe("csv");
+    expect(Array.from(result.spectra[0].y)).toEqual([10, 20, 30, 40]);
+    expect(progress.at(-1)).toEqual({ loaded: 5, total: 5, unit: "lines" });
+    expect(FakeParseWorker.instances[0].terminated).toBe(true);
+  });
+
+  it("transfers each result buffer once", async () => {
+    await parseInWorker(createFakeWorker, CSV);
+    const [transfer] = FakeParseWorker.instances[0].receivedTransfers.slice(-1);
+    expect(transfer).toHaveLength(2);
+    expect(transfer.every((b) => b instanceof ArrayBuffer)).toBe(true);
+  });
+
+  it("transfers ArrayBuffer input only when asked", async () => {
+    const input = new TextEncoder().encode(CSV).buffer;
+    await parseInWorker(createFakeWorker, input);
+    await parseInWorker(createFakeWorker, input, { transferInput: true });
+
+    expect(FakeParseWorker.instances[0].sentTransfers[0]).toEqual([]);
+    expect(FakeParseWorker.instances[1].sentTransfers[0]).toEqual([input]);
+  });
+
+  it("rebuilds SpectrumParseError from the worker", async () => {
+    const error = await parseInWorker(createFakeWorker, BAD_JCAMP).catch((err: unknown) => err);
+    expect(error).toBeInstanceOf(SpectrumParseError);
+    expect(error).toMatchObject({ format: "jcamp", line: 7 });
+  });
+
+  it("rejects and terminates the worker on abort", async () => {
+    const controller = new AbortController();
+    const promise = parseInWorker(createFakeWorker, CSV, { signal: controller.signal });
+    controller.abort();
+
+    await expect(promise).rejects.toMatchObject({ name: "AbortError" });
+    expect(FakeParseWorker.instances[0].terminated).toBe(true);
+  });
+
+  it("does not start a worker for an already aborted signal", async () => {
+    const createWorker = vi.fn(createFakeWorker);
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      parseInWorker(createWorker, CSV, { signal: controller.signal }),
+    ).rejects.toBeDefined();
+    expect(createWorker).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+import { childElement, childElements, childText, descendantElements, parseXml } from "../xml";
+import { SpectrumParseError } from "../errors";
+
+describe("parseXml", () => {
+  it("builds an element tree with attributes and text", () => {
+    const root = parseXml(
+      `<?xml version="1.0"?>
+<root version="1">
+  <item id="a">first</item>
+  <item id='b'/>
+</root>`,
+      "gaml",
+    );
+
+    expect(root.name).toBe("root");
+    expect(root.attributes.version).toBe("1");
+    expect(childElements(root, "item").map((e) => e.attributes.id)).toEqual(["a", "b"]);
+    expect(childText(root, "item")).toBe("first");
+    expect(childElement(root, "item")?.line).toBe(3);
+  });
+
+  it("drops namespace prefixes and xmlns declarations", () => {
+    const root = parseXml(
+      '<a:Doc xmlns:a="urn:x" xmlns="urn:y" a:kind="k"><a:Child/></a:Doc>',
+      "animl",
+    );
+
+    expect(root.name).toBe("Doc");
+    expect(root.attributes).toEqual({ kind: "k" });
+    expect(childElement(root, "child")).toBeDefined();
+  });
+
+  it("skips comments and DOCTYPE and keeps CDATA as text", () => {
+    const root = parseXml(
+      '<!DOCTYPE doc [<!ENTITY x "y">]><!-- note --><doc><![CDATA[a < b]]></doc>',
+      "gaml",
+    );
+    expect(root.text).toBe("a < b");
+  });
+
+  it("decodes predefined and numeric entities", () => {
+    const root = parseXml('<doc title="&lt;x&gt;">&amp; &#181;m &#x3bc;</doc>', "gaml");
+    expect(root.attributes.title).toBe("<x>");
+    expect(root.text).toBe("& µm μ");
+  });
+
+  it("finds descendants in document order", () => {
+    const root = parseXml("<a><b><c n='1'/></b><c n='2'/></a>", "gaml");
+    expect(descendantElements(root, "c").map((e) => e.attributes.n)).toEqual(["1", "2"]);
+  });
+
+  it("throws SpectrumParseError with a line for mismatched tags", () => {
+    let error: unknown;
+    try {
+      parseXml("<a>\n<b>\n</a>", "animl");
+    } catch (err) {
+      error = err;
+    }
+
+    expect(error).toBeInstanceOf(SpectrumParseError);
+    expect(error).toMatchObject({ format: "animl", line: 3 });
+  });
+
+  it("throws SpectrumParseError for out-of-range character references", () => {
+    let error: unknown;
+    try {
+      parseXml("<a>\n<b>&#x110000;</b>\n</a>", "animl");
+    } catch (err) {
+      error = err;
+    }
+
+    expect(error).toBeInstanceOf(SpectrumParseError);
+    expect(error).toMatchObject({ format: "animl", line: 2 });
+    expect(() => parseXml('<a v="&#0;"/>', "gaml")).toThrow("invalid character reference &#0;");
+  });
+
+  it("throws on unclosed elements and empty documents", () => {
+    expect(() => parseXml("<a><b></b>", "gaml")).toThrow("unclosed element <a>");
+    expect(() => parseXml("<?xml version='1.0'?>", "gaml")).toThrow("no root element");
+  });
+});
@@ -0,0 +1,275 @@
+/**
+ * AnIML (Analytical Information Markup Language) parser.
+ *
+ * An `<AnIML>` document lists its samples in a `<SampleSet>` and its
+ * measurements as `<ExperimentStep>` elements. Each step's `<Result>`
+ * holds `<SeriesSet>` tables whose `<Series>` columns are stored as
+ * individual values, base64-encoded binary arrays, or auto-incremented
+ * ranges. The first independent series is the X axis; every dependent
+ * series becomes one spectrum.
+ *
+ * @module animl
+ */
+
+import type { Spectrum, SpectrumType } from "../types";
+import { decodeBase64Numbers } from "../utils/base64";
+import type { NumericType } from "../utils/base64";
+import { createWarn, SpectrumParseError } from "./errors";
+import type { ParseOptions, Warn } from "./errors";
+import { childElement, childElements, childText, descendantElements, parseXml } from "./xml";
+import type { XmlElement } from "./xml";
+
+/** Auto-incrementing ID counter. */
+let idCounter = 0;
+
+/** AnIML `seriesType` values to binary types. */
+const SERIES_TYPES: Record<string, NumericType> = {
+  int32: "int32",
+  int64: "int64",
+  float32: "float32",
+  float64: "float64",
+};
+
+/** A sample from the document's `<SampleSet>`. */
+interface Sample {
+  name?: string;
+  sampleID: string;
+}
+
+/** A decoded `<Series>`. */
+interface Series {
+  name: string;
+  dependent: boolean;
+  values: Float64Array;
+  unit?: string;
+}
+
+/**
+ * Parse an AnIML document into Spectrum objects.
+ *
+ * `meta` holds the experiment step name, technique, method, author,
+ * device, timestamp and the sample referenced by the step.
+ *
+ * @param text - AnIML XML content
+ * @param options - Parse options, e.g. a warning callback
+ * @returns Array of parsed Spectrum objects
+ * @throws SpectrumParseError if the document is not AnIML or has no data
+ */
+export function parseAnIML(text: string, options: ParseOptions = {}): Spectrum[] {
+  const warn = createWarn("animl", options);
+  const root = parseXml(text, "animl");
+  if (root.name.toLowerCase() !== "animl") {
+    throw new SpectrumParseError("animl", "Invalid AnIML file: missing <AnIML> root element", {
+      line: root.line,
+    });
+  }
+
+  const samples = new Map<string, Sample>();
+  for (const sample of descendantElements(root, "Sample")) {
+    const { sampleID, name } = sample.attributes;
+    if (sampleID) samples.set(sampleID, { sampleID, name });
+  }
+
+  const spectra: Spectrum[] = [];
+  for (const step of descendantElements(root, "ExperimentStep")) {
+    const meta = readStepMeta(step, samples);
+    const technique = childElement(step, "Technique")?.attributes.name;
+    const type = techniqueType(technique);
+
+    for (const result of childElements(step, "Result")) {
+      for (const seriesSet of childElements(result, "SeriesSet")) {
+        const series = readSeriesSet(seriesSet, warn);
+        const dependent = series.filter((s) => s.dependent);
+        if (dependent.length === 0) continue;
+
+        let xSeries = series.find((s) => !s.dependent);
+        if (!xSeries) {
+          warn("SeriesSet has no independent series; using point indices as X", {
+            line: seriesSet.line,
+          });
+          const length = dependent[0].values.length;
+          xSeries = {
+            name: "Index",
+            dependent: false,
+            values: Float64Array.from({ length }, (_, i) => i),
+          };
+        }
+
+        const baseLabel =
+          String(meta.sample ?? "") ||
+          step.attributes.name ||
+          result.attributes.name ||
+          `AnIML Spectrum ${spectra.length + 1}`;
+        for (const ySeries of dependent) {
+          const length = Math.min(xSeries.values.length, ySeries.values.length);
+          spectra.push({
+            id: `animl-${++idCounter}`,
+            label: dependent.length > 1 ? `${baseLabel} (${ySeries.name})` : baseLabel,
+            x: xSeries.values.slice(0, length),
+            y: ySeries.values.slice(0, length),
+            xUnit: xSeries.unit,
+            yUnit: ySeries.unit,
+            type,
+            meta: { ...meta },
+          });
+        }
+      }
+    }
+  }
+
+  if (spectra.length === 0) {
+    throw new SpectrumParseError("animl", "Invalid AnIML file: no dependent series found");
+  }
+  return spectra;
+}
+
+/** Collect the step, method, device and sample metadata of an experiment step. */
+function readStepMeta(
+  step: XmlElement,
+  samples: Map<string, Sample>,
+): Record<string, string | number> {
+  const meta: Record<string, string | number> = { format: "AnIML" };
+  const set = (key: string, value: string | undefined) => {
+    if (value) meta[key] = value;
+  };
+
+  set("experimentStep", step.attributes.name);
+  set("technique", childElement(step, "Technique")?.attributes.name);
+
+  const infrastructure = childElement(step, "Infrastructure");
+  if (infrastructure) {
+    set("timestamp", childText(infrastructure, "Timestamp"));
+    const reference = descendantElements(infrastructure, "SampleReference")[0];
+    const sampleID = reference?.attributes.sampleID;
+    if (sampleID) {
+      meta.sampleID = sampleID;
+      set("sample", samples.get(sampleID)?.name);
+    }
+  }
+
+  const method = childElement(step, "Method");
+  if (method) {
+    set("method", method.attributes.name);
+    const author = childElement(method, "Author");
+    if (author) set("author", childText(author, "Name"));
+    const device = childElement(method, "Device");
+    if (device) {
+      set("instrument", childText(device, "Name"));
+      set("manufacturer", childText(device, "Manufacturer"));
+      set("serialNumber", childText(device, "SerialNumber"));
+    }
+  }
+
+  return meta;
+}
+
+/** Decode every numeric `<Series>` of a `<SeriesSet>`. */
+function readSeriesSet(seriesSet: XmlElement, warn: Warn): Series[] {
+  const declared = parseInt(seriesSet.attributes.length ?? "", 10);
+  const series: Series[] = [];
+
+  for (const element of childElements(seriesSet, "Series")) {
+    const typeName = (element.attributes.seriesType ?? "").toLowerCase();
+    const type = SERIES_TYPES[typeName];
+    const name = element.attributes.name || element.attributes.seriesID || "Series";
+    if (!type) {
+      warn(`Skipped series "${name}" of non-numeric type ${typeName || "(none)"}`, {
+        line: element.line,
+      });
+      continue;
+    }
+
+    const values = readSeriesValues(element, type, declared, warn);
+    if (declared >= 0 && values.length !== declared) {
+      warn(`Series "${name}" has ${values.length} values but the SeriesSet length is ${declared}`, {
+        line: element.line,
+      });
+    }
+
+    series.push({
+      name,
+      dependent: (element.attributes.dependency ?? "").toLowerCase() === "dependent",
+      values,
+      unit: childElement(element, "Unit")?.attributes.label || undefined,
+    });
+  }
+
+  return series;
+}
+
+/** Read the values of a series from its value sets, in index order. */
+function readSeriesValues(
+  series: XmlElement,
+  type: NumericType,
+  declared: number,
+  warn: Warn,
+): Float64Array {
+  const values: number[] = [];
+  const place = (start: number, chunk: ArrayLike<number>) => {
+    for (let i = 0; i < chunk.length; i++) values[start + i] = chunk[i];
+  };
+
+  for (const set of series.children) {
+    const start = parseInt(set.attributes.startIndex ?? "0", 10) || 0;
+    switch (set.name.toLowerCase()) {
+      case "individualvalueset":
+        place(
+          start,
+          set.children.map((v) => Number(v.text.trim())),
+        );
+        break;
+      case "encodedvalueset":
+        try {
+          place(start, decodeBase64Numbers(set.text, type));
+        } catch {
+          throw new SpectrumParseError("animl", "Invalid AnIML file: values are not valid base64", {
+            line: set.line,
+          });
+        }
+        break;
+      case "autoincrementedvalueset": {
+        const first = Number(childElement(set, "StartValue")?.children[0]?.text.trim());
+        const step = Number(childElement(set, "Increment")?.children[0]?.text.trim());
+        const end = parseInt(set.attributes.endIndex ?? "", 10);
+        const count = end >= start ? end - start + 1 : declared - start;
+        if (!Number.isFinite(first) || !Number.isFinite(step) || !(count > 0)) {
+          throw new SpectrumParseError(
+            "animl",
+            "Invalid AnIML file: incomplete AutoIncrementedValueSet",
+            { line: set.line },
+          );
+        }
+        place(
+          start,
+          Array.from({ length: count }, (_, i) => first + i * step),
+        );
+        break;
+      }
+    }
+  }
+
+  // Indices not covered by any value set
+  let missing = 0;
+  for (let i = 0; i < values.length; i++) {
+    if (values[i] === undefined || !Number.isFinite(values[i])) {
+      values[i] = 0;
+      missing++;
+    }
+  }
+  if (missing > 0) {
+    warn(`Replaced ${missing} missing or non-numeric value(s) with 0`, { line: series.line });
+  }
+
+  return Float64Array.from(values);
+}
+
+/** Map an AnIML technique name to a spectrum type. */
+function techniqueType(technique: string | undefined): SpectrumType {
+  const name = technique ?? "";
+  if (/raman/i.test(name)) return "Raman";
+  if (/fluorescence/i.test(name)) return "fluorescence";
+  if (/\buv\b|uv[-/ ]?vis|ultraviolet/i.test(name)) return "UV-Vis";
+  if (/\bnir\b|near[- ]infrared/i.test(name)) return "NIR";
+  if (/\b(ft-?)?ir\b|infrared/i.test(name)) return "IR";
+  return "other";
+}
@@ -0,0 +1,18 @@
+/**
+ * Helpers shared by the binary spectral formats (SPC, OPUS, OMNIC, WDF).
+ *
+ * @module binary
+ */
+
+/**
+ * Decode a fixed-size text field, stopping at the first NUL byte and
+ * trimming surrounding whitespace.
+ *
+ * @param bytes - Field bytes
+ * @param encoding - Text encoding. Defaults to Latin-1, as written by most
+ *   instrument software.
+ */
+export function decodeText(bytes: Uint8Array, encoding: "latin1" | "utf-8" = "latin1"): string {
+  const end = bytes.indexOf(0);
+  return new TextDecoder(encoding).decode(end === -1 ? bytes : bytes.subarray(0, end)).trim();
+}
@@ -1,31 +1,199 @@
 /**
  * CSV/TSV parser for spectral data.
  *
- * Handles comma, tab, and semicolon delimiters with automatic detection.
- * Supports files with or without header rows.
+ * Handles comma, tab, semicolon and space delimiters with automatic
+ * detection, including decimal-comma numbers (`1000;0,52`). Instrument
+ * exports may start with a preamble of `key: value` lines, which is
+ * captured into `meta`; the header row is found just above the first
+ * numeric row, and units in header cells such as `Wavenumber (cm-1)` set
+ * `xUnit` / `yUnit`. Row-oriented ("wide") files with one spectrum per
+ * row are read by `parseCsvWide`.
  */
 
-import type { Spectrum } from "../types";
+import type { Spectrum, SpectrumType } from "../types";
+import { createProgress, createWarn, SpectrumParseError } from "./errors";
+import type { ParseOptions, Warn } from "./errors";
 
 /** Auto-incrementing ID counter for unique spectrum IDs. */
 let idCounter = 0;
 
-export interface CsvParseOptions {
+export interface CsvParseOptions extends ParseOptions {
   /** Column delimiter (auto-detected if not provided). */
   delimiter?: string;
   /** Zero-based index of the x-value column. */
   xColumn?: number;
   /** Zero-based index of the y-value column. */
   yColumn?: number;
-  /** Whether the first row is a header. */
+  /**
+   * Whether a header row precedes the data (auto-detected if not
+   * provided). When true, the row just above the first numeric row is
+   * used as the header.
+   */
   hasHeader?: boolean;
+  /** Decimal separator (auto-detected if not provided). */
+  decimalSeparator?: "." | ",";
   /** Label for the parsed spectrum. */
   label?: string;
 }
 
+export interface CsvWideParseOptions extends ParseOptions {
+  /** Column delimiter (auto-detected if not provided). */
+  delimiter?: string;
+  /**
+   * Number of leading metadata columns (sample ID, reference values,
+   * class labels). Defaults to the number of leading non-numeric
+   * header cells.
+   */
+  metaColumns?: number;
+  /** Zero-based index of the metadata column used as the label (default 0). */
+  labelColumn?: number;
+  /** Decimal separator (auto-detected if not provided). */
+  decimalSeparator?: "." | ",";
+  /** Unit of the X values in the header row. */
+  xUnit?: string;
+  /** Unit of the Y values. */
+  yUnit?: string;
+}
+
+export interface CsvColumnsOptions extends ParseOptions {
+  /** Column delimiter (auto-detected if not provided). */
+  delimiter?: string;
+  /** Decimal separator (auto-detected if not provided). */
+  decimalSeparator?: "." | ",";
+  /**
+   * Zero-based index of the header row among non-blank lines, or -1 for
+   * none (auto-detected if not provided). Data starts on the next row.
+   */
+  headerRow?: number;
+  /**
+   * Zero-based index of the x-value column (default 0), or -1 to use the
+   * point index as X for files that hold only Y values.
+   */
+  xColumn?: number;
+  /** Zero-based indices of the y-value columns (default: all others). */
+  yColumns?: number[];
+  /** X-axis unit (default: from the header cell). */
+  xUnit?: string;
+  /** Y-axis unit (default: from each header cell). */
+  yUnit?: string;
+  /** Spectral technique type. */
+  type?: SpectrumType;
+  /** Label prefix for columns without a header name. */
+  label?: string;
+}
+
+/** Detected structure and leading rows of a delimited text file. */
+export interface CsvPreview {
+  delimiter: string;
+  decimalSeparator: "." | ",";
+  /** Zero-based index of the detected header row, or -1. */
+  headerRow: number;
+  /** Detected X column: the first numeric column, or -1 if there is only one. */
+  xColumn: number;
+  /** Detected Y columns: the other numeric columns. */
+  yColumns: number[];
+  /**
+   * Leading non-blank rows, split into fields. Always reaches the detected
+   * header row and the first data row, even past `maxRows`.
+   */
+  rows: string[][];
+  /** Largest number of fields in any preview row. */
+  columnCount: number;
+}
+
 /** Delimiters to try during auto-detection. */
 const DELIMITER_CANDIDATES = ["\t", ",", ";", " "] as const;
 
+/** Delimiters tried, in order of preference, when sniffing numeric rows. */
+const NUMERIC_DELIMITER_CANDIDATES = ["\t", ";", ",", " "] as const;
+
+/** Number of content lines inspected when sniffing numeric rows. */
+const SNIFF_LINES = 50;
+
+/** Canonical spellings of units commonly written in header cells. */
+const UNIT_ALIASES: Record<string, string> = {
+  "cm-1": "cm⁻¹",
+  "cm^-1": "cm⁻¹",
+  "cm**-1": "cm⁻¹",
+  "1/cm": "cm⁻¹",
+  "cm⁻¹": "cm⁻¹",
+  um: "µm",
+  "μm": "µm",
+  micron: "µm",
+  microns: "µm",
+};
+
+/**
+ * Bracketed header text recognised as a unit (lowercase), besides the
+ * `UNIT_ALIASES` keys. Other bracketed text, such as the replicate
+ * numbers of `Sample (1)`, stays part of the column name.
+ */
+const UNIT_TOKENS = new Set([
+  "nm",
+  "µm",
+  "mm",
+  "cm",
+  "m",
+  "ev",
+  "mev",
+  "kev",
+  "hz",
+  "khz",
+  "mhz",
+  "ghz",
+  "thz",
+  "ppm",
+  "s",
+  "ms",
+  "µs",
+  "ns",
+  "min",
+  "h",
+  "k",
+  "°c",
+  "v",
+  "mv",
+  "ma",
+  "%",
+  "%t",
+  "%r",
+  "a.u.",
+  "au",
+  "arb. units",
+  "arb.u.",
+  "arbitrary units",
+  "counts",
+  "cps",
+  "abs",
+  "absorbance",
+  "transmittance",
+  "reflectance",
+  "intensity",
+  "log(1/r)",
+]);
+
+/** Structure of a delimited text file, found by `analyzeLayout`. */
+interface CsvLayout {
+  delimiter: string;
+  decimalComma: boolean;
+  /** Content lines, without blank and `#` comment lines. */
+  lines: string[];
+  /** 1-based source line number of each entry in `lines`. */
+  lineNumbers: number[];
+  /** Index in `lines` of the header row, or -1 if there is none. */
+  headerIndex: number;
+  /** Index in `lines` of the first numeric row (`lines.length` if none). */
+  dataIndex: number;
+  /** Key/value pairs from preamble lines above the header. */
+  preamble: Record<string, string | number>;
+}
+
+/** A header cell split into its name and unit. */
+interface HeaderCell {
+  name: string;
+  unit?: string;
+}
+
 /**
  * Auto-detect the delimiter used in a CSV text.
  *
@@ -59,62 +227,56 @@ function detectDelimiter(text: string): string {
  * @param text - Raw CSV/TSV text content
  * @param options - Parsing configuration
  * @returns Parsed Spectrum
- * @throws Error if the data cannot be parsed
+ * @throws SpectrumParseError if the data cannot be parsed
  */
 export function parseCsv(text: string, options: CsvParseOptions = {}): Spectrum {
-  const {
-    xColumn = 0,
-    yColumn = 1,
-    hasHeader = true,
-    label = "CSV Spectrum",
-  } = options;
-
-  const delimiter = options.delimiter ?? detectDelimiter(text);
-  const lines = text.trim().split(/\r?\n/);
+  const { xColumn = 0, yColumn = 1, label = "CSV Spectrum" } = options;
+  const layout = analyzeLayout(text, options);
+  const { lines, delimiter, decimalComma } = layout;
+  const warn = createWarn("csv", options);
+  const progress = createProgress(options, lines.length, "lines");
 
   if (lines.length < 2) {
-    throw new Error("CSV file must contain at least 2 lines");
+    throw new SpectrumParseError("csv", "CSV file must contain at least 2 lines");
   }
 
-  let headerLabel = label;
-  let startIndex = 0;
-
-  if (hasHeader) {
-    const headers = lines[0].split(delimiter).map((h) => h.trim());
-    // Only use header as label if no explicit label was provided
-    if (!options.label && headers[yColumn]) {
-      headerLabel = headers[yColumn];
-    }
-    startIndex = 1;
-  }
+  const headers = headerCells(layout);
+  const xHeader = headers[xColumn];
+  const yHeader = headers[yColumn];
 
   const xValues: number[] = [];
   const yValues: number[] = [];
 
-  for (let i = startIndex; i < lines.length; i++) {
-    const line = lines[i].trim();
-    if (line === "" || line.startsWith("#")) continue;
-
-    const parts = line.split(delimiter);
-    const xVal = parseFloat(parts[xColumn]);
-    const yVal = parseFloat(parts[yColumn]);
+  for (let i = layout.dataIndex; i < lines.length; i++) {
+    progress(i);
+    const parts = splitLine(lines[i], delimiter);
+    const xVal = toNumber(parts[xColumn], decimalComma);
+    const yVal = toNumber(parts[yColumn], decimalComma);
 
     if (!isNaN(xVal) && !isNaN(yVal)) {
       xValues.push(xVal);
       yValues.push(yVal);
+    } else {
+      warn("Skipped line with non-numeric values", { line: layout.lineNumbers[i] });
     }
   }
+  progress(lines.length);
 
   if (xValues.length === 0) {
-    throw new Error("No valid numeric data found in CSV");
+    throw new SpectrumParseError("csv", "No valid numeric data found in CSV");
   }
 
-  return {
+  const spectrum: Spectrum = {
     id: `csv-${++idCounter}`,
-    label: headerLabel,
+    // Only use header as label if no explicit label was provided
+    label: options.label ?? (yHeader?.name || label),
     x: new Float64Array(xValues),
     y: new Float64Array(yValues),
   };
+  if (xHeader?.unit) spectrum.xUnit = xHeader.unit;
+  if (yHeader?.unit) spectrum.yUnit = yHeader.unit;
+  if (Object.keys(layout.preamble).length > 0) spectrum.meta = layout.preamble;
+  return spectrum;
 }
 
 /**
@@ -127,53 +289,442 @@ export function parseCsvMulti(
   text: string,
   options: Omit<CsvParseOptions, "xColumn" | "yColumn"> = {},
 ): Spectrum[] {
-  const { hasHeader = true, label } = options;
-  const delimiter = options.delimiter ?? detectDelimiter(text);
-  const lines = text.trim().split(/\r?\n/);
+  const { label } = options;
+  const layout = analyzeLayout(text, options);
+  const { lines, delimiter, decimalComma } = layout;
+  const warn = createWarn("csv", options);
+  const progress = createProgress(options, lines.length, "lines");
 
   if (lines.length < 2) {
-    throw new Error("CSV file must contain at least 2 lines");
+    throw new SpectrumParseError("csv", "CSV file must contain at least 2 lines");
   }
 
-  const firstDataLine = lines[hasHeader ? 1 : 0];
-  const numColumns = firstDataLine.split(delimiter).length;
+  const firstDataLine = lines[Math.min(layout.dataIndex, lines.length - 1)];
+  const numColumns = splitLine(firstDataLine, delimiter).length;
 
   if (numColumns < 2) {
-    throw new Error("CSV must have at least 2 columns (x + y)");
-  }
-
-  let headers: string[] | undefined;
-  let startIndex = 0;
-
-  if (hasHeader) {
-    headers = lines[0].split(delimiter).map((h) => h.trim());
-    startIndex = 1;
+    throw new SpectrumParseError("csv", "CSV must have at least 2 columns (x + y)");
   }
 
+  const headers = headerCells(layout);
   const xValues: number[] = [];
   const yArrays: number[][] = Array.from({ length: numColumns - 1 }, () => []);
 
-  for (let i = startIndex; i < lines.length; i++) {
-    const line = lines[i].trim();
-    if (line === "" || line.startsWith("#")) continue;
-
-    const parts = line.split(delimiter);
-    const xVal = parseFloat(parts[0]);
-    if (isNaN(xVal)) continue;
+  for (let i = layout.dataIndex; i < lines.length; i++) {
+    progress(i);
+    const parts = splitLine(lines[i], delimiter);
+    const xVal = toNumber(parts[0], decimalComma);
+    if (isNaN(xVal)) {
+      warn("Skipped line with a non-numeric x value", { line: layout.lineNumbers[i] });
+      continue;
+    }
 
     xValues.push(xVal);
+    let missing = 0;
     for (let col = 1; col < numColumns; col++) {
-      const yVal = parseFloat(parts[col]);
+      const yVal = toNumber(parts[col], decimalComma);
+      if (isNaN(yVal)) missing++;
       yArrays[col - 1].push(isNaN(yVal) ? 0 : yVal);
     }
+    if (missing > 0) warnMissing(warn, missing, layout.lineNumbers[i]);
   }
+  progress(lines.length);
 
   const xArray = new Float64Array(xValues);
+  const hasPreamble = Object.keys(layout.preamble).length > 0;
 
-  return yArrays.map((yArr, i) => ({
-    id: `csv-${++idCounter}`,
-    label: label ?? headers?.[i + 1] ?? `Spectrum ${i + 1}`,
-    x: xArray,
-    y: new Float64Array(yArr),
-  }));
+  return yArrays.map((yArr, i) => {
+    const header = headers[i + 1];
+    const spectrum: Spectrum = {
+      id: `csv-${++idCounter}`,
+      label: label ?? (header?.name || `Spectrum ${i + 1}`),
+      x: xArray,
+      y: new Float64Array(yArr),
+    };
+    if (headers[0]?.unit) spectrum.xUnit = headers[0].unit;
+    if (header?.unit) spectrum.yUnit = header.unit;
+    if (hasPreamble) spectrum.meta = { ...layout.preamble };
+    return spectrum;
+  });
+}
+
+/**
+ * Parse a row-oriented ("wide") CSV string into multiple spectra.
+ *
+ * The header row holds the X values and each following row is one
+ * spectrum, as in NIR calibration sets and chemometrics exports. Leading
+ * metadata columns are stored in each spectrum's `meta` under their
+ * header names, as numbers where they parse as such.
+ *
+ * @param text - Raw CSV/TSV text content
+ * @param options - Parsing configuration
+ * @returns One Spectrum per data row
+ * @throws SpectrumParseError if the header has no numeric X values or there are no data rows
+ */
+export function parseCsvWide(text: string, options: CsvWideParseOptions = {}): Spectrum[] {
+  const delimiter = options.delimiter ?? detectDelimiter(text);
+  const { lines, lineNumbers } = contentLines(text);
+  const warn = createWarn("csv", options);
+  const progress = createProgress(options, lines.length, "lines");
+
+  if (lines.length < 2) {
+    throw new SpectrumParseError("csv", "CSV file must contain at least 2 lines");
+  }
+
+  const decimalComma =
+    options.decimalSeparator !== undefined
+      ? options.decimalSeparator === ","
+      : delimiter !== "," && lines.some((line) => /\d,\d/.test(line));
+
+  const headers = splitLine(lines[0], delimiter);
+  let metaColumns = options.metaColumns;
+  if (metaColumns === undefined) {
+    metaColumns = headers.findIndex((h) => !isNaN(toNumber(h, decimalComma)));
+    if (metaColumns === -1) metaColumns = headers.length;
+  }
+
+  const xValues = headers.slice(metaColumns).map((h) => toNumber(h, decimalComma));
+  if (xValues.length === 0 || xValues.some((x) => isNaN(x))) {
+    throw new SpectrumParseError(
+      "csv",
+      "Wide CSV header must contain numeric X values after the metadata columns",
+      { line: lineNumbers[0] },
+    );
+  }
+
+  const { labelColumn = 0, xUnit, yUnit } = options;
+  const xArray = new Float64Array(xValues);
+
+  return lines.slice(1).map((line, row) => {
+    progress(row + 2);
+    const parts = splitLine(line, delimiter);
+
+    const meta: Record<string, string | number> = {};
+    for (let col = 0; col < metaColumns; col++) {
+      const value = parts[col] ?? "";
+      const numeric = toNumber(value, decimalComma);
+      meta[headers[col] || `column${col + 1}`] = isNaN(numeric) ? value : numeric;
+    }
+
+    const y = new Float64Array(xValues.length);
+    let missing = 0;
+    for (let i = 0; i < xValues.length; i++) {
+      const yVal = toNumber(parts[metaColumns + i], decimalComma);
+      if (isNaN(yVal)) missing++;
+      y[i] = isNaN(yVal) ? 0 : yVal;
+    }
+    if (missing > 0) warnMissing(warn, missing, lineNumbers[row + 1]);
+
+    const labelValue = labelColumn < metaColumns ? parts[labelColumn] : undefined;
+    return {
+      id: `csv-${++idCounter}`,
+      label: labelValue || `Spectrum ${row + 1}`,
+      x: xArray,
+      y,
+      xUnit,
+      yUnit,
+      meta,
+    };
+  });
+}
+
+
+/**
+ * Detect the layout of a delimited text file and split its first rows,
+ * for showing a preview before choosing columns.
+ *
+ * @param text - Raw CSV/TSV text content
+ * @param options - Delimiter or decimal separator to use instead of detecting them
+ * @param maxRows - Number of rows to return (default 10)
+ */
+export function previewCsv(
+  text: string,
+  options: Pick<CsvColumnsOptions, "delimiter" | "decimalSeparator"> = {},
+  maxRows = 10,
+): CsvPreview {
+  const layout = analyzeLayout(text, options);
+  const rowCount = Math.max(maxRows, Math.min(layout.dataIndex + 1, layout.lines.length));
+  const rows = layout.lines.slice(0, rowCount).map((line) => splitLine(line, layout.delimiter));
+  return {
+    delimiter: layout.delimiter,
+    decimalSeparator: layout.decimalComma ? "," : ".",
+    headerRow: layout.headerIndex,
+    ...detectColumns(layout),
+    rows,
+    columnCount: rows.reduce((max, row) => Math.max(max, row.length), 0),
+  };
+}
+
+/**
+ * Parse chosen columns of a delimited text file into spectra sharing
+ * one x column.
+ *
+ * Rows after the header whose x value is not numeric (or, with an
+ * implicit X, that have no numeric y value) are skipped; missing y values
+ * become 0.
+ *
+ * @param text - Raw CSV/TSV text content
+ * @param options - Column mapping
+ * @returns One Spectrum per y column
+ * @throws SpectrumParseError if no y columns are chosen or no numeric rows are found
+ */
+export function parseCsvColumns(text: string, options: CsvColumnsOptions = {}): Spectrum[] {
+  const layout = analyzeLayout(text, options);
+  const { lines, delimiter, decimalComma } = layout;
+  const { xColumn = 0, label = "Column" } = options;
+  const warn = createWarn("csv", options);
+  const progress = createProgress(options, lines.length, "lines");
+  const headerRow = options.headerRow ?? layout.headerIndex;
+  const headers =
+    headerRow >= 0 && headerRow < lines.length
+      ? splitLine(lines[headerRow], delimiter).map(parseHeaderCell)
+      : [];
+
+  const columnCount = lines.reduce(
+    (max, line) => Math.max(max, splitLine(line, delimiter).length),
+    0,
+  );
+  const yColumns =
+    options.yColumns ??
+    Array.from({ length: columnCount }, (_, i) => i).filter((i) => i !== xColumn);
+  if (yColumns.length === 0) {
+    throw new SpectrumParseError("csv", "No Y columns selected");
+  }
+
+  const xValues: number[] = [];
+  const yArrays: number[][] = yColumns.map(() => []);
+  for (let i = Math.max(headerRow + 1, 0); i < lines.length; i++) {
+    progress(i);
+    const parts = splitLine(lines[i], delimiter);
+    if (xColumn < 0 && yColumns.every((col) => isNaN(toNumber(parts[col], decimalComma)))) {
+      warn("Skipped line without numeric y values", { line: layout.lineNumbers[i] });
+      continue;
+    }
+    const xVal = xColumn < 0 ? xValues.length : toNumber(parts[xColumn], decimalComma);
+    if (isNaN(xVal)) {
+      warn("Skipped line with a non-numeric x value", { line: layout.lineNumbers[i] });
+      continue;
+    }
+
+    xValues.push(xVal);
+    let missing = 0;
+    yColumns.forEach((col, j) => {
+      const yVal = toNumber(parts[col], decimalComma);
+      if (isNaN(yVal)) missing++;
+      yArrays[j].push(isNaN(yVal) ? 0 : yVal);
+    });
+    if (missing > 0) warnMissing(warn, missing, layout.lineNumbers[i]);
+  }
+  progress(lines.length);
+
+  if (xValues.length === 0) {
+    throw new SpectrumParseError("csv", "No valid numeric data found in CSV");
+  }
+
+  const xArray = new Float64Array(xValues);
+  const xUnit = options.xUnit ?? headers[xColumn]?.unit;
+
+  return yColumns.map((col, j) => {
+    const spectrum: Spectrum = {
+      id: `csv-${++idCounter}`,
+      label: headers[col]?.name || `${label} ${col + 1}`,
+      x: xArray,
+      y: new Float64Array(yArrays[j]),
+    };
+    const yUnit = options.yUnit ?? headers[col]?.unit;
+    if (xUnit) spectrum.xUnit = xUnit;
+    if (yUnit) spectrum.yUnit = yUnit;
+    if (options.type) spectrum.type = options.type;
+    return spectrum;
+  });
+}
+
+/**
+ * Find the delimiter, decimal separator, header row and preamble of a
+ * delimited text file.
+ *
+ * The first row whose fields are all numbers (at least two) starts the
+ * data. The row above it is the header if it splits into several fields,
+ * and any rows above the header form the preamble. Without such a row
+ * there is no header.
+ */
+function analyzeLayout(
+  text: string,
+  options: Pick<CsvParseOptions, "delimiter" | "hasHeader" | "decimalSeparator">,
+): CsvLayout {
+  const { lines, lineNumbers } = contentLines(text);
+
+  const { delimiter, decimalComma } = detectNumberFormat(lines, options);
+
+  let dataIndex = lines.findIndex((line) => isNumericRow(line, delimiter, decimalComma));
+  if (dataIndex === -1) dataIndex = lines.length;
+
+  let headerIndex = -1;
+  if (options.hasHeader !== false && dataIndex > 0 && dataIndex < lines.length) {
+    const candidate = dataIndex - 1;
+    if (options.hasHeader || splitLine(lines[candidate], delimiter).length >= 2) {
+      headerIndex = candidate;
+    }
+  }
+
+  const preambleEnd = headerIndex === -1 ? dataIndex : headerIndex;
+  const preamble: Record<string, string | number> = {};
+  for (const line of lines.slice(0, preambleEnd)) {
+    const entry = parsePreambleLine(line, delimiter, decimalComma);
+    if (entry) preamble[entry[0]] = entry[1];
+  }
+
+  return { delimiter, decimalComma, lines, lineNumbers, headerIndex, dataIndex, preamble };
+}
+
+/**
+ * Pick the numeric columns of the first data row (or of the last line when
+ * no row is fully numeric, e.g. with a text column or a single column):
+ * the first is X and the rest are Y, unless there is only one, which is
+ * then Y against the point index.
+ */
+function detectColumns(layout: CsvLayout): { xColumn: number; yColumns: number[] } {
+  const { lines, delimiter, decimalComma } = layout;
+  const row = lines[layout.dataIndex] ?? lines[lines.length - 1];
+  const numeric = row
+    ? splitLine(row, delimiter)
+        .map((field, i) => (isNaN(toNumber(field, decimalComma)) ? -1 : i))
+        .filter((i) => i >= 0)
+    : [];
+  if (numeric.length === 0) return { xColumn: 0, yColumns: [1] };
+  if (numeric.length === 1) return { xColumn: -1, yColumns: numeric };
+  return { xColumn: numeric[0], yColumns: numeric.slice(1) };
+}
+
+/** Split text into non-blank, non-`#` lines with their 1-based line numbers. */
+function contentLines(text: string): { lines: string[]; lineNumbers: number[] } {
+  const lines: string[] = [];
+  const lineNumbers: number[] = [];
+  text.split(/\r?\n/).forEach((line, i) => {
+    const trimmed = line.trim();
+    if (trimmed === "" || trimmed.startsWith("#")) return;
+    lines.push(line);
+    lineNumbers.push(i + 1);
+  });
+  return { lines, lineNumbers };
+}
+
+/** Report y values that were missing or non-numeric and replaced with 0. */
+function warnMissing(
+  warn: Warn,
+  count: number,
+  line: number | undefined,
+): void {
+  const values = count === 1 ? "value" : "values";
+  warn(`Replaced ${count} missing or non-numeric y ${values} with 0`, { line });
+}
+
+/**
+ * Pick the delimiter and decimal separator that make the most rows
+ * numeric. Options given explicitly are kept; if no candidate yields a
+ * numeric row, falls back to `detectDelimiter`.
+ */
+function detectNumberFormat(
+  lines: string[],
+  options: Pick<CsvParseOptions, "delimiter" | "decimalSeparator">,
+): { delimiter: string; decimalComma: boolean } {
+  const sample = lines.slice(0, SNIFF_LINES);
+  const delimiters = options.delimiter ? [options.delimiter] : NUMERIC_DELIMITER_CANDIDATES;
+  const decimals =
+    options.decimalSeparator !== undefined ? [options.decimalSeparator === ","] : [false, true];
+
+  let best = { delimiter: "", decimalComma: false };
+  let bestScore = 0;
+  for (const delimiter of delimiters) {
+    for (const decimalComma of decimals) {
+      // A comma cannot be both the delimiter and the decimal separator
+      if (decimalComma && delimiter === ",") continue;
+      const score = sample.filter((line) => isNumericRow(line, delimiter, decimalComma)).length;
+      if (score > bestScore) {
+        best = { delimiter, decimalComma };
+        bestScore = score;
+      }
+    }
+  }
+
+  if (bestScore > 0) return best;
+  return {
+    delimiter: options.delimiter ?? detectDelimiter(lines.join("\n")),
+    decimalComma: options.decimalSeparator === ",",
+  };
+}
+
+/** Whether a row has at least two fields and all non-empty fields are numbers. */
+function isNumericRow(line: string, delimiter: string, decimalComma: boolean): boolean {
+  const fields = splitLine(line, delimiter).filter((f) => f !== "");
+  return fields.length >= 2 && fields.every((f) => !isNaN(toNumber(f, decimalComma)));
+}
+
+/** Split a row into trimmed fields; runs of spaces count as one delimiter. */
+function splitLine(line: string, delimiter: string): string[] {
+  const trimmed = line.trim();
+  const parts = delimiter === " " ? trimmed.split(/ +/) : trimmed.split(delimiter);
+  return parts.map((p) => p.trim());
+}
+
+/** Convert a field to a number, or NaN if it is not numeric. */
+function toNumber(field: string | undefined, decimalComma: boolean): number {
+  const value = field?.trim() ?? "";
+  if (value === "") return NaN;
+  return Number(decimalComma ? value.replace(",", ".") : value);
+}
+
+/**
+ * Parse a preamble line such as `Instrument: FT-IR 4600`, `Scans = 32`
+ * or `Resolution;4`.
+ *
+ * @returns The key and value (a number where it parses as one), or null
+ */
+function parsePreambleLine(
+  line: string,
+  delimiter: string,
+  decimalComma: boolean,
+): [string, string | number] | null {
+  let key: string;
+  let value: string;
+
+  const match = /^\s*([^:=]+?)\s*[:=]\s*(.*)$/.exec(line);
+  if (match) {
+    [, key, value] = match;
+  } else {
+    const fields = splitLine(line, delimiter);
+    if (fields.length < 2) return null;
+    key = fields[0];
+    value = fields.slice(1).filter((f) => f !== "").join(" ");
+  }
+
+  key = key.trim();
+  value = value.trim();
+  if (key === "") return null;
+  const numeric = toNumber(value, decimalComma);
+  return [key, isNaN(numeric) ? value : numeric];
+}
+
+/** Split the header row into named cells with units; empty if there is none. */
+function headerCells(layout: CsvLayout): HeaderCell[] {
+  if (layout.headerIndex === -1) return [];
+  return splitLine(layout.lines[layout.headerIndex], layout.delimiter).map(parseHeaderCell);
+}
+
+/**
+ * Split a header cell into name and unit, for `Name (unit)`,
+ * `Name [unit]` and `Name / unit` forms. Only recognised units are split
+ * off; otherwise the whole cell is the name.
+ */
+function parseHeaderCell(cell: string): HeaderCell {
+  const text = cell.replace(/^["']|["']$/g, "").trim();
+  const match =
+    /^(.*?)\s*[([]\s*([^)\]]+?)\s*[)\]]$/.exec(text) ?? /^(.+?)\s+\/\s+(.+)$/.exec(text);
+  if (!match) return { name: text };
+
+  const unit = match[2].trim();
+  const key = unit.toLowerCase();
+  const alias = UNIT_ALIASES[key];
+  if (alias === undefined && !UNIT_TOKENS.has(key.replace("μ", "µ"))) return { name: text };
+  return { name: match[1].trim(), unit: alias ?? unit };
 }
@@ -0,0 +1,240 @@
+/**
+ * Format detection and a single entry point for all parsers.
+ *
+ * Detection sniffs the content first (binary signatures, JCAMP-DX
+ * labels, XML root elements, JSON brackets, delimited numeric columns) and only falls back
+ * to the filename extension when the content is ambiguous.
+ *
+ * @module detect
+ */
+
+import type { Spectrum } from "../types";
+import { parseAnIML } from "./animl";
+import { parseCsv } from "./csv";
+import type { ParseOptions, ParseWarning } from "./errors";
+import { parseGaml } from "./gaml";
+import { parseJcamp } from "./jcamp";
+import { parseJson } from "./json";
+import { parseOmnic } from "./omnic";
+import { parseOpus } from "./opus";
+import { parseSpc } from "./spc";
+import { parseWdf } from "./wdf";
+
+/** Formats recognised by `detectFormat` and `parseAny`. */
+export type SpectrumFormat =
+  | "jcamp"
+  | "csv"
+  | "json"
+  | "animl"
+  | "gaml"
+  | "spc"
+  | "opus"
+  | "omnic"
+  | "wdf";
+
+export interface ParseAnyResult {
+  /** Format whose parser produced the spectra. */
+  format: SpectrumFormat;
+  /** Parsed spectra. */
+  spectra: Spectrum[];
+  /** Recoverable problems reported by the parser. */
+  warnings: ParseWarning[];
+}
+
+export interface ParseAnyOptions extends ParseOptions {
+  /** Format to parse as, skipping detection. */
+  format?: SpectrumFormat;
+}
+
+/** Formats stored as text; all others are binary. */
+const TEXT_FORMATS = new Set<SpectrumFormat>(["jcamp", "csv", "json", "animl", "gaml"]);
+
+/** Number of leading bytes inspected when sniffing content. */
+const SNIFF_LENGTH = 1024;
+
+/** Formats implied by filename extensions, used when content is ambiguous. */
+const EXTENSION_FORMATS: Record<string, SpectrumFormat> = {
+  dx: "jcamp",
+  jdx: "jcamp",
+  jcamp: "jcamp",
+  csv: "csv",
+  tsv: "csv",
+  txt: "csv",
+  json: "json",
+  animl: "animl",
+  gaml: "gaml",
+  spc: "spc",
+  spa: "omnic",
+  spg: "omnic",
+  wdf: "wdf",
+};
+
+/**
+ * Detect the format of spectral file content.
+ *
+ * @param input - File content, as an ArrayBuffer or decoded text
+ * @param filenameHint - Filename whose extension is used as a fallback
+ * @returns The detected format, or null if it cannot be determined
+ */
+export function detectFormat(
+  input: ArrayBuffer | string,
+  filenameHint?: string,
+): SpectrumFormat | null {
+  const hinted = filenameHint ? formatFromFilename(filenameHint) : null;
+
+  if (typeof input !== "string") {
+    const bytes = new Uint8Array(input, 0, Math.min(input.byteLength, SNIFF_LENGTH));
+    if (isBinary(bytes)) {
+      return sniffBinary(bytes) ?? (hinted && !TEXT_FORMATS.has(hinted) ? hinted : null);
+    }
+    input = new TextDecoder("utf-8").decode(bytes);
+  }
+
+  return sniffText(input) ?? (hinted && TEXT_FORMATS.has(hinted) ? hinted : null);
+}
+
+/**
+ * Parse spectral file content of any supported format.
+ *
+ * Binary formats are only detected in ArrayBuffer input; text formats
+ * accept either an ArrayBuffer (decoded as UTF-8) or a string. Warnings
+ * are collected into the result and also passed to `options.onWarning`.
+ *
+ * @param input - File content, as an ArrayBuffer or decoded text
+ * @param filenameHint - Filename used for errors and as a detection fallback
+ * @param options - Format override and parse callbacks
+ * @returns The chosen format, the parsed spectra and any warnings
+ * @throws Error if the format cannot be detected
+ * @throws SpectrumParseError if parsing fails
+ */
+export async function parseAny(
+  input: ArrayBuffer | string,
+  filenameHint?: string,
+  options: ParseAnyOptions = {},
+): Promise<ParseAnyResult> {
+  const format = options.format ?? detectFormat(input, filenameHint);
+  if (!format) {
+    throw new Error(`Unsupported file format: ${filenameHint ?? "unrecognised content"}`);
+  }
+
+  const warnings: ParseWarning[] = [];
+  const parseOptions: ParseOptions = {
+    onWarning: (warning) => {
+      warnings.push(warning);
+      options.onWarning?.(warning);
+    },
+    onProgress: options.onProgress,
+  };
+
+  if (!TEXT_FORMATS.has(format)) {
+    if (typeof input === "string") {
+      throw new Error(`Cannot parse ${format} data from text: pass an ArrayBuffer`);
+    }
+    return { format, spectra: parseBinary(format, input, parseOptions), warnings };
+  }
+
+  const text = typeof input === "string" ? input : new TextDecoder("utf-8").decode(input);
+  switch (format) {
+    case "jcamp":
+      return { format, spectra: await parseJcamp(text, parseOptions), warnings };
+    case "json":
+      return { format, spectra: parseJson(text, parseOptions), warnings };
+    case "animl":
+      return { format, spectra: parseAnIML(text, parseOptions), warnings };
+    case "gaml":
+      return { format, spectra: parseGaml(text, parseOptions), warnings };
+    default:
+      return { format, spectra: [parseCsv(text, parseOptions)], warnings };
+  }
+}
+
+/** Run the parser for a binary format. */
+function parseBinary(
+  format: SpectrumFormat,
+  buffer: ArrayBuffer,
+  options: ParseOptions,
+): Spectrum[] {
+  switch (format) {
+    case "spc":
+      return parseSpc(buffer, options);
+    case "opus":
+      return parseOpus(buffer, options);
+    case "omnic":
+      return parseOmnic(buffer, options);
+    default:
+      return parseWdf(buffer, options);
+  }
+}
+
+/**
+ * Map a filename to a format by extension.
+ *
+ * Bruker OPUS files use numbered extensions (`.0`, `.1`, …).
+ */
+function formatFromFilename(filename: string): SpectrumFormat | null {
+  const dot = filename.lastIndexOf(".");
+  if (dot === -1) return null;
+  const ext = filename.slice(dot + 1).toLowerCase();
+  if (/^\d+$/.test(ext)) return "opus";
+  return EXTENSION_FORMATS[ext] ?? null;
+}
+
+/** Whether leading bytes look like binary data (NUL or many control bytes). */
+function isBinary(bytes: Uint8Array): boolean {
+  let control = 0;
+  for (const byte of bytes) {
+    if (byte === 0) return true;
+    if (byte < 0x20 && byte !== 0x09 && byte !== 0x0a && byte !== 0x0d) control++;
+  }
+  return control > bytes.length * 0.1;
+}
+
+/** Identify a binary format from its signature. */
+function sniffBinary(bytes: Uint8Array): SpectrumFormat | null {
+  const ascii = String.fromCharCode(...bytes.subarray(0, 18));
+
+  if (bytes[0] === 0x0a && bytes[1] === 0x0a && bytes[2] === 0xfe && bytes[3] === 0xfe) {
+    return "opus";
+  }
+  if (ascii.startsWith("WDF1")) return "wdf";
+  if (ascii.startsWith("Spectral")) return "omnic";
+  // SPC: version byte 0x4B (new) or 0x4D (old) after the flags byte
+  if (bytes.length >= 256 && (bytes[1] === 0x4b || bytes[1] === 0x4d)) return "spc";
+  return null;
+}
+
+/** Identify a text format from its content. */
+function sniffText(text: string): SpectrumFormat | null {
+  const head = text.slice(0, SNIFF_LENGTH * 4).trimStart();
+
+  if (head.startsWith("##") || /^\s*##TITLE\s*=/im.test(head)) return "jcamp";
+  if (head.startsWith("<")) return sniffXml(head);
+  if (head.startsWith("{") || head.startsWith("[")) return "json";
+  if (isDelimitedNumeric(head)) return "csv";
+  return null;
+}
+
+/** Identify an XML format from its root element name. */
+function sniffXml(head: string): SpectrumFormat | null {
+  // Skip the XML declaration, processing instructions, comments and DOCTYPE
+  const body = head.replace(/<\?[\s\S]*?\?>|<!--[\s\S]*?-->|<!DOCTYPE[^>]*>/gi, "").trimStart();
+  const root = /^<(?:[\w.-]+:)?([\w.-]+)/.exec(body)?.[1].toLowerCase();
+  if (root === "animl") return "animl";
+  if (root === "gaml") return "gaml";
+  return null;
+}
+
+/**
+ * Whether text has at least two lines of two or more numeric fields
+ * separated by commas, semicolons, tabs or spaces.
+ */
+function isDelimitedNumeric(text: string): boolean {
+  let numericLines = 0;
+  for (const line of text.split(/\r?\n/).slice(0, 20)) {
+    const fields = line.trim().split(/[\t,; ]+/);
+    if (fields.length >= 2 && fields.every((f) => f !== "" && Number.isFinite(Number(f)))) {
+      if (++numericLines >= 2) return true;
+    }
+  }
+  return false;
+}
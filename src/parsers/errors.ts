@@ -0,0 +1,125 @@
+/**
+ * Structured parse errors, non-fatal parse warnings and progress.
+ *
+ * Every parser throws `SpectrumParseError` when a file cannot be read,
+ * and reports recoverable problems (skipped lines, substituted values,
+ * truncated data) through the `onWarning` callback of `ParseOptions`.
+ * Parsers of large files also report how far they got through
+ * `onProgress`.
+ *
+ * @module errors
+ */
+
+import type { SpectrumFormat } from "./detect";
+
+/** Position of a problem in the source file. */
+export interface ParseLocation {
+  /** 1-based line number, for text formats. */
+  line?: number;
+  /** Byte offset from the start of the file, for binary formats. */
+  offset?: number;
+}
+
+/** A recoverable problem found while parsing. */
+export interface ParseWarning extends ParseLocation {
+  /** Format being parsed. */
+  format: SpectrumFormat;
+  /** Human-readable description. */
+  message: string;
+}
+
+/** How far a parser has got through its input. */
+export interface ParseProgress {
+  /** Amount processed so far. */
+  loaded: number;
+  /** Total amount to process. */
+  total: number;
+  /** Whether `loaded` and `total` count bytes or lines. */
+  unit: "bytes" | "lines";
+}
+
+/** Options accepted by every parser. */
+export interface ParseOptions {
+  /** Called for each recoverable problem found while parsing. */
+  onWarning?: (warning: ParseWarning) => void;
+  /**
+   * Called as parsing advances, at most about 100 times per call. Not
+   * every parser reports progress.
+   */
+  onProgress?: (progress: ParseProgress) => void;
+}
+
+/** Reports a warning for the parse call it was created for. */
+export type Warn = (message: string, location?: ParseLocation) => void;
+
+/** Error thrown when a file cannot be parsed. */
+export class SpectrumParseError extends Error {
+  /** Format being parsed. */
+  readonly format: SpectrumFormat;
+  /** Description of the problem, without the location. */
+  readonly reason: string;
+  /** 1-based line number, for text formats. */
+  readonly line?: number;
+  /** Byte offset from the start of the file, for binary formats. */
+  readonly offset?: number;
+
+  constructor(format: SpectrumFormat, reason: string, location: ParseLocation = {}) {
+    super(reason + describeLocation(location));
+    this.name = "SpectrumParseError";
+    this.format = format;
+    this.reason = reason;
+    this.line = location.line;
+    this.offset = location.offset;
+  }
+}
+
+/**
+ * Create a warning reporter for one parse call.
+ *
+ * @returns A function that reports a warning, or does nothing when no
+ *   `onWarning` callback was given
+ */
+export function createWarn(format: SpectrumFormat, options: ParseOptions): Warn {
+  const { onWarning } = options;
+  return (message, location = {}) => {
+    onWarning?.({ format, message, ...location });
+  };
+}
+
+/** Number of progress reports made over a whole parse. */
+const PROGRESS_STEPS = 100;
+
+/**
+ * Create a progress reporter for one parse call.
+ *
+ * The reporter forwards roughly every 1% of `total` to `onProgress`,
+ * and always forwards `total` itself.
+ *
+ * @param options - Parse options holding the `onProgress` callback
+ * @param total - Total amount of input
+ * @param unit - Unit of `total`
+ * @returns A function to call with the amount processed so far
+ */
+export function createProgress(
+  options: ParseOptions,
+  total: number,
+  unit: ParseProgress["unit"],
+): (loaded: number) => void {
+  const { onProgress } = options;
+  if (!onProgress) return () => {};
+
+  const step = Math.max(1, Math.floor(total / PROGRESS_STEPS));
+  let next = 0;
+  return (loaded) => {
+    if (loaded < next && loaded < total) return;
+    next = loaded + step;
+    onProgress({ loaded, total, unit });
+  };
+}
+
+/** Format a location as a message suffix, e.g. ` (line 12)`. */
+function describeLocation(location: ParseLocation): string {
+  if (location.line !== undefined) return ` (line ${location.line})`;
+  if (location.offset !== undefined) return ` (byte ${location.offset})`;
+  return "";
+}
@@ -0,0 +1,232 @@
+/**
+ * GAML (Generalized Analytical Markup Language) parser for the XML
+ * files written by Galactic/Thermo GRAMS.
+ *
+ * A `<GAML>` document holds experiments, each with one or more traces.
+ * A trace's `<Xdata>` holds the abscissa and the `<Ydata>` ordinates
+ * that share it; values are base64-encoded binary arrays whose type and
+ * byte order are given by the `<values>` element.
+ *
+ * @module gaml
+ */
+
+import type { Spectrum, SpectrumType } from "../types";
+import { decodeBase64Numbers } from "../utils/base64";
+import type { NumericType } from "../utils/base64";
+import { createWarn, SpectrumParseError } from "./errors";
+import type { ParseOptions, Warn } from "./errors";
+import { childElement, childElements, childText, parseXml } from "./xml";
+import type { XmlElement } from "./xml";
+
+/** Auto-incrementing ID counter. */
+let idCounter = 0;
+
+/** GAML `units` values to display units. */
+const UNITS: Record<string, string> = {
+  WAVENUMBER: "cm⁻¹",
+  MICRONS: "µm",
+  NANOMETERS: "nm",
+  RAMANSHIFT: "Raman shift (cm⁻¹)",
+  SECONDS: "s",
+  MINUTES: "min",
+  HERTZ: "Hz",
+  KILOHERTZ: "kHz",
+  MEGAHERTZ: "MHz",
+  MASSCHARGE: "m/z",
+  PPM: "ppm",
+  DAYS: "days",
+  YEARS: "years",
+  ELECTRONVOLTS: "eV",
+  ABSORBANCE: "Absorbance",
+  TRANSMITTANCE: "Transmittance",
+  KUBELKAMUNK: "Kubelka-Munk",
+  COUNTS: "Counts",
+  VOLTS: "V",
+  DEGREES: "°",
+  MILLIAMPS: "mA",
+  MILLIMETERS: "mm",
+  MILLIVOLTS: "mV",
+  LOGONEOVERR: "log(1/R)",
+  PERCENT: "%",
+  INTENSITY: "Intensity",
+  RELATIVEINTENSITY: "Relative intensity",
+  ENERGY: "Energy",
+  DECIBELS: "dB",
+  REFLECTANCE: "Reflectance",
+  EMISSION: "Emission",
+  ARBITRARY: "Arbitrary",
+};
+
+/** GAML `technique` values to spectrum types. */
+const TECHNIQUES: Record<string, SpectrumType> = {
+  IR: "IR",
+  FTIR: "IR",
+  NIR: "NIR",
+  RAMAN: "Raman",
+  UV: "UV-Vis",
+  VIS: "UV-Vis",
+  UVVIS: "UV-Vis",
+  FLUORESCENCE: "fluorescence",
+};
+
+/** GAML `values` formats to binary types. */
+const VALUE_FORMATS: Record<string, NumericType> = {
+  FLOAT32: "float32",
+  FLOAT64: "float64",
+  INT32: "int32",
+};
+
+/**
+ * Parse a GAML document into Spectrum objects.
+ *
+ * Every `<Ydata>` becomes one spectrum, using the `<Xdata>` it belongs
+ * to. `meta` holds the document, experiment and trace `<parameter>`
+ * values, the experiment name and collection date, and the trace name
+ * and technique.
+ *
+ * @param text - GAML XML content
+ * @param options - Parse options, e.g. a warning callback
+ * @returns Array of parsed Spectrum objects
+ * @throws SpectrumParseError if the document is not GAML or has no data
+ */
+export function parseGaml(text: string, options: ParseOptions = {}): Spectrum[] {
+  const warn = createWarn("gaml", options);
+  const root = parseXml(text, "gaml");
+  if (root.name.toLowerCase() !== "gaml") {
+    throw new SpectrumParseError("gaml", "Invalid GAML file: missing <GAML> root element", {
+      line: root.line,
+    });
+  }
+
+  const fileMeta: Record<string, string | number> = {
+    format: "GAML",
+    ...readParameters(root),
+  };
+  const spectra: Spectrum[] = [];
+
+  for (const experiment of childElements(root, "experiment")) {
+    const experimentMeta = { ...fileMeta, ...readParameters(experiment) };
+    const experimentName = experiment.attributes.name;
+    if (experimentName) experimentMeta.experiment = experimentName;
+    const date = childText(experiment, "collectdate");
+    if (date) experimentMeta.date = date;
+
+    for (const trace of childElements(experiment, "trace")) {
+      const technique = (trace.attributes.technique ?? "").toUpperCase();
+      const traceMeta = { ...experimentMeta, ...readParameters(trace) };
+      if (trace.attributes.name) traceMeta.trace = trace.attributes.name;
+      if (technique) traceMeta.technique = technique;
+
+      for (const [xData, yDataList] of pairAxes(trace)) {
+        const x = readValues(xData, warn);
+        for (const yData of yDataList) {
+          let y = readValues(yData, warn);
+          if (y.length !== x.length) {
+            warn(`Ydata has ${y.length} values but Xdata has ${x.length}`, {
+              line: yData.line,
+            });
+            y = y.length > x.length ? y.subarray(0, x.length) : y;
+          }
+
+          const label =
+            yData.attributes.label ||
+            trace.attributes.name ||
+            experimentName ||
+            `GAML Spectrum ${spectra.length + 1}`;
+          spectra.push({
+            id: `gaml-${++idCounter}`,
+            label,
+            x: y.length < x.length ? x.slice(0, y.length) : x,
+            y,
+            xUnit: axisUnit(xData),
+            yUnit: axisUnit(yData),
+            type: TECHNIQUES[technique] ?? "other",
+            meta: { ...traceMeta },
+          });
+        }
+      }
+    }
+  }
+
+  if (spectra.length === 0) {
+    throw new SpectrumParseError("gaml", "Invalid GAML file: no Xdata/Ydata found");
+  }
+  return spectra;
+}
+
+/**
+ * Pair each `<Xdata>` of a trace with its `<Ydata>`: those nested in it
+ * (GAML 1.x) or, as some writers do, the siblings that follow it.
+ */
+function pairAxes(trace: XmlElement): Array<[XmlElement, XmlElement[]]> {
+  const pairs: Array<[XmlElement, XmlElement[]]> = [];
+  for (const child of trace.children) {
+    const name = child.name.toLowerCase();
+    if (name === "xdata") {
+      pairs.push([child, childElements(child, "Ydata")]);
+    } else if (name === "ydata" && pairs.length > 0) {
+      pairs[pairs.length - 1][1].push(child);
+    }
+  }
+  return pairs;
+}
+
+/**
+ * Decode the `<values>` of an Xdata or Ydata element.
+ *
+ * @throws SpectrumParseError if the values are missing or not valid base64
+ */
+function readValues(axis: XmlElement, warn: Warn): Float64Array {
+  const values = childElement(axis, "values");
+  if (!values) {
+    throw new SpectrumParseError("gaml", `Invalid GAML file: <${axis.name}> has no <values>`, {
+      line: axis.line,
+    });
+  }
+
+  const formatName = (values.attributes.format ?? "FLOAT32").toUpperCase();
+  const type = VALUE_FORMATS[formatName];
+  if (!type) {
+    throw new SpectrumParseError("gaml", `Unsupported GAML value format: ${formatName}`, {
+      line: values.line,
+    });
+  }
+  const littleEndian = (values.attributes.byteorder ?? "INTEL").toUpperCase() !== "MOTOROLA";
+
+  let decoded: Float64Array;
+  try {
+    decoded = decodeBase64Numbers(values.text, type, littleEndian);
+  } catch {
+    throw new SpectrumParseError("gaml", "Invalid GAML file: values are not valid base64", {
+      line: values.line,
+    });
+  }
+
+  const declared = parseInt(values.attributes.numvalues ?? "", 10);
+  if (declared >= 0 && declared !== decoded.length) {
+    warn(`numvalues is ${declared} but ${decoded.length} values were decoded`, {
+      line: values.line,
+    });
+  }
+  return decoded;
+}
+
+/** Display unit of an axis: its `units` attribute, else its label. */
+function axisUnit(axis: XmlElement): string | undefined {
+  const units = axis.attributes.units;
+  if (units) return UNITS[units.toUpperCase()] ?? units;
+  return axis.attributes.label || undefined;
+}
+
+/** Read the `<parameter name="…">value</parameter>` children of an element. */
+function readParameters(element: XmlElement): Record<string, string | number> {
+  const params: Record<string, string | number> = {};
+  for (const param of childElements(element, "parameter")) {
+    const name = param.attributes.name || param.attributes.label;
+    const value = param.text.trim();
+    if (!name || value === "") continue;
+    const numeric = Number(value);
+    params[name] = Number.isFinite(numeric) ? numeric : value;
+  }
+  return params;
+}
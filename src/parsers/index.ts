@@ -4,8 +4,32 @@
  * @module parsers
  */
 
-export { parseJcamp } from "./jcamp";
-export { parseCsv, parseCsvMulti } from "./csv";
-export type { CsvParseOptions } from "./csv";
+export { parseJcamp, parseJcampWithPeaks } from "./jcamp";
+export type { JcampParseResult } from "./jcamp";
+export { parseCsv, parseCsvMulti, parseCsvWide, parseCsvColumns, previewCsv } from "./csv";
+export type {
+  CsvParseOptions,
+  CsvWideParseOptions,
+  CsvColumnsOptions,
+  CsvPreview,
+} from "./csv";
 export { parseJson } from "./json";
-export { parseSpc } from "./spc";
+export type { JsonEncodedArray, JsonImplicitAxis } from "./json";
+export { parseAnIML } from "./animl";
+export { parseGaml } from "./gaml";
+export { parseSpc, writeSpc } from "./spc";
+export { parseOpus } from "./opus";
+export { parseOmnic } from "./omnic";
+export { parseWdf } from "./wdf";
+export { parseAny, detectFormat } from "./detect";
+export type { ParseAnyOptions, ParseAnyResult, SpectrumFormat } from "./detect";
+export { SpectrumParseError } from "./errors";
+export type { ParseLocation, ParseOptions, ParseProgress, ParseWarning } from "./errors";
+export { parseInWorker, registerParseWorker } from "./worker";
+export type {
+  ParseWorkerRequest,
+  ParseWorkerResponse,
+  ParseWorkerScope,
+  WorkerParseOptions,
+} from "./worker";
+export type { SpcWriteOptions } from "./spc";
@@ -5,10 +5,13 @@
  * to parse .dx, .jdx, and .jcamp files into Spectrum objects.
  *
  * If jcampconverter is not installed, a lightweight built-in parser
- * handles basic AFFN (ASCII Free Format Numeric) JCAMP-DX files.
+ * handles JCAMP-DX files in AFFN (ASCII Free Format Numeric) or any of
+ * the compressed ASDF forms (PAC, SQZ, DIF, DUP).
  */
 
-import type { Spectrum, SpectrumType } from "../types";
+import type { Peak, Spectrum, SpectrumType } from "../types";
+import { createProgress, createWarn, SpectrumParseError } from "./errors";
+import type { ParseOptions, Warn } from "./errors";
 
 /** Auto-incrementing ID counter for unique spectrum IDs. */
 let idCounter = 0;
@@ -23,11 +26,35 @@ interface JcampResult {
         x: number[];
         y: number[];
       }>;
+      isPeaktable?: boolean;
     }>;
     info: Record<string, string>;
   }>;
 }
 
+/** SpectraView unit labels for the standard JCAMP-DX unit spellings. */
+const JCAMP_UNIT_NAMES: Record<string, string> = {
+  "1/CM": "cm⁻¹",
+  MICROMETERS: "µm",
+  NANOMETERS: "nm",
+  ABSORBANCE: "Absorbance",
+  TRANSMITTANCE: "Transmittance",
+  REFLECTANCE: "Reflectance",
+  "KUBELKA-MUNK": "Kubelka-Munk",
+  "ARBITRARY UNITS": "Arbitrary",
+};
+
+/** Spectra and peak tables parsed from a JCAMP-DX file. */
+export interface JcampParseResult {
+  /** Spectra from XYDATA, XYPOINTS and NTUPLES data tables. */
+  spectra: Spectrum[];
+  /** Peaks from PEAK TABLE records, linked to their block's spectrum. */
+  peaks: Peak[];
+}
+
+const NO_DATA_MESSAGE =
+  "Failed to parse JCAMP-DX: no data found. Install jcampconverter for full format support.";
+
 /** Cached reference to jcampconverter (lazy-loaded). */
 let converterModule: { convert: (text: string, options?: object) => JcampResult } | null =
   null;
@@ -57,9 +84,10 @@ async function getConverter(): Promise<typeof converterModule> {
  */
 function inferType(info: Record<string, string>): SpectrumType {
   const dataType = (info["DATA TYPE"] ?? info["DATATYPE"] ?? "").toLowerCase();
+  // Checked before IR, since "near infrared" and "nir" also contain "ir"
+  if (dataType.includes("nir") || dataType.includes("near")) return "NIR";
   if (dataType.includes("infrared") || dataType.includes("ir")) return "IR";
   if (dataType.includes("raman")) return "Raman";
-  if (dataType.includes("nir") || dataType.includes("near")) return "NIR";
   if (dataType.includes("uv") || dataType.includes("vis")) return "UV-Vis";
   if (dataType.includes("fluor")) return "fluorescence";
   return "other";
@@ -69,17 +97,44 @@ function inferType(info: Record<string, string>): SpectrumType {
  * Parse a JCAMP-DX string into Spectrum objects.
  *
  * Uses jcampconverter if available, otherwise falls back to the built-in
- * parser for basic AFFN format files.
+ * parser for AFFN and ASDF-compressed files. Compound files with
+ * `##BLOCKS=` yield one spectrum per data block, and NTUPLES files one
+ * spectrum per page.
  *
  * @param text - Raw JCAMP-DX file content
+ * @param options - Parse options, e.g. a warning callback
  * @returns Array of parsed Spectrum objects
+ * @throws SpectrumParseError if the file contains no spectral data
+ */
+export async function parseJcamp(text: string, options: ParseOptions = {}): Promise<Spectrum[]> {
+  const { spectra } = await parseJcampWithPeaks(text, options);
+  if (spectra.length === 0) {
+    throw new SpectrumParseError("jcamp", NO_DATA_MESSAGE);
+  }
+  return spectra;
+}
+
+/**
+ * Parse a JCAMP-DX string into spectra plus the peaks of any
+ * `##PEAK TABLE=` records.
+ *
+ * Peaks carry the `spectrumId` of the spectrum from the same block, so
+ * they can be passed straight to `PeakMarkers` or `SpectraView`'s `peaks`.
+ *
+ * @param text - Raw JCAMP-DX file content
+ * @param options - Parse options, e.g. a warning callback
+ * @returns Parsed spectra and peaks
+ * @throws SpectrumParseError if the file contains neither spectral data nor peaks
  */
-export async function parseJcamp(text: string): Promise<Spectrum[]> {
+export async function parseJcampWithPeaks(
+  text: string,
+  options: ParseOptions = {},
+): Promise<JcampParseResult> {
   const converter = await getConverter();
   if (converter) {
     return parseWithConverter(text, converter);
   }
-  return [parseBasicJcamp(text)];
+  return parseBasicJcamp(text, options);
 }
 
 /**
@@ -88,110 +143,657 @@ export async function parseJcamp(text: string): Promise<Spectrum[]> {
 function parseWithConverter(
   text: string,
   converter: NonNullable<typeof converterModule>,
-): Spectrum[] {
+): JcampParseResult {
   const result = converter.convert(text, { keepRecordsRegExp: /.*/ });
+  const spectra: Spectrum[] = [];
+  const peaks: Peak[] = [];
+
+  result.flatten.forEach((entry, i) => {
+    const xyData = entry.spectra?.find((s) => !s.isPeaktable)?.data?.[0];
+    const peakTables = (entry.spectra ?? []).filter((s) => s.isPeaktable);
+    if (!xyData && peakTables.length === 0) {
+      throw new SpectrumParseError("jcamp", `JCAMP block ${i}: no spectral data found`);
+    }
+
+    let spectrumId: string | undefined;
+    if (xyData) {
+      spectrumId = `jcamp-${++idCounter}`;
+      spectra.push({
+        id: spectrumId,
+        label: entry.info?.TITLE ?? `Spectrum ${i + 1}`,
+        x: new Float64Array(xyData.x),
+        y: new Float64Array(xyData.y),
+        xUnit: unitName(entry.info?.XUNITS, "cm⁻¹"),
+        yUnit: unitName(entry.info?.YUNITS, "Absorbance"),
+        type: inferType(entry.info),
+        meta: entry.info,
+      });
+    }
 
-  return result.flatten.map((entry, i) => {
-    const firstSpectrum = entry.spectra?.[0]?.data?.[0];
-    if (!firstSpectrum) {
-      throw new Error(`JCAMP block ${i}: no spectral data found`);
-    }
-
-    return {
-      id: `jcamp-${++idCounter}`,
-      label: entry.info?.TITLE ?? `Spectrum ${i + 1}`,
-      x: new Float64Array(firstSpectrum.x),
-      y: new Float64Array(firstSpectrum.y),
-      xUnit: entry.info?.XUNITS ?? "cm⁻¹",
-      yUnit: entry.info?.YUNITS ?? "Absorbance",
-      type: inferType(entry.info),
-      meta: entry.info,
-    };
+    for (const table of peakTables) {
+      const data = table.data?.[0];
+      if (!data) continue;
+      for (let j = 0; j < data.x.length; j++) {
+        peaks.push(toPeak(data.x[j], data.y[j], spectrumId));
+      }
+    }
   });
+
+  return { spectra, peaks };
+}
+
+/** Build a Peak labelled like `detectPeaks` output. */
+function toPeak(x: number, y: number, spectrumId: string | undefined): Peak {
+  return { x, y, label: Math.round(x).toString(), spectrumId };
+}
+
+/** A data table line with its 1-based position in the source file. */
+interface DataLine {
+  text: string;
+  lineNumber: number;
+}
+
+/** A data table: XYDATA, XYPOINTS, PEAK TABLE or one NTUPLES page. */
+interface JcampTable {
+  /** How the table lines are decoded. */
+  form: "xydata" | "xypoints" | "peaks";
+  /** Variable list, e.g. `(X++(Y..Y))` or `(XYW..XYW)`. */
+  variables: string;
+  /** NTUPLES `##PAGE=` value (e.g. `T=25`), for tables inside a page. */
+  page?: string;
+  /** Records that apply to this table only (NTUPLES page records). */
+  info: Record<string, string>;
+  /** Lines of the table. */
+  lines: DataLine[];
+}
+
+/** One `##TITLE=` … `##END=` block of a JCAMP-DX file. */
+interface JcampBlock {
+  /** Labeled data records of this block (without its data tables). */
+  info: Record<string, string>;
+  /** Data tables in file order. */
+  tables: JcampTable[];
+}
+
+/**
+ * Lightweight built-in JCAMP-DX parser.
+ *
+ * Handles XYDATA=(X++(Y..Y)) in any ASDF form (AFFN, PAC, SQZ, DIF, DUP
+ * and mixtures thereof), including the Y-value check that repeats the
+ * last ordinate of a DIF line at the start of the next one.
+ * XYPOINTS=(XY..XY) and PEAK TABLE=(XY..XY) / (XYW..XYW) records may hold
+ * any number of groups per line.
+ *
+ * Compound files (`##DATA TYPE= LINK` with `##BLOCKS=`) and concatenated
+ * blocks are walked in order; every data table becomes one spectrum,
+ * keeping its block's `BLOCK_ID` and `CROSS REFERENCE` records in `meta`.
+ * `##NTUPLES=` blocks yield one spectrum per `##PAGE=`, with the page
+ * variable recorded in `meta`.
+ */
+function parseBasicJcamp(text: string, options: ParseOptions): JcampParseResult {
+  const spectra: Spectrum[] = [];
+  const peaks: Peak[] = [];
+  const warn = createWarn("jcamp", options);
+  const { blocks, lineCount } = splitBlocks(text);
+  const progress = createProgress(options, lineCount, "lines");
+
+  for (const block of blocks) {
+    const blockPeaks: Array<{ x: number; y: number }> = [];
+    let spectrumId: string | undefined;
+
+    for (const table of block.tables) {
+      progress(table.lines[0]?.lineNumber ?? 0);
+      if (table.form === "peaks") {
+        const data = decodeTuples(table.lines, table.variables, block.info);
+        for (let i = 0; i < data.x.length; i++) {
+          blockPeaks.push({ x: data.x[i], y: data.y[i] });
+        }
+        continue;
+      }
+
+      const fallbackLabel = `JCAMP Spectrum ${spectra.length + 1}`;
+      const spectrum =
+        table.page === undefined
+          ? decodeSpectrum(table, block.info, block.info["TITLE"] ?? fallbackLabel, warn, {
+              xUnit: block.info["XUNITS"],
+              yUnit: block.info["YUNITS"],
+            })
+          : decodeNtuplesPage(table, block.info, fallbackLabel, warn);
+      if (!spectrum) continue;
+
+      spectrumId ??= spectrum.id;
+      spectra.push(spectrum);
+    }
+
+    for (const peak of blockPeaks) {
+      peaks.push(toPeak(peak.x, peak.y, spectrumId));
+    }
+  }
+
+  progress(lineCount);
+
+  if (spectra.length === 0 && peaks.length === 0) {
+    throw new SpectrumParseError("jcamp", NO_DATA_MESSAGE);
+  }
+
+  return { spectra, peaks };
 }
 
 /**
- * Lightweight built-in JCAMP-DX parser for basic AFFN format.
+ * Decode an XYDATA or XYPOINTS table into a Spectrum.
  *
- * Handles the most common case: single-spectrum files with
- * XYDATA=(X++(Y..Y)) in ASCII free-format.
+ * @param table - Table to decode
+ * @param info - Records providing FIRSTX/LASTX/NPOINTS and scaling factors
+ * @param label - Spectrum label
+ * @param warn - Reporter for recoverable problems
+ * @param units - Axis units
+ * @param meta - Metadata to attach; defaults to `info`
+ * @returns The spectrum, or null if the table holds no points
+ */
+function decodeSpectrum(
+  table: JcampTable,
+  info: Record<string, string>,
+  label: string,
+  warn: Warn,
+  units: { xUnit?: string; yUnit?: string },
+  meta: Record<string, string | number> = info,
+): Spectrum | null {
+  const data =
+    table.form === "xypoints"
+      ? decodeTuples(table.lines, table.variables, info)
+      : decodeXyData(table.lines, info, warn);
+  if (data.x.length === 0) return null;
+
+  return {
+    id: `jcamp-${++idCounter}`,
+    label,
+    x: data.x,
+    y: data.y,
+    xUnit: unitName(units.xUnit, "cm⁻¹"),
+    yUnit: unitName(units.yUnit, "Absorbance"),
+    type: inferType(info),
+    meta,
+  };
+}
+
+/** Map a JCAMP-DX unit to its SpectraView label; other units are kept as written. */
+function unitName(unit: string | undefined, fallback: string): string {
+  if (unit === undefined || unit === "") return fallback;
+  return JCAMP_UNIT_NAMES[unit.toUpperCase()] ?? unit;
+}
+
+/** Split an NTUPLES list record (`X, Y, T`) into trimmed entries. */
+function splitList(value: string | undefined): string[] {
+  return value === undefined ? [] : value.split(",").map((v) => v.trim());
+}
+
+/**
+ * Decode one NTUPLES page into a Spectrum.
  *
- * This does NOT support compressed formats (SQZ, DIF, DIFDUP, NTUP)
- * or multi-block files. For full support, install jcampconverter.
+ * The abscissa and ordinate symbols of the page's variable list (e.g. X
+ * and Y in `(X++(Y..Y))`) select the matching columns of the block's
+ * SYMBOL, UNITS, FIRST, LAST, FACTOR and VAR_DIM records. The page
+ * variable (e.g. `T=25`) is stored as `PAGE`, `PAGE_VARIABLE` (its
+ * VAR_NAME) and `PAGE_VALUE` in `meta`.
  */
-function parseBasicJcamp(text: string): Spectrum {
+function decodeNtuplesPage(
+  table: JcampTable,
+  blockInfo: Record<string, string>,
+  fallbackLabel: string,
+  warn: Warn,
+): Spectrum | null {
+  const records = { ...blockInfo, ...table.info };
+  const symbols = splitList(records["SYMBOL"]).map((s) => s.toUpperCase());
+  const names = splitList(records["VAR_NAME"] ?? records["VAR NAME"]);
+  const units = splitList(records["UNITS"]);
+  const first = splitList(records["FIRST"]);
+  const last = splitList(records["LAST"]);
+  const factor = splitList(records["FACTOR"]);
+  const dims = splitList(records["VAR_DIM"] ?? records["VAR DIM"]);
+
+  // (X++(Y..Y)) or (XY..XY)
+  const axes =
+    table.variables.match(/\(\s*([A-Za-z])\s*\+\+\s*\(\s*([A-Za-z])/) ??
+    table.variables.match(/\(\s*([A-Za-z])([A-Za-z])/);
+  const xi = symbols.indexOf((axes?.[1] ?? "X").toUpperCase());
+  const yi = symbols.indexOf((axes?.[2] ?? "Y").toUpperCase());
+
+  const column = (list: string[], index: number) =>
+    index >= 0 && list[index] ? list[index] : undefined;
+
+  const info: Record<string, string> = { ...records };
+  const assign = (key: string, value: string | undefined) => {
+    if (value !== undefined) info[key] = value;
+  };
+  assign("FIRSTX", column(first, xi));
+  assign("LASTX", column(last, xi));
+  assign("XFACTOR", column(factor, xi));
+  assign("YFACTOR", column(factor, yi));
+  if (!table.info["NPOINTS"]) assign("NPOINTS", column(dims, yi) ?? column(dims, xi));
+  if (!records["DATA TYPE"] && records["NTUPLES"]) info["DATA TYPE"] = records["NTUPLES"];
+
+  const meta: Record<string, string | number> = { ...records, PAGE: table.page ?? "" };
+  const pageMatch = (table.page ?? "").match(/^\s*([A-Za-z]+)\s*=\s*(.*)$/);
+  if (pageMatch) {
+    const pi = symbols.indexOf(pageMatch[1].toUpperCase());
+    const value = pageMatch[2].trim();
+    meta["PAGE_VARIABLE"] = column(names, pi) ?? pageMatch[1];
+    meta["PAGE_VALUE"] = value !== "" && Number.isFinite(Number(value)) ? Number(value) : value;
+  }
+
+  const title = blockInfo["TITLE"] ?? fallbackLabel;
+  return decodeSpectrum(
+    table,
+    info,
+    table.page ? `${title} (${table.page})` : title,
+    warn,
+    { xUnit: column(units, xi), yUnit: column(units, yi) },
+    meta,
+  );
+}
+
+/** Decoding form for a top-level data table label. */
+const TABLE_FORMS: Record<string, JcampTable["form"]> = {
+  XYDATA: "xydata",
+  XYPOINTS: "xypoints",
+  PEAKTABLE: "peaks",
+};
+
+/**
+ * Split JCAMP-DX text into its blocks, in file order.
+ *
+ * A `##TITLE=` record opens a block (nested inside the enclosing block
+ * if that one has not been closed yet) and `##END=` closes the innermost
+ * open block. Link blocks are returned too, with no tables. Inside
+ * `##NTUPLES=` … `##END NTUPLES=`, records following a `##PAGE=` belong
+ * to that page and each `##DATA TABLE=` becomes a table of the page.
+ *
+ * @returns The blocks and the number of lines in the text
+ */
+function splitBlocks(text: string): { blocks: JcampBlock[]; lineCount: number } {
   const lines = text.split(/\r?\n/);
-  const info: Record<string, string> = {};
-  const xValues: number[] = [];
-  const yValues: number[] = [];
+  const blocks: JcampBlock[] = [];
+  const open: JcampBlock[] = [];
+  let table: JcampTable | null = null;
+  let inNtuples = false;
+  let page: { name: string; info: Record<string, string> } | null = null;
 
-  let inData = false;
+  const openBlock = (): JcampBlock => {
+    const block: JcampBlock = { info: {}, tables: [] };
+    blocks.push(block);
+    open.push(block);
+    return block;
+  };
 
-  for (const line of lines) {
-    const trimmed = line.trim();
+  for (let i = 0; i < lines.length; i++) {
+    const trimmed = stripComment(lines[i]).trim();
 
     // Parse labeled data records (##KEY= value)
     if (trimmed.startsWith("##")) {
+      table = null;
       const match = trimmed.match(/^##(.+?)=\s*(.*)$/);
-      if (match) {
-        const key = match[1].trim().toUpperCase();
-        const value = match[2].trim();
+      if (!match) continue;
 
-        if (key === "XYDATA" || key === "XYPOINTS") {
-          inData = true;
-          continue;
-        }
-        if (key === "END") {
-          inData = false;
-          continue;
-        }
+      const key = match[1].trim().toUpperCase();
+      const value = match[2].trim();
+      // JCAMP-DX labels ignore spaces, dashes, slashes and underscores
+      const label = key.replace(/[\s\-/_]/g, "");
 
-        info[key] = value;
+      if (label === "END") {
+        open.pop();
+        inNtuples = false;
+        page = null;
+        continue;
+      }
+
+      const block =
+        label === "TITLE" || open.length === 0 ? openBlock() : open[open.length - 1];
+
+      if (label === "NTUPLES") {
+        inNtuples = true;
+      } else if (label === "ENDNTUPLES") {
+        inNtuples = false;
+        page = null;
+        continue;
+      } else if (inNtuples && label === "PAGE") {
+        page = { name: value, info: {} };
+        continue;
+      } else if (inNtuples && label === "DATATABLE") {
+        // e.g. "(X++(Y..Y)), XYDATA" or "(XY..XY), PEAKS"
+        const parts = value.match(/^(\(.*\))\s*,?\s*([A-Za-z ]*)$/);
+        const variables = parts?.[1] ?? value;
+        const kind = (parts?.[2] ?? "").replace(/\s/g, "").toUpperCase();
+        table = {
+          form:
+            kind === "PEAKS"
+              ? "peaks"
+              : (TABLE_FORMS[kind] ?? (variables.includes("++") ? "xydata" : "xypoints")),
+          variables,
+          page: page?.name ?? "",
+          info: page?.info ?? {},
+          lines: [],
+        };
+        block.tables.push(table);
+        continue;
+      } else if (TABLE_FORMS[label]) {
+        table = { form: TABLE_FORMS[label], variables: value, info: {}, lines: [] };
+        block.tables.push(table);
+        continue;
+      }
+
+      if (page) {
+        page.info[key] = value;
+      } else {
+        block.info[key] = value;
       }
       continue;
     }
 
-    // Parse data lines
-    if (inData && trimmed !== "") {
-      const values = trimmed.split(/[\s,]+/).map(Number);
-      if (values.length >= 2 && !values.some(isNaN)) {
-        // XYDATA: first value is X, rest are Y values
-        const x0 = values[0];
-        const firstX = parseFloat(info["FIRSTX"] ?? "0");
-        const lastX = parseFloat(info["LASTX"] ?? "0");
-        const npoints = parseInt(info["NPOINTS"] ?? "0", 10);
-
-        if (npoints > 0 && values.length === 2) {
-          // Simple X,Y pair format
-          xValues.push(values[0]);
-          yValues.push(values[1]);
-        } else if (values.length > 1) {
-          // X++(Y..Y) format — X is first, rest are Y
-          const deltaX =
-            npoints > 1 ? (lastX - firstX) / (npoints - 1) : 0;
-          for (let j = 1; j < values.length; j++) {
-            xValues.push(x0 + (j - 1) * deltaX);
-            yValues.push(values[j]);
-          }
+    if (table && trimmed !== "") {
+      table.lines.push({ text: trimmed, lineNumber: i + 1 });
+    }
+  }
+
+  return { blocks, lineCount: lines.length };
+}
+
+/** Remove a trailing `$$` comment from a JCAMP-DX line. */
+function stripComment(line: string): string {
+  const idx = line.indexOf("$$");
+  return idx >= 0 ? line.slice(0, idx) : line;
+}
+
+/** Parse a scaling factor header, defaulting to 1 when absent or invalid. */
+function parseFactor(value: string | undefined): number {
+  const factor = parseFloat(value ?? "");
+  return Number.isFinite(factor) && factor !== 0 ? factor : 1;
+}
+
+// ─── ASDF decoding ─────────────────────────────────────────────────
+
+/**
+ * A decoded ASDF value.
+ *
+ * - `abs`: an absolute ordinate (AFFN, PAC or SQZ form)
+ * - `dif`: a difference from the previous ordinate (DIF form)
+ * - `dup`: a repeat count for the previous value or difference (DUP form)
+ */
+interface AsdfToken {
+  kind: "abs" | "dif" | "dup";
+  value: number;
+}
+
+/** SQZ pseudo-digits: `@`=0, `A`–`I`=1–9, `a`–`i`=-1 to -9. */
+const SQZ_POSITIVE = "@ABCDEFGHI";
+const SQZ_NEGATIVE = "abcdefghi";
+/** DIF pseudo-digits: `%`=0, `J`–`R`=1–9, `j`–`r`=-1 to -9. */
+const DIF_POSITIVE = "%JKLMNOPQR";
+const DIF_NEGATIVE = "jklmnopqr";
+/** DUP pseudo-digits: `S`–`Z`=1–8, `s`=9. */
+const DUP_DIGITS = "STUVWXYZs";
+
+/**
+ * Split an ASDF-encoded line into tokens.
+ *
+ * A pseudo-digit, sign, `?` or separator starts a new value; plain digits
+ * continue the current one. `E`/`e` followed by a sign is read as an AFFN
+ * exponent rather than a SQZ character.
+ */
+function tokenizeAsdf(line: string): AsdfToken[] {
+  const tokens: AsdfToken[] = [];
+  let kind: AsdfToken["kind"] = "abs";
+  let buffer = "";
+  let hasDigits = false;
+
+  const flush = () => {
+    if (hasDigits) {
+      tokens.push({ kind, value: Number(buffer) });
+    }
+    kind = "abs";
+    buffer = "";
+    hasDigits = false;
+  };
+
+  const start = (nextKind: AsdfToken["kind"], digits: string) => {
+    flush();
+    kind = nextKind;
+    buffer = digits;
+    hasDigits = true;
+  };
+
+  for (let i = 0; i < line.length; i++) {
+    const c = line[i];
+
+    if ((c >= "0" && c <= "9") || c === ".") {
+      buffer += c;
+      if (c !== ".") hasDigits = true;
+      continue;
+    }
+
+    const next = line[i + 1];
+    if (
+      (c === "E" || c === "e") &&
+      kind === "abs" &&
+      hasDigits &&
+      (next === "+" || next === "-")
+    ) {
+      buffer += "e" + next;
+      i++;
+      continue;
+    }
+
+    if (c === "+" || c === "-") {
+      flush();
+      buffer = c;
+      continue;
+    }
+    if (c === "?") {
+      flush();
+      tokens.push({ kind: "abs", value: NaN });
+      continue;
+    }
+
+    let digit = SQZ_POSITIVE.indexOf(c);
+    if (digit >= 0) {
+      start("abs", String(digit));
+      continue;
+    }
+    digit = SQZ_NEGATIVE.indexOf(c);
+    if (digit >= 0) {
+      start("abs", `-${digit + 1}`);
+      continue;
+    }
+    digit = DIF_POSITIVE.indexOf(c);
+    if (digit >= 0) {
+      start("dif", String(digit));
+      continue;
+    }
+    digit = DIF_NEGATIVE.indexOf(c);
+    if (digit >= 0) {
+      start("dif", `-${digit + 1}`);
+      continue;
+    }
+    digit = DUP_DIGITS.indexOf(c);
+    if (digit >= 0) {
+      start("dup", String(digit + 1));
+      continue;
+    }
+
+    // Separators (space, comma, tab, semicolon) end the current value
+    flush();
+  }
+  flush();
+
+  return tokens;
+}
+
+/**
+ * Expand the tokens of one X++(Y..Y) line into ordinates.
+ *
+ * @param tokens - Tokens of the line; the first is the abscissa
+ * @param previousY - Last ordinate of the preceding line (DIF base)
+ */
+function decodeAsdfLine(
+  tokens: AsdfToken[],
+  previousY: number,
+): { x: number; y: number[]; last: number; endsInDif: boolean } {
+  const y: number[] = [];
+  let current = previousY;
+  let delta = 0;
+  let inDif = false;
+
+  for (let i = 1; i < tokens.length; i++) {
+    const token = tokens[i];
+    switch (token.kind) {
+      case "abs":
+        current = token.value;
+        inDif = false;
+        y.push(current);
+        break;
+      case "dif":
+        delta = token.value;
+        current += delta;
+        inDif = true;
+        y.push(current);
+        break;
+      case "dup":
+        // DUP counts include the value already emitted
+        for (let k = 1; k < token.value; k++) {
+          if (inDif) current += delta;
+          y.push(current);
         }
+        break;
+    }
+  }
+
+  return { x: tokens[0].value, y, last: current, endsInDif: inDif };
+}
+
+/** Compare two ordinates for the DIF Y-value check. */
+function sameOrdinate(a: number, b: number): boolean {
+  if (Number.isNaN(a) || Number.isNaN(b)) return Number.isNaN(a) && Number.isNaN(b);
+  return Math.abs(a - b) <= 1e-9 * Math.max(1, Math.abs(a), Math.abs(b));
+}
+
+/**
+ * Decode an XYDATA=(X++(Y..Y)) table.
+ *
+ * Ordinates are scaled by YFACTOR. Abscissas are spread evenly between
+ * FIRSTX and LASTX when both are present, otherwise they are interpolated
+ * from the (XFACTOR-scaled) X value that starts each line.
+ *
+ * A decoded point count that differs from NPOINTS is reported as a
+ * warning; the decoded ordinates are kept.
+ *
+ * @throws SpectrumParseError if a DIF Y-value check fails
+ */
+function decodeXyData(
+  lines: DataLine[],
+  info: Record<string, string>,
+  warn: Warn,
+): { x: Float64Array; y: Float64Array } {
+  const xFactor = parseFactor(info["XFACTOR"]);
+  const yFactor = parseFactor(info["YFACTOR"]);
+
+  const rawY: number[] = [];
+  // Abscissa of the ordinate at `index`, taken from each line's X value
+  const anchors: Array<{ x: number; index: number }> = [];
+  let lastY = NaN;
+  let checkPending = false;
+
+  for (const line of lines) {
+    const tokens = tokenizeAsdf(line.text);
+    if (tokens.length === 0) continue;
+
+    const decoded = decodeAsdfLine(tokens, lastY);
+    let values = decoded.y;
+    let anchorIndex = rawY.length;
+
+    // Y-value check: a DIF line's last ordinate is repeated on the next line
+    if (checkPending && values.length > 0) {
+      if (!sameOrdinate(values[0], lastY)) {
+        throw new SpectrumParseError(
+          "jcamp",
+          `Failed to parse JCAMP-DX: Y-value check failed (expected ${lastY}, got ${values[0]})`,
+          { line: line.lineNumber },
+        );
       }
+      values = values.slice(1);
+      anchorIndex--;
+    }
+
+    if (values.length > 0) {
+      anchors.push({ x: decoded.x * xFactor, index: anchorIndex });
+      for (const v of values) rawY.push(v);
+    }
+
+    lastY = decoded.last;
+    checkPending = decoded.endsInDif;
+  }
+
+  const n = rawY.length;
+  const npoints = parseInt(info["NPOINTS"] ?? "", 10);
+  if (n > 0 && npoints > 0 && n !== npoints) {
+    warn(`Decoded ${n} points but NPOINTS is ${npoints}`, { line: lines[0]?.lineNumber });
+  }
+
+  const y = new Float64Array(n);
+  for (let i = 0; i < n; i++) {
+    y[i] = rawY[i] * yFactor;
+  }
+
+  const x = new Float64Array(n);
+  const firstX = parseFloat(info["FIRSTX"] ?? "");
+  const lastX = parseFloat(info["LASTX"] ?? "");
+
+  if (Number.isFinite(firstX) && Number.isFinite(lastX)) {
+    const step = n > 1 ? (lastX - firstX) / (n - 1) : 0;
+    for (let i = 0; i < n; i++) {
+      x[i] = firstX + i * step;
+    }
+  } else if (anchors.length > 0) {
+    const deltaX = parseFloat(info["DELTAX"] ?? "");
+    const fallbackStep = Number.isFinite(deltaX) ? deltaX : 0;
+    let seg = 0;
+    for (let i = 0; i < n; i++) {
+      while (seg < anchors.length - 1 && anchors[seg + 1].index <= i) seg++;
+      const a = anchors[seg];
+      const b = anchors[seg + 1] ?? anchors[seg - 1];
+      const step =
+        b && b.index !== a.index ? (b.x - a.x) / (b.index - a.index) : fallbackStep;
+      x[i] = a.x + (i - a.index) * step;
     }
   }
 
-  if (xValues.length === 0) {
-    throw new Error(
-      "Failed to parse JCAMP-DX: no data found. Install jcampconverter for full format support.",
-    );
+  return { x, y };
+}
+
+/**
+ * Decode a table of (X, Y, …) groups such as XYPOINTS=(XY..XY) or
+ * PEAK TABLE=(XYW..XYW).
+ *
+ * The group size is taken from the variable list, and any number of
+ * groups may appear on a line. Only the X and Y members are kept.
+ */
+function decodeTuples(
+  lines: DataLine[],
+  variables: string,
+  info: Record<string, string>,
+): { x: Float64Array; y: Float64Array } {
+  const xFactor = parseFactor(info["XFACTOR"]);
+  const yFactor = parseFactor(info["YFACTOR"]);
+  const symbols = variables.match(/\(\s*([A-Za-z]+)/)?.[1] ?? "XY";
+  const groupSize = Math.max(2, symbols.length);
+  const xValues: number[] = [];
+  const yValues: number[] = [];
+
+  for (const line of lines) {
+    const tokens = tokenizeAsdf(line.text);
+    for (let i = 0; i + 1 < tokens.length; i += groupSize) {
+      xValues.push(tokens[i].value * xFactor);
+      yValues.push(tokens[i + 1].value * yFactor);
+    }
   }
 
-  return {
-    id: `jcamp-${++idCounter}`,
-    label: info["TITLE"] ?? "JCAMP Spectrum",
-    x: new Float64Array(xValues),
-    y: new Float64Array(yValues),
-    xUnit: info["XUNITS"] ?? "cm⁻¹",
-    yUnit: info["YUNITS"] ?? "Absorbance",
-    type: inferType(info),
-    meta: info,
-  };
+  return { x: new Float64Array(xValues), y: new Float64Array(yValues) };
 }
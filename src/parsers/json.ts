@@ -2,13 +2,43 @@
  * JSON parser for spectral data.
  *
  * Supports multiple JSON formats commonly used for spectral data exchange.
+ * Input is validated strictly: every problem is reported with the path of
+ * the offending value, e.g. `spectra[3].y[120] is not a number`.
  */
 
 import type { Spectrum, SpectrumType } from "../types";
+import { bytesToNumbers, decodeBase64, TYPE_SIZES } from "../utils/base64";
+import { createWarn, SpectrumParseError } from "./errors";
+import type { ParseOptions, Warn } from "./errors";
 
 /** Auto-incrementing ID counter for unique spectrum IDs. */
 let idCounter = 0;
 
+/**
+ * A base64-encoded array of little-endian binary floats:
+ * ```json
+ * { "encoding": "base64", "dtype": "float32", "data": "AACAPwAAAEA=" }
+ * ```
+ */
+export interface JsonEncodedArray {
+  /** Always "base64"; may be omitted. */
+  encoding?: "base64";
+  /** Binary type of each value. */
+  dtype: "float32" | "float64";
+  /** Base64 text of the packed values. */
+  data: string;
+}
+
+/** An evenly spaced X axis given by its ends and number of points. */
+export interface JsonImplicitAxis {
+  firstX: number;
+  lastX: number;
+  npoints: number;
+}
+
+/** Numeric array as plain JSON numbers or base64-encoded binary. */
+type JsonArray = number[] | JsonEncodedArray;
+
 /**
  * JSON spectrum format: object with x and y arrays.
  *
@@ -23,24 +53,40 @@ let idCounter = 0;
  * }
  * ```
  *
+ * `x` and `y` may also be base64-encoded arrays (`JsonEncodedArray`),
+ * and `x` may be replaced by `firstX`, `lastX` and `npoints`, either on
+ * the spectrum itself or as the value of `x`.
+ *
  * Also accepts arrays of such objects for multi-spectrum data.
  */
 interface JsonSpectrumInput {
   label?: string;
   title?: string;
   name?: string;
-  x: number[];
-  y: number[];
-  wavenumbers?: number[];
-  wavelengths?: number[];
-  intensities?: number[];
-  absorbance?: number[];
+  x?: JsonArray | JsonImplicitAxis;
+  y?: JsonArray;
+  wavenumbers?: JsonArray | JsonImplicitAxis;
+  wavelengths?: JsonArray | JsonImplicitAxis;
+  intensities?: JsonArray;
+  absorbance?: JsonArray;
+  firstX?: number;
+  lastX?: number;
+  npoints?: number;
   xUnit?: string;
   yUnit?: string;
   type?: SpectrumType;
   meta?: Record<string, string | number>;
 }
 
+/** Keys holding the x-axis, in order of preference. */
+const X_KEYS = ["x", "wavenumbers", "wavelengths"] as const;
+
+/** Keys holding the y-axis, in order of preference. */
+const Y_KEYS = ["y", "intensities", "absorbance"] as const;
+
+/** Valid values of the `type` field. */
+const SPECTRUM_TYPES: SpectrumType[] = ["IR", "Raman", "NIR", "UV-Vis", "fluorescence", "other"];
+
 /**
  * Parse a JSON string into one or more Spectrum objects.
  *
@@ -48,71 +94,212 @@ interface JsonSpectrumInput {
  * Supports flexible key names (x/wavenumbers, y/intensities, etc.).
  *
  * @param text - Raw JSON string
+ * @param options - Parse options, e.g. a warning callback
  * @returns Array of parsed Spectrum objects
- * @throws Error if the JSON cannot be parsed or has invalid structure
+ * @throws SpectrumParseError if the JSON cannot be parsed or has invalid structure
  */
-export function parseJson(text: string): Spectrum[] {
+export function parseJson(text: string, options: ParseOptions = {}): Spectrum[] {
+  const warn = createWarn("json", options);
   let data: unknown;
   try {
     data = JSON.parse(text);
   } catch {
-    throw new Error("Invalid JSON: failed to parse input");
+    throw new SpectrumParseError("json", "Invalid JSON: failed to parse input");
   }
 
   if (Array.isArray(data)) {
-    return data.map((item, i) => parseSingleJson(item as JsonSpectrumInput, i));
+    return data.map((item, i) => parseSingleJson(item, `[${i}]`, i, warn));
   }
 
-  if (typeof data === "object" && data !== null) {
+  if (isObject(data)) {
     // Check if it's a wrapper object with a "spectra" array
-    const obj = data as Record<string, unknown>;
-    if (Array.isArray(obj.spectra)) {
-      return (obj.spectra as JsonSpectrumInput[]).map((item, i) =>
-        parseSingleJson(item, i),
-      );
+    if (Array.isArray(data.spectra)) {
+      return data.spectra.map((item, i) => parseSingleJson(item, `spectra[${i}]`, i, warn));
     }
-    return [parseSingleJson(data as JsonSpectrumInput, 0)];
+    return [parseSingleJson(data, "", 0, warn)];
   }
 
-  throw new Error("Invalid JSON structure: expected an object or array");
+  throw new SpectrumParseError("json", "Invalid JSON structure: expected an object or array");
 }
 
 /**
- * Parse a single JSON object into a Spectrum.
+ * Parse and validate a single JSON object into a Spectrum.
+ *
+ * @param path - Path of the object in the document, "" for the root
  */
-function parseSingleJson(input: JsonSpectrumInput, index: number): Spectrum {
-  // Resolve x values from various key names
-  const xRaw = input.x ?? input.wavenumbers ?? input.wavelengths;
-  if (!xRaw || !Array.isArray(xRaw)) {
-    throw new Error(
-      `Spectrum ${index}: missing x-axis data (expected "x", "wavenumbers", or "wavelengths")`,
+function parseSingleJson(item: unknown, path: string, index: number, warn: Warn): Spectrum {
+  if (!isObject(item)) fail(path, "expected a spectrum object");
+  const input = item as JsonSpectrumInput;
+
+  // Resolve x values from various key names or an implicit axis
+  const xKey = X_KEYS.find((key) => input[key] !== undefined);
+  const hasImplicitX =
+    input.firstX !== undefined || input.lastX !== undefined || input.npoints !== undefined;
+  let x: Float64Array;
+  if (xKey) {
+    const value: unknown = input[xKey];
+    x =
+      isObject(value) && "npoints" in value
+        ? readImplicitAxis(value, join(path, xKey))
+        : readArray(value, join(path, xKey));
+    if (hasImplicitX) {
+      warn(`${prefix(path)}firstX/lastX/npoints were ignored because "${xKey}" is present`);
+    }
+  } else if (hasImplicitX) {
+    x = readImplicitAxis(input, path);
+  } else {
+    fail(
+      path,
+      'missing x-axis data (expected "x", "wavenumbers", "wavelengths", or firstX/lastX/npoints)',
     );
   }
 
   // Resolve y values from various key names
-  const yRaw = input.y ?? input.intensities ?? input.absorbance;
-  if (!yRaw || !Array.isArray(yRaw)) {
-    throw new Error(
-      `Spectrum ${index}: missing y-axis data (expected "y", "intensities", or "absorbance")`,
-    );
+  const yKey = Y_KEYS.find((key) => input[key] !== undefined);
+  if (!yKey) {
+    fail(path, 'missing y-axis data (expected "y", "intensities", or "absorbance")');
   }
+  const y = readArray(input[yKey], join(path, yKey));
 
-  if (xRaw.length !== yRaw.length) {
-    throw new Error(
-      `Spectrum ${index}: x and y arrays must have the same length (got ${xRaw.length} and ${yRaw.length})`,
-    );
+  if (x.length !== y.length) {
+    fail(path, `x and y arrays must have the same length (got ${x.length} and ${y.length})`);
   }
 
-  const label = input.label ?? input.title ?? input.name ?? `Spectrum ${index + 1}`;
+  const labelKey = (["label", "title", "name"] as const).find((key) => input[key] !== undefined);
+  const label = labelKey ? readString(input[labelKey], join(path, labelKey)) : undefined;
+  const type = input.type;
+  if (type !== undefined && !SPECTRUM_TYPES.includes(type)) {
+    invalid(join(path, "type"), `must be one of ${SPECTRUM_TYPES.join(", ")}`);
+  }
 
   return {
     id: `json-${++idCounter}`,
-    label,
-    x: new Float64Array(xRaw),
-    y: new Float64Array(yRaw),
-    xUnit: input.xUnit,
-    yUnit: input.yUnit,
-    type: input.type,
-    meta: input.meta,
+    label: label ?? `Spectrum ${index + 1}`,
+    x,
+    y,
+    xUnit: readString(input.xUnit, join(path, "xUnit")),
+    yUnit: readString(input.yUnit, join(path, "yUnit")),
+    type,
+    meta: readMeta(input.meta, join(path, "meta"), warn),
   };
 }
+
+/**
+ * Read a numeric array given as JSON numbers or as a base64-encoded
+ * array of little-endian floats.
+ */
+function readArray(value: unknown, path: string): Float64Array {
+  if (Array.isArray(value)) {
+    const values = new Float64Array(value.length);
+    for (let i = 0; i < value.length; i++) {
+      if (typeof value[i] !== "number") invalid(`${path}[${i}]`, "is not a number");
+      values[i] = value[i];
+    }
+    return values;
+  }
+
+  if (!isObject(value) || !("data" in value)) {
+    invalid(path, "must be an array of numbers or a base64-encoded array");
+  }
+  const { encoding, dtype, data } = value;
+  if (encoding !== undefined && encoding !== "base64") {
+    invalid(join(path, "encoding"), 'must be "base64"');
+  }
+  if (dtype !== "float32" && dtype !== "float64") {
+    invalid(join(path, "dtype"), 'must be "float32" or "float64"');
+  }
+  if (typeof data !== "string") invalid(join(path, "data"), "must be a base64 string");
+
+  let bytes: Uint8Array;
+  try {
+    bytes = decodeBase64(data);
+  } catch {
+    invalid(join(path, "data"), "is not valid base64");
+  }
+  const size = TYPE_SIZES[dtype];
+  if (bytes.length % size !== 0) {
+    invalid(join(path, "data"), `has ${bytes.length} bytes, not a multiple of ${size}`);
+  }
+
+  const values = bytesToNumbers(bytes, dtype);
+  for (let i = 0; i < values.length; i++) {
+    if (!Number.isFinite(values[i])) invalid(`${path}[${i}]`, "is not a finite number");
+  }
+  return values;
+}
+
+/** Expand `{ firstX, lastX, npoints }` into evenly spaced values. */
+function readImplicitAxis(
+  source: Partial<Record<keyof JsonImplicitAxis, unknown>>,
+  path: string,
+): Float64Array {
+  const { firstX, lastX, npoints } = source;
+  if (typeof firstX !== "number") invalid(join(path, "firstX"), "must be a number");
+  if (typeof lastX !== "number") invalid(join(path, "lastX"), "must be a number");
+  if (typeof npoints !== "number" || !Number.isInteger(npoints) || npoints < 1) {
+    invalid(join(path, "npoints"), "must be a positive integer");
+  }
+
+  const step = npoints > 1 ? (lastX - firstX) / (npoints - 1) : 0;
+  const values = new Float64Array(npoints);
+  for (let i = 0; i < npoints; i++) values[i] = firstX + i * step;
+  if (npoints > 1) values[npoints - 1] = lastX;
+  return values;
+}
+
+/** Validate an optional string field. */
+function readString(value: unknown, path: string): string | undefined {
+  if (value !== undefined && typeof value !== "string") invalid(path, "must be a string");
+  return value;
+}
+
+/**
+ * Read an optional metadata object of strings and numbers. Other values
+ * are stored as JSON text and a `meta` that is not an object is dropped,
+ * with a warning, rather than rejecting the file.
+ */
+function readMeta(
+  value: unknown,
+  path: string,
+  warn: Warn,
+): Record<string, string | number> | undefined {
+  if (value === undefined) return undefined;
+  if (!isObject(value)) {
+    warn(`${path} was ignored because it is not an object`);
+    return undefined;
+  }
+  const meta: Record<string, string | number> = {};
+  for (const [key, entry] of Object.entries(value)) {
+    if (typeof entry === "string" || typeof entry === "number") {
+      meta[key] = entry;
+    } else {
+      meta[key] = JSON.stringify(entry);
+      warn(`${join(path, key)} was converted to a string`);
+    }
+  }
+  return meta;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Path of a property, e.g. `spectra[0].y`, or just the key at the root. */
+function join(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+/** Message prefix naming a spectrum, empty for the root object. */
+function prefix(path: string): string {
+  return path ? `${path}: ` : "";
+}
+
+/** Throw an error about the spectrum at `path`, e.g. `spectra[2]: missing …`. */
+function fail(path: string, problem: string): never {
+  throw new SpectrumParseError("json", prefix(path) + problem);
+}
+
+/** Throw an error about the value at `path`, e.g. `spectra[2].y[7] is not a number`. */
+function invalid(path: string, predicate: string): never {
+  throw new SpectrumParseError("json", `${path} ${predicate}`);
+}
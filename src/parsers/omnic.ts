@@ -0,0 +1,226 @@
+/**
+ * Thermo OMNIC file parser for `.spa` (single spectrum) and `.spg`
+ * (spectrum group) files saved by Nicolet instruments.
+ *
+ * Both layouts share a title at offset 30, an acquisition timestamp at
+ * offset 296 and a table of 16-byte keyed sections from offset 304.
+ * Each spectrum has a spectral header section (key 2) and an intensity
+ * section (key 3); groups add a title section (key 108) per spectrum.
+ *
+ * @module omnic
+ */
+
+import type { Spectrum, SpectrumType } from "../types";
+import { createWarn, SpectrumParseError } from "./errors";
+import type { ParseOptions, Warn } from "./errors";
+import { decodeText } from "./binary";
+
+/** Auto-incrementing ID counter. */
+let idCounter = 0;
+
+/** Offsets of the fixed header fields. */
+const TITLE_OFFSET = 30;
+const TITLE_LENGTH = 256;
+const KEY_COUNT_OFFSET = 294;
+const DATE_OFFSET = 296;
+const KEY_TABLE_OFFSET = 304;
+const KEY_ENTRY_SIZE = 16;
+
+/** Section keys. */
+const KEY_END = 0;
+const KEY_END_ALT = 1;
+const KEY_HEADER = 2;
+const KEY_INTENSITIES = 3;
+const KEY_HISTORY = 27;
+const KEY_TITLE = 108;
+
+/** Timestamps count seconds from 1899-12-31 00:00 UTC. */
+const OMNIC_EPOCH = Date.UTC(1899, 11, 31);
+
+/** X unit codes in the spectral header. */
+const X_UNITS: Record<number, string> = {
+  1: "cm⁻¹",
+  2: "Points",
+  3: "nm",
+  4: "µm",
+  32: "Raman shift (cm⁻¹)",
+};
+
+/** Y unit codes in the spectral header. */
+const Y_UNITS: Record<number, string> = {
+  11: "% Reflectance",
+  12: "log(1/R)",
+  16: "% Transmittance",
+  17: "Absorbance",
+  20: "Kubelka-Munk",
+  21: "Reflectance",
+  22: "Volts",
+  26: "Photoacoustic",
+  31: "Raman intensity",
+};
+
+/** A keyed section from the key table. */
+interface OmnicSection {
+  key: number;
+  offset: number;
+  size: number;
+}
+
+/** Fields read from a spectral header section. */
+interface OmnicHeader {
+  npoints: number;
+  xCode: number;
+  yCode: number;
+  firstX: number;
+  lastX: number;
+  scans: number;
+  backgroundScans: number;
+}
+
+/**
+ * Parse a Thermo OMNIC `.spa` or `.spg` file into Spectrum objects.
+ *
+ * A `.spa` file yields one spectrum; a `.spg` group yields one spectrum
+ * per member, labelled with its own title.
+ *
+ * @param buffer - ArrayBuffer containing the OMNIC file data
+ * @param options - Parse options, e.g. a warning callback
+ * @returns Array of parsed Spectrum objects
+ * @throws SpectrumParseError if the file has no spectral data
+ */
+export function parseOmnic(buffer: ArrayBuffer, options: ParseOptions = {}): Spectrum[] {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const warn = createWarn("omnic", options);
+
+  if (buffer.byteLength < KEY_TABLE_OFFSET + KEY_ENTRY_SIZE) {
+    throw new SpectrumParseError("omnic", "Invalid OMNIC file: too small for OMNIC header");
+  }
+
+  const fileTitle = decodeText(bytes.subarray(TITLE_OFFSET, TITLE_OFFSET + TITLE_LENGTH));
+  const timestamp = view.getUint32(DATE_OFFSET, true);
+  const sections = readSections(view, warn);
+
+  const headers = sections.filter((s) => s.key === KEY_HEADER);
+  const data = sections.filter((s) => s.key === KEY_INTENSITIES);
+  const titles = sections.filter((s) => s.key === KEY_TITLE);
+  const history = sections.find((s) => s.key === KEY_HISTORY);
+
+  const fileMeta: Record<string, string | number> = { format: "OMNIC" };
+  if (timestamp !== 0) {
+    fileMeta.date = new Date(OMNIC_EPOCH + timestamp * 1000).toISOString();
+  }
+  if (history) {
+    const text = decodeText(bytes.subarray(history.offset, history.offset + history.size));
+    if (text) fileMeta.history = text;
+  }
+
+  const count = Math.min(headers.length, data.length);
+  const spectra: Spectrum[] = [];
+  if (headers.length !== data.length) {
+    warn(`Found ${headers.length} spectral headers but ${data.length} data sections`);
+  }
+
+  for (let i = 0; i < count; i++) {
+    const header = readHeader(view, headers[i].offset);
+    const section = data[i];
+    const npoints = Math.min(header.npoints, Math.floor(section.size / 4));
+    if (npoints < header.npoints) {
+      warn(`Spectrum ${i + 1} is truncated: read ${npoints} of ${header.npoints} points`, {
+        offset: section.offset,
+      });
+    }
+
+    const x = new Float64Array(npoints);
+    const y = new Float64Array(npoints);
+    const step = npoints > 1 ? (header.lastX - header.firstX) / (npoints - 1) : 0;
+    for (let j = 0; j < npoints; j++) {
+      x[j] = header.firstX + j * step;
+      y[j] = view.getFloat32(section.offset + j * 4, true);
+    }
+
+    const title = titles[i]
+      ? decodeText(bytes.subarray(titles[i].offset, titles[i].offset + titles[i].size))
+      : "";
+    const fallbackLabel =
+      count > 1 ? `${fileTitle || "OMNIC"} ${i + 1}` : fileTitle || "OMNIC Spectrum";
+    const meta: Record<string, string | number> = { ...fileMeta };
+    if (header.scans > 0) meta.scans = header.scans;
+    if (header.backgroundScans > 0) meta.backgroundScans = header.backgroundScans;
+    if (count > 1 && fileTitle) meta.group = fileTitle;
+
+    spectra.push({
+      id: `omnic-${++idCounter}`,
+      label: title || fallbackLabel,
+      x,
+      y,
+      xUnit: X_UNITS[header.xCode] ?? "Arbitrary",
+      yUnit: Y_UNITS[header.yCode] ?? "Arbitrary",
+      type: inferSpectrumType(header, Math.min(header.firstX, header.lastX)),
+      meta,
+    });
+  }
+
+  if (spectra.length === 0) {
+    throw new SpectrumParseError("omnic", "Invalid OMNIC file: no spectral data found");
+  }
+
+  return spectra;
+}
+
+/**
+ * Read the key table.
+ *
+ * Each 16-byte entry holds the key, then the section offset and size as
+ * 32-bit integers at bytes 2 and 6. The table length is stored at offset
+ * 294; single-spectrum files may leave it unset and end with key 0 or 1.
+ */
+function readSections(view: DataView, warn: Warn): OmnicSection[] {
+  const declared = view.getUint16(KEY_COUNT_OFFSET, true);
+  const sections: OmnicSection[] = [];
+
+  for (let i = 0; declared === 0 || i < declared; i++) {
+    const entry = KEY_TABLE_OFFSET + i * KEY_ENTRY_SIZE;
+    if (entry + KEY_ENTRY_SIZE > view.byteLength) break;
+
+    const key = view.getUint8(entry);
+    if (key === KEY_END || key === KEY_END_ALT) break;
+
+    const offset = view.getUint32(entry + 2, true);
+    if (offset >= view.byteLength) {
+      warn(`Skipped section ${key} pointing past the end of the file`, { offset: entry });
+      continue;
+    }
+    const size = Math.min(view.getUint32(entry + 6, true), view.byteLength - offset);
+    sections.push({ key, offset, size });
+  }
+
+  return sections;
+}
+
+/** Read a spectral header section. */
+function readHeader(view: DataView, offset: number): OmnicHeader {
+  if (offset + 96 > view.byteLength) {
+    throw new SpectrumParseError("omnic", "Invalid OMNIC file: spectral header is truncated", {
+      offset,
+    });
+  }
+  return {
+    npoints: view.getUint32(offset + 4, true),
+    xCode: view.getUint8(offset + 8),
+    yCode: view.getUint8(offset + 12),
+    firstX: view.getFloat32(offset + 16, true),
+    lastX: view.getFloat32(offset + 20, true),
+    scans: view.getUint32(offset + 76, true),
+    backgroundScans: view.getUint32(offset + 92, true),
+  };
+}
+
+/** Infer SpectrumType from the header unit codes and lowest X value. */
+function inferSpectrumType(header: OmnicHeader, minX: number): SpectrumType {
+  if (header.xCode === 32 || header.yCode === 31) return "Raman";
+  if (header.xCode === 1) return minX >= 4000 ? "NIR" : "IR";
+  if (header.xCode === 4) return "IR";
+  if (header.xCode === 3) return "UV-Vis";
+  return "other";
+}
@@ -0,0 +1,314 @@
+/**
+ * Bruker OPUS binary file parser.
+ *
+ * OPUS files (`.0`, `.1`, …) start with a directory of typed blocks.
+ * Data blocks hold 32-bit float ordinates; each is paired with a data
+ * parameter block carrying its point count (NPT) and X range (FXV/LXV).
+ * Further parameter blocks describe the instrument, optics, acquisition,
+ * Fourier transform and sample.
+ *
+ * Supports:
+ * - Absorbance (AB) and transmittance (TR) spectra
+ * - Sample (ScSm) and reference (ScRf) single-channel spectra
+ * - Instrument and acquisition parameters as `meta`
+ *
+ * @module opus
+ */
+
+import type { Spectrum, SpectrumType } from "../types";
+import { createWarn, SpectrumParseError } from "./errors";
+import type { ParseOptions } from "./errors";
+import { decodeText } from "./binary";
+
+/** Auto-incrementing ID counter. */
+let idCounter = 0;
+
+/** File signature: bytes 0A 0A FE FE. */
+const OPUS_MAGIC = 0xfefe0a0a;
+
+/** Size of the fixed file header and of each directory entry, in bytes. */
+const HEADER_SIZE = 24;
+const DIRECTORY_ENTRY_SIZE = 12;
+
+/** Directory block types for spectral data. */
+const BLOCK_SAMPLE_DATA = 7;
+const BLOCK_REFERENCE_DATA = 11;
+const BLOCK_RATIO_DATA = 15;
+
+/** A data block's parameter block has the data block type plus this. */
+const DATA_PARAMETER_OFFSET = 16;
+
+/** Channel type of single-channel (as opposed to interferogram) data. */
+const CHANNEL_SINGLE = 4;
+
+/** Names of single-channel data blocks by block type. */
+const SINGLE_CHANNEL_NAMES: Record<number, string> = {
+  [BLOCK_SAMPLE_DATA]: "ScSm",
+  [BLOCK_REFERENCE_DATA]: "ScRf",
+};
+
+/** Names of ratioed data blocks by channel type. */
+const RATIO_NAMES: Record<number, string> = {
+  16: "AB",
+  20: "TR",
+};
+
+/** Y units for each extracted block. */
+const BLOCK_Y_UNITS: Record<string, string> = {
+  AB: "Absorbance",
+  TR: "Transmittance",
+  ScSm: "Single channel",
+  ScRf: "Single channel",
+};
+
+/** OPUS X unit codes (DXU parameter). */
+const X_UNITS: Record<string, string> = {
+  WN: "cm⁻¹",
+  MI: "µm",
+  NM: "nm",
+  LGW: "log(cm⁻¹)",
+  MIN: "min",
+  PNT: "Points",
+};
+
+/** Parameter blocks copied into `meta`: Instrument, Acquisition, FT, Optik, Sample. */
+const META_BLOCK_TYPES = new Set([32, 48, 64, 96, 160]);
+
+/** Readable `meta` keys for common OPUS parameters; others keep their code. */
+const PARAMETER_NAMES: Record<string, string> = {
+  INS: "instrument",
+  LWN: "laserWavenumber",
+  RES: "resolution",
+  NSS: "scans",
+  AQM: "acquisitionMode",
+  HFW: "highFoldingLimit",
+  LFW: "lowFoldingLimit",
+  APF: "apodization",
+  PHZ: "phaseCorrection",
+  ZFF: "zeroFilling",
+  SRC: "source",
+  BMS: "beamsplitter",
+  DTC: "detector",
+  APT: "aperture",
+  SNM: "sample",
+  SFM: "sampleForm",
+  CNM: "operator",
+};
+
+/** A directory entry. */
+interface OpusBlock {
+  type: number;
+  channel: number;
+  /** Offset of the block data, in bytes. */
+  offset: number;
+  /** Length of the block data, in bytes. */
+  length: number;
+}
+
+/**
+ * Parse a Bruker OPUS binary file into Spectrum objects.
+ *
+ * Each AB, TR, ScSm and ScRf data block becomes one spectrum, with X
+ * values reconstructed from the FXV/LXV/NPT data parameters and Y values
+ * multiplied by the CSF scaling factor.
+ *
+ * @param buffer - ArrayBuffer containing the OPUS file data
+ * @param options - Parse options, e.g. a warning callback
+ * @returns Array of parsed Spectrum objects
+ * @throws SpectrumParseError if the file is not a valid OPUS file
+ */
+export function parseOpus(buffer: ArrayBuffer, options: ParseOptions = {}): Spectrum[] {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const warn = createWarn("opus", options);
+
+  if (buffer.byteLength < HEADER_SIZE) {
+    throw new SpectrumParseError("opus", "Invalid OPUS file: too small for OPUS header");
+  }
+  if (view.getUint32(0, true) !== OPUS_MAGIC) {
+    throw new SpectrumParseError("opus", "Invalid OPUS file: missing OPUS signature");
+  }
+
+  const blocks = readDirectory(view);
+  const parameters = new Map<string, Record<string, string | number>>();
+  const fileMeta: Record<string, string | number> = {};
+
+  for (const block of blocks) {
+    if (block.type < DATA_PARAMETER_OFFSET) continue;
+    const params = readParameters(view, bytes, block);
+    parameters.set(blockKey(block.type, block.channel), params);
+    if (META_BLOCK_TYPES.has(block.type)) {
+      for (const [code, value] of Object.entries(params)) {
+        fileMeta[PARAMETER_NAMES[code] ?? code] = value;
+      }
+    }
+  }
+
+  const sampleName = typeof fileMeta.sample === "string" ? fileMeta.sample : "";
+  const spectra: Spectrum[] = [];
+
+  for (const block of blocks) {
+    const name = blockName(block);
+    if (!name) continue;
+
+    const params = parameters.get(blockKey(block.type + DATA_PARAMETER_OFFSET, block.channel));
+    if (!params) {
+      warn(`Skipped ${name} block without a data parameter block`, { offset: block.offset });
+      continue;
+    }
+
+    const npoints = Number(params.NPT);
+    const firstX = Number(params.FXV);
+    const lastX = Number(params.LXV);
+    if (!(npoints > 0) || !Number.isFinite(firstX) || !Number.isFinite(lastX)) {
+      throw new SpectrumParseError(
+        "opus",
+        `Invalid OPUS file: ${name} block is missing NPT, FXV or LXV`,
+        { offset: block.offset },
+      );
+    }
+    const scale = typeof params.CSF === "number" && params.CSF !== 0 ? params.CSF : 1;
+
+    const count = Math.min(npoints, Math.floor(block.length / 4));
+    if (count < npoints) {
+      warn(`${name} block is truncated: read ${count} of ${npoints} points`, {
+        offset: block.offset,
+      });
+    }
+    const x = new Float64Array(count);
+    const y = new Float64Array(count);
+    const step = npoints > 1 ? (lastX - firstX) / (npoints - 1) : 0;
+    for (let i = 0; i < count; i++) {
+      x[i] = firstX + i * step;
+      y[i] = view.getFloat32(block.offset + i * 4, true) * scale;
+    }
+
+    const xCode = typeof params.DXU === "string" ? params.DXU : "WN";
+    const meta: Record<string, string | number> = {
+      ...fileMeta,
+      format: "OPUS",
+      block: name,
+    };
+    if (typeof params.DAT === "string") {
+      meta.date = typeof params.TIM === "string" ? `${params.DAT} ${params.TIM}` : params.DAT;
+    }
+
+    spectra.push({
+      id: `opus-${++idCounter}`,
+      label: sampleName ? `${sampleName} (${name})` : `OPUS ${name}`,
+      x,
+      y,
+      xUnit: X_UNITS[xCode] ?? xCode,
+      yUnit: BLOCK_Y_UNITS[name],
+      type: inferSpectrumType(xCode, Math.min(firstX, lastX)),
+      meta,
+    });
+  }
+
+  if (spectra.length === 0) {
+    throw new SpectrumParseError(
+      "opus",
+      "Invalid OPUS file: no AB, TR, ScSm or ScRf data blocks found",
+    );
+  }
+
+  return spectra;
+}
+
+/**
+ * Read the block directory.
+ *
+ * The header stores the directory offset at byte 12 and the number of
+ * entries at byte 20. Each 12-byte entry holds the block type, channel
+ * type, text type, the block length in 32-bit words and its offset.
+ */
+function readDirectory(view: DataView): OpusBlock[] {
+  const directoryOffset = view.getInt32(12, true);
+  const numBlocks = view.getInt32(20, true);
+  const blocks: OpusBlock[] = [];
+
+  for (let i = 0; i < numBlocks; i++) {
+    const entry = directoryOffset + i * DIRECTORY_ENTRY_SIZE;
+    if (entry + DIRECTORY_ENTRY_SIZE > view.byteLength) break;
+
+    const offset = view.getInt32(entry + 8, true);
+    if (offset <= 0) continue;
+    const length = Math.min(view.getInt32(entry + 4, true) * 4, view.byteLength - offset);
+    if (length <= 0) continue;
+
+    blocks.push({
+      type: view.getUint8(entry),
+      channel: view.getUint8(entry + 1),
+      offset,
+      length,
+    });
+  }
+
+  return blocks;
+}
+
+/**
+ * Read a parameter block.
+ *
+ * Each parameter is a 3-character NUL-terminated name, a 16-bit type
+ * (0 = int32, 1 = float64, 2-4 = text), a 16-bit size in 16-bit words
+ * and the value. The list ends with an "END" parameter.
+ */
+function readParameters(
+  view: DataView,
+  bytes: Uint8Array,
+  block: OpusBlock,
+): Record<string, string | number> {
+  const params: Record<string, string | number> = {};
+  const end = block.offset + block.length;
+  let offset = block.offset;
+
+  while (offset + 8 <= end) {
+    const name = decodeText(bytes.subarray(offset, offset + 4));
+    if (name === "END" || name === "") break;
+
+    const type = view.getUint16(offset + 4, true);
+    const size = view.getUint16(offset + 6, true) * 2;
+    const valueOffset = offset + 8;
+    if (valueOffset + size > end) break;
+
+    if (type === 0 && size >= 4) {
+      params[name] = view.getInt32(valueOffset, true);
+    } else if (type === 1 && size >= 8) {
+      params[name] = view.getFloat64(valueOffset, true);
+    } else if (type >= 2 && type <= 4) {
+      params[name] = decodeText(bytes.subarray(valueOffset, valueOffset + size));
+    }
+
+    offset = valueOffset + size;
+  }
+
+  return params;
+}
+
+/** Name of an extracted data block, or null for blocks that are skipped. */
+function blockName(block: OpusBlock): string | null {
+  switch (block.type) {
+    case BLOCK_SAMPLE_DATA:
+    case BLOCK_REFERENCE_DATA:
+      // Sample and reference share a channel type; the block type tells them apart
+      if (block.channel !== CHANNEL_SINGLE) return null;
+      return SINGLE_CHANNEL_NAMES[block.type] ?? null;
+    case BLOCK_RATIO_DATA:
+      return RATIO_NAMES[block.channel] ?? null;
+    default:
+      return null;
+  }
+}
+
+/** Key identifying a block by type and channel. */
+function blockKey(type: number, channel: number): string {
+  return `${type}:${channel}`;
+}
+
+/** Infer SpectrumType from the X unit code and lowest X value. */
+function inferSpectrumType(xCode: string, minX: number): SpectrumType {
+  if (xCode === "WN") return minX >= 4000 ? "NIR" : "IR";
+  if (xCode === "MI") return "IR";
+  return "other";
+}
@@ -6,9 +6,11 @@
  *
  * Supports:
  * - Single and multi-spectrum files
- * - Even and uneven X spacing
- * - 32-bit float and 16-bit integer Y data
- * - File header metadata (resolution, instrument, etc.)
+ * - Even and uneven X spacing, including per-subfile X (XYXY) files
+ * - 32-bit float and exponent-scaled 16/32-bit integer Y data
+ * - Old-format (0x4D) files
+ * - Header, subfile Z value and log block metadata
+ * - Writing new-format (0x4B) files with `writeSpc`
  *
  * Reference: "The New Galactic SPC File Format" specification
  *
@@ -16,6 +18,9 @@
  */
 
 import type { Spectrum, SpectrumType } from "../types";
+import { createProgress, createWarn, SpectrumParseError } from "./errors";
+import type { ParseOptions } from "./errors";
+import { decodeText } from "./binary";
 
 /** Auto-incrementing ID counter. */
 let idCounter = 0;
@@ -23,8 +28,37 @@ let idCounter = 0;
 /** SPC file type flags. */
 const TSPREC = 0x01; // Y data is 16-bit integer
 const TMULTI = 0x04; // Multi-file (multiple spectra)
+const TALABS = 0x20; // Axis label text stored in fcatxt
+const TXYXYS = 0x40; // Each subfile has its own X array
 const TXVALS = 0x80; // Non-evenly spaced X data present
 
+/** Size of the main file header and of each subfile header, in bytes. */
+const HEADER_SIZE = 512;
+const OLD_HEADER_SIZE = 224;
+const SUBHEADER_SIZE = 32;
+const LOG_HEADER_SIZE = 64;
+
+/**
+ * Log block key holding a multi-file subfile's label, followed by its
+ * 1-based index. This is a spectraview extension, not part of the SPC
+ * format: other software shows these entries as plain log text.
+ */
+const SUBFILE_LABEL_KEY = "SubfileLabel";
+
+/** Exponent byte marking IEEE 32-bit float Y data (-128 as a signed value). */
+const FLOAT_EXPONENT = 0x80;
+const FLOAT_EXPONENT_VALUE = -128;
+
+/** SPC experiment type codes (fexper) per spectrum type. */
+const EXPERIMENT_CODES: Record<SpectrumType, number> = {
+  other: 0,
+  IR: 4,
+  NIR: 5,
+  "UV-Vis": 7,
+  Raman: 11,
+  fluorescence: 12,
+};
+
 /** SPC X-axis type codes to units. */
 const X_TYPE_LABELS: Record<number, string> = {
   0: "Arbitrary",
@@ -79,8 +113,11 @@ const Y_TYPE_LABELS: Record<number, string> = {
   131: "Emission",
 };
 
-/** Infer SpectrumType from SPC X-type code. */
-function inferSpectrumType(xType: number, yType: number): SpectrumType {
+/** Infer SpectrumType from the SPC experiment, X-type and Y-type codes. */
+function inferSpectrumType(experiment: number, xType: number, yType: number): SpectrumType {
+  for (const [type, code] of Object.entries(EXPERIMENT_CODES)) {
+    if (code !== 0 && code === experiment) return type as SpectrumType;
+  }
   if (xType === 1) return "IR"; // cm⁻¹
   if (xType === 14) return "Raman";
   if (xType === 3 && (yType === 2 || yType === 128)) return "UV-Vis";
@@ -89,56 +126,198 @@ function inferSpectrumType(xType: number, yType: number): SpectrumType {
   return "other";
 }
 
+/**
+ * Main header fields shared by the new (0x4B) and old (0x4D) layouts.
+ */
+interface SpcHeader {
+  flags: number;
+  isOldFormat: boolean;
+  experiment: number;
+  /** File-level Y exponent (-128 marks float data in the new format). */
+  exponent: number;
+  npoints: number;
+  firstX: number;
+  lastX: number;
+  /** Number of subfiles, or null when the header does not record it. */
+  numSpectra: number | null;
+  xType: number;
+  yType: number;
+  zType: number;
+  memo: string;
+  axisLabels: string[];
+  /** Offset of the first subfile (or of the shared X array). */
+  dataOffset: number;
+  /** Offset of the log block, or 0 if there is none. */
+  logOffset: number;
+  /** Number of W planes (4D data), or 0. */
+  wPlanes: number;
+  /** Header text and date fields for `meta`. */
+  fields: Record<string, string | number>;
+}
+
+/**
+ * Read the 512-byte new-format header.
+ */
+function readNewHeader(view: DataView, bytes: Uint8Array): SpcHeader {
+  const flags = view.getUint8(0);
+  const fields: Record<string, string | number> = {};
+  addText(fields, "resolution", decodeText(bytes.subarray(36, 45)));
+  addText(fields, "source", decodeText(bytes.subarray(45, 54)));
+  addText(fields, "method", decodeText(bytes.subarray(264, 312)));
+
+  // fdate packs minute(6) | hour(5) | day(5) | month(4) | year(12) bits
+  const date = view.getUint32(32, true);
+  if (date !== 0) {
+    fields.date = formatDate(
+      date >>> 20,
+      (date >>> 16) & 0x0f,
+      (date >>> 11) & 0x1f,
+      (date >>> 6) & 0x1f,
+      date & 0x3f,
+    );
+  }
+
+  return {
+    flags,
+    isOldFormat: false,
+    experiment: view.getUint8(2),
+    exponent: view.getInt8(3),
+    npoints: view.getUint32(4, true),
+    firstX: view.getFloat64(8, true),
+    lastX: view.getFloat64(16, true),
+    numSpectra: view.getUint32(24, true),
+    xType: view.getUint8(28),
+    yType: view.getUint8(29),
+    zType: view.getUint8(30),
+    memo: decodeText(bytes.subarray(88, 218)),
+    axisLabels: (flags & TALABS) !== 0 ? decodeLabels(bytes.subarray(218, 248)) : [],
+    dataOffset: HEADER_SIZE,
+    logOffset: view.getUint32(248, true),
+    wPlanes: view.getUint32(316, true),
+    fields,
+  };
+}
+
+/**
+ * Read the old-format (0x4D) header.
+ *
+ * The old layout stores the point count and X range as 32-bit floats,
+ * has no subfile count, and embeds the first subfile header at offset
+ * 224 so that Y data starts at 256.
+ */
+function readOldHeader(view: DataView, bytes: Uint8Array): SpcHeader {
+  const flags = view.getUint8(0);
+  const fields: Record<string, string | number> = {};
+  addText(fields, "resolution", decodeText(bytes.subarray(24, 32)));
+
+  const year = view.getUint16(18, true);
+  if (year !== 0) {
+    fields.date = formatDate(
+      year,
+      view.getUint8(20),
+      view.getUint8(21),
+      view.getUint8(22),
+      view.getUint8(23),
+    );
+  }
+  const scans = view.getUint16(34, true);
+  if (scans !== 0) fields.scans = scans;
+
+  return {
+    flags,
+    isOldFormat: true,
+    experiment: 0,
+    exponent: view.getInt16(2, true),
+    npoints: Math.round(view.getFloat32(4, true)),
+    firstX: view.getFloat32(8, true),
+    lastX: view.getFloat32(12, true),
+    numSpectra: null,
+    xType: view.getUint8(16),
+    yType: view.getUint8(17),
+    zType: 0,
+    memo: decodeText(bytes.subarray(64, 194)),
+    axisLabels: (flags & TALABS) !== 0 ? decodeLabels(bytes.subarray(194, 224)) : [],
+    dataOffset: OLD_HEADER_SIZE,
+    logOffset: 0,
+    wPlanes: 0,
+    fields,
+  };
+}
+
 /**
  * Parse an SPC binary file into Spectrum objects.
  *
+ * Integer Y data is scaled by its exponent (2^(exp-32) for 32-bit and
+ * 2^(exp-16) for 16-bit values). Each spectrum's `meta` carries its
+ * subfile Z value (`z`, `zNext`, `zUnit`), header text (resolution,
+ * source instrument, method, date) and the key=value lines of the log
+ * block. Multi-file spectra are labelled from the per-subfile labels
+ * `writeSpc` stores in the log block, falling back to the file memo.
+ *
+ * Subfiles cut short by the end of the file are kept as far as they go
+ * and reported through `options.onWarning`.
+ *
  * @param buffer - ArrayBuffer containing the SPC file data
+ * @param options - Parse options, e.g. a warning callback
  * @returns Array of parsed Spectrum objects
- * @throws Error if the file is not a valid SPC file
+ * @throws SpectrumParseError if the file is not a valid SPC file
  */
-export function parseSpc(buffer: ArrayBuffer): Spectrum[] {
+export function parseSpc(buffer: ArrayBuffer, options: ParseOptions = {}): Spectrum[] {
   const view = new DataView(buffer);
-  const minSize = 512; // SPC header is 512 bytes
+  const bytes = new Uint8Array(buffer);
+  const warn = createWarn("spc", options);
+  const progress = createProgress(options, buffer.byteLength, "bytes");
 
-  if (buffer.byteLength < minSize) {
-    throw new Error("Invalid SPC file: too small for SPC header");
+  if (buffer.byteLength < OLD_HEADER_SIZE + SUBHEADER_SIZE) {
+    throw new SpectrumParseError("spc", "Invalid SPC file: too small for SPC header");
   }
 
-  // Read main file header (512 bytes)
-  const flags = view.getUint8(0);
-  const fileVersion = view.getUint8(1);
-
   // Validate version (0x4B = new format, 0x4D = old format)
+  const fileVersion = view.getUint8(1);
   if (fileVersion !== 0x4b && fileVersion !== 0x4d) {
-    throw new Error(
+    throw new SpectrumParseError(
+      "spc",
       `Unsupported SPC version: 0x${fileVersion.toString(16)}. Expected 0x4B or 0x4D.`,
+      { offset: 1 },
     );
   }
+  if (fileVersion === 0x4b && buffer.byteLength < HEADER_SIZE) {
+    throw new SpectrumParseError("spc", "Invalid SPC file: too small for SPC header");
+  }
 
-  const xType = view.getUint8(2);
-  const yType = view.getUint8(3);
-  const npoints = view.getUint32(4, true); // little-endian
-  const firstX = view.getFloat64(8, true);
-  const lastX = view.getFloat64(16, true);
-  const numSpectra = view.getUint32(24, true);
-
-  // Experiment type at offset 28
-  const xUnit = X_TYPE_LABELS[xType] ?? "Arbitrary";
-  const yUnit = Y_TYPE_LABELS[yType] ?? "Arbitrary";
+  const header =
+    fileVersion === 0x4b ? readNewHeader(view, bytes) : readOldHeader(view, bytes);
+  const { flags, npoints, firstX, lastX, xType, yType, zType } = header;
 
-  // Read memo string (offset 30, 130 bytes max)
-  const memoBytes = new Uint8Array(buffer, 30, 130);
-  const memo = decodeText(memoBytes);
+  const xUnit = header.axisLabels[0] || (X_TYPE_LABELS[xType] ?? "Arbitrary");
+  const yUnit = header.axisLabels[1] || (Y_TYPE_LABELS[yType] ?? "Arbitrary");
+  const zUnit = header.axisLabels[2] || (X_TYPE_LABELS[zType] ?? "Arbitrary");
 
   const isMulti = (flags & TMULTI) !== 0;
-  const hasXValues = (flags & TXVALS) !== 0;
+  const hasXValues = (flags & TXVALS) !== 0 && !header.isOldFormat;
+  const isXYXY = (flags & TXYXYS) !== 0 && !header.isOldFormat;
   const is16Bit = (flags & TSPREC) !== 0;
-  const specType = inferSpectrumType(xType, yType);
+  const specType = inferSpectrumType(header.experiment, xType, yType);
+  const logFields = readLog(view, bytes, header.logOffset);
+  // Subfile labels name the spectra rather than describe the file
+  const subfileLabels: Record<string, string> = {};
+  for (const key of Object.keys(logFields)) {
+    if (!key.startsWith(SUBFILE_LABEL_KEY)) continue;
+    subfileLabels[key] = logFields[key] as string;
+    delete logFields[key];
+  }
 
-  // Generate evenly-spaced X values if not provided
-  let sharedX: Float64Array | null = null;
+  let offset = header.dataOffset;
 
-  if (!hasXValues && npoints > 0) {
+  // Shared X values: an explicit array after the header, or evenly spaced
+  let sharedX: Float64Array | null = null;
+  if (hasXValues && !isXYXY) {
+    sharedX = new Float64Array(npoints);
+    for (let i = 0; i < npoints && offset + 4 <= buffer.byteLength; i++) {
+      sharedX[i] = view.getFloat32(offset, true);
+      offset += 4;
+    }
+  } else if (!hasXValues && npoints > 0) {
     sharedX = new Float64Array(npoints);
     const step = npoints > 1 ? (lastX - firstX) / (npoints - 1) : 0;
     for (let i = 0; i < npoints; i++) {
@@ -147,100 +326,345 @@ export function parseSpc(buffer: ArrayBuffer): Spectrum[] {
   }
 
   const spectra: Spectrum[] = [];
-  let offset = 512; // Start after main header
+  // Old-format multi-files do not record a count: read until the data ends
+  const count = !isMulti ? 1 : (header.numSpectra ?? Number.MAX_SAFE_INTEGER);
+  const end = header.logOffset > offset ? header.logOffset : buffer.byteLength;
 
-  // Read X values if present (only for non-multi or old format)
-  let fileXValues: Float64Array | null = null;
-  if (hasXValues && !isMulti) {
-    fileXValues = new Float64Array(npoints);
-    for (let i = 0; i < npoints; i++) {
-      fileXValues[i] = view.getFloat32(offset, true);
-      offset += 4;
+  for (let s = 0; s < count; s++) {
+    // Sub-file header (32 bytes): flags(1), exp(1), index(2), time(4),
+    // next(4), noise(4), npoints(4), scans(4), wlevel(4), reserved(4)
+    if (offset + SUBHEADER_SIZE > end) {
+      if (header.numSpectra !== null) {
+        warn(`File ends after ${s} of ${count} subfiles`, { offset });
+      }
+      break;
     }
-  }
+    const subExponent = view.getInt8(offset + 1);
+    const subTime = view.getFloat32(offset + 4, true);
+    const subNext = view.getFloat32(offset + 8, true);
+    const subScans = view.getUint32(offset + 20, true);
+    const subWLevel = view.getFloat32(offset + 24, true);
+    const subNpoints = isXYXY ? view.getUint32(offset + 16, true) : npoints;
+    offset += SUBHEADER_SIZE;
 
-  const count = isMulti ? numSpectra : 1;
-
-  for (let s = 0; s < count; s++) {
     let xVals: Float64Array;
-    let subNpoints = npoints;
-
-    if (isMulti) {
-      // Read sub-file header (32 bytes)
-      if (offset + 32 > buffer.byteLength) break;
-
-      // Sub-header fields: flags(1), exp(1), index(2), startX(4), endX(4), npoints(4), ...
-      const subStartX = view.getFloat32(offset + 4, true);
-      const subEndX = view.getFloat32(offset + 8, true);
-      subNpoints = view.getUint32(offset + 12, true) || npoints;
-      offset += 32;
-
-      // Sub-file X values
-      if (hasXValues) {
-        xVals = new Float64Array(subNpoints);
-        for (let i = 0; i < subNpoints; i++) {
-          if (offset + 4 > buffer.byteLength) break;
-          xVals[i] = view.getFloat32(offset, true);
-          offset += 4;
-        }
-      } else if (sharedX) {
-        xVals = sharedX;
-      } else {
-        // Generate from sub-header
-        xVals = new Float64Array(subNpoints);
-        const step = subNpoints > 1 ? (subEndX - subStartX) / (subNpoints - 1) : 0;
-        for (let i = 0; i < subNpoints; i++) {
-          xVals[i] = subStartX + i * step;
-        }
+    if (isXYXY) {
+      xVals = new Float64Array(subNpoints);
+      for (let i = 0; i < subNpoints && offset + 4 <= end; i++) {
+        xVals[i] = view.getFloat32(offset, true);
+        offset += 4;
       }
     } else {
-      xVals = fileXValues ?? sharedX ?? new Float64Array(0);
+      xVals = sharedX ?? new Float64Array(0);
     }
 
-    // Read Y values
-    const yVals = new Float64Array(subNpoints);
+    // Float data is flagged file-wide; integer multi-files scale per subfile
+    const exponent =
+      header.exponent === FLOAT_EXPONENT_VALUE || !isMulti ? header.exponent : subExponent;
+    const pointSize = is16Bit ? 2 : 4;
+    if (header.numSpectra === null && isMulti && offset + subNpoints * pointSize > end) break;
 
-    if (is16Bit) {
-      for (let i = 0; i < subNpoints; i++) {
-        if (offset + 2 > buffer.byteLength) break;
-        yVals[i] = view.getInt16(offset, true);
-        offset += 2;
-      }
-    } else {
-      for (let i = 0; i < subNpoints; i++) {
-        if (offset + 4 > buffer.byteLength) break;
-        yVals[i] = view.getFloat32(offset, true);
-        offset += 4;
+    const yVals = new Float64Array(subNpoints);
+    for (let i = 0; i < subNpoints; i++) {
+      if (offset + pointSize > end) {
+        warn(`Subfile ${s + 1} is truncated: read ${i} of ${subNpoints} points`, { offset });
+        break;
       }
+      yVals[i] = readY(view, offset, is16Bit, exponent, header.isOldFormat);
+      offset += pointSize;
     }
+    progress(offset);
+
+    const meta: Record<string, string | number> = {
+      ...logFields,
+      ...header.fields,
+      format: "SPC",
+      version: header.isOldFormat ? "old" : "new",
+      xType: xType.toString(),
+      yType: yType.toString(),
+      z: subTime,
+      zNext: subNext,
+      zUnit,
+    };
+    if (subScans !== 0) meta.scans = subScans;
+    if (header.wPlanes > 0) meta.w = subWLevel;
 
     spectra.push({
       id: `spc-${++idCounter}`,
-      label: memo || `SPC Spectrum ${s + 1}`,
+      label:
+        subfileLabels[`${SUBFILE_LABEL_KEY}${s + 1}`] || header.memo || `SPC Spectrum ${s + 1}`,
       x: xVals,
       y: yVals,
       xUnit,
       yUnit,
       type: specType,
-      meta: {
-        format: "SPC",
-        version: fileVersion === 0x4b ? "new" : "old",
-        xType: xType.toString(),
-        yType: yType.toString(),
-      },
+      meta,
     });
   }
 
+  progress(buffer.byteLength);
+
   if (spectra.length === 0) {
-    throw new Error("Invalid SPC file: no spectra found");
+    throw new SpectrumParseError("spc", "Invalid SPC file: no spectra found");
   }
 
   return spectra;
 }
 
-/** Decode a null-terminated byte array to string. */
-function decodeText(bytes: Uint8Array): string {
-  const nullIdx = bytes.indexOf(0);
-  const slice = nullIdx >= 0 ? bytes.slice(0, nullIdx) : bytes;
-  return new TextDecoder("ascii").decode(slice).trim();
+/**
+ * Read one Y value.
+ *
+ * New-format integers are little-endian; old-format 32-bit integers store
+ * the high 16-bit word first.
+ */
+function readY(
+  view: DataView,
+  offset: number,
+  is16Bit: boolean,
+  exponent: number,
+  isOldFormat: boolean,
+): number {
+  if (is16Bit) {
+    return view.getInt16(offset, true) * Math.pow(2, exponent - 16);
+  }
+  if (exponent === FLOAT_EXPONENT_VALUE && !isOldFormat) {
+    return view.getFloat32(offset, true);
+  }
+  const raw = isOldFormat
+    ? view.getInt16(offset, true) * 0x10000 + view.getUint16(offset + 2, true)
+    : view.getInt32(offset, true);
+  return raw * Math.pow(2, exponent - 32);
+}
+
+/**
+ * Read the key=value lines of the log block's text section.
+ *
+ * The log block starts with a 64-byte header whose third field is the
+ * offset of the text relative to the block start.
+ */
+function readLog(
+  view: DataView,
+  bytes: Uint8Array,
+  logOffset: number,
+): Record<string, string> {
+  const fields: Record<string, string> = {};
+  if (logOffset === 0 || logOffset + LOG_HEADER_SIZE > bytes.length) return fields;
+
+  const textStart = logOffset + view.getUint32(logOffset + 8, true);
+  if (textStart >= bytes.length) return fields;
+
+  const text = decodeText(bytes.subarray(textStart));
+  for (const line of text.split(/\r?\n/)) {
+    const eq = line.indexOf("=");
+    if (eq <= 0) continue;
+    fields[line.slice(0, eq).trim()] = line.slice(eq + 1).trim();
+  }
+  return fields;
+}
+
+/** Add a non-empty text field to a metadata record. */
+function addText(fields: Record<string, string | number>, key: string, value: string): void {
+  if (value !== "") fields[key] = value;
+}
+
+/** Format header date parts as an ISO-like `YYYY-MM-DD HH:MM` string. */
+function formatDate(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+): string {
+  const pad = (v: number) => v.toString().padStart(2, "0");
+  return `${year}-${pad(month)}-${pad(day)} ${pad(hour)}:${pad(minute)}`;
+}
+
+export interface SpcWriteOptions {
+  /** File memo (fcmnt, up to 130 bytes). Defaults to the first spectrum's label. */
+  memo?: string;
+}
+
+/**
+ * Write spectra to a new-format (0x4B) SPC file.
+ *
+ * One spectrum produces a single-file SPC; several produce a TMULTI file.
+ * Spectra sharing the same X values are stored against one X axis
+ * (evenly spaced via first/last X, otherwise a TXVALS array); spectra
+ * with differing X axes are stored as XYXY subfiles. Units are mapped
+ * back to SPC axis type codes, falling back to axis label text for units
+ * without a code. Y values are stored as 32-bit floats, so
+ * `parseSpc(writeSpc(spectra))` reproduces any float32-representable data.
+ * Numeric `meta.z` / `meta.zNext` values are stored in each subfile header.
+ * The memo holds a single label, so multi-files also store each
+ * spectrum's label in the log block as `SubfileLabel1=...`,
+ * `SubfileLabel2=...`. These keys are a spectraview extension: `parseSpc`
+ * reads them back as labels, while GRAMS and other readers show them as
+ * ordinary log text.
+ *
+ * @param spectra - Spectra to write
+ * @param options - Writer options
+ * @returns ArrayBuffer containing the SPC file
+ * @throws Error if no spectra are given or x and y lengths differ
+ */
+export function writeSpc(spectra: Spectrum[], options: SpcWriteOptions = {}): ArrayBuffer {
+  if (spectra.length === 0) {
+    throw new Error("Cannot write SPC file: no spectra given");
+  }
+  for (const s of spectra) {
+    if (s.x.length !== s.y.length) {
+      throw new Error(
+        `Cannot write SPC file: "${s.label}" has ${s.x.length} x values and ${s.y.length} y values`,
+      );
+    }
+  }
+
+  const ref = spectra[0];
+  const isMulti = spectra.length > 1;
+  const sharedAxis = spectra.every((s) => sameValues(s.x, ref.x));
+  const isXYXY = isMulti && !sharedAxis;
+  const evenlySpaced = !isXYXY && isEvenlySpaced(ref.x);
+  const hasXValues = !evenlySpaced;
+
+  const xType = unitCode(X_TYPE_LABELS, ref.xUnit);
+  const yType = unitCode(Y_TYPE_LABELS, ref.yUnit);
+  const useLabels = xType === null || yType === null;
+
+  let flags = 0;
+  if (isMulti) flags |= TMULTI;
+  if (useLabels) flags |= TALABS;
+  if (isXYXY) flags |= TXYXYS;
+  if (hasXValues) flags |= TXVALS;
+
+  // Layout: header, optional shared X, then subheader + [X] + Y per subfile
+  let size = HEADER_SIZE;
+  if (hasXValues && !isXYXY) size += ref.x.length * 4;
+  for (const s of spectra) {
+    size += SUBHEADER_SIZE + s.y.length * 4 + (isXYXY ? s.x.length * 4 : 0);
+  }
+  // Log text: one label line per subfile, null-terminated
+  const logText = isMulti
+    ? spectra
+        .map((s, i) => `${SUBFILE_LABEL_KEY}${i + 1}=${s.label.replace(/[\r\n]+/g, " ")}`)
+        .join("\r\n")
+    : "";
+  const logOffset = size;
+  if (isMulti) size += LOG_HEADER_SIZE + logText.length + 1;
+
+  const buffer = new ArrayBuffer(size);
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const n = ref.x.length;
+
+  view.setUint8(0, flags);
+  view.setUint8(1, 0x4b);
+  view.setUint8(2, EXPERIMENT_CODES[ref.type ?? "other"]);
+  view.setUint8(3, FLOAT_EXPONENT);
+  view.setUint32(4, isXYXY ? 0 : n, true);
+  view.setFloat64(8, n > 0 && !isXYXY ? (ref.x[0] as number) : 0, true);
+  view.setFloat64(16, n > 0 && !isXYXY ? (ref.x[n - 1] as number) : 0, true);
+  view.setUint32(24, spectra.length, true);
+  view.setUint8(28, xType ?? 0);
+  view.setUint8(29, yType ?? 0);
+  encodeText(bytes, 88, 130, options.memo ?? ref.label);
+  if (isMulti) view.setUint32(248, logOffset, true);
+  if (useLabels) {
+    encodeText(bytes, 218, 30, [ref.xUnit ?? "", ref.yUnit ?? "", ""].join("\0"));
+  }
+
+  let offset = HEADER_SIZE;
+  if (hasXValues && !isXYXY) {
+    for (let i = 0; i < n; i++) {
+      view.setFloat32(offset, ref.x[i] as number, true);
+      offset += 4;
+    }
+  }
+
+  spectra.forEach((s, index) => {
+    view.setUint8(offset + 1, FLOAT_EXPONENT);
+    view.setUint16(offset + 2, index, true);
+    if (typeof s.meta?.z === "number") view.setFloat32(offset + 4, s.meta.z, true);
+    if (typeof s.meta?.zNext === "number") view.setFloat32(offset + 8, s.meta.zNext, true);
+    view.setUint32(offset + 16, isXYXY ? s.x.length : 0, true);
+    offset += SUBHEADER_SIZE;
+
+    if (isXYXY) {
+      for (let i = 0; i < s.x.length; i++) {
+        view.setFloat32(offset, s.x[i] as number, true);
+        offset += 4;
+      }
+    }
+    for (let i = 0; i < s.y.length; i++) {
+      view.setFloat32(offset, s.y[i] as number, true);
+      offset += 4;
+    }
+  });
+
+  if (isMulti) {
+    const logSize = LOG_HEADER_SIZE + logText.length + 1;
+    view.setUint32(logOffset, logSize, true); // logsizd
+    view.setUint32(logOffset + 4, logSize, true); // logsizm
+    view.setUint32(logOffset + 8, LOG_HEADER_SIZE, true); // logtxto
+    encodeText(bytes, logOffset + LOG_HEADER_SIZE, logText.length + 1, logText);
+  }
+
+  return buffer;
+}
+
+/**
+ * Reverse-map a unit string to its SPC axis type code.
+ *
+ * @returns The code, or null if the unit has none (and must be written
+ *   as axis label text)
+ */
+function unitCode(labels: Record<number, string>, unit: string | undefined): number | null {
+  if (unit === undefined) return 0;
+  for (const [code, label] of Object.entries(labels)) {
+    if (label === unit) return Number(code);
+  }
+  return null;
+}
+
+/** Whether two X arrays hold the same values. */
+function sameValues(a: Float64Array | number[], b: Float64Array | number[]): boolean {
+  if (a === b) return true;
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return false;
+  }
+  return true;
+}
+
+/** Whether X values can be regenerated from their first and last value. */
+function isEvenlySpaced(x: Float64Array | number[]): boolean {
+  const n = x.length;
+  if (n < 3) return true;
+  const first = x[0] as number;
+  const step = ((x[n - 1] as number) - first) / (n - 1);
+  const tolerance = Math.abs(step) * 1e-9;
+  for (let i = 1; i < n - 1; i++) {
+    if (Math.abs((x[i] as number) - (first + i * step)) > tolerance) return false;
+  }
+  return step !== 0;
+}
+
+/** Decode the null-separated axis labels of fcatxt (X, Y, Z). */
+function decodeLabels(bytes: Uint8Array): string[] {
+  return new TextDecoder("ascii")
+    .decode(bytes)
+    .split("\0")
+    .map((label) => label.trim());
+}
+
+/**
+ * Write text into a fixed-size, null-padded byte field.
+ *
+ * Characters outside Latin-1 are replaced with "?", and the last byte of
+ * the field is kept as a terminator.
+ */
+function encodeText(bytes: Uint8Array, offset: number, length: number, text: string): void {
+  const count = Math.min(text.length, length - 1);
+  for (let i = 0; i < count; i++) {
+    const code = text.charCodeAt(i);
+    bytes[offset + i] = code < 256 ? code : 0x3f;
+  }
 }
@@ -0,0 +1,294 @@
+/**
+ * Renishaw WiRE (`.wdf`) file parser for Raman spectra, series and maps.
+ *
+ * A WDF file is a sequence of blocks, each starting with a 16-byte
+ * header: a 4-character block type, a 32-bit UID and a 64-bit block size
+ * (including the header). The file header is itself a 512-byte WDF1
+ * block holding the point and spectrum counts.
+ *
+ * Blocks read:
+ * - DATA: all spectra as consecutive 32-bit floats
+ * - XLST / YLST: the spectral axis and its unit
+ * - ORGN: per-spectrum origin values (map coordinates, time, …)
+ * - WMAP: map area (start, step and grid size)
+ *
+ * @module wdf
+ */
+
+import type { Spectrum } from "../types";
+import { createProgress, createWarn, SpectrumParseError } from "./errors";
+import type { ParseOptions } from "./errors";
+import { decodeText } from "./binary";
+
+/** Auto-incrementing ID counter. */
+let idCounter = 0;
+
+/** Size of each block header and of the WDF1 file header block, in bytes. */
+const BLOCK_HEADER_SIZE = 16;
+const FILE_HEADER_SIZE = 512;
+
+/** ORGN data types (low 31 bits of the type field). */
+const DATA_TYPE_SPATIAL_X = 3;
+const DATA_TYPE_SPATIAL_Y = 4;
+const DATA_TYPE_SPATIAL_Z = 5;
+const DATA_TYPE_TIME = 11;
+
+/** Flag marking an ORGN list as one of the primary (map) axes. */
+const ORIGIN_PRIMARY = 0x80000000;
+
+/** Unit code for Windows FILETIME timestamps. */
+const UNIT_FILETIME = 24;
+
+/** Milliseconds between 1601-01-01 (FILETIME epoch) and 1970-01-01. */
+const FILETIME_EPOCH_OFFSET = 11644473600000;
+
+/** WiRE unit codes. */
+const UNITS: Record<number, string> = {
+  0: "Arbitrary",
+  1: "Raman shift (cm⁻¹)",
+  2: "cm⁻¹",
+  3: "nm",
+  4: "eV",
+  5: "µm",
+  6: "Counts",
+  7: "Electrons",
+  8: "mm",
+  9: "m",
+  10: "K",
+  11: "Pa",
+  12: "s",
+  13: "ms",
+  14: "h",
+  15: "days",
+  16: "Pixels",
+  17: "Intensity",
+  18: "Relative intensity",
+  19: "°",
+  20: "rad",
+  21: "°C",
+  22: "°F",
+  23: "K/min",
+  24: "FILETIME",
+};
+
+/** `meta` keys for spatial origin lists. */
+const SPATIAL_KEYS: Record<number, string> = {
+  [DATA_TYPE_SPATIAL_X]: "mapX",
+  [DATA_TYPE_SPATIAL_Y]: "mapY",
+  [DATA_TYPE_SPATIAL_Z]: "mapZ",
+};
+
+/** Location of a block's payload (after its header). */
+interface WdfBlock {
+  offset: number;
+  size: number;
+}
+
+/** One ORGN list: a value per spectrum. */
+interface OriginList {
+  dataType: number;
+  unit: number;
+  label: string;
+  values: (number | string)[];
+}
+
+/**
+ * Parse a Renishaw WDF file into Raman Spectrum objects.
+ *
+ * Every spectrum in the DATA block becomes one `Spectrum` sharing the
+ * XLST axis. Each ORGN list is exposed in `meta` under its label, with
+ * spatial coordinates also under `mapX` / `mapY` / `mapZ`. Map files add
+ * the grid layout (`mapColumns`, `mapRows`, `mapStepX`, `mapStepY`) and
+ * each spectrum's `mapColumn` / `mapRow`.
+ *
+ * @param buffer - ArrayBuffer containing the WDF file data
+ * @param options - Parse options, e.g. a warning callback
+ * @returns Array of parsed Spectrum objects
+ * @throws SpectrumParseError if the file is not a valid WDF file
+ */
+export function parseWdf(buffer: ArrayBuffer, options: ParseOptions = {}): Spectrum[] {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const warn = createWarn("wdf", options);
+  const progress = createProgress(options, buffer.byteLength, "bytes");
+
+  if (buffer.byteLength < FILE_HEADER_SIZE) {
+    throw new SpectrumParseError("wdf", "Invalid WDF file: too small for WDF header");
+  }
+  if (decodeText(bytes.subarray(0, 4)) !== "WDF1") {
+    throw new SpectrumParseError("wdf", "Invalid WDF file: missing WDF1 signature");
+  }
+
+  const pointsPerSpectrum = view.getUint32(60, true);
+  const capacity = Number(view.getBigUint64(64, true));
+  const count = Number(view.getBigUint64(72, true));
+  const xListLength = view.getUint32(88, true);
+  const yUnitCode = view.getUint32(152, true);
+  const laserWavenumber = view.getFloat32(156, true);
+  const title = decodeText(bytes.subarray(240, 400), "utf-8");
+
+  const blocks = readBlocks(view, bytes);
+  const data = blocks.get("DATA");
+  if (!data) {
+    throw new SpectrumParseError("wdf", "Invalid WDF file: no DATA block found");
+  }
+
+  const xList = blocks.get("XLST");
+  let xUnit = UNITS[1];
+  let xValues: Float64Array = new Float64Array(pointsPerSpectrum);
+  if (xList) {
+    xUnit = UNITS[view.getUint32(xList.offset + 4, true)] ?? "Arbitrary";
+    xValues = readFloats(view, xList.offset + 8, Math.min(xListLength, pointsPerSpectrum));
+  }
+
+  const originBlock = blocks.get("ORGN");
+  const origins = originBlock ? readOrigins(view, bytes, originBlock, capacity) : [];
+  const fileMeta: Record<string, string | number> = { format: "WDF" };
+  if (laserWavenumber > 0) fileMeta.laserWavenumber = laserWavenumber;
+
+  const mapArea = blocks.get("WMAP");
+  let columns = 0;
+  if (mapArea) {
+    columns = view.getUint32(mapArea.offset + 32, true);
+    fileMeta.mapColumns = columns;
+    fileMeta.mapRows = view.getUint32(mapArea.offset + 36, true);
+    fileMeta.mapStartX = view.getFloat32(mapArea.offset + 8, true);
+    fileMeta.mapStartY = view.getFloat32(mapArea.offset + 12, true);
+    fileMeta.mapStepX = view.getFloat32(mapArea.offset + 20, true);
+    fileMeta.mapStepY = view.getFloat32(mapArea.offset + 24, true);
+  }
+
+  const available = pointsPerSpectrum > 0 ? Math.floor(data.size / (pointsPerSpectrum * 4)) : 0;
+  const numSpectra = Math.min(count, available);
+  if (numSpectra < count) {
+    warn(`DATA block is truncated: read ${numSpectra} of ${count} spectra`, {
+      offset: data.offset,
+    });
+  }
+  const baseLabel = title || "WDF Spectrum";
+  const spectra: Spectrum[] = [];
+
+  for (let i = 0; i < numSpectra; i++) {
+    progress(data.offset + i * pointsPerSpectrum * 4);
+    const meta: Record<string, string | number> = { ...fileMeta, index: i };
+    for (const origin of origins) {
+      const value = origin.values[i];
+      if (value === undefined) continue;
+      meta[origin.label || `origin${origin.dataType}`] = value;
+      const spatialKey = SPATIAL_KEYS[origin.dataType];
+      if (spatialKey && typeof value === "number") meta[spatialKey] = value;
+    }
+    if (columns > 0) {
+      meta.mapColumn = i % columns;
+      meta.mapRow = Math.floor(i / columns);
+    }
+
+    spectra.push({
+      id: `wdf-${++idCounter}`,
+      label: numSpectra > 1 ? `${baseLabel} (${i + 1})` : baseLabel,
+      x: xValues,
+      y: readFloats(view, data.offset + i * pointsPerSpectrum * 4, pointsPerSpectrum),
+      xUnit,
+      yUnit: UNITS[yUnitCode] ?? "Arbitrary",
+      type: "Raman",
+      meta,
+    });
+  }
+
+  progress(buffer.byteLength);
+
+  if (spectra.length === 0) {
+    throw new SpectrumParseError("wdf", "Invalid WDF file: no spectra found");
+  }
+
+  return spectra;
+}
+
+/**
+ * Locate the payload of every block, keyed by block type.
+ *
+ * Only the first block of each type is kept.
+ */
+function readBlocks(view: DataView, bytes: Uint8Array): Map<string, WdfBlock> {
+  const blocks = new Map<string, WdfBlock>();
+  let offset = 0;
+
+  while (offset + BLOCK_HEADER_SIZE <= view.byteLength) {
+    const name = decodeText(bytes.subarray(offset, offset + 4));
+    const size = Number(view.getBigUint64(offset + 8, true));
+    if (size < BLOCK_HEADER_SIZE) break;
+
+    const payload = offset + BLOCK_HEADER_SIZE;
+    if (!blocks.has(name)) {
+      blocks.set(name, {
+        offset: payload,
+        size: Math.min(size, view.byteLength - offset) - BLOCK_HEADER_SIZE,
+      });
+    }
+    offset += size;
+  }
+
+  return blocks;
+}
+
+/**
+ * Read the ORGN block.
+ *
+ * The payload starts with the number of lists. Each list has a type
+ * (with the high bit set for primary map axes), a unit, a 16-byte label
+ * and one 8-byte value per spectrum slot: a 64-bit integer for time, a
+ * float64 otherwise.
+ */
+function readOrigins(
+  view: DataView,
+  bytes: Uint8Array,
+  block: WdfBlock,
+  capacity: number,
+): OriginList[] {
+  const numLists = view.getUint32(block.offset, true);
+  const stride = 24 + 8 * capacity;
+  const end = block.offset + block.size;
+  const origins: OriginList[] = [];
+
+  for (let l = 0; l < numLists; l++) {
+    const start = block.offset + 4 + l * stride;
+    if (start + 24 > end) break;
+
+    const dataType = view.getUint32(start, true) & ~ORIGIN_PRIMARY;
+    const unit = view.getUint32(start + 4, true);
+    const values: (number | string)[] = [];
+
+    for (let i = 0; i < capacity; i++) {
+      const offset = start + 24 + i * 8;
+      if (offset + 8 > end) break;
+      if (dataType === DATA_TYPE_TIME) {
+        const ticks = Number(view.getBigUint64(offset, true));
+        values.push(
+          unit === UNIT_FILETIME
+            ? new Date(ticks / 10000 - FILETIME_EPOCH_OFFSET).toISOString()
+            : ticks,
+        );
+      } else {
+        values.push(view.getFloat64(offset, true));
+      }
+    }
+
+    origins.push({
+      dataType,
+      unit,
+      label: decodeText(bytes.subarray(start + 8, start + 24), "utf-8"),
+      values,
+    });
+  }
+
+  return origins;
+}
+
+/** Read `count` little-endian float32 values into a Float64Array. */
+function readFloats(view: DataView, offset: number, count: number): Float64Array {
+  const values = new Float64Array(count);
+  for (let i = 0; i < count && offset + i * 4 + 4 <= view.byteLength; i++) {
+    values[i] = view.getFloat32(offset + i * 4, true);
+  }
+  return values;
+}
@@ -0,0 +1,190 @@
+/**
+ * Parsing in a Web Worker, so large files do not block the page.
+ *
+ * The worker script calls `registerParseWorker()`; the page hands file
+ * content to `parseInWorker`, which runs `parseAny` in a fresh worker,
+ * relays progress and resolves with the result. The Float64Array
+ * buffers of the parsed spectra are transferred back, not copied.
+ *
+ * @example
+ * ```ts
+ * // parse.worker.ts
+ * import { registerParseWorker } from "spectraview";
+ * registerParseWorker();
+ *
+ * // main thread
+ * const createWorker = () =>
+ *   new Worker(new URL("./parse.worker.ts", import.meta.url), { type: "module" });
+ * const { spectra } = await parseInWorker(createWorker, buffer, { filename: file.name });
+ * ```
+ *
+ * @module worker
+ */
+
+import type { Spectrum } from "../types";
+import { parseAny } from "./detect";
+import type { ParseAnyResult, SpectrumFormat } from "./detect";
+import { SpectrumParseError } from "./errors";
+import type { ParseProgress } from "./errors";
+
+/** Message posted to a parse worker. */
+export interface ParseWorkerRequest {
+  /** File content, as an ArrayBuffer or decoded text. */
+  input: ArrayBuffer | string;
+  /** Filename used for errors and as a detection fallback. */
+  filename?: string;
+  /** Format to parse as, skipping detection. */
+  format?: SpectrumFormat;
+}
+
+/** A parse error in a form that survives `postMessage`. */
+interface SerializedError {
+  message: string;
+  format?: SpectrumFormat;
+  reason?: string;
+  line?: number;
+  offset?: number;
+}
+
+/** Message posted back by a parse worker. */
+export type ParseWorkerResponse =
+  | { type: "progress"; progress: ParseProgress }
+  | { type: "result"; result: ParseAnyResult }
+  | { type: "error"; error: SerializedError };
+
+/** The parts of a worker's global scope used by `registerParseWorker`. */
+export interface ParseWorkerScope {
+  addEventListener(
+    type: "message",
+    listener: (event: MessageEvent<ParseWorkerRequest>) => void,
+  ): void;
+  postMessage(message: ParseWorkerResponse, transfer?: Transferable[]): void;
+}
+
+export interface WorkerParseOptions {
+  /** Filename used for errors and as a detection fallback. */
+  filename?: string;
+  /** Format to parse as, skipping detection. */
+  format?: SpectrumFormat;
+  /** Aborts parsing and terminates the worker. */
+  signal?: AbortSignal;
+  /** Called as the worker reports progress. */
+  onProgress?: (progress: ParseProgress) => void;
+  /**
+   * Transfer an ArrayBuffer input to the worker instead of copying it.
+   * The buffer is unusable by the caller afterwards. Defaults to false.
+   */
+  transferInput?: boolean;
+}
+
+/**
+ * Answer parse requests in a worker's global scope.
+ *
+ * @param scope - Worker global scope; defaults to `self`
+ */
+export function registerParseWorker(
+  scope: ParseWorkerScope = self as unknown as ParseWorkerScope,
+): void {
+  scope.addEventListener("message", async (event) => {
+    const { input, filename, format } = event.data;
+    try {
+      const result = await parseAny(input, filename, {
+        format,
+        onProgress: (progress) => scope.postMessage({ type: "progress", progress }),
+      });
+      scope.postMessage({ type: "result", result }, transferList(result.spectra));
+    } catch (err) {
+      scope.postMessage({ type: "error", error: serializeError(err) });
+    }
+  });
+}
+
+/**
+ * Parse file content in a new worker created by `createWorker`.
+ *
+ * The worker is terminated once the result arrives, on error, or when
+ * `options.signal` aborts.
+ *
+ * @param createWorker - Creates a worker whose script calls `registerParseWorker`
+ * @param input - File content, as an ArrayBuffer or decoded text
+ * @param options - Filename, format override, abort signal and progress callback
+ * @returns The chosen format, the parsed spectra and any warnings
+ * @throws SpectrumParseError if parsing fails, or the signal's reason on abort
+ */
+export function parseInWorker(
+  createWorker: () => Worker,
+  input: ArrayBuffer | string,
+  options: WorkerParseOptions = {},
+): Promise<ParseAnyResult> {
+  const { filename, format, signal, onProgress, transferInput = false } = options;
+  if (signal?.aborted) return Promise.reject(abortReason(signal));
+
+  return new Promise((resolve, reject) => {
+    const worker = createWorker();
+
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener("abort", onAbort);
+    };
+    const onAbort = () => {
+      finish();
+      reject(abortReason(signal!));
+    };
+
+    worker.addEventListener("message", (event: MessageEvent<ParseWorkerResponse>) => {
+      const message = event.data;
+      if (message.type === "progress") {
+        onProgress?.(message.progress);
+        return;
+      }
+      finish();
+      if (message.type === "result") resolve(message.result);
+      else reject(deserializeError(message.error));
+    });
+    worker.addEventListener("error", (event: ErrorEvent) => {
+      finish();
+      reject(new Error(event.message || "Parse worker failed"));
+    });
+    signal?.addEventListener("abort", onAbort);
+
+    const request: ParseWorkerRequest = { input, filename, format };
+    const transfer = transferInput && typeof input !== "string" ? [input] : [];
+    worker.postMessage(request, transfer);
+  });
+}
+
+/** Collect the distinct ArrayBuffers behind the spectra's typed arrays. */
+function transferList(spectra: Spectrum[]): ArrayBuffer[] {
+  const buffers = new Set<ArrayBuffer>();
+  for (const spectrum of spectra) {
+    for (const values of [spectrum.x, spectrum.y]) {
+      if (values instanceof Float64Array && values.buffer instanceof ArrayBuffer) {
+        buffers.add(values.buffer);
+      }
+    }
+  }
+  return [...buffers];
+}
+
+function serializeError(err: unknown): SerializedError {
+  if (err instanceof SpectrumParseError) {
+    const { message, format, reason, line, offset } = err;
+    return { message, format, reason, line, offset };
+  }
+  return { message: err instanceof Error ? err.message : "Failed to parse file" };
+}
+
+function deserializeError(error: SerializedError): Error {
+  if (error.format && error.reason !== undefined) {
+    return new SpectrumParseError(error.format, error.reason, {
+      line: error.line,
+      offset: error.offset,
+    });
+  }
+  return new Error(error.message);
+}
+
+/** The reason a signal was aborted, or a generic AbortError. */
+function abortReason(signal: AbortSignal): unknown {
+  return signal.reason ?? new DOMException("Parsing was aborted", "AbortError");
+}
@@ -0,0 +1,235 @@
+/**
+ * Minimal XML reader for the XML-based spectral formats (AnIML, GAML).
+ *
+ * Builds an element tree without `DOMParser`, which is not available in
+ * Web Workers. Namespace prefixes are dropped from element and attribute
+ * names; comments, processing instructions and DOCTYPE declarations are
+ * skipped, and CDATA sections are kept as text.
+ *
+ * @module xml
+ */
+
+import type { SpectrumFormat } from "./detect";
+import { SpectrumParseError } from "./errors";
+
+/** An element of a parsed XML document. */
+export interface XmlElement {
+  /** Local name, without namespace prefix. */
+  name: string;
+  /** Attributes by local name, with entities decoded. */
+  attributes: Record<string, string>;
+  /** Child elements in document order. */
+  children: XmlElement[];
+  /** Text directly inside the element, with entities decoded. */
+  text: string;
+  /** 1-based line on which the element starts. */
+  line: number;
+}
+
+/** Throws a parse error for a problem at a document index. */
+type Fail = (reason: string, index: number) => never;
+
+/** Predefined XML entities. */
+const ENTITIES: Record<string, string> = {
+  lt: "<",
+  gt: ">",
+  amp: "&",
+  quot: '"',
+  apos: "'",
+};
+
+/**
+ * Parse an XML document.
+ *
+ * @param text - XML source
+ * @param format - Format reported in errors
+ * @returns The root element
+ * @throws SpectrumParseError if the document is not well-formed
+ */
+export function parseXml(text: string, format: SpectrumFormat): XmlElement {
+  const document: XmlElement = { name: "", attributes: {}, children: [], text: "", line: 1 };
+  const stack: XmlElement[] = [document];
+  let pos = 0;
+  let line = 1;
+  let counted = 0;
+
+  // Line of `index`, counting newlines since the last call
+  const lineAt = (index: number): number => {
+    for (let i = counted; i < index; i++) {
+      if (text.charCodeAt(i) === 10) line++;
+    }
+    counted = Math.max(counted, index);
+    return line;
+  };
+  const fail = (reason: string, index: number): never => {
+    throw new SpectrumParseError(format, `Invalid XML: ${reason}`, { line: lineAt(index) });
+  };
+  const skipTo = (marker: string, from: number, what: string): number => {
+    const end = text.indexOf(marker, from);
+    if (end === -1) fail(`unterminated ${what}`, from);
+    return end + marker.length;
+  };
+
+  while (pos < text.length) {
+    const lt = text.indexOf("<", pos);
+    const current = stack[stack.length - 1];
+    if (lt === -1) {
+      if (current !== document) current.text += decodeEntities(text.slice(pos), pos, fail);
+      break;
+    }
+    if (lt > pos && current !== document) {
+      current.text += decodeEntities(text.slice(pos, lt), pos, fail);
+    }
+
+    if (text.startsWith("<!--", lt)) {
+      pos = skipTo("-->", lt + 4, "comment");
+    } else if (text.startsWith("<![CDATA[", lt)) {
+      pos = skipTo("]]>", lt + 9, "CDATA section");
+      current.text += text.slice(lt + 9, pos - 3);
+    } else if (text.startsWith("<?", lt)) {
+      pos = skipTo("?>", lt + 2, "processing instruction");
+    } else if (text.startsWith("<!", lt)) {
+      // DOCTYPE, possibly with an internal subset in brackets
+      const bracket = text.indexOf("[", lt);
+      const close = text.indexOf(">", lt);
+      pos =
+        bracket !== -1 && bracket < close
+          ? skipTo(">", skipTo("]", bracket, "DOCTYPE"), "DOCTYPE")
+          : skipTo(">", lt, "DOCTYPE");
+    } else if (text.startsWith("</", lt)) {
+      pos = skipTo(">", lt, "closing tag");
+      const name = localName(text.slice(lt + 2, pos - 1).trim());
+      if (current === document || current.name !== name) {
+        fail(`unexpected closing tag </${name}>`, lt);
+      }
+      stack.pop();
+    } else {
+      const end = findTagEnd(text, lt);
+      if (end === -1) fail("unterminated tag", lt);
+      let body = text.slice(lt + 1, end);
+      const selfClosing = body.endsWith("/");
+      if (selfClosing) body = body.slice(0, -1);
+
+      const nameMatch = /^[^\s/>]+/.exec(body);
+      if (!nameMatch) fail("missing element name", lt);
+      const element: XmlElement = {
+        name: localName(nameMatch![0]),
+        attributes: parseAttributes(
+          body.slice(nameMatch![0].length),
+          lt + 1 + nameMatch![0].length,
+          fail,
+        ),
+        children: [],
+        text: "",
+        line: lineAt(lt),
+      };
+      if (current === document && document.children.length > 0) {
+        fail("more than one root element", lt);
+      }
+      current.children.push(element);
+      if (!selfClosing) stack.push(element);
+      pos = end + 1;
+    }
+  }
+
+  if (stack.length > 1) {
+    const open = stack[stack.length - 1];
+    throw new SpectrumParseError(format, `Invalid XML: unclosed element <${open.name}>`, {
+      line: open.line,
+    });
+  }
+  if (document.children.length === 0) {
+    throw new SpectrumParseError(format, "Invalid XML: no root element");
+  }
+  return document.children[0];
+}
+
+/** First child element with the given local name (case-insensitive). */
+export function childElement(element: XmlElement, name: string): XmlElement | undefined {
+  const lower = name.toLowerCase();
+  return element.children.find((c) => c.name.toLowerCase() === lower);
+}
+
+/** Child elements with the given local name (case-insensitive). */
+export function childElements(element: XmlElement, name: string): XmlElement[] {
+  const lower = name.toLowerCase();
+  return element.children.filter((c) => c.name.toLowerCase() === lower);
+}
+
+/** Descendant elements with the given local name, in document order. */
+export function descendantElements(element: XmlElement, name: string): XmlElement[] {
+  const lower = name.toLowerCase();
+  const found: XmlElement[] = [];
+  const visit = (el: XmlElement) => {
+    for (const child of el.children) {
+      if (child.name.toLowerCase() === lower) found.push(child);
+      visit(child);
+    }
+  };
+  visit(element);
+  return found;
+}
+
+/** Trimmed text of a child element, or undefined if absent or empty. */
+export function childText(element: XmlElement, name: string): string | undefined {
+  const text = childElement(element, name)?.text.trim();
+  return text ? text : undefined;
+}
+
+/** Strip a namespace prefix from a name. */
+function localName(name: string): string {
+  const colon = name.indexOf(":");
+  return colon === -1 ? name : name.slice(colon + 1);
+}
+
+/** Index of the `>` closing a tag, skipping quoted attribute values. */
+function findTagEnd(text: string, start: number): number {
+  let quote = "";
+  for (let i = start + 1; i < text.length; i++) {
+    const c = text[i];
+    if (quote) {
+      if (c === quote) quote = "";
+    } else if (c === '"' || c === "'") {
+      quote = c;
+    } else if (c === ">") {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/** Parse `name="value"` pairs; namespace declarations are skipped. */
+function parseAttributes(source: string, start: number, fail: Fail): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source)) !== null) {
+    const name = match[1];
+    if (name === "xmlns" || name.startsWith("xmlns:")) continue;
+    attributes[localName(name)] = decodeEntities(match[2] ?? match[3], start + match.index, fail);
+  }
+  return attributes;
+}
+
+/**
+ * Replace predefined and numeric character references.
+ *
+ * @param start - Index of `text` in the document, for error lines
+ */
+function decodeEntities(text: string, start: number, fail: Fail): string {
+  if (!text.includes("&")) return text;
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (whole, entity: string, offset: number) => {
+    if (entity[0] === "#") {
+      const code =
+        entity[1] === "x" || entity[1] === "X"
+          ? parseInt(entity.slice(2), 16)
+          : parseInt(entity.slice(1), 10);
+      // XML allows neither NUL nor lone surrogates
+      if (code === 0 || (code >= 0xd800 && code <= 0xdfff) || code > 0x10ffff) {
+        fail(`invalid character reference ${whole}`, start + offset);
+      }
+      return String.fromCodePoint(code);
+    }
+    return ENTITIES[entity] ?? whole;
+  });
+}
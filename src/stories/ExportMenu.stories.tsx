@@ -20,6 +20,7 @@ export const AllFormats: Story = {
     onExportSvg: () => console.log("Export SVG"),
     onExportCsv: () => console.log("Export CSV"),
     onExportJson: () => console.log("Export JSON"),
+    onExportJcamp: () => console.log("Export JCAMP-DX"),
   },
 };
 
@@ -31,6 +32,7 @@ export const DarkTheme: Story = {
     onExportSvg: () => console.log("Export SVG"),
     onExportCsv: () => console.log("Export CSV"),
     onExportJson: () => console.log("Export JSON"),
+    onExportJcamp: () => console.log("Export JCAMP-DX"),
   },
   parameters: {
     backgrounds: { default: "dark" },
@@ -0,0 +1,56 @@
+import type { Meta, StoryObj } from "@storybook/react-vite";
+import { ImportDialog } from "../components/ImportDialog/ImportDialog";
+
+const meta: Meta<typeof ImportDialog> = {
+  title: "Components/ImportDialog",
+  component: ImportDialog,
+  parameters: {
+    layout: "centered",
+  },
+};
+
+export default meta;
+type Story = StoryObj<typeof ImportDialog>;
+
+/** Build a small UV-Vis kinetics export with a few absorbance columns. */
+function makeCsv(delimiter: string, decimalComma = false): string {
+  const fmt = (v: number) => (decimalComma ? v.toFixed(4).replace(".", ",") : v.toFixed(4));
+  const lines = [["Wavelength (nm)", "0 min", "5 min", "10 min"].join(delimiter)];
+  for (let nm = 300; nm <= 600; nm += 5) {
+    const band = (scale: number) => scale * Math.exp(-((nm - 450) ** 2) / 1800);
+    lines.push([nm, fmt(band(1)), fmt(band(0.7)), fmt(band(0.4))].join(delimiter));
+  }
+  return lines.join("\n");
+}
+
+export const Default: Story = {
+  args: {
+    text: makeCsv(","),
+    fileName: "kinetics.csv",
+    onImport: (spectra) => console.log("Import", spectra),
+    onCancel: () => console.log("Cancel"),
+  },
+};
+
+export const EuropeanLocale: Story = {
+  name: "Semicolon + Decimal Comma",
+  args: {
+    text: makeCsv(";", true),
+    fileName: "kinetics_de.csv",
+    onImport: (spectra) => console.log("Import", spectra),
+  },
+};
+
+export const DarkTheme: Story = {
+  name: "Dark Theme",
+  args: {
+    text: makeCsv("\t"),
+    fileName: "kinetics.tsv",
+    theme: "dark",
+    onImport: (spectra) => console.log("Import", spectra),
+    onCancel: () => console.log("Cancel"),
+  },
+  parameters: {
+    backgrounds: { default: "dark" },
+  },
+};
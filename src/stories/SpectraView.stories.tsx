@@ -26,6 +26,8 @@ const meta: Meta<typeof SpectraView> = {
     responsive: { control: "boolean" },
     enableDragDrop: { control: "boolean" },
     enableRegionSelect: { control: "boolean" },
+    enableBaselineAnchors: { control: "boolean" },
+    baselineMethod: { control: "radio", options: ["linear", "polynomial", "cubic-spline"] },
     snapCrosshair: { control: "boolean" },
     width: { control: { type: "range", min: 400, max: 1200, step: 50 } },
     height: { control: { type: "range", min: 200, max: 800, step: 50 } },
@@ -123,6 +125,19 @@ export const RegionSelection: Story = {
   },
 };
 
+export const BaselineAnchors: Story = {
+  name: "Baseline Anchors (Click to Add/Remove)",
+  args: {
+    spectra: [createIRSpectrum()],
+    enableBaselineAnchors: true,
+    baselineMethod: "cubic-spline",
+    initialBaselineAnchors: [3900, 2500, 1900, 800],
+    width: 800,
+    height: 400,
+    reverseX: true,
+  },
+};
+
 export const LineStyles: Story = {
   name: "Custom Line Styles",
   args: {
@@ -0,0 +1,67 @@
+import { registerParseWorker } from "../parsers/worker";
+import type { ParseWorkerRequest, ParseWorkerScope } from "../parsers/worker";
+
+type Listener = (event: { data: unknown }) => void;
+
+/**
+ * In-process stand-in for a parse worker (jsdom has no `Worker`).
+ *
+ * Messages are delivered asynchronously in both directions, and the
+ * transfer lists passed each way are recorded for assertions.
+ */
+export class FakeParseWorker {
+  /** Every worker created, in order. */
+  static instances: FakeParseWorker[] = [];
+
+  terminated = false;
+  /** Transfer lists passed to `postMessage` by the page. */
+  sentTransfers: Transferable[][] = [];
+  /** Transfer lists passed to `postMessage` by the worker. */
+  receivedTransfers: Transferable[][] = [];
+
+  private listeners = new Map<string, Set<Listener>>();
+  private handleRequest: Listener | null = null;
+
+  constructor() {
+    FakeParseWorker.instances.push(this);
+    const scope: ParseWorkerScope = {
+      addEventListener: (_type, listener) => {
+        this.handleRequest = listener as Listener;
+      },
+      postMessage: (message, transfer = []) => {
+        this.receivedTransfers.push(transfer);
+        setTimeout(() => {
+          if (!this.terminated) this.emit("message", message);
+        });
+      },
+    };
+    registerParseWorker(scope);
+  }
+
+  postMessage(request: ParseWorkerRequest, transfer: Transferable[] = []): void {
+    this.sentTransfers.push(transfer);
+    setTimeout(() => this.handleRequest?.({ data: request }));
+  }
+
+  addEventListener(type: string, listener: Listener): void {
+    if (!this.listeners.has(type)) this.listeners.set(type, new Set());
+    this.listeners.get(type)!.add(listener);
+  }
+
+  removeEventListener(type: string, listener: Listener): void {
+    this.listeners.get(type)?.delete(listener);
+  }
+
+  terminate(): void {
+    this.terminated = true;
+  }
+
+  private emit(type: string, data: unknown): void {
+    this.listeners.get(type)?.forEach((listener) => listener({ data }));
+  }
+}
+
+/** Create a fake worker typed as a real one. */
+export function createFakeWorker(): Worker {
+  return new FakeParseWorker() as unknown as Worker;
+}
@@ -88,6 +88,21 @@ export interface Annotation {
   showAnchorLine?: boolean;
 }
 
+/** How an anchor-point baseline joins the anchor points. */
+export type AnchorBaselineMethod = "linear" | "polynomial" | "cubic-spline";
+
+/** A baseline fitted through anchor points picked on the chart. */
+export interface AnchorBaselineResult {
+  /** Spectrum the baseline was fitted to. */
+  spectrumId: string;
+  /** Anchor X positions, ascending. */
+  anchors: number[];
+  /** Estimated baseline, one value per spectrum point. */
+  baseline: Float64Array;
+  /** Spectrum Y values minus the baseline. */
+  corrected: Float64Array;
+}
+
 /** Current zoom/pan view state. */
 export interface ViewState {
   /** Visible x-axis domain [min, max]. */
@@ -161,6 +176,18 @@ export interface SpectraViewProps {
   enableRegionSelect?: boolean;
   /** Callback when a region is created. */
   onRegionSelect?: (region: Region) => void;
+  /** Enable anchor-point baseline mode (click to add or remove anchors). */
+  enableBaselineAnchors?: boolean;
+  /** Spectrum to fit the anchor baseline to. Defaults to the first visible spectrum. */
+  baselineSpectrumId?: string;
+  /** Anchor baseline interpolation. Defaults to "linear". */
+  baselineMethod?: AnchorBaselineMethod;
+  /** Polynomial degree for the "polynomial" baseline method. Defaults to 2. */
+  baselineDegree?: number;
+  /** Anchor X positions to start with. */
+  initialBaselineAnchors?: number[];
+  /** Callback when the anchor baseline is refitted, or null when all anchors are removed. */
+  onBaselineChange?: (result: AnchorBaselineResult | null) => void;
   /** Responsive sizing (fills container width). */
   responsive?: boolean;
   /** Custom CSS class name. */
@@ -191,4 +218,5 @@ export interface ResolvedConfig {
   responsive: boolean;
   enableDragDrop: boolean;
   enableRegionSelect: boolean;
+  enableBaselineAnchors: boolean;
 }
@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import { decodeBase64, decodeBase64Numbers } from "../base64";
+
+function encode(buffer: ArrayBuffer): string {
+  return btoa(String.fromCharCode(...new Uint8Array(buffer)));
+}
+
+describe("decodeBase64", () => {
+  it("decodes bytes and ignores whitespace", () => {
+    expect(Array.from(decodeBase64("AQID\n  BA=="))).toEqual([1, 2, 3, 4]);
+  });
+
+  it("throws on invalid base64", () => {
+    expect(() => decodeBase64("not base64!")).toThrow();
+  });
+});
+
+describe("decodeBase64Numbers", () => {
+  it("decodes each numeric type", () => {
+    const int32 = new DataView(new ArrayBuffer(8));
+    int32.setInt32(0, -7, true);
+    int32.setInt32(4, 42, true);
+    const int64 = new DataView(new ArrayBuffer(8));
+    int64.setBigInt64(0, 123456789012n, true);
+
+    expect(Array.from(decodeBase64Numbers(encode(int32.buffer), "int32"))).toEqual([-7, 42]);
+    expect(Array.from(decodeBase64Numbers(encode(int64.buffer), "int64"))).toEqual([
+      123456789012,
+    ]);
+    expect(
+      Array.from(decodeBase64Numbers(encode(Float32Array.from([0.5, -2]).buffer), "float32")),
+    ).toEqual([0.5, -2]);
+    expect(
+      Array.from(decodeBase64Numbers(encode(Float64Array.from([Math.PI]).buffer), "float64")),
+    ).toEqual([Math.PI]);
+  });
+
+  it("honours big-endian byte order", () => {
+    const view = new DataView(new ArrayBuffer(4));
+    view.setFloat32(0, 1.5, false);
+    expect(Array.from(decodeBase64Numbers(encode(view.buffer), "float32", false))).toEqual([1.5]);
+  });
+
+  it("ignores trailing bytes that do not fill a value", () => {
+    expect(decodeBase64Numbers(encode(new ArrayBuffer(6)), "float32")).toHaveLength(1);
+  });
+});
@@ -1,5 +1,13 @@
 import { describe, it, expect } from "vitest";
-import { spectrumToCsv, multiSpectraToCsv, spectrumToJson } from "../export-data";
+import {
+  spectrumToCsv,
+  multiSpectraToCsv,
+  spectrumToJson,
+  spectrumToJcamp,
+  spectraToJcamp,
+} from "../export-data";
+import { parseJcamp } from "../../parsers/jcamp";
+import { parseJson } from "../../parsers/json";
 import type { Spectrum } from "../../types";
 
 const spectrum: Spectrum = {
@@ -83,4 +91,145 @@ describe("spectrumToJson", () => {
     expect(parsed.xUnit).toBe("cm⁻¹");
     expect(parsed.yUnit).toBe("Absorbance");
   });
+
+  it("writes base64-encoded arrays that parseJson reads back", () => {
+    const y = [0.1234567891, 0.5, 0.9, 0.3, 0.1];
+    const json = spectrumToJson({ ...spectrum, y }, { encoding: "float64" });
+    const parsed = JSON.parse(json);
+    expect(parsed.y).toMatchObject({ encoding: "base64", dtype: "float64" });
+    expect(typeof parsed.y.data).toBe("string");
+
+    const [roundTrip] = parseJson(json);
+    expect(Array.from(roundTrip.x)).toEqual(spectrum.x);
+    expect(Array.from(roundTrip.y)).toEqual(y);
+  });
+
+  it("writes an evenly spaced x axis as firstX, lastX and npoints", () => {
+    const parsed = JSON.parse(spectrumToJson(spectrum, { implicitX: true, xRange: [200, 500] }));
+    expect(parsed).toMatchObject({ firstX: 200, lastX: 500, npoints: 4 });
+    expect(parsed.x).toBeUndefined();
+
+    const uneven = JSON.parse(
+      spectrumToJson({ ...spectrum, x: [1, 2, 4, 8, 16] }, { implicitX: true }),
+    );
+    expect(uneven.x).toEqual([1, 2, 4, 8, 16]);
+    expect(uneven.npoints).toBeUndefined();
+  });
+});
+
+describe("spectrumToJcamp", () => {
+  const ir: Spectrum = {
+    ...spectrum,
+    type: "IR",
+    meta: { operator: "AB", ORIGIN: "Lab 3" },
+  };
+
+  it("writes JCAMP-DX 5.01 headers", () => {
+    const jdx = spectrumToJcamp(ir);
+    expect(jdx).toContain("##TITLE= Test");
+    expect(jdx).toContain("##JCAMP-DX= 5.01");
+    expect(jdx).toContain("##DATA TYPE= INFRARED SPECTRUM");
+    expect(jdx).toContain("##XUNITS= 1/CM");
+    expect(jdx).toContain("##YUNITS= ABSORBANCE");
+    expect(jdx).toContain("##FIRSTX= 100");
+    expect(jdx).toContain("##LASTX= 500");
+    expect(jdx).toContain("##DELTAX= 100");
+    expect(jdx).toContain("##NPOINTS= 5");
+    expect(jdx.trimEnd().endsWith("##END=")).toBe(true);
+  });
+
+  it("writes Y units in JCAMP-DX spelling", () => {
+    expect(spectrumToJcamp({ ...ir, yUnit: "Transmittance" })).toContain("##YUNITS= TRANSMITTANCE");
+    expect(spectrumToJcamp({ ...ir, yUnit: "Counts" })).toContain("##YUNITS= Counts");
+    expect(spectrumToJcamp({ ...ir, yUnit: undefined })).toContain("##YUNITS= ARBITRARY UNITS");
+  });
+
+  it("writes meta as user-defined labels", () => {
+    const jdx = spectrumToJcamp(ir);
+    expect(jdx).toContain("##$OPERATOR= AB");
+    expect(jdx).toContain("##ORIGIN= Lab 3");
+    expect(jdx).not.toContain("##$ORIGIN");
+  });
+
+  it("round-trips through parseJcamp in AFFN form", async () => {
+    const [parsed] = await parseJcamp(spectrumToJcamp(ir));
+    expect(Array.from(parsed.x)).toEqual([100, 200, 300, 400, 500]);
+    Array.from(spectrum.y).forEach((v, i) => expect(parsed.y[i]).toBeCloseTo(v, 10));
+    expect(parsed.type).toBe("IR");
+    expect(parsed.meta?.["$OPERATOR"]).toBe("AB");
+  });
+
+  it("round-trips units through parseJcamp", async () => {
+    for (const [xUnit, yUnit] of [
+      ["cm⁻¹", "Absorbance"],
+      ["nm", "Transmittance"],
+      ["µm", "Reflectance"],
+      ["Pixel", "Counts"],
+    ]) {
+      const [parsed] = await parseJcamp(spectrumToJcamp({ ...ir, xUnit, yUnit }));
+      expect([parsed.xUnit, parsed.yUnit]).toEqual([xUnit, yUnit]);
+    }
+  });
+
+  it("writes missing ordinates as ? and never a zero DELTAX", () => {
+    const jdx = spectrumToJcamp({ ...spectrum, y: [NaN, 1, 2, 3, 4] });
+    expect(jdx).toContain("##FIRSTY= ?");
+
+    const flat = spectrumToJcamp({ id: "f", label: "Flat", x: [5, 5], y: [1, 2] });
+    expect(flat).not.toContain("##DELTAX");
+    expect(flat).toContain("##XYPOINTS= (XY..XY)");
+  });
+
+  it("round-trips a long spectrum with DIFDUP compression", async () => {
+    const n = 500;
+    const x = Array.from({ length: n }, (_, i) => 4000 - i * 2);
+    const y = x.map((v, i) => (i % 50 < 10 ? 0.25 : Math.sin(v / 100) * 0.8 + 1));
+    const long: Spectrum = { id: "long", label: "Long", x, y, type: "NIR" };
+
+    const jdx = spectrumToJcamp(long, { compression: "difdup" });
+    const lines = jdx.split("\n");
+    const dataLines = lines.slice(
+      lines.indexOf("##XYDATA= (X++(Y..Y))") + 1,
+      lines.indexOf("##END="),
+    );
+    expect(dataLines.length).toBeGreaterThan(1);
+    expect(dataLines.every((l) => l.length <= 80)).toBe(true);
+    expect(jdx).toMatch(/[S-Zs]/);
+
+    const [parsed] = await parseJcamp(jdx);
+    expect(parsed.x).toHaveLength(n);
+    expect(parsed.type).toBe("NIR");
+    expect(parsed.x[n - 1]).toBeCloseTo(x[n - 1], 10);
+    y.forEach((v, i) => expect(parsed.y[i]).toBeCloseTo(v, 6));
+  });
+
+  it("falls back to XYPOINTS for unevenly spaced data", async () => {
+    const uneven: Spectrum = { id: "u", label: "Uneven", x: [1, 2, 4, 8], y: [1, 2, 3, 4] };
+    const jdx = spectrumToJcamp(uneven, { compression: "difdup" });
+    expect(jdx).toContain("##XYPOINTS= (XY..XY)");
+
+    const [parsed] = await parseJcamp(jdx);
+    expect(Array.from(parsed.x)).toEqual([1, 2, 4, 8]);
+    expect(Array.from(parsed.y)).toEqual([1, 2, 3, 4]);
+  });
+
+  it("filters by xRange", () => {
+    const jdx = spectrumToJcamp(spectrum, { xRange: [200, 400] });
+    expect(jdx).toContain("##NPOINTS= 3");
+  });
+});
+
+describe("spectraToJcamp", () => {
+  it("writes a LINK file that parses back into every spectrum", async () => {
+    const second: Spectrum = { ...spectrum, id: "s2", label: "Second", type: "Raman" };
+    const jdx = spectraToJcamp([spectrum, second], { compression: "difdup" });
+
+    expect(jdx).toContain("##DATA TYPE= LINK");
+    expect(jdx).toContain("##BLOCKS= 2");
+
+    const parsed = await parseJcamp(jdx);
+    expect(parsed.map((s) => s.label)).toEqual(["Test", "Second"]);
+    expect(parsed[1].type).toBe("Raman");
+    expect(parsed[1].meta?.["BLOCK_ID"]).toBe("2");
+  });
 });
@@ -0,0 +1,24 @@
+import { describe, it, expect } from "vitest";
+import { hashSpectrum } from "../hash";
+import { createTestSpectrum, createTestSpectrum2 } from "../../test/helpers";
+
+describe("hashSpectrum", () => {
+  it("depends only on the data", () => {
+    const a = createTestSpectrum();
+    const b = { ...createTestSpectrum({ id: "other", label: "Other" }), x: Array.from(a.x) };
+    expect(hashSpectrum(a)).toBe(hashSpectrum(b));
+    expect(hashSpectrum(a)).toMatch(/^[0-9a-f]{14}$/);
+  });
+
+  it("changes when any value changes", () => {
+    const a = createTestSpectrum();
+    const y = Float64Array.from(a.y);
+    y[50] = y[50] + Number.EPSILON;
+    expect(hashSpectrum({ x: a.x, y })).not.toBe(hashSpectrum(a));
+    expect(hashSpectrum(createTestSpectrum2())).not.toBe(hashSpectrum(a));
+  });
+
+  it("distinguishes how values are split between x and y", () => {
+    expect(hashSpectrum({ x: [1, 2], y: [3] })).not.toBe(hashSpectrum({ x: [1], y: [2, 3] }));
+  });
+});
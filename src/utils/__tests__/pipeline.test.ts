@@ -0,0 +1,128 @@
+import { describe, it, expect } from "vitest";
+import {
+  applyPipeline,
+  applyProcessingStep,
+  serializePipeline,
+  parsePipeline,
+  getProcessingHistory,
+  PROCESSING_META_KEY,
+} from "../pipeline";
+import type { ProcessingPipeline } from "../pipeline";
+import { normalizeSNV, smoothSavitzkyGolay, mscCorrect } from "../processing";
+import type { Spectrum } from "../../types";
+
+const x = Array.from({ length: 50 }, (_, i) => i);
+const peak = x.map((v) => 10 + 100 * Math.exp(-((v - 25) ** 2) / 20));
+
+const spectra: Spectrum[] = [
+  { id: "a", label: "A", x, y: peak, meta: { sample: "one" } },
+  { id: "b", label: "B", x, y: peak.map((v) => 2 * v + 5) },
+];
+
+const pipeline: ProcessingPipeline = {
+  steps: [
+    { type: "smooth", windowSize: 7, polyOrder: 2 },
+    { type: "snv" },
+    { type: "derivative", order: 1, windowSize: 9 },
+  ],
+};
+
+describe("applyPipeline", () => {
+  it("applies steps in order", () => {
+    const result = applyPipeline(spectra, {
+      steps: [{ type: "smooth", windowSize: 7 }, { type: "snv" }],
+    });
+    const expected = normalizeSNV(smoothSavitzkyGolay(peak, 7));
+    expect(Array.from(result[0].y)).toEqual(Array.from(expected));
+    expect(result[0].id).toBe("a");
+    expect(result[0].meta?.sample).toBe("one");
+  });
+
+  it("returns the input for an empty pipeline", () => {
+    expect(applyPipeline(spectra, { steps: [] })).toBe(spectra);
+  });
+
+  it("does not modify the input spectra", () => {
+    applyPipeline(spectra, pipeline);
+    expect(spectra[0].y).toBe(peak);
+    expect(spectra[0].meta).toEqual({ sample: "one" });
+  });
+
+  it("applies set-wise scatter correction", () => {
+    const result = applyPipeline(spectra, { steps: [{ type: "msc" }] });
+    const expected = mscCorrect(spectra);
+    expect(Array.from(result[1].y)).toEqual(Array.from(expected.spectra[1].y));
+  });
+});
+
+describe("provenance", () => {
+  it("records each applied step in meta", () => {
+    const result = applyPipeline(spectra, pipeline);
+    expect(typeof result[1].meta?.[PROCESSING_META_KEY]).toBe("string");
+    expect(getProcessingHistory(result[1])).toEqual(pipeline.steps);
+  });
+
+  it("appends to the history of already processed spectra", () => {
+    const once = applyProcessingStep(spectra, { type: "rubber-band" });
+    const twice = applyProcessingStep(once, { type: "min-max" });
+    expect(getProcessingHistory(twice[0]).map((s) => s.type)).toEqual(["rubber-band", "min-max"]);
+  });
+
+  it("records nothing with provenance off", () => {
+    const result = applyPipeline(spectra, pipeline, { provenance: false });
+    expect(result[0].meta).toEqual({ sample: "one" });
+    expect(result[1].meta).toBeUndefined();
+  });
+
+  it("starts a new history over metadata that is not one", () => {
+    const spectrum = { ...spectra[0], meta: { processing: "[not json" } };
+    const [result] = applyProcessingStep([spectrum], { type: "snv" });
+    expect(getProcessingHistory(result)).toEqual([{ type: "snv" }]);
+  });
+
+  it("leaves scatter correction references out of the record", () => {
+    const [result] = applyProcessingStep(spectra, { type: "emsc", reference: peak, degree: 1 });
+    expect(getProcessingHistory(result)).toEqual([{ type: "emsc", degree: 1 }]);
+  });
+
+  it("returns an empty history for raw or malformed metadata", () => {
+    expect(getProcessingHistory(spectra[0])).toEqual([]);
+    expect(getProcessingHistory({ ...spectra[0], meta: { processing: "not json" } })).toEqual([]);
+  });
+});
+
+describe("serializePipeline / parsePipeline", () => {
+  it("round-trips a pipeline", () => {
+    const recipe = serializePipeline(pipeline);
+    expect(JSON.parse(recipe).version).toBe(1);
+    expect(parsePipeline(recipe)).toEqual(pipeline);
+  });
+
+  it("accepts an already parsed value", () => {
+    expect(parsePipeline({ steps: [{ type: "area" }] })).toEqual({ steps: [{ type: "area" }] });
+  });
+
+  it("reports the offending step and parameter", () => {
+    expect(() =>
+      parsePipeline({ steps: [{ type: "snv" }, { type: "smooth", windowSize: "7" }] }),
+    ).toThrow("steps[1].windowSize is not a number");
+    expect(() => parsePipeline({ steps: [{ type: "fft" }] })).toThrow(
+      'steps[0].type: unknown processing step "fft"',
+    );
+    expect(() => parsePipeline({ steps: [{ type: "snv", window: 3 }] })).toThrow(
+      'steps[0].window is not a parameter of "snv"',
+    );
+    expect(() => parsePipeline({ steps: [{ type: "anchors" }] })).toThrow(
+      "steps[0].anchors is required",
+    );
+    expect(() => parsePipeline({ steps: [{ type: "derivative", order: 4 }] })).toThrow(
+      "steps[0].order must be one of 1, 2, 3",
+    );
+  });
+
+  it("rejects malformed recipes", () => {
+    expect(() => parsePipeline("{")).toThrow("Invalid pipeline JSON");
+    expect(() => parsePipeline({ version: 2, steps: [] })).toThrow("Unsupported pipeline version");
+    expect(() => parsePipeline({ steps: {} })).toThrow("steps array");
+  });
+});
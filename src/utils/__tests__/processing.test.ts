@@ -1,13 +1,24 @@
 import { describe, it, expect } from "vitest";
 import {
   baselineRubberBand,
+  baselineAsLS,
+  baselineArPLS,
+  baselineAirPLS,
+  baselineAnchors,
+  baselineSNIP,
+  baselineRollingBall,
   normalizeMinMax,
   normalizeArea,
   normalizeSNV,
+  mscCorrect,
+  emscCorrect,
   smoothSavitzkyGolay,
+  derivativeSavitzkyGolay,
+  savitzkyGolayCoefficients,
   derivative1st,
   derivative2nd,
 } from "../processing";
+import type { Spectrum } from "../../types";
 
 describe("baselineRubberBand", () => {
   it("corrects a simple linear baseline with peaks above", () => {
@@ -33,6 +44,185 @@ describe("baselineRubberBand", () => {
   });
 });
 
+describe("penalized least-squares baselines", () => {
+  // Broad fluorescence hump with two sharp bands and a little noise
+  const n = 2000;
+  const background = new Float64Array(n);
+  const y = new Float64Array(n);
+  for (let i = 0; i < n; i++) {
+    background[i] = 50 * Math.exp(-(((i - 800) / 500) ** 2)) + 0.002 * i;
+    y[i] =
+      background[i] +
+      30 * Math.exp(-(((i - 600) / 8) ** 2)) +
+      20 * Math.exp(-(((i - 1400) / 6) ** 2)) +
+      0.2 * Math.sin(i * 7.1);
+  }
+
+  const methods = [
+    ["baselineAsLS", baselineAsLS],
+    ["baselineArPLS", baselineArPLS],
+    ["baselineAirPLS", baselineAirPLS],
+  ] as const;
+
+  for (const [name, method] of methods) {
+    describe(name, () => {
+      it("follows a background that rises above the convex hull", () => {
+        const { baseline, corrected } = method(y, { lambda: 1e6 });
+        let maxError = 0;
+        for (let i = 0; i < n; i++) {
+          maxError = Math.max(maxError, Math.abs(baseline[i] - background[i]));
+        }
+        expect(maxError).toBeLessThan(2);
+        expect(corrected[600]).toBeCloseTo(30, 0);
+        expect(corrected[1400]).toBeCloseTo(20, 0);
+      });
+
+      it("returns corrected = y - baseline", () => {
+        const { baseline, corrected } = method(y);
+        for (const i of [0, 500, 1999]) {
+          expect(corrected[i] + baseline[i]).toBeCloseTo(y[i], 10);
+        }
+      });
+
+      it("handles short arrays", () => {
+        const result = method([1, 2]);
+        expect(Array.from(result.corrected)).toEqual([1, 2]);
+        expect(Array.from(result.baseline)).toEqual([0, 0]);
+      });
+    });
+  }
+
+  it("leaves the hump that defeats rubber-band correction", () => {
+    // The rubber band cannot go above the hull, so the hump remains
+    expect(baselineRubberBand(y)[800]).toBeGreaterThan(40);
+    expect(Math.abs(baselineArPLS(y).corrected[800])).toBeLessThan(1);
+  });
+
+  it("runs on 10k-point spectra", () => {
+    const big = Float64Array.from({ length: 10000 }, (_, i) => Math.sin(i / 900) * 10 + (i % 97));
+    const { baseline } = baselineArPLS(big, { maxIterations: 20 });
+    expect(baseline).toHaveLength(10000);
+    expect(baseline.every(Number.isFinite)).toBe(true);
+  });
+});
+
+describe("baselineSNIP", () => {
+  // Linear background with narrow peaks
+  const n = 500;
+  const background = Array.from({ length: n }, (_, i) => 10 + 0.02 * i);
+  const y = background.map(
+    (b, i) => b + 100 * Math.exp(-(((i - 150) / 5) ** 2)) + 5 * Math.exp(-(((i - 350) / 5) ** 2)),
+  );
+
+  it("clips peaks down to the background", () => {
+    const { baseline, corrected } = baselineSNIP(y, { iterations: 30 });
+    for (const i of [50, 150, 250, 350, 450]) {
+      expect(baseline[i]).toBeCloseTo(background[i], 1);
+    }
+    expect(corrected[150]).toBeCloseTo(100, 0);
+    expect(corrected[350]).toBeCloseTo(5, 1);
+  });
+
+  it("supports the LLS transform and decreasing clipping windows", () => {
+    for (const options of [{ lls: true }, { decreasing: true }, { lls: true, decreasing: true }]) {
+      const { baseline } = baselineSNIP(y, { iterations: 30, ...options });
+      expect(baseline[150]).toBeCloseTo(background[150], 0);
+      expect(baseline[350]).toBeCloseTo(background[350], 0);
+    }
+  });
+
+  it("inverts the LLS transform exactly where nothing is clipped", () => {
+    const flat = [-2, -2, -2, -2, -2];
+    const { baseline } = baselineSNIP(flat, { lls: true });
+    for (const v of baseline) expect(v).toBeCloseTo(-2, 10);
+  });
+
+  it("handles short arrays", () => {
+    expect(Array.from(baselineSNIP([3, 4]).corrected)).toEqual([3, 4]);
+  });
+});
+
+describe("baselineRollingBall", () => {
+  const n = 400;
+  const background = Array.from({ length: n }, (_, i) => 5 + 3 * Math.sin(i / 80));
+  const y = background.map((b, i) => b + 20 * Math.exp(-(((i - 200) / 6) ** 2)));
+
+  it("rolls under narrow peaks", () => {
+    const { baseline, corrected } = baselineRollingBall(y, { halfWindow: 30, smoothHalfWindow: 5 });
+    expect(baseline[200]).toBeCloseTo(background[200], 0);
+    expect(corrected[200]).toBeCloseTo(20, 0);
+    for (let i = 0; i < n; i++) expect(baseline[i]).toBeLessThan(y[i] + 0.5);
+  });
+
+  it("returns the data as baseline for a zero-width ball", () => {
+    const { baseline } = baselineRollingBall([1, 5, 2, 8], { halfWindow: 0 });
+    expect(Array.from(baseline)).toEqual([1, 5, 2, 8]);
+  });
+
+  it("truncates windows at the ends", () => {
+    const { baseline } = baselineRollingBall([4, 1, 6, 3, 7], {
+      halfWindow: 1,
+      smoothHalfWindow: 0,
+    });
+    // Moving min [1, 1, 1, 3, 3], then moving max
+    expect(Array.from(baseline)).toEqual([1, 1, 3, 3, 3]);
+  });
+});
+
+describe("baselineAnchors", () => {
+  // Curved background with a band between 40 and 60
+  const x = Array.from({ length: 101 }, (_, i) => i);
+  const background = x.map((v) => 1 + 0.02 * v + 0.0004 * v * v);
+  const y = x.map((v, i) => background[i] + 5 * Math.exp(-(((v - 50) / 4) ** 2)));
+  const anchors = [0, 20, 35, 65, 80, 100];
+
+  it("joins anchors with straight lines by default", () => {
+    const { baseline, corrected } = baselineAnchors(x, y, [0, 100]);
+    expect(baseline[50]).toBeCloseTo((y[0] + y[100]) / 2, 10);
+    expect(corrected[0]).toBeCloseTo(0, 10);
+    expect(corrected[100]).toBeCloseTo(0, 10);
+  });
+
+  it("fits a polynomial of the given degree", () => {
+    const { baseline, corrected } = baselineAnchors(x, y, anchors, {
+      method: "polynomial",
+      degree: 2,
+    });
+    for (let i = 0; i <= 100; i += 10) expect(baseline[i]).toBeCloseTo(background[i], 4);
+    expect(corrected[50]).toBeCloseTo(5, 4);
+  });
+
+  it("passes a cubic spline through every anchor", () => {
+    const { baseline } = baselineAnchors(x, y, anchors, { method: "cubic-spline" });
+    for (const a of anchors) expect(baseline[a]).toBeCloseTo(y[a], 10);
+    expect(baseline[50]).toBeCloseTo(background[50], 1);
+  });
+
+  it("handles descending X, unsorted and out-of-range anchors", () => {
+    const xr = [...x].reverse();
+    const yr = [...y].reverse();
+    const { baseline } = baselineAnchors(xr, yr, [100, 500, 0, -3], { method: "linear" });
+    expect(baseline[0]).toBeCloseTo(y[100], 10);
+    expect(baseline[100]).toBeCloseTo(y[0], 10);
+  });
+
+  it("stays level beyond the outermost anchors", () => {
+    const { baseline } = baselineAnchors(x, y, [20, 80], { method: "cubic-spline" });
+    expect(baseline[0]).toBeCloseTo(y[20], 10);
+    expect(baseline[100]).toBeCloseTo(y[80], 10);
+  });
+
+  it("caps the polynomial degree at anchors − 1", () => {
+    const { baseline } = baselineAnchors(x, y, [0, 100], { method: "polynomial", degree: 5 });
+    expect(baseline[50]).toBeCloseTo((y[0] + y[100]) / 2, 8);
+  });
+
+  it("returns a flat or zero baseline for one or no anchors", () => {
+    expect(baselineAnchors(x, y, [30]).baseline[90]).toBeCloseTo(y[30], 10);
+    expect(Array.from(baselineAnchors(x, y, []).corrected)).toEqual(y);
+  });
+});
+
 describe("normalizeMinMax", () => {
   it("normalizes to [0, 1] range", () => {
     const y = [10, 20, 30, 40, 50];
@@ -109,6 +299,110 @@ describe("normalizeSNV", () => {
   });
 });
 
+describe("scatter correction", () => {
+  const n = 200;
+  const x = Array.from({ length: n }, (_, i) => 1000 + 5 * i);
+  const reference = x.map(
+    (v) => 0.2 + Math.exp(-(((v - 1300) / 40) ** 2)) + 0.6 * Math.exp(-(((v - 1700) / 60) ** 2)),
+  );
+
+  function sample(id: string, offset: number, scale: number, curve = 0): Spectrum {
+    const y = reference.map((r, i) => {
+      const t = (2 * i) / (n - 1) - 1;
+      return offset + scale * r + curve * t * t;
+    });
+    return { id, label: id, x, y, meta: { batch: 1 } };
+  }
+
+  describe("mscCorrect", () => {
+    it("recovers offset and scale against an explicit reference", () => {
+      const result = mscCorrect([sample("a", 0.3, 1.5), sample("b", -0.1, 0.8)], reference);
+
+      expect(result.coefficients[0].offset).toBeCloseTo(0.3, 10);
+      expect(result.coefficients[0].scale).toBeCloseTo(1.5, 10);
+      expect(result.coefficients[1].spectrumId).toBe("b");
+      expect(result.coefficients[1].polynomial).toEqual([]);
+      for (const s of result.spectra) {
+        for (let i = 0; i < n; i += 20) expect(s.y[i]).toBeCloseTo(reference[i], 10);
+      }
+    });
+
+    it("uses the mean spectrum as the default reference", () => {
+      const spectra = [sample("a", 0.3, 1.5), sample("b", -0.1, 0.5)];
+      const result = mscCorrect(spectra);
+
+      expect(result.reference[0]).toBeCloseTo(
+        ((spectra[0].y[0] as number) + (spectra[1].y[0] as number)) / 2,
+        10,
+      );
+      // Both samples map onto the same corrected spectrum
+      for (let i = 0; i < n; i += 20) {
+        expect(result.spectra[0].y[i]).toBeCloseTo(result.spectra[1].y[i] as number, 10);
+      }
+    });
+
+    it("keeps IDs and metadata and handles empty input", () => {
+      const result = mscCorrect([sample("a", 0, 2)]);
+      expect(result.spectra[0]).toMatchObject({ id: "a", label: "a", meta: { batch: 1 } });
+      expect(mscCorrect([])).toEqual({
+        spectra: [],
+        coefficients: [],
+        reference: new Float64Array(0),
+      });
+    });
+  });
+
+  describe("emscCorrect", () => {
+    it("removes a polynomial baseline that MSC cannot", () => {
+      const spectra = [sample("a", 0.3, 1.5, 0.4), sample("b", -0.1, 0.8, -0.2)];
+      const emsc = emscCorrect(spectra, { reference, degree: 2 });
+      const msc = mscCorrect(spectra, reference);
+
+      expect(emsc.coefficients[0].scale).toBeCloseTo(1.5, 8);
+      expect(emsc.coefficients[0].polynomial[0]).toBeCloseTo(0, 8);
+      expect(emsc.coefficients[0].polynomial[1]).toBeCloseTo(0.4, 8);
+      expect(emsc.coefficients[1].polynomial[1]).toBeCloseTo(-0.2, 8);
+      for (let i = 0; i < n; i += 20) {
+        expect(emsc.spectra[0].y[i]).toBeCloseTo(reference[i], 8);
+      }
+      expect(Math.abs((msc.spectra[0].y[0] as number) - reference[0])).toBeGreaterThan(0.01);
+    });
+
+    it("equals MSC with degree 0", () => {
+      const spectra = [sample("a", 0.3, 1.5, 0.4), sample("b", -0.1, 0.8)];
+      const emsc = emscCorrect(spectra, { degree: 0 });
+      const msc = mscCorrect(spectra);
+      expect(Array.from(emsc.spectra[0].y)).toEqual(Array.from(msc.spectra[0].y));
+    });
+
+    it("truncates spectra to the shortest", () => {
+      const short = { ...sample("b", 0, 1), x: x.slice(0, 150), y: reference.slice(0, 150) };
+      const result = emscCorrect([sample("a", 0.1, 1.2), short]);
+      expect(result.reference).toHaveLength(150);
+      expect(result.spectra[0].x).toHaveLength(150);
+    });
+
+    it("rejects spectra on different X grids", () => {
+      const shifted = { ...sample("b", 0, 1), x: x.map((v) => v + 2) };
+      expect(() => emscCorrect([sample("a", 0.1, 1.2), shifted])).toThrow(
+        '"b" is not on the X grid of "a"',
+      );
+    });
+
+    it("rejects references the model cannot separate from the baseline", () => {
+      const spectra = [sample("a", 0.1, 1.2), sample("b", 0, 1)];
+      const linear = x.map((v) => 0.5 + v / 1000);
+
+      expect(() => mscCorrect(spectra, new Array(n).fill(1))).toThrow("reference is constant");
+      expect(() => emscCorrect(spectra, { reference: linear, degree: 1 })).toThrow(
+        "polynomial of degree ≤ 1",
+      );
+      const flat = spectra.map((s) => ({ ...s, x: new Array(n).fill(1000) }));
+      expect(() => emscCorrect(flat, { degree: 2 })).toThrow("X range is zero");
+    });
+  });
+});
+
 describe("smoothSavitzkyGolay", () => {
   it("reduces noise while preserving general shape", () => {
     // Noisy sine wave
@@ -137,6 +431,74 @@ describe("smoothSavitzkyGolay", () => {
     expect(result).toHaveLength(3);
     expect(result[0]).toBe(1);
   });
+
+  it("preserves polynomials up to the fitted order, including the edges", () => {
+    const y = Array.from({ length: 20 }, (_, i) => 0.5 * i ** 3 - 2 * i ** 2 + i);
+    const result = smoothSavitzkyGolay(y, 9, { polyOrder: 3 });
+    for (let i = 0; i < y.length; i++) {
+      expect(result[i]).toBeCloseTo(y[i], 8);
+    }
+  });
+
+  it("handles windows beyond the old precomputed sizes", () => {
+    const y = Array.from({ length: 50 }, (_, i) => Math.sin(i * 0.2) + (i % 2 ? 0.1 : -0.1));
+    const result = smoothSavitzkyGolay(y, 15, { polyOrder: 4 });
+    // The alternating noise is strongly attenuated
+    expect(Math.abs(result[25] - Math.sin(25 * 0.2))).toBeLessThan(0.02);
+  });
+
+  it("mirrors the data at the edges when requested", () => {
+    const y = [5, 1, 5, 1, 5, 1, 5, 1, 5];
+    const fit = smoothSavitzkyGolay(y, 5, { edges: "fit" });
+    const mirror = smoothSavitzkyGolay(y, 5, { edges: "mirror" });
+    // Reflection about y[0] gives the same symmetric window as the interior
+    expect(mirror[0]).toBeCloseTo(mirror[4], 10);
+    expect(fit[0]).not.toBeCloseTo(mirror[0], 3);
+  });
+
+  it("computes derivatives scaled by the X spacing", () => {
+    const y = Array.from({ length: 15 }, (_, i) => (0.5 * i) ** 2);
+    const dy = smoothSavitzkyGolay(y, 5, { derivative: 1, delta: 0.5 });
+    const d2y = smoothSavitzkyGolay(y, 5, { derivative: 2, delta: 0.5 });
+    for (let i = 0; i < y.length; i++) {
+      expect(dy[i]).toBeCloseTo(2 * 0.5 * i, 8);
+      expect(d2y[i]).toBeCloseTo(2, 8);
+    }
+  });
+});
+
+describe("savitzkyGolayCoefficients", () => {
+  it("matches the tabulated quadratic smoothing coefficients", () => {
+    const c = Array.from(savitzkyGolayCoefficients(7, 2)).map((v) => v * 21);
+    [-2, 3, 6, 7, 6, 3, -2].forEach((expected, i) => expect(c[i]).toBeCloseTo(expected, 10));
+  });
+
+  it("matches the tabulated cubic third-derivative coefficients", () => {
+    const c = Array.from(savitzkyGolayCoefficients(7, 3, 3)).map((v) => v * 6);
+    [-1, 1, 1, 0, -1, -1, 1].forEach((expected, i) => expect(c[i]).toBeCloseTo(expected, 10));
+  });
+
+  it("returns zeros for derivatives above the polynomial order", () => {
+    expect(Array.from(savitzkyGolayCoefficients(5, 1, 2))).toEqual([0, 0, 0, 0, 0]);
+  });
+});
+
+describe("derivativeSavitzkyGolay", () => {
+  it("differentiates with respect to a descending X axis", () => {
+    const x = Array.from({ length: 30 }, (_, i) => 100 - i * 0.5);
+    const y = x.map((v) => 0.01 * v ** 3 - v);
+    const dy = derivativeSavitzkyGolay(x, y, 1, 7, { polyOrder: 3 });
+    const d3y = derivativeSavitzkyGolay(x, y, 3, 7);
+    for (let i = 0; i < x.length; i++) {
+      expect(dy[i]).toBeCloseTo(0.03 * x[i] ** 2 - 1, 6);
+      expect(d3y[i]).toBeCloseTo(0.06, 6);
+    }
+  });
+
+  it("handles degenerate input", () => {
+    expect(derivativeSavitzkyGolay([1], [2])).toHaveLength(1);
+    expect(Array.from(derivativeSavitzkyGolay([1, 1, 1], [1, 2, 3]))).toEqual([0, 0, 0]);
+  });
 });
 
 describe("derivative1st", () => {
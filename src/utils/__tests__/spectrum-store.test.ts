@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from "vitest";
+import { IDBFactory } from "fake-indexeddb";
+import { SpectrumStore } from "../spectrum-store";
+import { createTestSpectrum, createTestSpectrum2 } from "../../test/helpers";
+
+describe("SpectrumStore", () => {
+  let store: SpectrumStore;
+
+  beforeEach(() => {
+    store = new SpectrumStore({ indexedDB: new IDBFactory() });
+  });
+
+  afterEach(() => {
+    store.close();
+    vi.useRealTimers();
+  });
+
+  it("round-trips spectra with their data as Float64Arrays", async () => {
+    const spectrum = createTestSpectrum({ meta: { operator: "jdoe" }, color: "#123456" });
+    await store.save({ ...spectrum, y: Array.from(spectrum.y) });
+
+    const loaded = await store.get(spectrum.id);
+    expect(loaded).toMatchObject({
+      id: spectrum.id,
+      label: spectrum.label,
+      meta: { operator: "jdoe" },
+      color: "#123456",
+    });
+    // structuredClone in the test environment returns arrays from another realm
+    expect(Object.prototype.toString.call(loaded!.x)).toBe("[object Float64Array]");
+    expect(Object.prototype.toString.call(loaded!.y)).toBe("[object Float64Array]");
+    expect(Array.from(loaded!.y)).toEqual(Array.from(spectrum.y));
+    expect(loaded).not.toHaveProperty("tags");
+    expect(await store.get("missing")).toBeUndefined();
+  });
+
+  it("lists metadata without data arrays", async () => {
+    await store.save([createTestSpectrum(), createTestSpectrum2()], { tags: ["ir"] });
+
+    const infos = await store.list();
+    expect(infos).toHaveLength(2);
+    for (const info of infos) {
+      expect(info).not.toHaveProperty("x");
+      expect(info).not.toHaveProperty("y");
+      expect(info).not.toHaveProperty("searchText");
+      expect(info.points).toBe(100);
+      expect(info.tags).toEqual(["ir"]);
+    }
+  });
+
+  it("searches label, meta and tags case-insensitively", async () => {
+    await store.save(createTestSpectrum({ label: "Polystyrene film", meta: { site: "Lab B" } }));
+    await store.save(createTestSpectrum2({ label: "Ethanol" }), { tags: ["Solvent"] });
+
+    const ids = async (search: string) => (await store.list({ search })).map((i) => i.label);
+    expect(await ids("polystyrene")).toEqual(["Polystyrene film"]);
+    expect(await ids("lab b")).toEqual(["Polystyrene film"]);
+    expect(await ids("film lab")).toEqual(["Polystyrene film"]);
+    expect(await ids("solvent")).toEqual(["Ethanol"]);
+    expect(await ids("film ethanol")).toEqual([]);
+  });
+
+  it("filters by tags and manages them", async () => {
+    const a = createTestSpectrum({ id: "a" });
+    const b = createTestSpectrum2({ id: "b" });
+    await store.save(a, { tags: ["polymer", " reference ", "polymer"] });
+    await store.save(b, { tags: ["polymer"] });
+
+    expect((await store.list({ tags: ["polymer"] })).map((i) => i.id).sort()).toEqual(["a", "b"]);
+    expect((await store.list({ tags: ["polymer", "reference"] })).map((i) => i.id)).toEqual(["a"]);
+    expect(await store.tags()).toEqual(["polymer", "reference"]);
+
+    expect(await store.addTags("b", ["qc"])).toBe(true);
+    expect(await store.removeTags("a", ["reference"])).toBe(true);
+    expect(await store.setTags("missing", ["x"])).toBe(false);
+    expect(await store.tags()).toEqual(["polymer", "qc"]);
+
+    // Re-saving without tags keeps them
+    await store.save(b);
+    expect((await store.list({ tags: ["qc"] })).map((i) => i.id)).toEqual(["b"]);
+  });
+
+  it("keeps the creation time and lists the most recently updated first", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(1000);
+    await store.save(createTestSpectrum({ id: "a" }));
+    vi.setSystemTime(2000);
+    await store.save(createTestSpectrum2({ id: "b" }));
+    vi.setSystemTime(3000);
+    await store.save(createTestSpectrum({ id: "a", label: "Renamed" }));
+
+    const infos = await store.list();
+    expect(infos.map((i) => [i.id, i.createdAt, i.updatedAt])).toEqual([
+      ["a", 1000, 3000],
+      ["b", 2000, 2000],
+    ]);
+    expect(infos[0].label).toBe("Renamed");
+  });
+
+  it("deletes and clears", async () => {
+    await store.save([createTestSpectrum({ id: "a" }), createTestSpectrum2({ id: "b" })]);
+
+    await store.delete("a");
+    expect(await store.get("a")).toBeUndefined();
+    expect((await store.list()).map((i) => i.id)).toEqual(["b"]);
+
+    await store.clear();
+    expect(await store.list()).toEqual([]);
+  });
+
+  it("reports a missing IndexedDB", async () => {
+    vi.stubGlobal("indexedDB", undefined);
+    try {
+      await expect(new SpectrumStore().list()).rejects.toThrow("IndexedDB is not available");
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Base64 encoding and decoding of packed numeric arrays, as embedded in
+ * XML and JSON spectral formats.
+ *
+ * @module base64
+ */
+
+/** Binary number types found in base64-encoded arrays. */
+export type NumericType = "int32" | "int64" | "float32" | "float64";
+
+/** Size in bytes of each numeric type. */
+export const TYPE_SIZES: Record<NumericType, number> = {
+  int32: 4,
+  int64: 8,
+  float32: 4,
+  float64: 8,
+};
+
+/**
+ * Decode base64 text into bytes. Whitespace, as found in wrapped XML
+ * content, is ignored.
+ *
+ * @throws Error if the text is not valid base64
+ */
+export function decodeBase64(text: string): Uint8Array {
+  const binary = atob(text.replace(/\s+/g, ""));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/** Encode bytes as base64 text. */
+export function encodeBase64(bytes: Uint8Array): string {
+  // Build the binary string in chunks to stay within argument limits
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Decode a base64-encoded array of binary numbers.
+ *
+ * Trailing bytes that do not fill a whole value are ignored.
+ *
+ * @param text - Base64 text
+ * @param type - Binary type of each value
+ * @param littleEndian - Byte order of the values (default true)
+ * @returns The values as a Float64Array
+ * @throws Error if the text is not valid base64
+ */
+export function decodeBase64Numbers(
+  text: string,
+  type: NumericType,
+  littleEndian = true,
+): Float64Array {
+  return bytesToNumbers(decodeBase64(text), type, littleEndian);
+}
+
+/**
+ * Encode numbers as a base64 array of binary values.
+ *
+ * @param values - Values to encode
+ * @param type - Binary type of each value
+ * @param littleEndian - Byte order of the values (default true)
+ * @returns Base64 text
+ */
+export function encodeBase64Numbers(
+  values: ArrayLike<number>,
+  type: NumericType,
+  littleEndian = true,
+): string {
+  const size = TYPE_SIZES[type];
+  const view = new DataView(new ArrayBuffer(values.length * size));
+
+  for (let i = 0; i < values.length; i++) {
+    const offset = i * size;
+    switch (type) {
+      case "int32":
+        view.setInt32(offset, values[i], littleEndian);
+        break;
+      case "int64":
+        view.setBigInt64(offset, BigInt(Math.trunc(values[i])), littleEndian);
+        break;
+      case "float32":
+        view.setFloat32(offset, values[i], littleEndian);
+        break;
+      case "float64":
+        view.setFloat64(offset, values[i], littleEndian);
+        break;
+    }
+  }
+
+  return encodeBase64(new Uint8Array(view.buffer));
+}
+
+/**
+ * Read packed binary numbers from bytes.
+ *
+ * Trailing bytes that do not fill a whole value are ignored.
+ *
+ * @param bytes - Packed values
+ * @param type - Binary type of each value
+ * @param littleEndian - Byte order of the values (default true)
+ * @returns The values as a Float64Array
+ */
+export function bytesToNumbers(
+  bytes: Uint8Array,
+  type: NumericType,
+  littleEndian = true,
+): Float64Array {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const size = TYPE_SIZES[type];
+  const values = new Float64Array(Math.floor(bytes.length / size));
+
+  for (let i = 0; i < values.length; i++) {
+    const offset = i * size;
+    switch (type) {
+      case "int32":
+        values[i] = view.getInt32(offset, littleEndian);
+        break;
+      case "int64":
+        values[i] = Number(view.getBigInt64(offset, littleEndian));
+        break;
+      case "float32":
+        values[i] = view.getFloat32(offset, littleEndian);
+        break;
+      case "float64":
+        values[i] = view.getFloat64(offset, littleEndian);
+        break;
+    }
+  }
+
+  return values;
+}
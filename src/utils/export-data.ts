@@ -1,5 +1,5 @@
 /**
- * Data export utilities for CSV and JSON output.
+ * Data export utilities for CSV, JSON and JCAMP-DX output.
  *
  * Supports full spectrum export, region-limited export, and
  * multi-spectrum batch export.
@@ -7,7 +7,8 @@
  * @module export-data
  */
 
-import type { Spectrum } from "../types";
+import type { Spectrum, SpectrumType } from "../types";
+import { encodeBase64Numbers } from "./base64";
 
 export interface ExportOptions {
   /** Delimiter for CSV. Defaults to ",". */
@@ -104,14 +105,32 @@ export function multiSpectraToCsv(
   return lines.join("\n");
 }
 
+export interface JsonExportOptions extends ExportOptions {
+  /**
+   * How to write the x and y arrays. "array" writes JSON numbers rounded
+   * to `precision`; "float32" and "float64" write base64-encoded
+   * little-endian binary at full precision. Defaults to "array".
+   */
+  encoding?: "array" | "float32" | "float64";
+  /**
+   * Write an evenly spaced X axis as `firstX`, `lastX` and `npoints`
+   * instead of an array. Unevenly spaced axes are still written out.
+   * Defaults to false.
+   */
+  implicitX?: boolean;
+}
+
 /**
  * Export spectrum data to JSON string.
+ *
+ * The output is read back by `parseJson`, including the compact
+ * base64 and implicit-X encodings.
  */
 export function spectrumToJson(
   spectrum: Spectrum,
-  options: ExportOptions = {},
+  options: JsonExportOptions = {},
 ): string {
-  const { xRange, precision = 6 } = options;
+  const { xRange, precision = 6, encoding = "array", implicitX = false } = options;
   const n = Math.min(spectrum.x.length, spectrum.y.length);
 
   const x: number[] = [];
@@ -124,10 +143,19 @@ export function spectrumToJson(
       const max = Math.max(xRange[0], xRange[1]);
       if (xv < min || xv > max) continue;
     }
-    x.push(parseFloat(xv.toFixed(precision)));
-    y.push(parseFloat((spectrum.y[i] as number).toFixed(precision)));
+    x.push(xv);
+    y.push(spectrum.y[i] as number);
   }
 
+  const encode = (values: number[]) =>
+    encoding === "array"
+      ? values.map((v) => parseFloat(v.toFixed(precision)))
+      : { encoding: "base64", dtype: encoding, data: encodeBase64Numbers(values, encoding) };
+  const xAxis =
+    implicitX && x.length > 0 && isEvenlySpaced(x)
+      ? { firstX: x[0], lastX: x[x.length - 1], npoints: x.length }
+      : { x: encode(x) };
+
   return JSON.stringify(
     {
       id: spectrum.id,
@@ -135,14 +163,322 @@ export function spectrumToJson(
       xUnit: spectrum.xUnit,
       yUnit: spectrum.yUnit,
       type: spectrum.type,
-      x,
-      y,
+      ...xAxis,
+      y: encode(y),
     },
     null,
     2,
   );
 }
 
+export interface JcampExportOptions {
+  /** X-range to export [min, max]. If undefined, exports all. */
+  xRange?: [number, number];
+  /**
+   * Ordinate encoding. "affn" writes plain numbers; "difdup" writes the
+   * compact DIF/DUP form scaled by YFACTOR. Defaults to "affn".
+   */
+  compression?: "affn" | "difdup";
+  /** Significant digits kept for ordinates. Defaults to 8. */
+  significantDigits?: number;
+  /** ##ORIGIN= value when `meta.ORIGIN` is absent. Defaults to "SpectraView". */
+  origin?: string;
+  /** ##OWNER= value when `meta.OWNER` is absent. Defaults to "". */
+  owner?: string;
+}
+
+/** ##DATA TYPE= values for each spectrum type. */
+const JCAMP_DATA_TYPES: Record<SpectrumType, string> = {
+  IR: "INFRARED SPECTRUM",
+  Raman: "RAMAN SPECTRUM",
+  NIR: "NEAR INFRARED SPECTRUM",
+  "UV-Vis": "UV/VIS SPECTRUM",
+  fluorescence: "FLUORESCENCE SPECTRUM",
+  other: "UNKNOWN",
+};
+
+/** JCAMP-DX spellings for units that SpectraView labels with non-ASCII text. */
+const JCAMP_UNITS: Record<string, string> = {
+  "cm⁻¹": "1/CM",
+  "Raman shift (cm⁻¹)": "1/CM",
+  "µm": "MICROMETERS",
+  nm: "NANOMETERS",
+};
+
+/** JCAMP-DX spellings of the Y units other readers recognise. */
+const JCAMP_Y_UNITS: Record<string, string> = {
+  Absorbance: "ABSORBANCE",
+  Transmittance: "TRANSMITTANCE",
+  Reflectance: "REFLECTANCE",
+  "Kubelka-Munk": "KUBELKA-MUNK",
+  Arbitrary: "ARBITRARY UNITS",
+};
+
+/** Labels written by the JCAMP-DX exporter itself; never copied from meta. */
+const JCAMP_RESERVED_LABELS = new Set([
+  "TITLE",
+  "JCAMP-DX",
+  "DATA TYPE",
+  "DATA CLASS",
+  "ORIGIN",
+  "OWNER",
+  "BLOCKS",
+  "BLOCK_ID",
+  "XUNITS",
+  "YUNITS",
+  "XFACTOR",
+  "YFACTOR",
+  "FIRSTX",
+  "LASTX",
+  "DELTAX",
+  "FIRSTY",
+  "MINY",
+  "MAXY",
+  "NPOINTS",
+  "XYDATA",
+  "XYPOINTS",
+  "PEAK TABLE",
+  "END",
+]);
+
+/** Maximum JCAMP-DX line length (including the abscissa). */
+const JCAMP_LINE_LENGTH = 80;
+
+/**
+ * Export a spectrum to a JCAMP-DX 5.01 string.
+ *
+ * Evenly spaced data is written as `##XYDATA=(X++(Y..Y))`, optionally
+ * DIFDUP-compressed with a Y-value check at every line break; unevenly
+ * spaced data falls back to `##XYPOINTS=(XY..XY)`. `meta` entries are
+ * written as user-defined `##$` labels.
+ */
+export function spectrumToJcamp(
+  spectrum: Spectrum,
+  options: JcampExportOptions = {},
+): string {
+  return [...jcampBlockLines(spectrum, options), "##END="].join("\n") + "\n";
+}
+
+/**
+ * Export several spectra to one JCAMP-DX 5.01 compound file.
+ *
+ * Each spectrum becomes a block of a `##DATA TYPE= LINK` file, numbered
+ * with `##BLOCK_ID=` in array order.
+ */
+export function spectraToJcamp(
+  spectra: Spectrum[],
+  options: JcampExportOptions & { title?: string } = {},
+): string {
+  const { title = "SpectraView export", ...blockOptions } = options;
+  const lines = [
+    `##TITLE= ${title}`,
+    "##JCAMP-DX= 5.01",
+    "##DATA TYPE= LINK",
+    `##BLOCKS= ${spectra.length}`,
+  ];
+
+  spectra.forEach((spectrum, i) => {
+    lines.push(...jcampBlockLines(spectrum, blockOptions, i + 1), "##END=");
+  });
+  lines.push("##END=");
+
+  return lines.join("\n") + "\n";
+}
+
+/** Build the lines of one JCAMP-DX block, without its closing ##END=. */
+function jcampBlockLines(
+  spectrum: Spectrum,
+  options: JcampExportOptions,
+  blockId?: number,
+): string[] {
+  const {
+    xRange,
+    compression = "affn",
+    significantDigits = 8,
+    origin = "SpectraView",
+    owner = "",
+  } = options;
+
+  const xs: number[] = [];
+  const ys: number[] = [];
+  const n = Math.min(spectrum.x.length, spectrum.y.length);
+  for (let i = 0; i < n; i++) {
+    const x = spectrum.x[i] as number;
+    if (xRange) {
+      const min = Math.min(xRange[0], xRange[1]);
+      const max = Math.max(xRange[0], xRange[1]);
+      if (x < min || x > max) continue;
+    }
+    xs.push(x);
+    ys.push(spectrum.y[i] as number);
+  }
+
+  const meta = spectrum.meta ?? {};
+  const lines = [
+    `##TITLE= ${jcampValue(spectrum.label)}`,
+    "##JCAMP-DX= 5.01",
+    `##DATA TYPE= ${JCAMP_DATA_TYPES[spectrum.type ?? "other"]}`,
+    `##ORIGIN= ${jcampValue(meta["ORIGIN"] ?? origin)}`,
+    `##OWNER= ${jcampValue(meta["OWNER"] ?? owner)}`,
+  ];
+  if (blockId !== undefined) lines.push(`##BLOCK_ID= ${blockId}`);
+
+  for (const [key, value] of Object.entries(meta)) {
+    const label = key.toUpperCase();
+    if (JCAMP_RESERVED_LABELS.has(label)) continue;
+    lines.push(`##${label.startsWith("$") ? "" : "$"}${label}= ${jcampValue(value)}`);
+  }
+
+  const xUnit = spectrum.xUnit
+    ? (JCAMP_UNITS[spectrum.xUnit] ?? spectrum.xUnit)
+    : "ARBITRARY UNITS";
+  const yUnit = spectrum.yUnit
+    ? (JCAMP_Y_UNITS[spectrum.yUnit] ?? spectrum.yUnit)
+    : "ARBITRARY UNITS";
+  lines.push(`##XUNITS= ${jcampValue(xUnit)}`, `##YUNITS= ${jcampValue(yUnit)}`);
+
+  const count = xs.length;
+  const even = isEvenlySpaced(xs);
+  const allFinite = ys.every(Number.isFinite);
+  const useDifDup = compression === "difdup" && even && allFinite && count > 0;
+  const yFactor = useDifDup ? ordinateFactor(ys, significantDigits) : 1;
+
+  lines.push("##XFACTOR= 1", `##YFACTOR= ${yFactor}`);
+  if (count > 0) {
+    lines.push(`##FIRSTX= ${xs[0]}`, `##LASTX= ${xs[count - 1]}`);
+    if (even && count > 1) {
+      lines.push(`##DELTAX= ${(xs[count - 1] - xs[0]) / (count - 1)}`);
+    }
+    lines.push(`##FIRSTY= ${Number.isFinite(ys[0]) ? ys[0] : "?"}`);
+  }
+  lines.push(`##NPOINTS= ${count}`);
+
+  if (!even) {
+    lines.push("##XYPOINTS= (XY..XY)");
+    for (let i = 0; i < count; i++) {
+      const x = formatAffn(xs[i], significantDigits);
+      lines.push(`${x}, ${formatAffn(ys[i], significantDigits)}`);
+    }
+  } else if (useDifDup) {
+    lines.push("##XYDATA= (X++(Y..Y))");
+    const scaled = ys.map((y) => Math.round(y / yFactor));
+    lines.push(...encodeDifDup(xs, scaled, significantDigits));
+  } else {
+    lines.push("##XYDATA= (X++(Y..Y))");
+    lines.push(...encodeAffn(xs, ys, significantDigits));
+  }
+
+  return lines;
+}
+
+/** Flatten a header value onto a single line. */
+function jcampValue(value: string | number): string {
+  return String(value).replace(/\r?\n/g, " ").trim();
+}
+
+/** Whether abscissas are evenly spaced (required by X++(Y..Y) tables). */
+function isEvenlySpaced(xs: number[]): boolean {
+  const n = xs.length;
+  if (n < 2) return true;
+  const step = (xs[n - 1] - xs[0]) / (n - 1);
+  if (step === 0) return false;
+  const tolerance = Math.abs(step) * 1e-6;
+  for (let i = 1; i < n - 1; i++) {
+    if (Math.abs(xs[i] - (xs[0] + i * step)) > tolerance) return false;
+  }
+  return true;
+}
+
+/**
+ * Pick a power-of-ten YFACTOR so the largest ordinate keeps
+ * `significantDigits` integer digits.
+ */
+function ordinateFactor(ys: number[], significantDigits: number): number {
+  let maxAbs = 0;
+  for (const y of ys) maxAbs = Math.max(maxAbs, Math.abs(y));
+  if (maxAbs === 0) return 1;
+  const exponent = Math.floor(Math.log10(maxAbs)) - (significantDigits - 1);
+  return Number(`1e${exponent}`);
+}
+
+/** Format a number in AFFN, keeping `significantDigits` digits. */
+function formatAffn(value: number, significantDigits: number): string {
+  if (!Number.isFinite(value)) return "?";
+  return String(Number(value.toPrecision(significantDigits)));
+}
+
+/** Write X++(Y..Y) lines in AFFN form. */
+function encodeAffn(xs: number[], ys: number[], significantDigits: number): string[] {
+  const lines: string[] = [];
+  let line = "";
+  for (let i = 0; i < ys.length; i++) {
+    const value = formatAffn(ys[i], significantDigits);
+    if (line !== "" && line.length + 1 + value.length > JCAMP_LINE_LENGTH) {
+      lines.push(line);
+      line = "";
+    }
+    if (line === "") line = formatAffn(xs[i], significantDigits);
+    line += ` ${value}`;
+  }
+  if (line !== "") lines.push(line);
+  return lines;
+}
+
+/** Encode an integer, replacing its leading digit with a pseudo-digit. */
+function encodeAsdf(value: number, positive: string, negative: string): string {
+  const digits = String(Math.abs(value));
+  const lead = Number(digits[0]);
+  const char = value < 0 ? negative[lead - 1] : positive[lead];
+  return char + digits.slice(1);
+}
+
+/** SQZ form of an integer ordinate. */
+function sqz(value: number): string {
+  return encodeAsdf(value, "@ABCDEFGHI", "abcdefghi");
+}
+
+/** DIF form of an integer difference. */
+function dif(value: number): string {
+  return encodeAsdf(value, "%JKLMNOPQR", "jklmnopqr");
+}
+
+/** DUP form of a repeat count (>= 2): `S`–`Z`=1–8, `s`=9. */
+function dup(count: number): string {
+  const digits = String(count);
+  return "STUVWXYZs"[Number(digits[0]) - 1] + digits.slice(1);
+}
+
+/**
+ * Write X++(Y..Y) lines in DIFDUP form.
+ *
+ * Each line starts with an absolute (SQZ) ordinate followed by DIF
+ * tokens; runs of equal differences collapse into a DUP count. Every
+ * line after the first repeats the previous line's last ordinate as the
+ * Y-value check.
+ */
+function encodeDifDup(xs: number[], ys: number[], significantDigits: number): string[] {
+  const lines: string[] = [];
+  let line = formatAffn(xs[0], significantDigits) + sqz(ys[0]);
+
+  let i = 1;
+  while (i < ys.length) {
+    const delta = ys[i] - ys[i - 1];
+    let run = 1;
+    while (i + run < ys.length && ys[i + run] - ys[i + run - 1] === delta) run++;
+
+    const token = dif(delta) + (run > 1 ? dup(run) : "");
+    if (line.length + token.length > JCAMP_LINE_LENGTH) {
+      lines.push(line);
+      line = formatAffn(xs[i - 1], significantDigits) + sqz(ys[i - 1]);
+    }
+    line += token;
+    i += run;
+  }
+  lines.push(line);
+
+  return lines;
+}
+
 /**
  * Trigger a file download in the browser.
  */
@@ -0,0 +1,42 @@
+/**
+ * Content hashing of spectral data, for spotting duplicate uploads.
+ *
+ * @module hash
+ */
+
+import type { Spectrum } from "../types";
+
+/**
+ * Hash the x and y values of a spectrum.
+ *
+ * Spectra with identical data hash equally whatever their ID, label or
+ * styling. The 53-bit hash mixes every value's IEEE 754 bits, so values
+ * that differ in the last bit give different hashes.
+ *
+ * @returns A 14-character hexadecimal hash
+ */
+export function hashSpectrum(spectrum: Pick<Spectrum, "x" | "y">): string {
+  const scratch = new Float64Array(1);
+  const words = new Uint32Array(scratch.buffer);
+  let h1 = 0xdeadbeef ^ spectrum.x.length;
+  let h2 = 0x41c6ce57 ^ spectrum.y.length;
+
+  for (const values of [spectrum.x, spectrum.y]) {
+    for (let i = 0; i < values.length; i++) {
+      scratch[0] = values[i];
+      for (const word of words) {
+        h1 = Math.imul(h1 ^ word, 2654435761);
+        h2 = Math.imul(h2 ^ word, 1597334677);
+      }
+    }
+  }
+
+  // Final avalanche (cyrb53)
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+  h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+  h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+
+  const hash = 4294967296 * (2097151 & h2) + (h1 >>> 0);
+  return hash.toString(16).padStart(14, "0");
+}
@@ -35,6 +35,8 @@ export type { SnapResult } from "./snap";
 export { lttbDownsample } from "./lttb";
 export type { LTTBPoint } from "./lttb";
 
+export { hashSpectrum } from "./hash";
+
 export { generateSvg, downloadSvg, LINE_DASH_PATTERNS } from "./svg-export";
 export type { SvgExportOptions } from "./svg-export";
 
@@ -44,19 +46,61 @@ export {
   spectrumToCsv,
   multiSpectraToCsv,
   spectrumToJson,
+  spectrumToJcamp,
+  spectraToJcamp,
   downloadString,
 } from "./export-data";
-export type { ExportOptions } from "./export-data";
+export type { ExportOptions, JcampExportOptions, JsonExportOptions } from "./export-data";
 
 export {
   baselineRubberBand,
+  baselineAsLS,
+  baselineArPLS,
+  baselineAirPLS,
+  baselineAnchors,
+  baselineSNIP,
+  baselineRollingBall,
   normalizeMinMax,
   normalizeArea,
   normalizeSNV,
+  mscCorrect,
+  emscCorrect,
   smoothSavitzkyGolay,
+  derivativeSavitzkyGolay,
+  savitzkyGolayCoefficients,
   derivative1st,
   derivative2nd,
 } from "./processing";
+export type {
+  AnchorBaselineMethod,
+  AnchorBaselineOptions,
+  AsLSBaselineOptions,
+  BaselineResult,
+  EMSCOptions,
+  PenalizedBaselineOptions,
+  RollingBallBaselineOptions,
+  SavitzkyGolayEdgeMode,
+  SavitzkyGolayOptions,
+  ScatterCoefficients,
+  ScatterCorrectionResult,
+  SNIPBaselineOptions,
+} from "./processing";
+
+export {
+  applyPipeline,
+  applyProcessingStep,
+  serializePipeline,
+  parsePipeline,
+  getProcessingHistory,
+  PIPELINE_VERSION,
+  PROCESSING_META_KEY,
+} from "./pipeline";
+export type {
+  ApplyPipelineOptions,
+  ProcessingPipeline,
+  ProcessingStep,
+  ProcessingStepType,
+} from "./pipeline";
 
 export {
   differenceSpectrum,
@@ -66,3 +110,11 @@ export {
   residualSpectrum,
   interpolateToGrid,
 } from "./comparison";
+
+export { SpectrumStore } from "./spectrum-store";
+export type {
+  ListQuery,
+  SaveOptions,
+  SpectrumStoreOptions,
+  StoredSpectrumInfo,
+} from "./spectrum-store";
@@ -0,0 +1,358 @@
+/**
+ * Composable, serializable spectral processing pipelines.
+ *
+ * A pipeline is an ordered list of typed steps, each naming a function
+ * from the processing module and its parameters. Pipelines apply to
+ * `Spectrum[]` (so set-wise steps such as MSC fit naturally), round-trip
+ * through JSON as shareable recipes, and record the steps applied in
+ * each output spectrum's `meta.processing` for provenance.
+ *
+ * @example
+ * ```ts
+ * const pipeline: ProcessingPipeline = {
+ *   steps: [
+ *     { type: "snip", iterations: 40 },
+ *     { type: "smooth", windowSize: 11 },
+ *     { type: "snv" },
+ *     { type: "derivative", order: 1 },
+ *   ],
+ * };
+ * const processed = applyPipeline(spectra, pipeline);
+ * const recipe = serializePipeline(pipeline); // JSON text
+ * ```
+ *
+ * @module pipeline
+ */
+
+import type { Spectrum } from "../types";
+import {
+  baselineRubberBand,
+  baselineAsLS,
+  baselineArPLS,
+  baselineAirPLS,
+  baselineSNIP,
+  baselineRollingBall,
+  baselineAnchors,
+  normalizeMinMax,
+  normalizeArea,
+  normalizeSNV,
+  mscCorrect,
+  emscCorrect,
+  smoothSavitzkyGolay,
+  derivativeSavitzkyGolay,
+  derivative1st,
+  derivative2nd,
+} from "./processing";
+import type {
+  AnchorBaselineOptions,
+  AsLSBaselineOptions,
+  PenalizedBaselineOptions,
+  RollingBallBaselineOptions,
+  SavitzkyGolayEdgeMode,
+  SNIPBaselineOptions,
+} from "./processing";
+
+/** Savitzky-Golay parameters of the "smooth" and "derivative" steps. */
+interface SavitzkyGolayStepOptions {
+  /** Window size. Defaults to 5 for "smooth" and 7 for "derivative". */
+  windowSize?: number;
+  /** Polynomial order. */
+  polyOrder?: number;
+  /** Edge handling. */
+  edges?: SavitzkyGolayEdgeMode;
+}
+
+/**
+ * One step of a processing pipeline: a processing function and its parameters.
+ *
+ * Savitzky-Golay assumes evenly spaced X, so a "derivative" step of order
+ * 1 or 2 on unevenly spaced X uses central differences instead and
+ * ignores the window settings.
+ */
+export type ProcessingStep =
+  | { type: "rubber-band" }
+  | ({ type: "asls" } & AsLSBaselineOptions)
+  | ({ type: "arpls" } & PenalizedBaselineOptions)
+  | ({ type: "airpls" } & PenalizedBaselineOptions)
+  | ({ type: "snip" } & SNIPBaselineOptions)
+  | ({ type: "rolling-ball" } & RollingBallBaselineOptions)
+  | ({ type: "anchors"; anchors: number[] } & AnchorBaselineOptions)
+  | { type: "min-max" }
+  | { type: "area" }
+  | { type: "snv" }
+  | { type: "msc"; reference?: number[] }
+  | { type: "emsc"; reference?: number[]; degree?: number }
+  | ({ type: "smooth" } & SavitzkyGolayStepOptions)
+  | ({ type: "derivative"; order?: 1 | 2 | 3 } & SavitzkyGolayStepOptions);
+
+/** Name of a processing step. */
+export type ProcessingStepType = ProcessingStep["type"];
+
+/** An ordered list of processing steps. */
+export interface ProcessingPipeline {
+  steps: ProcessingStep[];
+}
+
+export interface ApplyPipelineOptions {
+  /** Record the applied steps in `meta.processing`. Defaults to true. */
+  provenance?: boolean;
+}
+
+/** Version written by `serializePipeline` and accepted by `parsePipeline`. */
+export const PIPELINE_VERSION = 1;
+
+/** `meta` key holding the JSON list of steps applied to a spectrum. */
+export const PROCESSING_META_KEY = "processing";
+
+/** Expected type of a step parameter: a JSON type or a list of allowed values. */
+type ParamKind = "number" | "boolean" | "number[]" | readonly (string | number)[];
+
+const EDGE_MODES = ["fit", "mirror"] as const;
+const PENALIZED: Record<string, ParamKind> = {
+  lambda: "number",
+  maxIterations: "number",
+  tolerance: "number",
+};
+const SAVITZKY_GOLAY: Record<string, ParamKind> = {
+  windowSize: "number",
+  polyOrder: "number",
+  edges: EDGE_MODES,
+};
+
+/** Parameters accepted by each step type, for validating recipes. */
+const STEP_PARAMS: Record<ProcessingStepType, Record<string, ParamKind>> = {
+  "rubber-band": {},
+  asls: { ...PENALIZED, p: "number" },
+  arpls: PENALIZED,
+  airpls: PENALIZED,
+  snip: { iterations: "number", lls: "boolean", decreasing: "boolean" },
+  "rolling-ball": { halfWindow: "number", smoothHalfWindow: "number" },
+  anchors: {
+    anchors: "number[]",
+    method: ["linear", "polynomial", "cubic-spline"],
+    degree: "number",
+  },
+  "min-max": {},
+  area: {},
+  snv: {},
+  msc: { reference: "number[]" },
+  emsc: { reference: "number[]", degree: "number" },
+  smooth: SAVITZKY_GOLAY,
+  derivative: { ...SAVITZKY_GOLAY, order: [1, 2, 3] },
+};
+
+/** Parameters a step cannot do without. */
+const REQUIRED_PARAMS: Partial<Record<ProcessingStepType, string[]>> = {
+  anchors: ["anchors"],
+};
+
+/**
+ * Apply a single processing step to a set of spectra.
+ *
+ * Spectra keep their IDs and metadata; unless `provenance` is false, the
+ * step is appended to `meta.processing`. MSC/EMSC reference spectra are
+ * left out of that record to keep metadata small.
+ */
+export function applyProcessingStep(
+  spectra: Spectrum[],
+  step: ProcessingStep,
+  options: ApplyPipelineOptions = {},
+): Spectrum[] {
+  let output: Spectrum[];
+
+  switch (step.type) {
+    case "msc":
+      output = mscCorrect(spectra, step.reference).spectra;
+      break;
+    case "emsc":
+      output = emscCorrect(spectra, { reference: step.reference, degree: step.degree }).spectra;
+      break;
+    default:
+      output = spectra.map((s) => ({ ...s, y: transformY(s, step) }));
+  }
+
+  if (options.provenance === false) return output;
+  const record = provenanceRecord(step);
+  return output.map((s) => ({ ...s, meta: withProvenance(s.meta, record) }));
+}
+
+/**
+ * Apply every step of a pipeline in order.
+ *
+ * @returns The processed spectra; the input array itself for an empty pipeline
+ */
+export function applyPipeline(
+  spectra: Spectrum[],
+  pipeline: ProcessingPipeline,
+  options: ApplyPipelineOptions = {},
+): Spectrum[] {
+  return pipeline.steps.reduce(
+    (output, step) => applyProcessingStep(output, step, options),
+    spectra,
+  );
+}
+
+/** Serialize a pipeline to a JSON recipe. */
+export function serializePipeline(pipeline: ProcessingPipeline): string {
+  return JSON.stringify({ version: PIPELINE_VERSION, steps: pipeline.steps }, null, 2);
+}
+
+/**
+ * Parse and validate a JSON recipe written by `serializePipeline`.
+ *
+ * @param input - JSON text, or an already parsed value
+ * @throws Error naming the offending step and parameter, e.g.
+ *   `steps[1].windowSize is not a number`
+ */
+export function parsePipeline(input: string | unknown): ProcessingPipeline {
+  let data: unknown = input;
+  if (typeof input === "string") {
+    try {
+      data = JSON.parse(input);
+    } catch (err) {
+      throw new Error(`Invalid pipeline JSON: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+
+  if (!isObject(data)) throw new Error("Pipeline must be an object with a steps array");
+  if (data.version !== undefined && data.version !== PIPELINE_VERSION) {
+    throw new Error(`Unsupported pipeline version ${JSON.stringify(data.version)}`);
+  }
+  if (!Array.isArray(data.steps)) throw new Error("Pipeline must be an object with a steps array");
+
+  return { steps: data.steps.map((step, i) => validateStep(step, `steps[${i}]`)) };
+}
+
+/**
+ * The steps already applied to a spectrum, from its `meta.processing`.
+ * Returns an empty list for unprocessed spectra.
+ */
+export function getProcessingHistory(spectrum: Spectrum): ProcessingStep[] {
+  const recorded = spectrum.meta?.[PROCESSING_META_KEY];
+  if (typeof recorded !== "string") return [];
+  try {
+    return parsePipeline({ steps: JSON.parse(recorded) }).steps;
+  } catch {
+    return [];
+  }
+}
+
+/** Transform the Y values of one spectrum for a per-spectrum step. */
+function transformY(
+  spectrum: Spectrum,
+  step: Exclude<ProcessingStep, { type: "msc" | "emsc" }>,
+): Float64Array {
+  const { x, y } = spectrum;
+  switch (step.type) {
+    case "rubber-band":
+      return baselineRubberBand(y);
+    case "asls":
+      return baselineAsLS(y, step).corrected;
+    case "arpls":
+      return baselineArPLS(y, step).corrected;
+    case "airpls":
+      return baselineAirPLS(y, step).corrected;
+    case "snip":
+      return baselineSNIP(y, step).corrected;
+    case "rolling-ball":
+      return baselineRollingBall(y, step).corrected;
+    case "anchors":
+      return baselineAnchors(x, y, step.anchors, step).corrected;
+    case "min-max":
+      return normalizeMinMax(y);
+    case "area":
+      return normalizeArea(x, y);
+    case "snv":
+      return normalizeSNV(y);
+    case "smooth":
+      return smoothSavitzkyGolay(y, step.windowSize, step);
+    case "derivative":
+      if (step.order !== 3 && !isEvenlySpaced(x)) {
+        return step.order === 2 ? derivative2nd(x, y) : derivative1st(x, y);
+      }
+      return derivativeSavitzkyGolay(x, y, step.order, step.windowSize, step);
+    default: {
+      const unknown: never = step;
+      throw new Error(`Unknown processing step "${(unknown as { type: string }).type}"`);
+    }
+  }
+}
+
+/** Whether X values are evenly spaced, as Savitzky-Golay derivatives assume. */
+function isEvenlySpaced(x: Float64Array | number[]): boolean {
+  const n = x.length;
+  if (n < 3) return true;
+  const first = x[0] as number;
+  const step = ((x[n - 1] as number) - first) / (n - 1);
+  const tolerance = Math.abs(step) * 1e-6;
+  for (let i = 1; i < n - 1; i++) {
+    if (Math.abs((x[i] as number) - (first + i * step)) > tolerance) return false;
+  }
+  return true;
+}
+
+/** The step as recorded in `meta`, without bulky reference spectra. */
+function provenanceRecord(step: ProcessingStep): ProcessingStep {
+  if (step.type !== "msc" && step.type !== "emsc") return step;
+  const { reference: _reference, ...rest } = step;
+  return rest;
+}
+
+/** Append a step to the provenance recorded in `meta`. */
+function withProvenance(
+  meta: Spectrum["meta"],
+  record: ProcessingStep,
+): NonNullable<Spectrum["meta"]> {
+  let history: unknown[] = [];
+  const previous = meta?.[PROCESSING_META_KEY];
+  if (typeof previous === "string") {
+    try {
+      const parsed: unknown = JSON.parse(previous);
+      if (Array.isArray(parsed)) history = parsed;
+    } catch {
+      // Not a recorded history: start a new one
+    }
+  }
+  return { ...meta, [PROCESSING_META_KEY]: JSON.stringify([...history, record]) };
+}
+
+/** Check a parsed step against its parameter schema. */
+function validateStep(step: unknown, path: string): ProcessingStep {
+  if (!isObject(step)) throw new Error(`${path} is not an object`);
+  const type = step.type;
+  if (typeof type !== "string" || !Object.prototype.hasOwnProperty.call(STEP_PARAMS, type)) {
+    throw new Error(`${path}.type: unknown processing step ${JSON.stringify(type)}`);
+  }
+
+  const params = STEP_PARAMS[type as ProcessingStepType];
+  for (const required of REQUIRED_PARAMS[type as ProcessingStepType] ?? []) {
+    if (step[required] === undefined) throw new Error(`${path}.${required} is required`);
+  }
+  for (const [key, value] of Object.entries(step)) {
+    if (key === "type" || value === undefined) continue;
+    const kind = params[key];
+    if (!kind) throw new Error(`${path}.${key} is not a parameter of "${type}"`);
+    checkParam(value, kind, `${path}.${key}`);
+  }
+  return step as ProcessingStep;
+}
+
+function checkParam(value: unknown, kind: ParamKind, path: string): void {
+  if (kind === "number") {
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      throw new Error(`${path} is not a number`);
+    }
+  } else if (kind === "boolean") {
+    if (typeof value !== "boolean") throw new Error(`${path} is not a boolean`);
+  } else if (kind === "number[]") {
+    if (!Array.isArray(value) || !value.every((v) => typeof v === "number" && Number.isFinite(v))) {
+      throw new Error(`${path} is not an array of numbers`);
+    }
+  } else if (!kind.includes(value as string | number)) {
+    throw new Error(`${path} must be one of ${kind.map((k) => JSON.stringify(k)).join(", ")}`);
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
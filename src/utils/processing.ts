@@ -2,9 +2,11 @@
  * Spectral processing utilities.
  *
  * Pure functions for common spectral data transformations:
- * - Baseline correction (rubber-band)
+ * - Baseline correction (rubber-band, AsLS, arPLS, airPLS, SNIP, rolling ball,
+ *   anchor points)
  * - Normalization (min-max, area, SNV)
- * - Smoothing (Savitzky-Golay)
+ * - Scatter correction (MSC, EMSC)
+ * - Smoothing and derivatives (Savitzky-Golay)
  * - Numerical derivatives (1st, 2nd)
  *
  * All functions return new arrays, never mutating inputs.
@@ -12,6 +14,10 @@
  * @module processing
  */
 
+import type { AnchorBaselineMethod, Spectrum } from "../types";
+
+export type { AnchorBaselineMethod };
+
 // ─── Baseline Correction ───────────────────────────────────────────
 
 /**
@@ -74,6 +80,508 @@ export function baselineRubberBand(y: Float64Array | number[]): Float64Array {
   return result;
 }
 
+/** A baseline estimate and the spectrum with it subtracted. */
+export interface BaselineResult {
+  /** Y values minus the baseline. */
+  corrected: Float64Array;
+  /** Estimated baseline, e.g. for overlaying on the raw spectrum. */
+  baseline: Float64Array;
+}
+
+export interface PenalizedBaselineOptions {
+  /** Smoothness penalty on the baseline's second differences. Larger is stiffer. */
+  lambda?: number;
+  /** Maximum number of reweighting iterations. Defaults to 50. */
+  maxIterations?: number;
+  /** Convergence tolerance on the relative change in weights. Defaults to 1e-3. */
+  tolerance?: number;
+}
+
+export interface AsLSBaselineOptions extends PenalizedBaselineOptions {
+  /** Weight of points above the baseline (0–1). Defaults to 0.01. */
+  p?: number;
+}
+
+/**
+ * Asymmetric least squares (AsLS) baseline correction (Eilers & Boelens, 2005).
+ *
+ * Fits a smooth baseline by penalized least squares, weighting points
+ * above it by `p` and points below by `1 - p` so that peaks pull the
+ * baseline up far less than the background does.
+ *
+ * @param y - Input Y values
+ * @param options - `lambda` (default 1e6), `p`, iteration limits
+ */
+export function baselineAsLS(
+  y: Float64Array | number[],
+  options: AsLSBaselineOptions = {},
+): BaselineResult {
+  const { lambda = 1e6, p = 0.01, maxIterations = 50, tolerance = 1e-3 } = options;
+  return reweightedBaseline(y, lambda, maxIterations, tolerance, (residual, weights) => {
+    for (let i = 0; i < residual.length; i++) {
+      weights[i] = residual[i] > 0 ? p : 1 - p;
+    }
+    return true;
+  });
+}
+
+/**
+ * Asymmetrically reweighted penalized least squares (arPLS) baseline
+ * correction (Baek et al., 2015).
+ *
+ * Weights follow a logistic function of the residual, scaled by the
+ * spread of the points below the baseline, so noise on the background
+ * is weighted evenly rather than pushing the baseline under it.
+ *
+ * @param y - Input Y values
+ * @param options - `lambda` (default 1e5), iteration limits
+ */
+export function baselineArPLS(
+  y: Float64Array | number[],
+  options: PenalizedBaselineOptions = {},
+): BaselineResult {
+  const { lambda = 1e5, maxIterations = 50, tolerance = 1e-3 } = options;
+  return reweightedBaseline(y, lambda, maxIterations, tolerance, (residual, weights) => {
+    let count = 0;
+    let sum = 0;
+    let sumSq = 0;
+    for (const d of residual) {
+      if (d < 0) {
+        count++;
+        sum += d;
+        sumSq += d * d;
+      }
+    }
+    if (count === 0) return false;
+    const mean = sum / count;
+    const std = Math.sqrt(Math.max(0, sumSq / count - mean * mean));
+    if (std === 0) return false;
+
+    for (let i = 0; i < residual.length; i++) {
+      const exponent = (2 * (residual[i] - (2 * std - mean))) / std;
+      weights[i] = 1 / (1 + Math.exp(Math.min(exponent, 700)));
+    }
+    return true;
+  });
+}
+
+/**
+ * Adaptive iteratively reweighted penalized least squares (airPLS)
+ * baseline correction (Zhang et al., 2010).
+ *
+ * Points above the baseline get zero weight; points below get weights
+ * that grow exponentially with their distance and the iteration, until
+ * the total negative residual is negligible.
+ *
+ * @param y - Input Y values
+ * @param options - `lambda` (default 1e6), iteration limits
+ */
+export function baselineAirPLS(
+  y: Float64Array | number[],
+  options: PenalizedBaselineOptions = {},
+): BaselineResult {
+  const { lambda = 1e6, maxIterations = 50, tolerance = 1e-3 } = options;
+  let total = 0;
+  for (let i = 0; i < y.length; i++) total += Math.abs(y[i] as number);
+
+  let iteration = 0;
+  return reweightedBaseline(y, lambda, maxIterations, 0, (residual, weights) => {
+    iteration++;
+    let negative = 0;
+    let largest = 0;
+    for (const d of residual) {
+      if (d < 0) {
+        negative -= d;
+        largest = Math.max(largest, -d);
+      }
+    }
+    if (negative < tolerance * total) return false;
+
+    for (let i = 0; i < residual.length; i++) {
+      const d = residual[i];
+      weights[i] = d >= 0 ? 0 : Math.exp(Math.min((iteration * -d) / negative, 700));
+    }
+    // Keep the ends anchored so the baseline cannot drift off them
+    const end = Math.exp(Math.min((iteration * largest) / negative, 700));
+    weights[0] = end;
+    weights[residual.length - 1] = end;
+    return true;
+  });
+}
+
+export interface SNIPBaselineOptions {
+  /** Maximum clipping half-width in points; about half the widest peak. Defaults to 40. */
+  iterations?: number;
+  /**
+   * Apply the log-log-square-root (LLS) transform before clipping, which
+   * compresses intense peaks so weak ones are clipped evenly. Defaults to false.
+   */
+  lls?: boolean;
+  /** Clip from the widest half-width down instead of up. Defaults to false. */
+  decreasing?: boolean;
+}
+
+/**
+ * SNIP (statistics-sensitive non-linear iterative peak clipping) baseline
+ * correction (Ryan et al., 1988; Morháč et al., 1997).
+ *
+ * For each half-width p up to `iterations`, every point is replaced by
+ * the mean of its neighbours p points away whenever that is lower,
+ * progressively clipping peaks down to the background.
+ *
+ * @param y - Input Y values
+ * @param options - Clipping width, LLS transform and clipping order
+ */
+export function baselineSNIP(
+  y: Float64Array | number[],
+  options: SNIPBaselineOptions = {},
+): BaselineResult {
+  const { iterations = 40, lls = false, decreasing = false } = options;
+  const n = y.length;
+  const values = Float64Array.from(y);
+  if (n < 3) return { corrected: values, baseline: new Float64Array(n) };
+
+  // The LLS transform needs y ≥ 0, so lift negative data first
+  let offset = 0;
+  if (lls) {
+    for (const v of values) offset = Math.min(offset, v);
+  }
+  let work = Float64Array.from(values, (v) =>
+    lls ? Math.log(Math.log(Math.sqrt(v - offset + 1) + 1) + 1) : v,
+  );
+  let next = new Float64Array(work);
+
+  const widest = Math.min(Math.floor(iterations), Math.floor((n - 1) / 2));
+  for (let step = 1; step <= widest; step++) {
+    const p = decreasing ? widest + 1 - step : step;
+    next.set(work);
+    for (let i = p; i < n - p; i++) {
+      const mean = (work[i - p] + work[i + p]) / 2;
+      if (mean < work[i]) next[i] = mean;
+    }
+    [work, next] = [next, work];
+  }
+
+  const baseline = lls
+    ? Float64Array.from(work, (v) => (Math.exp(Math.exp(v) - 1) - 1) ** 2 - 1 + offset)
+    : work;
+  const corrected = new Float64Array(n);
+  for (let i = 0; i < n; i++) corrected[i] = values[i] - baseline[i];
+  return { corrected, baseline };
+}
+
+export interface RollingBallBaselineOptions {
+  /** Half-width of the ball in points; wider than the widest peak. Defaults to 50. */
+  halfWindow?: number;
+  /** Half-width of the moving average applied afterwards. Defaults to `halfWindow`. */
+  smoothHalfWindow?: number;
+}
+
+/**
+ * Rolling-ball baseline correction (Kneen & Annegarn, 1996).
+ *
+ * Rolls a flat structuring element of width `2 · halfWindow + 1` under
+ * the spectrum (a morphological opening: moving minimum, then moving
+ * maximum) and smooths the envelope with a moving average. Windows are
+ * truncated at the ends.
+ *
+ * @param y - Input Y values
+ * @param options - Ball and smoothing half-widths
+ */
+export function baselineRollingBall(
+  y: Float64Array | number[],
+  options: RollingBallBaselineOptions = {},
+): BaselineResult {
+  const halfWindow = Math.max(0, Math.floor(options.halfWindow ?? 50));
+  const smoothHalfWindow = Math.max(0, Math.floor(options.smoothHalfWindow ?? halfWindow));
+  const n = y.length;
+  const values = Float64Array.from(y);
+
+  const opened = movingExtreme(movingExtreme(values, halfWindow, "min"), halfWindow, "max");
+
+  // Moving average via prefix sums
+  const prefix = new Float64Array(n + 1);
+  for (let i = 0; i < n; i++) prefix[i + 1] = prefix[i] + opened[i];
+  const baseline = new Float64Array(n);
+  for (let i = 0; i < n; i++) {
+    const lo = Math.max(0, i - smoothHalfWindow);
+    const hi = Math.min(n - 1, i + smoothHalfWindow);
+    baseline[i] = (prefix[hi + 1] - prefix[lo]) / (hi - lo + 1);
+  }
+
+  const corrected = new Float64Array(n);
+  for (let i = 0; i < n; i++) corrected[i] = values[i] - baseline[i];
+  return { corrected, baseline };
+}
+
+/** Moving minimum or maximum over `[i - half, i + half]`, in O(n) with a monotonic deque. */
+function movingExtreme(values: Float64Array, half: number, kind: "min" | "max"): Float64Array {
+  const n = values.length;
+  const result = new Float64Array(n);
+  const better =
+    kind === "min" ? (a: number, b: number) => a <= b : (a: number, b: number) => a >= b;
+  const deque = new Int32Array(n);
+  let head = 0;
+  let tail = 0;
+  let next = 0;
+
+  for (let i = 0; i < n; i++) {
+    // Admit points up to the right edge of the window
+    const right = Math.min(n - 1, i + half);
+    for (; next <= right; next++) {
+      while (tail > head && better(values[next], values[deque[tail - 1]])) tail--;
+      deque[tail++] = next;
+    }
+    // Drop points past the left edge
+    while (deque[head] < i - half) head++;
+    result[i] = values[deque[head]];
+  }
+  return result;
+}
+
+export interface AnchorBaselineOptions {
+  /** Interpolation between anchors. Defaults to "linear". */
+  method?: AnchorBaselineMethod;
+  /** Polynomial degree (for "polynomial"). Defaults to 2, capped at anchors − 1. */
+  degree?: number;
+}
+
+/**
+ * Baseline through user-chosen anchor points.
+ *
+ * Each anchor is an X position, typically in a region known to be free
+ * of bands; the baseline passes through the spectrum there. "linear"
+ * joins the anchors with straight segments, "cubic-spline" with a
+ * natural cubic spline, and "polynomial" fits a least-squares polynomial
+ * of `degree` to them. Beyond the outermost anchors, linear and spline
+ * baselines stay level; polynomial baselines are extrapolated.
+ *
+ * @param x - X values
+ * @param y - Y values
+ * @param anchors - Anchor X positions; those outside the data are ignored
+ * @param options - Interpolation method and polynomial degree
+ */
+export function baselineAnchors(
+  x: Float64Array | number[],
+  y: Float64Array | number[],
+  anchors: number[],
+  options: AnchorBaselineOptions = {},
+): BaselineResult {
+  const n = Math.min(x.length, y.length);
+  const { method = "linear", degree = 2 } = options;
+  const points = anchorPoints(x, y, n, anchors);
+  const baseline = new Float64Array(n);
+
+  if (points.length === 1) {
+    baseline.fill(points[0][1]);
+  } else if (points.length > 1) {
+    const px = points.map((p) => p[0]);
+    const py = points.map((p) => p[1]);
+    const evaluate =
+      method === "polynomial"
+        ? polynomialFit(px, py, Math.min(Math.max(0, Math.floor(degree)), px.length - 1))
+        : method === "cubic-spline"
+        ? naturalCubicSpline(px, py)
+        : (t: number) => linearInterpolate(px, py, t);
+    for (let i = 0; i < n; i++) baseline[i] = evaluate(x[i] as number);
+  }
+
+  const corrected = new Float64Array(n);
+  for (let i = 0; i < n; i++) corrected[i] = (y[i] as number) - baseline[i];
+  return { corrected, baseline };
+}
+
+/** The spectrum's [x, y] at each anchor within the data, sorted by x, without duplicates. */
+function anchorPoints(
+  x: Float64Array | number[],
+  y: Float64Array | number[],
+  n: number,
+  anchors: number[],
+): Array<[number, number]> {
+  if (n === 0) return [];
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (let i = 0; i < n; i++) {
+    xs.push(x[i] as number);
+    ys.push(y[i] as number);
+  }
+  // Interpolate on an ascending copy so descending axes (IR) work too
+  if (n > 1 && xs[n - 1] < xs[0]) {
+    xs.reverse();
+    ys.reverse();
+  }
+
+  const sorted = [...new Set(anchors)]
+    .filter((a) => Number.isFinite(a) && a >= xs[0] && a <= xs[n - 1])
+    .sort((a, b) => a - b);
+  return sorted.map((a) => [a, linearInterpolate(xs, ys, a)]);
+}
+
+/** Piecewise-linear interpolation on ascending `xs`, level beyond the ends. */
+function linearInterpolate(xs: number[], ys: number[], t: number): number {
+  const last = xs.length - 1;
+  if (t <= xs[0]) return ys[0];
+  if (t >= xs[last]) return ys[last];
+  let lo = 0;
+  let hi = last;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >>> 1;
+    if (xs[mid] <= t) lo = mid;
+    else hi = mid;
+  }
+  const span = xs[hi] - xs[lo];
+  return span === 0 ? ys[lo] : ys[lo] + ((ys[hi] - ys[lo]) * (t - xs[lo])) / span;
+}
+
+/** Least-squares polynomial through the points, as a function of x. */
+function polynomialFit(xs: number[], ys: number[], degree: number): (t: number) => number {
+  // Fit in centred, scaled coordinates to keep the normal equations well conditioned
+  const centre = (xs[0] + xs[xs.length - 1]) / 2;
+  const half = (xs[xs.length - 1] - xs[0]) / 2 || 1;
+  const terms = degree + 1;
+  const normal = Array.from({ length: terms }, () => new Array<number>(terms).fill(0));
+  const rhs = new Array<number>(terms).fill(0);
+  for (let i = 0; i < xs.length; i++) {
+    const u = (xs[i] - centre) / half;
+    const powers = [1];
+    for (let k = 1; k < terms; k++) powers.push(powers[k - 1] * u);
+    for (let a = 0; a < terms; a++) {
+      rhs[a] += powers[a] * ys[i];
+      for (let b = 0; b < terms; b++) normal[a][b] += powers[a] * powers[b];
+    }
+  }
+  const coefficients = solveLinearSystem(normal, rhs);
+
+  return (t) => {
+    const u = (t - centre) / half;
+    let value = 0;
+    for (let k = terms - 1; k >= 0; k--) value = value * u + coefficients[k];
+    return value;
+  };
+}
+
+/** Natural cubic spline through the points (ascending x), level beyond the ends. */
+function naturalCubicSpline(xs: number[], ys: number[]): (t: number) => number {
+  const n = xs.length;
+  // Second derivatives at the knots, zero at both ends (tridiagonal solve)
+  const m = new Float64Array(n);
+  const c = new Float64Array(n);
+  const d = new Float64Array(n);
+  for (let i = 1; i < n - 1; i++) {
+    const h0 = xs[i] - xs[i - 1];
+    const h1 = xs[i + 1] - xs[i];
+    const diag = 2 * (h0 + h1) - h0 * c[i - 1];
+    c[i] = h1 / diag;
+    d[i] = (6 * ((ys[i + 1] - ys[i]) / h1 - (ys[i] - ys[i - 1]) / h0) - h0 * d[i - 1]) / diag;
+  }
+  for (let i = n - 2; i >= 1; i--) m[i] = d[i] - c[i] * m[i + 1];
+
+  return (t) => {
+    if (t <= xs[0]) return ys[0];
+    if (t >= xs[n - 1]) return ys[n - 1];
+    let k = 0;
+    while (k < n - 2 && xs[k + 1] < t) k++;
+    const h = xs[k + 1] - xs[k];
+    const a = (xs[k + 1] - t) / h;
+    const b = (t - xs[k]) / h;
+    return (
+      a * ys[k] + b * ys[k + 1] + (((a ** 3 - a) * m[k] + (b ** 3 - b) * m[k + 1]) * (h * h)) / 6
+    );
+  };
+}
+
+/**
+ * Shared loop of the penalized least-squares baselines: solve
+ * `(W + λDᵀD) z = W y` for the current weights, then let `reweight`
+ * update the weights in place from the residual `y - z`. Stops when
+ * `reweight` returns false, the weights change by less than `tolerance`, or after
+ * `maxIterations`.
+ */
+function reweightedBaseline(
+  y: Float64Array | number[],
+  lambda: number,
+  maxIterations: number,
+  tolerance: number,
+  reweight: (residual: Float64Array, weights: Float64Array) => boolean,
+): BaselineResult {
+  const n = y.length;
+  if (n < 3) return { corrected: new Float64Array(y), baseline: new Float64Array(n) };
+
+  const values = Float64Array.from(y);
+  let weights: Float64Array = new Float64Array(n).fill(1);
+  let next: Float64Array = new Float64Array(n);
+  let baseline: Float64Array = values;
+  const residual = new Float64Array(n);
+
+  for (let iter = 0; iter < Math.max(1, maxIterations); iter++) {
+    baseline = solveWhittaker(values, weights, lambda);
+    for (let i = 0; i < n; i++) residual[i] = values[i] - baseline[i];
+
+    next.set(weights);
+    if (!reweight(residual, next)) break;
+
+    let change = 0;
+    let norm = 0;
+    for (let i = 0; i < n; i++) {
+      change += (next[i] - weights[i]) ** 2;
+      norm += weights[i] ** 2;
+    }
+    [weights, next] = [next, weights];
+    if (norm === 0 || Math.sqrt(change / norm) <= tolerance) {
+      baseline = solveWhittaker(values, weights, lambda);
+      break;
+    }
+  }
+
+  const corrected = new Float64Array(n);
+  for (let i = 0; i < n; i++) corrected[i] = values[i] - baseline[i];
+  return { corrected, baseline };
+}
+
+/**
+ * Solve the Whittaker smoother system `(W + λDᵀD) z = W y`, with D the
+ * second-difference matrix.
+ *
+ * The matrix is symmetric, positive definite and pentadiagonal, so a
+ * banded LDLᵀ factorization solves it in O(n) time and memory.
+ */
+function solveWhittaker(y: Float64Array, weights: Float64Array, lambda: number): Float64Array {
+  const n = y.length;
+  // Bands of W + λDᵀD: main diagonal, first and second sub-diagonals
+  const a = new Float64Array(n);
+  const b = new Float64Array(n);
+  const c = new Float64Array(n);
+  for (let r = 0; r < n - 2; r++) {
+    a[r] += lambda;
+    a[r + 1] += 4 * lambda;
+    a[r + 2] += lambda;
+    b[r + 1] -= 2 * lambda;
+    b[r + 2] -= 2 * lambda;
+    c[r + 2] += lambda;
+  }
+  for (let i = 0; i < n; i++) a[i] += weights[i];
+
+  // LDLᵀ with unit lower-triangular L (bands l1, l2) and diagonal d
+  const d = new Float64Array(n);
+  const l1 = new Float64Array(n);
+  const l2 = new Float64Array(n);
+  for (let i = 0; i < n; i++) {
+    if (i >= 2) l2[i] = c[i] / d[i - 2];
+    if (i >= 1) l1[i] = (b[i] - (i >= 2 ? l2[i] * d[i - 2] * l1[i - 1] : 0)) / d[i - 1];
+    d[i] = a[i] - (i >= 1 ? l1[i] * l1[i] * d[i - 1] : 0) - (i >= 2 ? l2[i] * l2[i] * d[i - 2] : 0);
+  }
+
+  const z = new Float64Array(n);
+  for (let i = 0; i < n; i++) {
+    z[i] = weights[i] * y[i] - (i >= 1 ? l1[i] * z[i - 1] : 0) - (i >= 2 ? l2[i] * z[i - 2] : 0);
+  }
+  for (let i = 0; i < n; i++) z[i] /= d[i];
+  for (let i = n - 1; i >= 0; i--) {
+    z[i] -= (i + 1 < n ? l1[i + 1] * z[i + 1] : 0) + (i + 2 < n ? l2[i + 2] * z[i + 2] : 0);
+  }
+  return z;
+}
+
 // ─── Normalization ─────────────────────────────────────────────────
 
 /**
@@ -162,70 +670,397 @@ export function normalizeSNV(y: Float64Array | number[]): Float64Array {
   return result;
 }
 
+// ─── Scatter Correction ────────────────────────────────────────────
+
+/** Per-sample coefficients of a scatter correction. */
+export interface ScatterCoefficients {
+  /** ID of the corrected spectrum. */
+  spectrumId: string;
+  /** Additive offset. */
+  offset: number;
+  /** Multiplicative scale against the reference. */
+  scale: number;
+  /**
+   * EMSC baseline coefficients for x¹ … x^degree, with x mapped onto
+   * [-1, 1] across the grid. Empty for MSC.
+   */
+  polynomial: number[];
+}
+
+/** Scatter-corrected spectra and the fit behind them. */
+export interface ScatterCorrectionResult {
+  /** Corrected spectra, in input order, keeping their IDs and metadata. */
+  spectra: Spectrum[];
+  /** Fitted coefficients, one entry per spectrum. */
+  coefficients: ScatterCoefficients[];
+  /** Reference spectrum the samples were fitted against. */
+  reference: Float64Array;
+}
+
+export interface EMSCOptions {
+  /** Reference Y values. Defaults to the mean of the spectra. */
+  reference?: Float64Array | number[];
+  /** Degree of the polynomial baseline. Defaults to 2. */
+  degree?: number;
+}
+
+/**
+ * Multiplicative scatter correction (MSC).
+ *
+ * Fits each spectrum as `offset + scale · reference` by least squares
+ * and returns `(y - offset) / scale`, removing additive and
+ * multiplicative scatter effects relative to the reference. Spectra
+ * must share an X grid; they are truncated to the shortest.
+ *
+ * @param spectra - Spectra on a shared grid
+ * @param reference - Reference Y values. Defaults to the mean spectrum.
+ * @throws Error if the spectra are on different X grids or the reference is constant
+ */
+export function mscCorrect(
+  spectra: Spectrum[],
+  reference?: Float64Array | number[],
+): ScatterCorrectionResult {
+  return emscCorrect(spectra, { reference, degree: 0 });
+}
+
+/**
+ * Extended multiplicative scatter correction (EMSC; Martens & Stark, 1991).
+ *
+ * Like MSC, but the model adds a polynomial baseline in x:
+ * `y ≈ offset + scale · reference + Σ polynomial[k-1] · xᵏ`. The offset
+ * and polynomial are subtracted before dividing by the scale. With
+ * `degree: 0` this is plain MSC.
+ *
+ * @param spectra - Spectra on a shared grid
+ * @param options - Reference and baseline polynomial degree
+ * @throws Error if the spectra are on different X grids, or the model
+ *   cannot be fitted because the reference is itself a polynomial of at
+ *   most `degree` in x (e.g. constant) or the grid has no X range
+ */
+export function emscCorrect(
+  spectra: Spectrum[],
+  options: EMSCOptions = {},
+): ScatterCorrectionResult {
+  const degree = Math.max(0, Math.floor(options.degree ?? 2));
+  let n = Math.min(...spectra.map((s) => Math.min(s.x.length, s.y.length)));
+  if (options.reference) n = Math.min(n, options.reference.length);
+  if (spectra.length === 0 || n === 0) {
+    return { spectra: [], coefficients: [], reference: new Float64Array(0) };
+  }
+
+  const grid = spectra[0].x;
+  const tolerance = Math.abs((grid[n - 1] as number) - (grid[0] as number)) * 1e-9;
+  for (const s of spectra) {
+    for (let i = 0; i < n; i++) {
+      if (Math.abs((s.x[i] as number) - (grid[i] as number)) > tolerance) {
+        throw new Error(
+          `Cannot correct scatter: "${s.label}" is not on the X grid of "${spectra[0].label}"`,
+        );
+      }
+    }
+  }
+
+  const reference = new Float64Array(n);
+  if (options.reference) {
+    for (let i = 0; i < n; i++) reference[i] = options.reference[i] as number;
+  } else {
+    for (const s of spectra) {
+      for (let i = 0; i < n; i++) reference[i] += (s.y[i] as number) / spectra.length;
+    }
+  }
+
+  // Design columns: 1, reference, x, x², … with x mapped onto [-1, 1]
+  const x0 = spectra[0].x[0] as number;
+  const x1 = spectra[0].x[n - 1] as number;
+  const columns: Float64Array[] = [new Float64Array(n).fill(1), reference];
+  for (let k = 1; k <= degree; k++) {
+    columns.push(
+      Float64Array.from({ length: n }, (_, i) => {
+        const t = x1 === x0 ? 0 : (2 * ((spectra[0].x[i] as number) - x0)) / (x1 - x0) - 1;
+        return t ** k;
+      }),
+    );
+  }
+  const terms = columns.length;
+  const normal = columns.map((a) => columns.map((b) => dot(a, b, n)));
+
+  const corrected: Spectrum[] = [];
+  const coefficients: ScatterCoefficients[] = [];
+  for (const spectrum of spectra) {
+    const rhs = columns.map((c) => dot(c, spectrum.y, n));
+    let solution: number[];
+    try {
+      solution = solveLinearSystem(normal, rhs);
+    } catch {
+      // The design matrix is shared, so this fails on the first spectrum
+      throw new Error(
+        degree === 0
+          ? "Cannot correct scatter: the reference is constant"
+          : `Cannot correct scatter: the reference is a polynomial of degree ≤ ${degree} in x, or the X range is zero`,
+      );
+    }
+    const [offset, scale, ...polynomial] = solution;
+
+    const y = new Float64Array(n);
+    for (let i = 0; i < n; i++) {
+      let background = offset;
+      for (let k = 2; k < terms; k++) background += polynomial[k - 2] * columns[k][i];
+      // A sample unrelated to the reference cannot be rescaled
+      y[i] =
+        scale !== 0 && Number.isFinite(scale)
+          ? ((spectrum.y[i] as number) - background) / scale
+          : (spectrum.y[i] as number);
+    }
+
+    corrected.push({
+      ...spectrum,
+      x: spectrum.x.length === n ? spectrum.x : spectrum.x.slice(0, n),
+      y,
+    });
+    coefficients.push({ spectrumId: spectrum.id, offset, scale, polynomial });
+  }
+
+  return { spectra: corrected, coefficients, reference };
+}
+
+/** Dot product of the first `n` values. */
+function dot(a: Float64Array | number[], b: Float64Array | number[], n: number): number {
+  let sum = 0;
+  for (let i = 0; i < n; i++) sum += (a[i] as number) * (b[i] as number);
+  return sum;
+}
+
 // ─── Smoothing ─────────────────────────────────────────────────────
 
+/** How Savitzky-Golay filtering treats the first and last half-window. */
+export type SavitzkyGolayEdgeMode =
+  /** Fit the polynomial to the first/last full window and evaluate it off-centre. */
+  | "fit"
+  /** Reflect the data about the end points and filter as in the interior. */
+  | "mirror";
+
+export interface SavitzkyGolayOptions {
+  /** Polynomial order. Defaults to 2, or the derivative order if higher. */
+  polyOrder?: number;
+  /** Derivative order (0 smooths). Defaults to 0. */
+  derivative?: number;
+  /** X spacing between points; derivatives are divided by `delta^derivative`. Defaults to 1. */
+  delta?: number;
+  /** Edge handling. Defaults to "fit". */
+  edges?: SavitzkyGolayEdgeMode;
+}
+
 /**
- * Savitzky-Golay smoothing (polynomial order 2).
+ * Savitzky-Golay smoothing or differentiation.
  *
- * Uses pre-computed convolution coefficients for common window sizes.
- * Falls back to a simple moving average for unsupported window sizes.
+ * Fits a polynomial of `polyOrder` by least squares to each window of
+ * points and evaluates it, or its derivative, at the window centre.
+ * Coefficients are computed for any odd window and order; even windows
+ * are widened by one. Windows longer than the data are shrunk to fit,
+ * lowering the polynomial order if needed.
  *
  * @param y - Input Y values
  * @param windowSize - Must be odd and >= 3. Defaults to 5.
- * @returns Smoothed Y values
+ * @param options - Polynomial order, derivative, X spacing and edge handling
+ * @returns Smoothed Y values, or the requested derivative
  */
 export function smoothSavitzkyGolay(
   y: Float64Array | number[],
   windowSize = 5,
+  options: SavitzkyGolayOptions = {},
 ): Float64Array {
   const n = y.length;
-  if (n < windowSize || windowSize < 3) return new Float64Array(y);
+  const derivative = Math.max(0, Math.floor(options.derivative ?? 0));
+  if (n < 3 || windowSize < 3) {
+    return derivative === 0 ? new Float64Array(y) : new Float64Array(n);
+  }
 
-  // Ensure odd window
-  const w = windowSize % 2 === 0 ? windowSize + 1 : windowSize;
+  // Ensure an odd window no longer than the data
+  let w = windowSize % 2 === 0 ? windowSize + 1 : windowSize;
+  if (w > n) w = n % 2 === 0 ? n - 1 : n;
   const halfW = (w - 1) / 2;
+  const polyOrder = Math.min(
+    Math.max(0, Math.floor(options.polyOrder ?? Math.max(2, derivative))),
+    w - 1,
+  );
+  // A polynomial through every point of the window reproduces the data
+  if (derivative === 0 && polyOrder === w - 1) return new Float64Array(y);
+  const scale = 1 / Math.pow(options.delta ?? 1, derivative);
 
-  // Pre-computed SG coefficients (quadratic, normalized)
-  const coefficients = getSGCoefficients(w);
-
+  const centre = savitzkyGolayCoefficients(w, polyOrder, derivative);
   const result = new Float64Array(n);
 
-  // Copy edges unchanged
-  for (let i = 0; i < halfW; i++) {
-    result[i] = y[i] as number;
-    result[n - 1 - i] = y[n - 1 - i] as number;
+  if (options.edges === "mirror") {
+    for (let i = 0; i < n; i++) {
+      let sum = 0;
+      for (let j = -halfW; j <= halfW; j++) {
+        sum += centre[j + halfW] * (y[reflectIndex(i + j, n)] as number);
+      }
+      result[i] = sum * scale;
+    }
+    return result;
   }
 
-  // Apply convolution
   for (let i = halfW; i < n - halfW; i++) {
     let sum = 0;
     for (let j = -halfW; j <= halfW; j++) {
-      sum += coefficients[j + halfW] * (y[i + j] as number);
+      sum += centre[j + halfW] * (y[i + j] as number);
+    }
+    result[i] = sum * scale;
+  }
+
+  // Evaluate the polynomial fitted to the first and last windows
+  for (let k = 0; k < halfW; k++) {
+    const head = savitzkyGolayCoefficients(w, polyOrder, derivative, k);
+    const tail = savitzkyGolayCoefficients(w, polyOrder, derivative, w - 1 - k);
+    let headSum = 0;
+    let tailSum = 0;
+    for (let j = 0; j < w; j++) {
+      headSum += head[j] * (y[j] as number);
+      tailSum += tail[j] * (y[n - w + j] as number);
     }
-    result[i] = sum;
+    result[k] = headSum * scale;
+    result[n - 1 - k] = tailSum * scale;
   }
 
   return result;
 }
 
 /**
- * Get Savitzky-Golay coefficients for quadratic polynomial smoothing.
+ * Savitzky-Golay derivative scaled by the X spacing.
+ *
+ * Assumes evenly spaced X values; the spacing is taken from the first
+ * and last points, so descending axes give derivatives with respect to
+ * increasing X as well.
+ *
+ * @param x - X values (for spacing)
+ * @param y - Y values
+ * @param order - Derivative order. Defaults to 1.
+ * @param windowSize - Must be odd and >= 3. Defaults to 7.
+ * @param options - Polynomial order and edge handling
+ * @returns Derivative d^order y / dx^order
  */
-function getSGCoefficients(windowSize: number): number[] {
-  // Pre-computed for common sizes (quadratic smoothing)
-  const precomputed: Record<number, number[]> = {
-    5: [-3, 12, 17, 12, -3].map((v) => v / 35),
-    7: [-2, 3, 6, 7, 6, 3, -2].map((v) => v / 21),
-    9: [-21, 14, 39, 54, 59, 54, 39, 14, -21].map((v) => v / 231),
-    11: [-36, 9, 44, 69, 84, 89, 84, 69, 44, 9, -36].map((v) => v / 429),
-  };
+export function derivativeSavitzkyGolay(
+  x: Float64Array | number[],
+  y: Float64Array | number[],
+  order = 1,
+  windowSize = 7,
+  options: Omit<SavitzkyGolayOptions, "derivative" | "delta"> = {},
+): Float64Array {
+  const n = Math.min(x.length, y.length);
+  if (n < 2) return new Float64Array(n);
+  const delta = ((x[n - 1] as number) - (x[0] as number)) / (n - 1);
+  if (delta === 0) return new Float64Array(n);
+
+  return smoothSavitzkyGolay(n === y.length ? y : y.slice(0, n), windowSize, {
+    ...options,
+    derivative: order,
+    delta,
+  });
+}
+
+/**
+ * Savitzky-Golay convolution coefficients.
+ *
+ * Solves the least-squares normal equations for a polynomial of
+ * `polyOrder` over `windowSize` points and returns the weights that
+ * evaluate its `derivative` at `position` (0-based within the window;
+ * the centre by default). Derivatives are per unit point spacing.
+ *
+ * @example
+ * ```ts
+ * savitzkyGolayCoefficients(5, 2); // [-3, 12, 17, 12, -3] / 35
+ * ```
+ */
+export function savitzkyGolayCoefficients(
+  windowSize: number,
+  polyOrder: number,
+  derivative = 0,
+  position = (windowSize - 1) / 2,
+): Float64Array {
+  const coefficients = new Float64Array(windowSize);
+  if (derivative > polyOrder) return coefficients;
+
+  // Scale offsets to [-1, 1]-ish to keep the normal equations well conditioned
+  const span = Math.max(1, (windowSize - 1) / 2);
+  const terms = polyOrder + 1;
+  const powers: number[][] = [];
+  for (let i = 0; i < windowSize; i++) {
+    const t = (i - position) / span;
+    const row = [1];
+    for (let k = 1; k < terms; k++) row.push(row[k - 1] * t);
+    powers.push(row);
+  }
+
+  // Normal matrix AᵀA, then solve AᵀA·z = e_derivative
+  const normal: number[][] = [];
+  for (let a = 0; a < terms; a++) {
+    normal.push([]);
+    for (let b = 0; b < terms; b++) {
+      let sum = 0;
+      for (let i = 0; i < windowSize; i++) sum += powers[i][a] * powers[i][b];
+      normal[a].push(sum);
+    }
+  }
+  const rhs = new Array<number>(terms).fill(0);
+  rhs[derivative] = 1;
+  const z = solveLinearSystem(normal, rhs);
+
+  // The derivative at the evaluation point is derivative! times coefficient `derivative`
+  let factor = 1;
+  for (let k = 2; k <= derivative; k++) factor *= k;
+  factor /= Math.pow(span, derivative);
 
-  if (precomputed[windowSize]) {
-    return precomputed[windowSize];
+  for (let i = 0; i < windowSize; i++) {
+    let sum = 0;
+    for (let k = 0; k < terms; k++) sum += z[k] * powers[i][k];
+    coefficients[i] = sum * factor;
   }
+  return coefficients;
+}
+
+/** Reflect an out-of-range index about the end points (without repeating them). */
+function reflectIndex(i: number, n: number): number {
+  const period = 2 * (n - 1);
+  let j = Math.abs(i) % period;
+  if (j >= n) j = period - j;
+  return j;
+}
+
+/**
+ * Solve a small dense linear system by Gaussian elimination with partial pivoting.
+ *
+ * @throws Error if the matrix is (numerically) singular
+ */
+function solveLinearSystem(matrix: number[][], rhs: number[]): number[] {
+  const n = rhs.length;
+  const a = matrix.map((row, i) => [...row, rhs[i]]);
 
-  // Fallback: uniform weights (simple moving average)
-  return Array(windowSize).fill(1 / windowSize);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+
+    // Compare against the column's own scale so badly scaled systems still solve
+    let scale = 0;
+    for (let row = 0; row < n; row++) scale = Math.max(scale, Math.abs(matrix[row][col]));
+    if (Math.abs(a[col][col]) <= scale * 1e-12) throw new Error("Singular linear system");
+
+    for (let row = col + 1; row < n; row++) {
+      const f = a[row][col] / a[col][col];
+      for (let k = col; k <= n; k++) a[row][k] -= f * a[col][k];
+    }
+  }
+
+  const x = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = a[row][n];
+    for (let k = row + 1; k < n; k++) sum -= a[row][k] * x[k];
+    x[row] = sum / a[row][row];
+  }
+  return x;
 }
 
 // ─── Derivatives ───────────────────────────────────────────────────
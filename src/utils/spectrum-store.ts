@@ -0,0 +1,307 @@
+/**
+ * Persistent spectrum library backed by IndexedDB.
+ *
+ * Spectra are split across two object stores: one holds the metadata
+ * (label, units, `meta`, tags, timestamps) and is what `list` reads, the
+ * other holds the x and y arrays, stored natively as Float64Arrays and
+ * only read by `get`. Listing a large library therefore never loads
+ * spectral data.
+ *
+ * @example
+ * ```ts
+ * const store = new SpectrumStore();
+ * await store.save(spectrum, { tags: ["polymer"] });
+ * const infos = await store.list({ search: "polystyrene", tags: ["polymer"] });
+ * const loaded = await store.get(infos[0].id);
+ * ```
+ *
+ * @module spectrum-store
+ */
+
+import type { Spectrum } from "../types";
+
+/** A stored spectrum without its data arrays, as returned by `list`. */
+export interface StoredSpectrumInfo extends Omit<Spectrum, "x" | "y"> {
+  /** Tags attached to the spectrum. */
+  tags: string[];
+  /** Number of data points. */
+  points: number;
+  /** When the spectrum was first saved (ms since epoch). */
+  createdAt: number;
+  /** When the spectrum was last saved or retagged (ms since epoch). */
+  updatedAt: number;
+}
+
+export interface SpectrumStoreOptions {
+  /** Database name. Defaults to "spectraview-library". */
+  name?: string;
+  /** IndexedDB implementation. Defaults to the global `indexedDB`. */
+  indexedDB?: IDBFactory;
+}
+
+export interface SaveOptions {
+  /** Tags to attach. When omitted, a re-saved spectrum keeps its tags. */
+  tags?: string[];
+}
+
+export interface ListQuery {
+  /**
+   * Words that must all appear, case-insensitively, in the label, the
+   * `meta` keys or values, or the tags.
+   */
+  search?: string;
+  /** Tags that must all be attached. */
+  tags?: string[];
+}
+
+/** Record in the metadata store. */
+interface InfoRecord extends StoredSpectrumInfo {
+  /** Lower-cased label, meta and tags, matched by `search`. */
+  searchText: string;
+}
+
+/** Record in the data store. */
+interface DataRecord {
+  id: string;
+  x: Float64Array;
+  y: Float64Array;
+}
+
+const DB_VERSION = 1;
+const INFO_STORE = "spectra";
+const DATA_STORE = "data";
+
+/** Persists spectra, their metadata and tags in IndexedDB. */
+export class SpectrumStore {
+  readonly name: string;
+  private readonly factory: IDBFactory | undefined;
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(options: SpectrumStoreOptions = {}) {
+    this.name = options.name ?? "spectraview-library";
+    this.factory = options.indexedDB ?? globalThis.indexedDB;
+  }
+
+  /**
+   * Save spectra, replacing any stored under the same IDs.
+   *
+   * @returns The stored metadata, in input order
+   */
+  async save(
+    spectra: Spectrum | Spectrum[],
+    options: SaveOptions = {},
+  ): Promise<StoredSpectrumInfo[]> {
+    const list = Array.isArray(spectra) ? spectra : [spectra];
+    const db = await this.open();
+    const tx = db.transaction([INFO_STORE, DATA_STORE], "readwrite");
+    const infoStore = tx.objectStore(INFO_STORE);
+    const dataStore = tx.objectStore(DATA_STORE);
+    const now = Date.now();
+
+    const saved = await Promise.all(
+      list.map(async (spectrum) => {
+        const existing = await request<InfoRecord | undefined>(infoStore.get(spectrum.id));
+        const { x, y, ...rest } = spectrum;
+        const info: StoredSpectrumInfo = {
+          ...rest,
+          tags: normalizeTags(options.tags ?? existing?.tags ?? []),
+          points: Math.min(x.length, y.length),
+          createdAt: existing?.createdAt ?? now,
+          updatedAt: now,
+        };
+        infoStore.put(toRecord(info));
+        dataStore.put({
+          id: spectrum.id,
+          x: x instanceof Float64Array ? x : Float64Array.from(x),
+          y: y instanceof Float64Array ? y : Float64Array.from(y),
+        } satisfies DataRecord);
+        return info;
+      }),
+    );
+
+    await transactionDone(tx);
+    return saved;
+  }
+
+  /** Load a stored spectrum with its data, or undefined if absent. */
+  async get(id: string): Promise<Spectrum | undefined> {
+    return (await this.getMany([id]))[0];
+  }
+
+  /** Load stored spectra with their data, skipping IDs that are absent. */
+  async getMany(ids: string[]): Promise<Spectrum[]> {
+    const db = await this.open();
+    const tx = db.transaction([INFO_STORE, DATA_STORE], "readonly");
+    const infoStore = tx.objectStore(INFO_STORE);
+    const dataStore = tx.objectStore(DATA_STORE);
+
+    const spectra = await Promise.all(
+      ids.map(async (id) => {
+        const [record, data] = await Promise.all([
+          request<InfoRecord | undefined>(infoStore.get(id)),
+          request<DataRecord | undefined>(dataStore.get(id)),
+        ]);
+        return record && data ? toSpectrum(record, data) : undefined;
+      }),
+    );
+    return spectra.filter((s): s is Spectrum => s !== undefined);
+  }
+
+  /**
+   * List stored spectra without loading their data, most recently
+   * updated first.
+   */
+  async list(query: ListQuery = {}): Promise<StoredSpectrumInfo[]> {
+    const db = await this.open();
+    const tx = db.transaction(INFO_STORE, "readonly");
+    const records = await request<InfoRecord[]>(tx.objectStore(INFO_STORE).getAll());
+
+    const words = (query.search ?? "").toLowerCase().split(/\s+/).filter(Boolean);
+    const tags = normalizeTags(query.tags ?? []);
+    return records
+      .filter(
+        (r) =>
+          tags.every((tag) => r.tags.includes(tag)) &&
+          words.every((word) => r.searchText.includes(word)),
+      )
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .map(({ searchText: _searchText, ...info }) => info);
+  }
+
+  /** All tags in use, sorted alphabetically. */
+  async tags(): Promise<string[]> {
+    const infos = await this.list();
+    return [...new Set(infos.flatMap((info) => info.tags))].sort();
+  }
+
+  /** Replace the tags of a stored spectrum. Returns false if it is absent. */
+  async setTags(id: string, tags: string[]): Promise<boolean> {
+    return this.retag(id, () => tags);
+  }
+
+  /** Attach tags to a stored spectrum. Returns false if it is absent. */
+  async addTags(id: string, tags: string[]): Promise<boolean> {
+    return this.retag(id, (current) => [...current, ...tags]);
+  }
+
+  /** Detach tags from a stored spectrum. Returns false if it is absent. */
+  async removeTags(id: string, tags: string[]): Promise<boolean> {
+    const removed = new Set(normalizeTags(tags));
+    return this.retag(id, (current) => current.filter((tag) => !removed.has(tag)));
+  }
+
+  /** Delete stored spectra by ID. */
+  async delete(ids: string | string[]): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction([INFO_STORE, DATA_STORE], "readwrite");
+    for (const id of Array.isArray(ids) ? ids : [ids]) {
+      tx.objectStore(INFO_STORE).delete(id);
+      tx.objectStore(DATA_STORE).delete(id);
+    }
+    await transactionDone(tx);
+  }
+
+  /** Delete every stored spectrum. */
+  async clear(): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction([INFO_STORE, DATA_STORE], "readwrite");
+    tx.objectStore(INFO_STORE).clear();
+    tx.objectStore(DATA_STORE).clear();
+    await transactionDone(tx);
+  }
+
+  /** Close the database connection. It is reopened on the next call. */
+  close(): void {
+    const db = this.db;
+    this.db = null;
+    db?.then((connection) => connection.close()).catch(() => {});
+  }
+
+  private async retag(id: string, change: (tags: string[]) => string[]): Promise<boolean> {
+    const db = await this.open();
+    const tx = db.transaction(INFO_STORE, "readwrite");
+    const store = tx.objectStore(INFO_STORE);
+    const record = await request<InfoRecord | undefined>(store.get(id));
+    if (!record) {
+      await transactionDone(tx);
+      return false;
+    }
+
+    const { searchText: _searchText, ...info } = record;
+    store.put(
+      toRecord({ ...info, tags: normalizeTags(change(record.tags)), updatedAt: Date.now() }),
+    );
+    await transactionDone(tx);
+    return true;
+  }
+
+  /** Open the database, creating its object stores on first use. */
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      const factory = this.factory;
+      if (!factory) {
+        return Promise.reject(new Error("IndexedDB is not available in this environment"));
+      }
+      const openRequest = factory.open(this.name, DB_VERSION);
+      openRequest.onupgradeneeded = () => {
+        const db = openRequest.result;
+        if (!db.objectStoreNames.contains(INFO_STORE)) {
+          db.createObjectStore(INFO_STORE, { keyPath: "id" });
+        }
+        if (!db.objectStoreNames.contains(DATA_STORE)) {
+          db.createObjectStore(DATA_STORE, { keyPath: "id" });
+        }
+      };
+      this.db = request(openRequest);
+      // Let a failed open be retried by the next call
+      this.db.catch(() => {
+        this.db = null;
+      });
+    }
+    return this.db;
+  }
+}
+
+/** Add the search text to stored metadata. */
+function toRecord(info: StoredSpectrumInfo): InfoRecord {
+  const parts = [info.label, ...info.tags];
+  for (const [key, value] of Object.entries(info.meta ?? {})) {
+    parts.push(key, String(value));
+  }
+  return { ...info, searchText: parts.join("\n").toLowerCase() };
+}
+
+/** Rebuild a spectrum from its stored metadata and data. */
+function toSpectrum(record: InfoRecord, data: DataRecord): Spectrum {
+  const {
+    tags: _tags,
+    points: _points,
+    createdAt: _createdAt,
+    updatedAt: _updatedAt,
+    searchText: _searchText,
+    ...spectrum
+  } = record;
+  return { ...spectrum, x: data.x, y: data.y };
+}
+
+/** Trim, drop empty and duplicate tags, and sort. */
+function normalizeTags(tags: string[]): string[] {
+  return [...new Set(tags.map((tag) => tag.trim()).filter(Boolean))].sort();
+}
+
+/** Resolve with the result of an IndexedDB request. */
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+/** Resolve when a transaction commits. */
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("Transaction aborted"));
+  });
+}